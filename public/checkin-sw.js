@@ -0,0 +1,216 @@
+/*
+ * Service worker for the day-of check-in screen (/dashboard/checkin).
+ *
+ * It keeps the screen working without a connection: the page, its scripts and the guest
+ * list are served from cache when the network is down, and arrivals posted to
+ * /api/checkin/sync are queued in IndexedDB and replayed once the connection is back.
+ * Registered with the check-in page's scope, so other dashboard pages are unaffected.
+ */
+
+const CACHE_NAME = 'checkin-v1'
+const DB_NAME = 'checkin'
+const STORE_NAME = 'arrivals'
+const SYNC_TAG = 'checkin-sync'
+const SYNC_PATH = '/api/checkin/sync'
+
+self.addEventListener('install', () => {
+  self.skipWaiting()
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys()
+    await Promise.all(names
+      .filter(name => name.startsWith('checkin-') && name !== CACHE_NAME)
+      .map(name => caches.delete(name)))
+    await self.clients.claim()
+  })())
+})
+
+// IndexedDB queue of sync request bodies, oldest first
+
+function openQueue() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'key', autoIncrement: true })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withStore(mode, run) {
+  const database = await openQueue()
+  try {
+    return await new Promise((resolve, reject) => {
+      const transaction = database.transaction(STORE_NAME, mode)
+      const result = run(transaction.objectStore(STORE_NAME))
+      transaction.oncomplete = () => resolve(result && 'result' in result ? result.result : undefined)
+      transaction.onerror = () => reject(transaction.error)
+    })
+  } finally {
+    database.close()
+  }
+}
+
+const enqueue = (body) => withStore('readwrite', store => store.add({ body, queuedAt: Date.now() }))
+const readQueue = () => withStore('readonly', store => store.getAll())
+const dequeue = (key) => withStore('readwrite', store => store.delete(key))
+
+async function notifyClients(message) {
+  const clients = await self.clients.matchAll({ type: 'window' })
+  clients.forEach(client => client.postMessage(message))
+}
+
+async function reportQueue() {
+  const queued = await readQueue()
+  await notifyClients({
+    type: 'checkin-queue',
+    arrivals: queued.flatMap(entry => entry.body.arrivals)
+  })
+}
+
+let flushing = null
+
+/**
+ * Replay queued arrivals in order. Stops at the first network or server failure so
+ * arrivals stay in order; a request the server rejects as invalid can never succeed and
+ * is dropped. Signed-out requests stay queued until the usher signs in again.
+ */
+function flushQueue() {
+  if (flushing) return flushing
+
+  flushing = (async () => {
+    const results = []
+    try {
+      for (const entry of await readQueue()) {
+        let response
+        try {
+          response = await fetch(SYNC_PATH, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            credentials: 'same-origin',
+            body: JSON.stringify(entry.body)
+          })
+        } catch (error) {
+          break
+        }
+
+        if (response.status === 401 || response.status >= 500) break
+
+        if (response.ok) {
+          const result = await response.json()
+          results.push(...result.data.results)
+        }
+        await dequeue(entry.key)
+      }
+    } finally {
+      flushing = null
+    }
+
+    await notifyClients({ type: 'checkin-synced', results })
+    await reportQueue()
+  })()
+
+  return flushing
+}
+
+/**
+ * Send arrivals straight to the server, or queue them when it can't be reached.
+ * A queued request is answered with 202 and no results.
+ */
+async function sendOrQueue(request) {
+  const body = await request.clone().json()
+
+  try {
+    const response = await fetch(request)
+    if (response.status < 500) return response
+  } catch (error) {
+    // Offline: queue below
+  }
+
+  await enqueue(body)
+  if (self.registration.sync) {
+    try {
+      await self.registration.sync.register(SYNC_TAG)
+    } catch (error) {
+      // Background sync is not available; the page asks for a flush when it comes back online
+    }
+  }
+  await reportQueue()
+
+  return new Response(JSON.stringify({ success: true, data: { queued: true, results: [] } }), {
+    status: 202,
+    headers: { 'Content-Type': 'application/json' }
+  })
+}
+
+async function networkFirst(request, { ignoreSearch = false } = {}) {
+  const cache = await caches.open(CACHE_NAME)
+  try {
+    const response = await fetch(request)
+    if (response.ok) {
+      await cache.put(request, response.clone())
+    }
+    return response
+  } catch (error) {
+    const cached = await cache.match(request, { ignoreSearch })
+    if (cached) return cached
+    throw error
+  }
+}
+
+// Build output under /_next/static is named by content hash, so a cached copy never goes stale
+async function cacheFirst(request) {
+  const cache = await caches.open(CACHE_NAME)
+  const cached = await cache.match(request)
+  if (cached) return cached
+
+  const response = await fetch(request)
+  if (response.ok) {
+    await cache.put(request, response.clone())
+  }
+  return response
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  const url = new URL(request.url)
+  if (url.origin !== self.location.origin) return
+
+  if (request.method === 'POST' && url.pathname === SYNC_PATH) {
+    event.respondWith(sendOrQueue(request))
+    return
+  }
+
+  if (request.method !== 'GET') return
+
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(request))
+    return
+  }
+
+  if (request.mode === 'navigate' && url.pathname.startsWith('/dashboard/checkin')) {
+    event.respondWith(networkFirst(request, { ignoreSearch: true }))
+    return
+  }
+
+  if (/^\/api\/events\/[^/]+\/checkin$/.test(url.pathname) || url.pathname === '/api/auth/session') {
+    event.respondWith(networkFirst(request))
+  }
+})
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === SYNC_TAG) {
+    event.waitUntil(flushQueue())
+  }
+})
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'checkin-flush') {
+    event.waitUntil(flushQueue())
+  } else if (event.data?.type === 'checkin-status') {
+    event.waitUntil(reportQueue())
+  }
+})
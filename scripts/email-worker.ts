@@ -0,0 +1,34 @@
+/**
+ * Long-running email outbox worker for hosts without a scheduler:
+ *   npm run worker:email
+ * Polls for due emails and sends them; safe to run alongside the cron route.
+ */
+import { EmailOutbox } from '@/lib/services/email-outbox'
+
+const POLL_INTERVAL_MS = 5 * 1000
+
+let stopping = false
+process.on('SIGINT', () => { stopping = true })
+process.on('SIGTERM', () => { stopping = true })
+
+async function main() {
+  console.log('Email worker started')
+
+  while (!stopping) {
+    try {
+      const result = await EmailOutbox.processDue()
+      if (result.claimed > 0) {
+        console.log(`Email worker: ${result.sent} sent, ${result.retrying} retrying, ${result.failed} failed`)
+      }
+    } catch (error) {
+      console.error('Email worker error:', error)
+    }
+
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS))
+  }
+
+  console.log('Email worker stopped')
+  process.exit(0)
+}
+
+main()
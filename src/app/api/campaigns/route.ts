@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { SendCommunicationSchema } from '@/lib/validations/schemas'
+import { CampaignError, CampaignService } from '@/lib/services/campaigns'
+import { TemplateNotFoundError } from '@/lib/services/templates'
+import { z } from 'zod'
+
+// POST /api/campaigns - Queue a template for the chosen guests, or report what a send would do
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validatedData = SendCommunicationSchema.parse(body)
+
+    const result = await CampaignService.send(validatedData, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    })
+
+  } catch (error) {
+    console.error('Campaign send error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid campaign data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    if (error instanceof TemplateNotFoundError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 404 })
+    }
+
+    if (error instanceof CampaignError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to send campaign'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { CheckInService } from '@/lib/services/check-in'
+import { CheckInLookupSchema } from '@/lib/validations/schemas'
+import { z } from 'zod'
+
+// POST /api/checkin/lookup - Find the guests on a scanned invitation. The token is posted so it stays out of access logs.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { eventId, token } = CheckInLookupSchema.parse(body)
+
+    const guestIds = await CheckInService.lookupInvitation(eventId, token)
+    if (guestIds.length === 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'This invitation is not for this event'
+      }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { guestIds }
+    })
+
+  } catch (error) {
+    console.error('Check-in lookup error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid scan',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to look up invitation'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { CheckInService } from '@/lib/services/check-in'
+import { CheckInSyncSchema } from '@/lib/validations/schemas'
+import { z } from 'zod'
+
+// POST /api/checkin/sync - Record arrivals from a check-in device, including ones it queued while offline
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { eventId, arrivals } = CheckInSyncSchema.parse(body)
+
+    const results = await CheckInService.recordArrivals(eventId, arrivals, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      data: { results }
+    })
+
+  } catch (error) {
+    console.error('Check-in sync error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid arrivals',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to record arrivals'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { CheckInService } from '@/lib/services/check-in'
+import { z } from 'zod'
+
+const EventIdSchema = z.string().uuid('Invalid event ID')
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// GET /api/events/[id]/checkin - Ceremonies, guests, seating and arrivals for the check-in screen
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    const id = EventIdSchema.parse((await params).id)
+    const roster = await CheckInService.getRoster(id)
+
+    return NextResponse.json({
+      success: true,
+      data: { roster }
+    })
+
+  } catch (error) {
+    console.error('Check-in roster error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid event ID',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to load check-in list'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { EmailTrackingService } from '@/lib/services/email-tracking'
+import { EmailOutbox } from '@/lib/services/email-outbox'
+import { z } from 'zod'
+
+const EventIdSchema = z.string().uuid('Invalid event ID')
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// GET /api/events/[id]/communications/stats - Delivery, open and click rates per template
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    const id = EventIdSchema.parse((await params).id)
+    const [templates, queue] = await Promise.all([
+      EmailTrackingService.getTemplateStats(id),
+      EmailOutbox.getStats(id)
+    ])
+
+    return NextResponse.json({
+      success: true,
+      data: { templates, queue }
+    })
+
+  } catch (error) {
+    console.error('Communication stats error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid event ID',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to load communication stats'
+    }, { status: 500 })
+  }
+}
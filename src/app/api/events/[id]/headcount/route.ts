@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { RSVPService } from '@/lib/services/rsvp'
+import { z } from 'zod'
+
+const EventIdSchema = z.string().uuid('Invalid event ID')
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// GET /api/events/[id]/headcount - Attendance and meal totals for each ceremony
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    const id = EventIdSchema.parse((await params).id)
+    const ceremonies = await RSVPService.getCeremonyReport(id)
+
+    return NextResponse.json({
+      success: true,
+      data: { ceremonies }
+    })
+
+  } catch (error) {
+    console.error('Headcount report error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid event ID',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to build headcount report'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { UpdateReminderRuleSchema } from '@/lib/validations/schemas'
+import {
+  ReminderRuleError,
+  ReminderRuleNotFoundError,
+  ReminderRuleService,
+  serializeReminderRule
+} from '@/lib/services/reminder-rules'
+import { TemplateNotFoundError } from '@/lib/services/templates'
+import { z } from 'zod'
+
+const ParamsSchema = z.object({
+  id: z.string().uuid('Invalid event ID'),
+  ruleId: z.string().uuid('Invalid reminder rule ID')
+})
+
+type RouteContext = { params: Promise<{ id: string; ruleId: string }> }
+
+// PATCH /api/events/[id]/reminder-rules/[ruleId] - Partially update a reminder rule
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    const { id, ruleId } = ParamsSchema.parse(await params)
+    const body = await request.json()
+    const validatedData = UpdateReminderRuleSchema.parse(body)
+
+    const rule = await ReminderRuleService.update(id, ruleId, validatedData)
+
+    return NextResponse.json({
+      success: true,
+      data: { rule: serializeReminderRule(rule) }
+    })
+
+  } catch (error) {
+    console.error('Reminder rule update error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid reminder rule data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    if (error instanceof ReminderRuleNotFoundError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 404 })
+    }
+
+    if (error instanceof ReminderRuleError || error instanceof TemplateNotFoundError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update reminder rule'
+    }, { status: 500 })
+  }
+}
+
+// DELETE /api/events/[id]/reminder-rules/[ruleId] - Delete a reminder rule
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    const { id, ruleId } = ParamsSchema.parse(await params)
+    await ReminderRuleService.remove(id, ruleId)
+
+    return NextResponse.json({
+      success: true,
+      data: { id: ruleId }
+    })
+
+  } catch (error) {
+    console.error('Reminder rule deletion error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid reminder rule ID',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    if (error instanceof ReminderRuleNotFoundError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to delete reminder rule'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { CreateReminderRuleSchema } from '@/lib/validations/schemas'
+import {
+  ReminderRuleError,
+  ReminderRuleService,
+  serializeReminderRule
+} from '@/lib/services/reminder-rules'
+import { TemplateNotFoundError } from '@/lib/services/templates'
+import { z } from 'zod'
+
+const EventIdSchema = z.string().uuid('Invalid event ID')
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// GET /api/events/[id]/reminder-rules - List the event's automatic reminder rules
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    const id = EventIdSchema.parse((await params).id)
+    const rules = await ReminderRuleService.list(id)
+
+    return NextResponse.json({
+      success: true,
+      data: { rules }
+    })
+
+  } catch (error) {
+    console.error('Reminder rule list error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid event ID',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to list reminder rules'
+    }, { status: 500 })
+  }
+}
+
+// POST /api/events/[id]/reminder-rules - Create a reminder rule
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    const id = EventIdSchema.parse((await params).id)
+    const body = await request.json()
+    const validatedData = CreateReminderRuleSchema.parse({ ...body, eventId: id })
+
+    const rule = await ReminderRuleService.create(validatedData, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      data: { rule: serializeReminderRule(rule) }
+    })
+
+  } catch (error) {
+    console.error('Reminder rule creation error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid reminder rule data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    if (error instanceof ReminderRuleError || error instanceof TemplateNotFoundError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to create reminder rule'
+    }, { status: 500 })
+  }
+}
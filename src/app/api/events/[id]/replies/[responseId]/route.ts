@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { ReviewReplySchema } from '@/lib/validations/schemas'
+import {
+  InboundReplyError,
+  InboundReplyNotFoundError,
+  InboundReplyService
+} from '@/lib/services/inbound-replies'
+import { z } from 'zod'
+
+const ParamsSchema = z.object({
+  id: z.string().uuid('Invalid event ID'),
+  responseId: z.string().uuid('Invalid reply ID')
+})
+
+type RouteContext = { params: Promise<{ id: string; responseId: string }> }
+
+// PATCH /api/events/[id]/replies/[responseId] - Approve (applying it to the party's RSVP) or reject a pending reply
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    const { id, responseId } = ParamsSchema.parse(await params)
+    const body = await request.json()
+    const { action, ...correction } = ReviewReplySchema.parse(body)
+
+    if (action === 'approve') {
+      await InboundReplyService.approve(id, responseId, session.user.id, correction)
+    } else {
+      await InboundReplyService.reject(id, responseId, session.user.id)
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { id: responseId, status: action === 'approve' ? 'applied' : 'rejected' }
+    })
+
+  } catch (error) {
+    console.error('Reply review error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid reply review',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    if (error instanceof InboundReplyNotFoundError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 404 })
+    }
+
+    if (error instanceof InboundReplyError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to review reply'
+    }, { status: 500 })
+  }
+}
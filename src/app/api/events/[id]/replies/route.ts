@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { ReplyStatusSchema } from '@/lib/validations/schemas'
+import { InboundReplyService } from '@/lib/services/inbound-replies'
+import { z } from 'zod'
+
+const EventIdSchema = z.string().uuid('Invalid event ID')
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// GET /api/events/[id]/replies - List RSVP replies received by email, WhatsApp or SMS (?status=pending|applied|rejected)
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    const id = EventIdSchema.parse((await params).id)
+    const status = ReplyStatusSchema.parse(request.nextUrl.searchParams.get('status') ?? 'pending')
+    const replies = await InboundReplyService.list(id, status)
+
+    return NextResponse.json({
+      success: true,
+      data: { replies }
+    })
+
+  } catch (error) {
+    console.error('Reply list error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid reply filter',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to list replies'
+    }, { status: 500 })
+  }
+}
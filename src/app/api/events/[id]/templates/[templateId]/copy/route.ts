@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import {
+  CommunicationTemplateService,
+  TemplateNotFoundError,
+  serializeTemplate
+} from '@/lib/services/templates'
+import { z } from 'zod'
+
+const ParamsSchema = z.object({
+  id: z.string().uuid('Invalid event ID'),
+  templateId: z.string().uuid('Invalid template ID')
+})
+
+type RouteContext = { params: Promise<{ id: string; templateId: string }> }
+
+// POST /api/events/[id]/templates/[templateId]/copy - Copy a template, such as one shared by every event, into the event's own templates
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    const { id, templateId } = ParamsSchema.parse(await params)
+    const template = await CommunicationTemplateService.copyToEvent(id, templateId, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      data: { template: serializeTemplate(template) }
+    })
+
+  } catch (error) {
+    console.error('Template copy error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid template ID',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    if (error instanceof TemplateNotFoundError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to copy template'
+    }, { status: 500 })
+  }
+}
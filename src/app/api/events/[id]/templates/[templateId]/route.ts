@@ -0,0 +1,179 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { UpdateTemplateSchema } from '@/lib/validations/schemas'
+import {
+  CommunicationTemplateService,
+  InvalidTemplateError,
+  SharedTemplateError,
+  TemplateNotFoundError,
+  serializeTemplate
+} from '@/lib/services/templates'
+import { z } from 'zod'
+
+const ParamsSchema = z.object({
+  id: z.string().uuid('Invalid event ID'),
+  templateId: z.string().uuid('Invalid template ID')
+})
+
+type RouteContext = { params: Promise<{ id: string; templateId: string }> }
+
+// GET /api/events/[id]/templates/[templateId] - Get a template
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    const { id, templateId } = ParamsSchema.parse(await params)
+    const template = await CommunicationTemplateService.getForEvent(id, templateId)
+
+    return NextResponse.json({
+      success: true,
+      data: { template: serializeTemplate(template) }
+    })
+
+  } catch (error) {
+    console.error('Template retrieval error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid template ID',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    if (error instanceof TemplateNotFoundError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to retrieve template'
+    }, { status: 500 })
+  }
+}
+
+// PATCH /api/events/[id]/templates/[templateId] - Partially update a template
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    const { id, templateId } = ParamsSchema.parse(await params)
+    const body = await request.json()
+    const validatedData = UpdateTemplateSchema.parse(body)
+
+    await CommunicationTemplateService.getEditableForEvent(id, templateId)
+    const template = await CommunicationTemplateService.update(templateId, validatedData)
+
+    return NextResponse.json({
+      success: true,
+      data: { template: serializeTemplate(template) }
+    })
+
+  } catch (error) {
+    console.error('Template update error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid template data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    if (error instanceof TemplateNotFoundError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 404 })
+    }
+
+    if (error instanceof InvalidTemplateError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        details: error.problems
+      }, { status: 400 })
+    }
+
+    if (error instanceof SharedTemplateError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update template'
+    }, { status: 500 })
+  }
+}
+
+// DELETE /api/events/[id]/templates/[templateId] - Delete a template, or deactivate it if messages were sent from it
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    const { id, templateId } = ParamsSchema.parse(await params)
+
+    await CommunicationTemplateService.getEditableForEvent(id, templateId)
+    const result = await CommunicationTemplateService.remove(templateId)
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    })
+
+  } catch (error) {
+    console.error('Template deletion error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid template ID',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    if (error instanceof TemplateNotFoundError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 404 })
+    }
+
+    if (error instanceof SharedTemplateError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to delete template'
+    }, { status: 500 })
+  }
+}
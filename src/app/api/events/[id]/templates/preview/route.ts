@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { TemplatePreviewSchema } from '@/lib/validations/schemas'
+import { CommunicationTemplateService, TemplateNotFoundError } from '@/lib/services/templates'
+import { TemplateError } from '@/lib/services/template-engine'
+import { z } from 'zod'
+
+const EventIdSchema = z.string().uuid('Invalid event ID')
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// POST /api/events/[id]/templates/preview - Render a template for one of the event's guests
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    const id = EventIdSchema.parse((await params).id)
+    const body = await request.json()
+    const validatedData = TemplatePreviewSchema.parse(body)
+
+    const { subject, html, text } = await CommunicationTemplateService.preview(id, validatedData)
+
+    return NextResponse.json({
+      success: true,
+      data: { subject, html, text }
+    })
+
+  } catch (error) {
+    console.error('Template preview error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid preview request',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    if (error instanceof TemplateNotFoundError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 404 })
+    }
+
+    if (error instanceof TemplateError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to preview template'
+    }, { status: 500 })
+  }
+}
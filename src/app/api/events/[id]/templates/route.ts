@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { CreateTemplateSchema, TemplateFilterSchema } from '@/lib/validations/schemas'
+import {
+  CommunicationTemplateService,
+  InvalidTemplateError,
+  serializeTemplate
+} from '@/lib/services/templates'
+import { z } from 'zod'
+
+const EventIdSchema = z.string().uuid('Invalid event ID')
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// GET /api/events/[id]/templates - List the event's templates and the built-in defaults
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    const id = EventIdSchema.parse((await params).id)
+    const { searchParams } = new URL(request.url)
+    const filters = TemplateFilterSchema.parse(Object.fromEntries(searchParams.entries()))
+
+    const templates = await CommunicationTemplateService.list(id, filters)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        templates: templates.map(serializeTemplate),
+        builtIn: CommunicationTemplateService.getBuiltInTemplates()
+      }
+    })
+
+  } catch (error) {
+    console.error('Template list error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid template filters',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to list templates'
+    }, { status: 500 })
+  }
+}
+
+// POST /api/events/[id]/templates - Create a template for the event
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    const id = EventIdSchema.parse((await params).id)
+    const body = await request.json()
+    const validatedData = CreateTemplateSchema.parse({ ...body, eventId: id })
+
+    const template = await CommunicationTemplateService.create(validatedData, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      data: { template: serializeTemplate(template) }
+    })
+
+  } catch (error) {
+    console.error('Template creation error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid template data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    if (error instanceof InvalidTemplateError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        details: error.problems
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to create template'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { TemplatePreviewSchema } from '@/lib/validations/schemas'
+import { CommunicationTemplateService, TemplateNotFoundError } from '@/lib/services/templates'
+import { TemplateError } from '@/lib/services/template-engine'
+import { z } from 'zod'
+
+const EventIdSchema = z.string().uuid('Invalid event ID')
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// POST /api/events/[id]/templates/test - Email a rendered template to the signed-in planner
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    if (!session.user.email) {
+      return NextResponse.json({
+        success: false,
+        error: 'Your account has no email address'
+      }, { status: 400 })
+    }
+
+    const id = EventIdSchema.parse((await params).id)
+    const body = await request.json()
+    const validatedData = TemplatePreviewSchema.parse(body)
+
+    const result = await CommunicationTemplateService.sendTest(id, validatedData, session.user.email)
+
+    if (!result.success) {
+      return NextResponse.json({
+        success: false,
+        error: result.error ?? 'Failed to send test email'
+      }, { status: 502 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        to: session.user.email,
+        subject: result.subject,
+        provider: result.provider,
+        messageId: result.messageId
+      }
+    })
+
+  } catch (error) {
+    console.error('Template test send error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid test request',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    if (error instanceof TemplateNotFoundError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 404 })
+    }
+
+    if (error instanceof TemplateError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to send test email'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { auditLogs } from '@/lib/db/schema'
+import { InvitationQrService, InvitationQrNotFoundError } from '@/lib/services/invitation-qr'
+import { QrImageFormatSchema } from '@/lib/validations/schemas'
+import { z } from 'zod'
+
+const GuestIdSchema = z.string().uuid('Invalid guest ID')
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// POST /api/guests/[id]/qr?format=svg|png - Issue a new RSVP link for a guest's printed invitation and download it as a QR code
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    const id = GuestIdSchema.parse((await params).id)
+    const { searchParams } = new URL(request.url)
+    const format = QrImageFormatSchema.default('png').parse(searchParams.get('format') ?? undefined)
+
+    const invitation = await InvitationQrService.issueForGuest(id)
+
+    await db.insert(auditLogs).values({
+      event_id: invitation.eventId,
+      user_id: session.user.id,
+      action: 'guest.qr.issue',
+      resource: 'guest',
+      resource_id: invitation.guestId,
+      details: JSON.stringify({ name: invitation.name, format }),
+      severity: 'low',
+      ip_address: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip'),
+      user_agent: request.headers.get('user-agent')
+    })
+
+    const body = format === 'svg'
+      ? await InvitationQrService.toSvg(invitation.rsvpUrl)
+      : new Uint8Array(await InvitationQrService.toPng(invitation.rsvpUrl))
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': format === 'svg' ? 'image/svg+xml' : 'image/png',
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(`${invitation.fileName}.${format}`)}`,
+        'Cache-Control': 'no-store'
+      }
+    })
+
+  } catch (error) {
+    console.error('Guest QR code error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    if (error instanceof InvitationQrNotFoundError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to create QR code'
+    }, { status: 500 })
+  }
+}
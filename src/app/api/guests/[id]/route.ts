@@ -0,0 +1,293 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { guests, rsvpTokens, rsvpResponses, type Guest, type NewGuest } from '@/lib/db/schema'
+import { UpdateGuestSchema } from '@/lib/validations/schemas'
+import { EmailSuppressionService } from '@/lib/services/email-suppression'
+import { eq } from 'drizzle-orm'
+import { z } from 'zod'
+
+const GuestIdSchema = z.string().uuid('Invalid guest ID')
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+function serializeGuest(guest: Guest) {
+  return {
+    id: guest.id,
+    eventId: guest.event_id,
+    firstName: guest.first_name,
+    lastName: guest.last_name,
+    email: guest.email,
+    emailInvalid: guest.email_invalid,
+    emailInvalidReason: guest.email_invalid_reason,
+    phone: guest.phone,
+    address: guest.address,
+    side: guest.side,
+    relationship: guest.relationship,
+    ageGroup: guest.age_group,
+    rsvpStatus: guest.rsvp_status,
+    rsvpSubmittedAt: guest.rsvp_submitted_at,
+    rsvpDeadlineOverride: guest.rsvp_deadline_override,
+    plusOneAllowed: guest.plus_one_allowed,
+    plusOneName: guest.plus_one_name,
+    plusOneEmail: guest.plus_one_email,
+    plusOnePhone: guest.plus_one_phone,
+    dietaryRequirements: guest.dietary_requirements,
+    specialRequests: guest.special_requests,
+    accessibilityNeeds: guest.accessibility_needs,
+    languagePreference: guest.language_preference,
+    preferredChannel: guest.preferred_channel,
+    unsubscribedAt: guest.unsubscribed_at,
+    mutedCategories: guest.muted_categories ? JSON.parse(guest.muted_categories) : [],
+    invitationSent: guest.invitation_sent,
+    invitationSentAt: guest.invitation_sent_at,
+    reminderSent: guest.reminder_sent,
+    reminderSentAt: guest.reminder_sent_at,
+    notes: guest.notes,
+    tags: guest.tags ? JSON.parse(guest.tags) : [],
+    createdAt: guest.created_at,
+    updatedAt: guest.updated_at
+  }
+}
+
+// GET /api/guests/[id] - Get a guest with ceremony, accommodation and transport details
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    const id = GuestIdSchema.parse((await params).id)
+
+    const guest = await db.query.guests.findFirst({
+      where: eq(guests.id, id),
+      with: {
+        guestCeremonies: { with: { ceremony: true } },
+        guestAccommodations: true,
+        guestTransportation: true
+      }
+    })
+
+    if (!guest) {
+      return NextResponse.json({
+        success: false,
+        error: 'Guest not found'
+      }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        guest: {
+          ...serializeGuest(guest),
+          ceremonies: guest.guestCeremonies.map(gc => ({
+            id: gc.id,
+            ceremonyId: gc.ceremony_id,
+            ceremonyName: gc.ceremony.name,
+            attendanceStatus: gc.attendance_status,
+            mealPreference: gc.meal_preference,
+            plusOneAttendance: gc.plus_one_attendance,
+            plusOneMealPreference: gc.plus_one_meal_preference,
+            specialRequirements: gc.special_requirements,
+            tableName: gc.table_name,
+            checkedInAt: gc.checked_in_at,
+            plusOneCheckedInAt: gc.plus_one_checked_in_at
+          })),
+          accommodations: guest.guestAccommodations.map(ga => ({
+            id: ga.id,
+            accommodationId: ga.accommodation_id,
+            source: ga.source,
+            preference: ga.preference,
+            roomTypeId: ga.room_type_id,
+            roomNumber: ga.room_number,
+            checkInDate: ga.check_in_date,
+            checkOutDate: ga.check_out_date,
+            numberOfGuests: ga.number_of_guests,
+            bookingStatus: ga.booking_status,
+            bookingReference: ga.booking_reference,
+            specialRequests: ga.special_requests
+          })),
+          transportation: guest.guestTransportation.map(gt => ({
+            id: gt.id,
+            transportationId: gt.transportation_id,
+            source: gt.source,
+            preference: gt.preference,
+            travelMode: gt.travel_mode,
+            flightNumber: gt.flight_number,
+            airline: gt.airline,
+            arrivalAirport: gt.arrival_airport,
+            departureAirport: gt.departure_airport,
+            arrivalAt: gt.arrival_at,
+            departureAt: gt.departure_at,
+            pickupLocation: gt.pickup_location,
+            dropoffLocation: gt.dropoff_location,
+            pickupTime: gt.pickup_time,
+            numberOfPassengers: gt.number_of_passengers,
+            bookingStatus: gt.booking_status,
+            bookingReference: gt.booking_reference,
+            specialRequests: gt.special_requests
+          }))
+        }
+      }
+    })
+
+  } catch (error) {
+    console.error('Guest retrieval error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid guest ID',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to retrieve guest'
+    }, { status: 500 })
+  }
+}
+
+// PATCH /api/guests/[id] - Partially update a guest
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    const id = GuestIdSchema.parse((await params).id)
+    const body = await request.json()
+    const validatedData = UpdateGuestSchema.parse(body)
+
+    // Only touch columns that were present in the request body
+    const updates: Partial<NewGuest> = {}
+    if (validatedData.firstName !== undefined) updates.first_name = validatedData.firstName
+    if (validatedData.lastName !== undefined) updates.last_name = validatedData.lastName
+    if (validatedData.email !== undefined) updates.email = validatedData.email
+    if (validatedData.phone !== undefined) updates.phone = validatedData.phone
+    if (validatedData.address !== undefined) updates.address = validatedData.address
+    if (validatedData.side !== undefined) updates.side = validatedData.side
+    if (validatedData.relationship !== undefined) updates.relationship = validatedData.relationship
+    if (validatedData.ageGroup !== undefined) updates.age_group = validatedData.ageGroup
+    if (validatedData.rsvpStatus !== undefined) updates.rsvp_status = validatedData.rsvpStatus
+    if (validatedData.plusOneAllowed !== undefined) updates.plus_one_allowed = validatedData.plusOneAllowed
+    if (validatedData.plusOneName !== undefined) updates.plus_one_name = validatedData.plusOneName
+    if (validatedData.plusOneEmail !== undefined) updates.plus_one_email = validatedData.plusOneEmail
+    if (validatedData.plusOnePhone !== undefined) updates.plus_one_phone = validatedData.plusOnePhone
+    if (validatedData.dietaryRequirements !== undefined) updates.dietary_requirements = validatedData.dietaryRequirements
+    if (validatedData.specialRequests !== undefined) updates.special_requests = validatedData.specialRequests
+    if (validatedData.accessibilityNeeds !== undefined) updates.accessibility_needs = validatedData.accessibilityNeeds
+    if (validatedData.languagePreference !== undefined) updates.language_preference = validatedData.languagePreference
+    if (validatedData.preferredChannel !== undefined) updates.preferred_channel = validatedData.preferredChannel
+    if (validatedData.notes !== undefined) updates.notes = validatedData.notes
+    if (validatedData.tags !== undefined) updates.tags = JSON.stringify(validatedData.tags)
+
+    let [updatedGuest] = await db.update(guests)
+      .set({
+        ...updates,
+        updated_at: new Date()
+      })
+      .where(eq(guests.id, id))
+      .returning()
+
+    if (!updatedGuest) {
+      return NextResponse.json({
+        success: false,
+        error: 'Guest not found'
+      }, { status: 404 })
+    }
+
+    // A corrected address is deliverable again unless it is suppressed too
+    if (validatedData.email !== undefined) {
+      updatedGuest = await EmailSuppressionService.refreshGuestFlag(id) ?? updatedGuest
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        guest: serializeGuest(updatedGuest)
+      }
+    })
+
+  } catch (error) {
+    console.error('Guest update error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid guest data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update guest'
+    }, { status: 500 })
+  }
+}
+
+// DELETE /api/guests/[id] - Delete a guest with their tokens and RSVP history
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    const id = GuestIdSchema.parse((await params).id)
+
+    const deleted = await db.transaction(async (tx) => {
+      await tx.delete(rsvpTokens).where(eq(rsvpTokens.guest_id, id))
+      await tx.delete(rsvpResponses).where(eq(rsvpResponses.guest_id, id))
+
+      // Remaining guest-owned rows (ceremonies, accommodations, transport) cascade
+      return tx.delete(guests)
+        .where(eq(guests.id, id))
+        .returning({ id: guests.id })
+    })
+
+    if (deleted.length === 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'Guest not found'
+      }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: deleted[0].id
+      }
+    })
+
+  } catch (error) {
+    console.error('Guest deletion error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid guest ID',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to delete guest'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { guests, auditLogs } from '@/lib/db/schema'
+import { RSVPTokenService } from '@/lib/services/rsvp-tokens'
+import { eq } from 'drizzle-orm'
+import { z } from 'zod'
+
+const GuestIdSchema = z.string().uuid('Invalid guest ID')
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// POST /api/guests/[id]/rsvp-code - Create a short code for a guest's printed invitation
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    const id = GuestIdSchema.parse((await params).id)
+
+    const issued = await db.transaction(async (tx) => {
+      const [guest] = await tx.select().from(guests).where(eq(guests.id, id)).limit(1)
+      if (!guest) return null
+
+      const result = await RSVPTokenService.issueCode(guest.id, tx)
+
+      // The code itself is not logged: it works like a password until the invitation expires
+      await tx.insert(auditLogs).values({
+        event_id: guest.event_id,
+        user_id: session.user.id,
+        action: 'guest.rsvp_code.issue',
+        resource: 'guest',
+        resource_id: guest.id,
+        details: JSON.stringify({
+          guestName: `${guest.first_name} ${guest.last_name}`,
+          newLink: result.isNewLink,
+          expiresAt: result.expiresAt
+        }),
+        severity: 'low',
+        ip_address: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip'),
+        user_agent: request.headers.get('user-agent')
+      })
+
+      return result
+    })
+
+    if (!issued) {
+      return NextResponse.json({
+        success: false,
+        error: 'Guest not found'
+      }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        code: issued.code,
+        codeEntryUrl: RSVPTokenService.getCodeEntryUrl(),
+        rsvpUrl: RSVPTokenService.generateRSVPUrl(issued.token),
+        expiresAt: issued.expiresAt,
+        // The guest had no active invitation, so one was issued with the code
+        isNewLink: issued.isNewLink
+      }
+    })
+
+  } catch (error) {
+    console.error('RSVP code error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid guest ID',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to create RSVP code'
+    }, { status: 500 })
+  }
+}
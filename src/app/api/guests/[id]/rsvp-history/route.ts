@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { RSVPService } from '@/lib/services/rsvp'
+import { z } from 'zod'
+
+const GuestIdSchema = z.string().uuid('Invalid guest ID')
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// GET /api/guests/[id]/rsvp-history - List every version of a guest's RSVP with what changed
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    const id = GuestIdSchema.parse((await params).id)
+    const history = await RSVPService.getHistory(id)
+
+    return NextResponse.json({
+      success: true,
+      data: { history }
+    })
+
+  } catch (error) {
+    console.error('RSVP history error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid guest ID',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch RSVP history'
+    }, { status: 500 })
+  }
+}
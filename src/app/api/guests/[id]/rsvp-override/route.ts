@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { guests, auditLogs } from '@/lib/db/schema'
+import { RsvpDeadlineOverrideSchema } from '@/lib/validations/schemas'
+import { eq } from 'drizzle-orm'
+import { z } from 'zod'
+
+const GuestIdSchema = z.string().uuid('Invalid guest ID')
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+/**
+ * Set or clear a guest's late-response override and record who changed it
+ */
+async function setOverride(
+  guestId: string,
+  until: Date | null,
+  request: NextRequest,
+  userId: string,
+  reason?: string
+) {
+  return db.transaction(async (tx) => {
+    const [guest] = await tx.update(guests)
+      .set({ rsvp_deadline_override: until, updated_at: new Date() })
+      .where(eq(guests.id, guestId))
+      .returning()
+    if (!guest) return null
+
+    await tx.insert(auditLogs).values({
+      event_id: guest.event_id,
+      user_id: userId,
+      action: until ? 'guest.rsvp_override.grant' : 'guest.rsvp_override.revoke',
+      resource: 'guest',
+      resource_id: guest.id,
+      details: JSON.stringify({
+        guestName: `${guest.first_name} ${guest.last_name}`,
+        until,
+        reason
+      }),
+      severity: 'low',
+      ip_address: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip'),
+      user_agent: request.headers.get('user-agent')
+    })
+
+    return guest
+  })
+}
+
+// POST /api/guests/[id]/rsvp-override - Let a guest respond after the RSVP deadline
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    const id = GuestIdSchema.parse((await params).id)
+    const body = await request.json()
+    const { until, reason } = RsvpDeadlineOverrideSchema.parse(body)
+
+    const guest = await setOverride(id, until, request, session.user.id, reason)
+    if (!guest) {
+      return NextResponse.json({
+        success: false,
+        error: 'Guest not found'
+      }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        guestId: guest.id,
+        rsvpDeadlineOverride: guest.rsvp_deadline_override
+      }
+    })
+
+  } catch (error) {
+    console.error('RSVP override error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid override data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to grant late RSVP'
+    }, { status: 500 })
+  }
+}
+
+// DELETE /api/guests/[id]/rsvp-override - Remove a guest's late-response override
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    const id = GuestIdSchema.parse((await params).id)
+
+    const guest = await setOverride(id, null, request, session.user.id)
+    if (!guest) {
+      return NextResponse.json({
+        success: false,
+        error: 'Guest not found'
+      }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        guestId: guest.id,
+        rsvpDeadlineOverride: null
+      }
+    })
+
+  } catch (error) {
+    console.error('RSVP override removal error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid guest ID',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to remove late RSVP'
+    }, { status: 500 })
+  }
+}
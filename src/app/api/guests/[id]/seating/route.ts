@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { CheckInService, CheckInNotFoundError } from '@/lib/services/check-in'
+import { UpdateSeatingSchema } from '@/lib/validations/schemas'
+import { z } from 'zod'
+
+const GuestIdSchema = z.string().uuid('Invalid guest ID')
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// PUT /api/guests/[id]/seating - Set or clear the guest's table for one ceremony
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    const id = GuestIdSchema.parse((await params).id)
+    const body = await request.json()
+    const seating = UpdateSeatingSchema.parse(body)
+
+    await CheckInService.updateSeating(id, seating)
+
+    return NextResponse.json({
+      success: true,
+      data: { ceremonyId: seating.ceremonyId, tableName: seating.tableName || null }
+    })
+
+  } catch (error) {
+    console.error('Seating update error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid seating',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    if (error instanceof CheckInNotFoundError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update seating'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { GuestDuplicateService, DEFAULT_DUPLICATE_THRESHOLD } from '@/lib/services/guest-duplicates'
+import { z } from 'zod'
+
+const DuplicateQuerySchema = z.object({
+  eventId: z.string().uuid(),
+  threshold: z.string().transform(Number).pipe(z.number().min(0).max(1)).optional()
+})
+
+// GET /api/guests/duplicates - List likely duplicate guest pairs for an event
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { eventId, threshold } = DuplicateQuerySchema.parse(Object.fromEntries(searchParams.entries()))
+
+    const candidates = await GuestDuplicateService.findDuplicates(
+      eventId,
+      threshold ?? DEFAULT_DUPLICATE_THRESHOLD
+    )
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        candidates,
+        total: candidates.length
+      }
+    })
+
+  } catch (error) {
+    console.error('Duplicate detection error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid query parameters',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to find duplicate guests'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { GuestExportService } from '@/lib/services/guest-export'
+import { parseCustomFieldFilters } from '@/lib/services/custom-fields'
+import { z } from 'zod'
+
+const ExportQuerySchema = z.object({
+  eventId: z.string().uuid(),
+  search: z.string().optional(),
+  side: z.enum(['bride', 'groom', 'mutual']).optional(),
+  rsvpStatus: z.enum(['pending', 'attending', 'not_attending', 'maybe']).optional(),
+  deliverability: z.enum(['deliverable', 'undeliverable']).optional()
+})
+
+// GET /api/guests/export - Download an event's guest list as CSV, honouring the list filters and cf.<name> filters
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { eventId, ...filters } = ExportQuerySchema.parse(Object.fromEntries(searchParams.entries()))
+
+    const csv = await GuestExportService.exportCsv(eventId, {
+      ...filters,
+      customFields: parseCustomFieldFilters(searchParams)
+    })
+
+    // Excel needs the byte order mark to read the file as UTF-8
+    return new NextResponse(`\uFEFF${csv}`, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="guests-${new Date().toISOString().slice(0, 10)}.csv"`
+      }
+    })
+
+  } catch (error) {
+    console.error('Guest export error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid query parameters',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to export guests'
+    }, { status: 500 })
+  }
+}
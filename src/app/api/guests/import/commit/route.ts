@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { events } from '@/lib/db/schema'
+import { BulkGuestImportSchema } from '@/lib/validations/schemas'
+import { GuestImportService } from '@/lib/services/guest-import'
+import { eq } from 'drizzle-orm'
+import { z } from 'zod'
+
+// POST /api/guests/import/commit - Insert previously validated guests and issue RSVP tokens
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validatedData = BulkGuestImportSchema.parse(body)
+
+    const [event] = await db.select({ id: events.id })
+      .from(events)
+      .where(eq(events.id, validatedData.eventId))
+      .limit(1)
+
+    if (!event) {
+      return NextResponse.json({
+        success: false,
+        error: 'Event not found'
+      }, { status: 404 })
+    }
+
+    const result = await GuestImportService.commit(validatedData)
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    })
+
+  } catch (error) {
+    console.error('Guest import commit error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid import data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to import guests'
+    }, { status: 500 })
+  }
+}
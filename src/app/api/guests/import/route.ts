@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { events } from '@/lib/db/schema'
+import { GuestImportService, ImportFileError } from '@/lib/services/guest-import'
+import { eq } from 'drizzle-orm'
+import { z } from 'zod'
+
+// POST /api/guests/import - Parse an uploaded guest list and return a validation preview
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+    const eventId = z.string().uuid().parse(formData.get('eventId'))
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({
+        success: false,
+        error: 'A CSV or XLSX file is required'
+      }, { status: 400 })
+    }
+
+    const [event] = await db.select({ id: events.id })
+      .from(events)
+      .where(eq(events.id, eventId))
+      .limit(1)
+
+    if (!event) {
+      return NextResponse.json({
+        success: false,
+        error: 'Event not found'
+      }, { status: 404 })
+    }
+
+    const table = await GuestImportService.parseFile(file)
+    const result = await GuestImportService.validate(eventId, table)
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    })
+
+  } catch (error) {
+    console.error('Guest import preview error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid event ID',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    if (error instanceof ImportFileError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to process import file'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { MergeGuestsSchema } from '@/lib/validations/schemas'
+import { GuestDuplicateService, GuestMergeError } from '@/lib/services/guest-duplicates'
+import { z } from 'zod'
+
+// POST /api/guests/merge - Merge a duplicate guest into the record being kept
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { keepGuestId, mergeGuestId } = MergeGuestsSchema.parse(body)
+
+    const guest = await GuestDuplicateService.merge(keepGuestId, mergeGuestId, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        guest: {
+          id: guest.id,
+          firstName: guest.first_name,
+          lastName: guest.last_name,
+          email: guest.email,
+          phone: guest.phone,
+          rsvpStatus: guest.rsvp_status
+        },
+        mergedGuestId: mergeGuestId
+      }
+    })
+
+  } catch (error) {
+    console.error('Guest merge error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid merge request',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    if (error instanceof GuestMergeError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to merge guests'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { auditLogs } from '@/lib/db/schema'
+import { InvitationQrService, InvitationQrError } from '@/lib/services/invitation-qr'
+import { InvitationQrExportSchema } from '@/lib/validations/schemas'
+import { z } from 'zod'
+
+// POST /api/guests/qr - Issue new RSVP links for printed invitations and download their QR codes as a PDF label sheet or a ZIP
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const options = InvitationQrExportSchema.parse(body)
+
+    const invitations = await InvitationQrService.issueForEvent(options.eventId, {
+      guestIds: options.guestIds,
+      includeCode: options.includeCode,
+      expirationDays: options.expirationDays
+    })
+
+    await db.insert(auditLogs).values({
+      event_id: options.eventId,
+      user_id: session.user.id,
+      action: 'guest.qr.export',
+      resource: 'event',
+      resource_id: options.eventId,
+      details: JSON.stringify({
+        format: options.format,
+        invitations: invitations.length,
+        includeCode: options.includeCode,
+        expirationDays: options.expirationDays
+      }),
+      severity: 'low',
+      ip_address: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip'),
+      user_agent: request.headers.get('user-agent')
+    })
+
+    const date = new Date().toISOString().slice(0, 10)
+    const file = options.format === 'pdf'
+      ? await InvitationQrService.buildLabelSheet(invitations, options)
+      : new Uint8Array(await InvitationQrService.buildZip(invitations, options.imageFormat))
+
+    return new NextResponse(file, {
+      headers: {
+        'Content-Type': options.format === 'pdf' ? 'application/pdf' : 'application/zip',
+        'Content-Disposition': `attachment; filename="invitation-qr-codes-${date}.${options.format}"`,
+        'Cache-Control': 'no-store'
+      }
+    })
+
+  } catch (error) {
+    console.error('Invitation QR export error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid export options',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    if (error instanceof InvitationQrError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to export QR codes'
+    }, { status: 500 })
+  }
+}
@@ -5,6 +5,7 @@ import { db } from '@/lib/db'
 import { guests, events } from '@/lib/db/schema'
 import { CreateGuestSchema, UpdateGuestSchema } from '@/lib/validations/schemas'
 import { RSVPTokenService } from '@/lib/services/rsvp-tokens'
+import { CustomFieldService, parseCustomFieldFilters } from '@/lib/services/custom-fields'
 import { eq, and, like, or, desc, asc } from 'drizzle-orm'
 import { z } from 'zod'
 
@@ -13,6 +14,7 @@ const GuestQuerySchema = z.object({
   search: z.string().optional(),
   side: z.enum(['bride', 'groom', 'mutual']).optional(),
   rsvpStatus: z.enum(['pending', 'attending', 'not_attending', 'maybe']).optional(),
+  deliverability: z.enum(['deliverable', 'undeliverable']).optional(),
   page: z.string().transform(Number).pipe(z.number().min(1)).default('1'),
   limit: z.string().transform(Number).pipe(z.number().min(1).max(100)).default('25'),
   sortBy: z.enum(['name', 'email', 'side', 'rsvpStatus', 'createdAt']).default('name'),
@@ -32,8 +34,12 @@ export async function GET(request: NextRequest) {
 
     const { searchParams } = new URL(request.url)
     const params = Object.fromEntries(searchParams.entries())
-    const { eventId, search, side, rsvpStatus, page, limit, sortBy, sortOrder } = 
+    const { eventId, search, side, rsvpStatus, deliverability, page, limit, sortBy, sortOrder } = 
       GuestQuerySchema.parse(params)
+    const customFieldFilters = parseCustomFieldFilters(searchParams)
+
+    // Custom questions are defined per event, so their columns only apply to an event's list
+    const customFieldDefinitions = eventId ? await CustomFieldService.getDefinitions(eventId) : []
 
     // Build query conditions
     const conditions = []
@@ -60,6 +66,13 @@ export async function GET(request: NextRequest) {
       conditions.push(eq(guests.rsvp_status, rsvpStatus))
     }
 
+    if (deliverability) {
+      // Undeliverable guests have an address that bounced or complained
+      conditions.push(eq(guests.email_invalid, deliverability === 'undeliverable'))
+    }
+
+    conditions.push(...CustomFieldService.buildFilterConditions(customFieldDefinitions, customFieldFilters))
+
     // Calculate offset
     const offset = (page - 1) * limit
 
@@ -90,14 +103,19 @@ export async function GET(request: NextRequest) {
       firstName: guests.first_name,
       lastName: guests.last_name,
       email: guests.email,
+      emailInvalid: guests.email_invalid,
+      emailInvalidReason: guests.email_invalid_reason,
       phone: guests.phone,
       side: guests.side,
       relationship: guests.relationship,
       rsvpStatus: guests.rsvp_status,
       plusOneAllowed: guests.plus_one_allowed,
+      plusOneName: guests.plus_one_name,
       dietaryRequirements: guests.dietary_requirements,
       specialRequests: guests.special_requests,
       address: guests.address,
+      invitationSent: guests.invitation_sent,
+      tags: guests.tags,
       createdAt: guests.created_at,
       updatedAt: guests.updated_at
     })
@@ -115,10 +133,17 @@ export async function GET(request: NextRequest) {
     const total = totalResult.length
     const totalPages = Math.ceil(total / limit)
 
+    const customFieldAnswers = await CustomFieldService.getAnswers(guestsList.map(guest => guest.id))
+
     return NextResponse.json({
       success: true,
       data: {
-        guests: guestsList,
+        guests: guestsList.map(guest => ({
+          ...guest,
+          tags: guest.tags ? JSON.parse(guest.tags) : [],
+          customFields: customFieldAnswers[guest.id] ?? {}
+        })),
+        customFieldDefinitions,
         pagination: {
           page,
           limit,
@@ -175,6 +200,7 @@ export async function POST(request: NextRequest) {
       dietary_requirements: validatedData.dietaryRequirements,
       special_requests: validatedData.specialRequests,
       address: validatedData.address,
+      preferred_channel: validatedData.preferredChannel,
       created_at: new Date(),
       updated_at: new Date()
     }).returning()
@@ -198,6 +224,7 @@ export async function POST(request: NextRequest) {
           dietaryRequirements: newGuest.dietary_requirements,
           specialRequests: newGuest.special_requests,
           address: newGuest.address,
+          preferredChannel: newGuest.preferred_channel,
           createdAt: newGuest.created_at,
           updatedAt: newGuest.updated_at
         },
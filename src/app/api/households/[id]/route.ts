@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { UpdateHouseholdSchema } from '@/lib/validations/schemas'
+import { HouseholdService, HouseholdError } from '@/lib/services/households'
+import { z } from 'zod'
+
+const HouseholdIdSchema = z.string().uuid('Invalid household ID')
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// GET /api/households/[id] - Get a household with its members
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    const id = HouseholdIdSchema.parse((await params).id)
+    const household = await HouseholdService.get(id)
+
+    if (!household) {
+      return NextResponse.json({
+        success: false,
+        error: 'Household not found'
+      }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { household }
+    })
+
+  } catch (error) {
+    console.error('Get household error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid household ID',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch household'
+    }, { status: 500 })
+  }
+}
+
+// PATCH /api/households/[id] - Rename a household or change its members
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    const id = HouseholdIdSchema.parse((await params).id)
+    const body = await request.json()
+    const validatedData = UpdateHouseholdSchema.parse(body)
+
+    const household = await HouseholdService.update(id, validatedData)
+
+    if (!household) {
+      return NextResponse.json({
+        success: false,
+        error: 'Household not found'
+      }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { household }
+    })
+
+  } catch (error) {
+    console.error('Household update error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid household data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    if (error instanceof HouseholdError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update household'
+    }, { status: 500 })
+  }
+}
+
+// DELETE /api/households/[id] - Dissolve a household, keeping its members as guests
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    const id = HouseholdIdSchema.parse((await params).id)
+    const deleted = await HouseholdService.delete(id)
+
+    if (!deleted) {
+      return NextResponse.json({
+        success: false,
+        error: 'Household not found'
+      }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { id }
+    })
+
+  } catch (error) {
+    console.error('Household deletion error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid household ID',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to delete household'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { CreateHouseholdSchema } from '@/lib/validations/schemas'
+import { HouseholdService, HouseholdError } from '@/lib/services/households'
+import { RSVPTokenService } from '@/lib/services/rsvp-tokens'
+import { z } from 'zod'
+
+const HouseholdQuerySchema = z.object({
+  eventId: z.string().uuid()
+})
+
+// GET /api/households - List households for an event
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { eventId } = HouseholdQuerySchema.parse(Object.fromEntries(searchParams.entries()))
+
+    const households = await HouseholdService.list(eventId)
+
+    return NextResponse.json({
+      success: true,
+      data: { households }
+    })
+
+  } catch (error) {
+    console.error('Get households error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid query parameters',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch households'
+    }, { status: 500 })
+  }
+}
+
+// POST /api/households - Group guests into a household with a shared RSVP link
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validatedData = CreateHouseholdSchema.parse(body)
+
+    const { household, token } = await HouseholdService.create(validatedData)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        household,
+        rsvpUrl: RSVPTokenService.generateRSVPUrl(token)
+      }
+    })
+
+  } catch (error) {
+    console.error('Create household error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid household data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    if (error instanceof HouseholdError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to create household'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  GuestPreferencesService,
+  GuestPreferencesError,
+  GuestPreferencesNotFoundError
+} from '@/lib/services/guest-preferences'
+import { UpdatePreferencesSchema } from '@/lib/validations/schemas'
+import { z } from 'zod'
+
+type RouteContext = { params: Promise<{ token: string }> }
+
+// GET /api/preferences/[token] - A guest's communication preferences
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const preferences = await GuestPreferencesService.get((await params).token)
+
+    return NextResponse.json({
+      success: true,
+      data: { preferences }
+    })
+
+  } catch (error) {
+    if (error instanceof GuestPreferencesNotFoundError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 404 })
+    }
+
+    console.error('Get preferences error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to load preferences'
+    }, { status: 500 })
+  }
+}
+
+// PUT /api/preferences/[token] - Change a guest's channel, language, categories or subscription
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const body = await request.json()
+    const data = UpdatePreferencesSchema.parse(body)
+
+    const preferences = await GuestPreferencesService.update((await params).token, data)
+
+    return NextResponse.json({
+      success: true,
+      data: { preferences }
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    if (error instanceof GuestPreferencesNotFoundError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 404 })
+    }
+
+    if (error instanceof GuestPreferencesError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 400 })
+    }
+
+    console.error('Update preferences error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to save preferences'
+    }, { status: 500 })
+  }
+}
+
+// POST /api/preferences/[token] - One-click unsubscribe (RFC 8058), sent by mail clients
+// from the List-Unsubscribe header
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    await GuestPreferencesService.unsubscribe((await params).token)
+
+    return NextResponse.json({
+      success: true,
+      data: { unsubscribed: true }
+    })
+
+  } catch (error) {
+    if (error instanceof GuestPreferencesNotFoundError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 404 })
+    }
+
+    console.error('Unsubscribe error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to unsubscribe'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { RSVPTokenService } from '@/lib/services/rsvp-tokens'
+import { CalendarService } from '@/lib/services/calendar'
+import { getPartyGuestIds } from '@/lib/services/rsvp'
+
+type RouteContext = { params: Promise<{ token: string }> }
+
+// Subscribed calendars refetch the feed this often
+const REFRESH_INTERVAL = 'PT6H'
+
+// GET /api/rsvp/calendar/[token].ics - Calendar feed of the ceremonies the party accepted
+// (?guestId= narrows it to one member)
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const token = (await params).token.replace(/\.ics$/i, '')
+    const tokenResult = await RSVPTokenService.validateToken(token)
+    if (!tokenResult.isValid || !tokenResult.guest) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid or expired RSVP token'
+      }, { status: 404 })
+    }
+
+    const partyIds = getPartyGuestIds({ guest: tokenResult.guest, household: tokenResult.household })
+    const guestId = new URL(request.url).searchParams.get('guestId')
+    if (guestId && !partyIds.includes(guestId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Guest not found'
+      }, { status: 404 })
+    }
+
+    const { calendar } = await CalendarService.getItinerary(
+      tokenResult.guest.eventId,
+      guestId ? [guestId] : partyIds,
+      { refreshInterval: REFRESH_INTERVAL }
+    )
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="itinerary.ics"',
+        // Always rebuilt, so changed ceremony times reach subscribers on their next refresh
+        'Cache-Control': 'no-cache'
+      }
+    })
+
+  } catch (error) {
+    console.error('Calendar feed error:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to build calendar'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { RSVPTokenService } from '@/lib/services/rsvp-tokens'
+import { RateLimiter, getClientIp } from '@/lib/rate-limit'
+import { z } from 'zod'
+
+const ExchangeCodeSchema = z.object({
+  code: z.string().min(1, 'Code is required').max(20)
+})
+
+const WINDOW_MS = 15 * 60 * 1000
+
+// Wrong codes allowed per address in each 15 minutes. There is no limit across addresses,
+// which anyone could use up to lock every guest out: guessing is kept impractical by the
+// codes' length (31^8, or at least 31^6, possibilities) rather than by a shared cap.
+const failuresByAddress = new RateLimiter(10, WINDOW_MS)
+
+function tooManyAttempts(retryAfterMs: number) {
+  return NextResponse.json({
+    success: false,
+    error: 'Too many attempts. Please wait a few minutes and try again.'
+  }, {
+    status: 429,
+    headers: { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) }
+  })
+}
+
+// POST /api/rsvp/code - Trade the code from a printed invitation for an RSVP link
+export async function POST(request: NextRequest) {
+  try {
+    const ip = getClientIp(request.headers)
+    const retryAfter = failuresByAddress.retryAfter(ip)
+    if (retryAfter > 0) return tooManyAttempts(retryAfter)
+
+    const body = await request.json()
+    const { code } = ExchangeCodeSchema.parse(body)
+
+    const token = await RSVPTokenService.exchangeCode(code)
+    if (!token) {
+      failuresByAddress.hit(ip)
+      return NextResponse.json({
+        success: false,
+        error: 'We couldn\'t find an invitation with that code. Please check it and try again.'
+      }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        token,
+        rsvpUrl: RSVPTokenService.generateRSVPUrl(token)
+      }
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    console.error('RSVP code error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 })
+  }
+}
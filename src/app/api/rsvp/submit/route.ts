@@ -1,9 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { db } from '@/lib/db'
-import { guests, rsvpResponses } from '@/lib/db/schema'
 import { RSVPTokenService } from '@/lib/services/rsvp-tokens'
-import { RsvpStage1Schema, RsvpStage2Schema } from '@/lib/validations/schemas'
-import { eq } from 'drizzle-orm'
+import {
+  RSVPService,
+  RsvpSubmissionError,
+  EVENT_CLOSED_MESSAGE,
+  DEADLINE_PASSED_MESSAGE
+} from '@/lib/services/rsvp'
+import { CeremonyFullError, type WaitlistEntry } from '@/lib/services/ceremony-capacity'
+import { RsvpConfirmationService } from '@/lib/services/rsvp-confirmation'
+import { PartyRsvpStage1Schema, PartyRsvpStage2Schema } from '@/lib/validations/schemas'
 import { z } from 'zod'
 
 const SubmitRSVPSchema = z.object({
@@ -12,6 +17,11 @@ const SubmitRSVPSchema = z.object({
   data: z.record(z.any())
 })
 
+// A single guest's answer is accepted as a party of one
+function toPartyData(data: Record<string, any>) {
+  return Array.isArray(data.members) ? data : { members: [data] }
+}
+
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
@@ -22,65 +32,61 @@ export async function POST(request: NextRequest) {
     if (!tokenResult.isValid || !tokenResult.guest) {
       return NextResponse.json({
         success: false,
-        error: 'Invalid or expired RSVP token'
+        error: tokenResult.error === EVENT_CLOSED_MESSAGE
+          ? EVENT_CLOSED_MESSAGE
+          : 'Invalid or expired RSVP token'
       }, { status: 400 })
     }
 
-    const guest = tokenResult.guest
-
-    // Validate stage-specific data
-    let validatedData
-    if (stage === 1) {
-      validatedData = RsvpStage1Schema.parse(data)
-    } else if (stage === 2) {
-      validatedData = RsvpStage2Schema.parse(data)
-    } else {
+    if (tokenResult.isReadOnly) {
       return NextResponse.json({
         success: false,
-        error: 'Invalid stage number'
+        error: DEADLINE_PASSED_MESSAGE
       }, { status: 400 })
     }
 
+    const guest = tokenResult.guest
+    const party = { guest, household: tokenResult.household }
+
     // Get client IP and user agent for tracking
-    const ip = request.headers.get('x-forwarded-for') || 
-      request.headers.get('x-real-ip') || 
-      'unknown'
-    const userAgent = request.headers.get('user-agent') || 'unknown'
+    const meta = {
+      ipAddress: request.headers.get('x-forwarded-for') ||
+        request.headers.get('x-real-ip') ||
+        'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown'
+    }
 
-    // Update guest status based on stage 1 response
+    let anyoneAttending = false
+    let waitlist: WaitlistEntry[] = []
     if (stage === 1) {
-      await db.update(guests)
-        .set({
-          rsvp_status: (validatedData as any).attending ? 'attending' : 'not_attending',
-          updated_at: new Date()
-        })
-        .where(eq(guests.id, guest.id))
+      const validatedData = PartyRsvpStage1Schema.parse(toPartyData(data))
+      await RSVPService.submitStage1(party, validatedData, meta)
+      anyoneAttending = validatedData.members.some(member => member.attending)
+    } else {
+      const validatedData = PartyRsvpStage2Schema.parse(toPartyData(data))
+      waitlist = await RSVPService.submitStage2(party, validatedData, meta)
     }
 
-    // Store RSVP response
-    await db.insert(rsvpResponses).values({
-      guest_id: guest.id,
-      event_id: guest.eventId,
-      stage,
-      response_data: JSON.stringify(validatedData),
-      ip_address: ip,
-      user_agent: userAgent,
-      submitted_at: new Date()
-    })
-
-    // Mark token as used if this is the final stage
-    if (stage === 2 || (stage === 1 && !(validatedData as any).attending)) {
+    // Record when the party finished answering; the link keeps working for revisions until the deadline
+    const nextStep = stage === 1 && anyoneAttending ? 'stage2' : 'complete'
+    if (nextStep === 'complete') {
       await RSVPTokenService.markTokenAsUsed(token)
-    }
 
-    // Determine next step
-    const nextStep = stage === 1 && (validatedData as any).attending ? 'stage2' : 'complete'
+      // The RSVP is saved either way, so a confirmation that cannot be queued is only logged
+      try {
+        await RsvpConfirmationService.queue(party, token)
+      } catch (error) {
+        console.error('RSVP confirmation error:', error)
+      }
+    }
 
     return NextResponse.json({
       success: true,
       data: {
         message: 'RSVP submitted successfully',
         nextStep,
+        // Ceremonies that were full when the party said yes
+        waitlist,
         guest: {
           id: guest.id,
           firstName: guest.firstName,
@@ -100,6 +106,13 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
+    if (error instanceof RsvpSubmissionError || error instanceof CeremonyFullError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message
+      }, { status: 400 })
+    }
+
     return NextResponse.json({
       success: false,
       error: 'Failed to submit RSVP'
@@ -124,29 +137,29 @@ export async function GET(request: NextRequest) {
     if (!tokenResult.isValid || !tokenResult.guest) {
       return NextResponse.json({
         success: false,
-        error: 'Invalid or expired RSVP token'
+        error: tokenResult.error === EVENT_CLOSED_MESSAGE
+          ? EVENT_CLOSED_MESSAGE
+          : 'Invalid or expired RSVP token'
       }, { status: 400 })
     }
 
-    const guest = tokenResult.guest
-
-    // Get existing RSVP responses
-    const responses = await db.select()
-      .from(rsvpResponses)
-      .where(eq(rsvpResponses.guest_id, guest.id))
-
-    const existingResponses = responses.reduce((acc, response) => {
-      acc[`stage${response.stage}`] = JSON.parse(response.response_data)
-      return acc
-    }, {} as Record<string, any>)
+    const invitation = await RSVPService.getInvitation({
+      guest: tokenResult.guest,
+      household: tokenResult.household
+    })
+    if (!invitation) {
+      return NextResponse.json({
+        success: false,
+        error: 'Event not found'
+      }, { status: 404 })
+    }
 
     return NextResponse.json({
       success: true,
       data: {
-        guest,
-        existingResponses,
-        hasStage1: !!existingResponses.stage1,
-        hasStage2: !!existingResponses.stage2
+        invitation,
+        hasStage1: invitation.members.some(member => member.stage1 !== null),
+        hasStage2: invitation.members.some(member => member.stage2 !== null)
       }
     })
 
@@ -157,4 +170,4 @@ export async function GET(request: NextRequest) {
       error: 'Failed to retrieve RSVP data'
     }, { status: 500 })
   }
-}
\ No newline at end of file
+}
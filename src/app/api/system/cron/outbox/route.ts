@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAuthorizedCronRequest } from '@/lib/cron'
+import { EmailOutbox } from '@/lib/services/email-outbox'
+
+// Leave headroom under the function timeout for the last batch to finish
+const TIME_BUDGET_MS = 45 * 1000
+
+export const maxDuration = 60
+
+// GET /api/system/cron/outbox - Send queued emails that are due (run every minute by the scheduler)
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({
+      success: false,
+      error: 'Unauthorized'
+    }, { status: 401 })
+  }
+
+  try {
+    const result = await EmailOutbox.processDue({ timeBudgetMs: TIME_BUDGET_MS })
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    })
+
+  } catch (error) {
+    console.error('Email outbox run error:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to process the email outbox'
+    }, { status: 500 })
+  }
+}
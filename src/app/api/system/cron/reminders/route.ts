@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAuthorizedCronRequest } from '@/lib/cron'
+import { ReminderRuleService } from '@/lib/services/reminder-rules'
+
+export const maxDuration = 60
+
+// GET /api/system/cron/reminders - Queue the automatic reminders that are due (run every 15 minutes by the scheduler)
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({
+      success: false,
+      error: 'Unauthorized'
+    }, { status: 401 })
+  }
+
+  try {
+    const result = await ReminderRuleService.runDue()
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    })
+
+  } catch (error) {
+    console.error('Reminder scheduler run error:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to run reminder rules'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { EmailTrackingService, verifyTrackingSignature } from '@/lib/services/email-tracking'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// GET /api/track/click/[id] - Record a link click and redirect to the original destination
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  const destination = request.nextUrl.searchParams.get('url')
+
+  // Only links we signed are followed, so this cannot be used as an open redirect
+  if (!destination || !/^https?:\/\//i.test(destination) ||
+    !verifyTrackingSignature(request.nextUrl.searchParams.get('sig'), id, destination)) {
+    return NextResponse.json({
+      success: false,
+      error: 'Invalid tracking link'
+    }, { status: 400 })
+  }
+
+  try {
+    await EmailTrackingService.recordClick(id)
+  } catch (error) {
+    // The guest still gets where they were going
+    console.error('Click tracking error:', error)
+  }
+
+  return NextResponse.redirect(destination, 302)
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { EmailTrackingService, TRACKING_PIXEL, verifyTrackingSignature } from '@/lib/services/email-tracking'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// GET /api/track/open/[id] - Tracking pixel; records the first time an email is opened
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+
+  // The pixel is served whatever happens, so a broken link never shows in the email
+  if (verifyTrackingSignature(request.nextUrl.searchParams.get('sig'), id)) {
+    try {
+      await EmailTrackingService.recordOpen(id)
+    } catch (error) {
+      console.error('Open tracking error:', error)
+    }
+  }
+
+  return new NextResponse(TRACKING_PIXEL, {
+    headers: {
+      'Content-Type': 'image/gif',
+      'Cache-Control': 'no-store, no-cache, must-revalidate, private'
+    }
+  })
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { hasSharedSecret } from '@/lib/webhooks'
+import { InboundEmailSchema } from '@/lib/validations/schemas'
+import { InboundReplyService } from '@/lib/services/inbound-replies'
+import { htmlToText } from '@/lib/services/template-engine'
+import { z } from 'zod'
+
+// Message-IDs in In-Reply-To and References, which may hold several separated by spaces
+function messageIds(...values: Array<string | string[] | undefined>): string[] {
+  return values
+    .flatMap(value => Array.isArray(value) ? value : [value ?? ''])
+    .flatMap(value => value.split(/\s+/))
+    .filter(Boolean)
+}
+
+// POST /api/webhooks/inbound-email - Guest replies to invitation emails, posted by the mail provider's inbound parser
+export async function POST(request: NextRequest) {
+  const secret = process.env.INBOUND_WEBHOOK_SECRET
+  if (!secret) {
+    return NextResponse.json({
+      success: false,
+      error: 'Webhook not configured'
+    }, { status: 503 })
+  }
+
+  if (!hasSharedSecret(request, secret)) {
+    return NextResponse.json({
+      success: false,
+      error: 'Invalid token'
+    }, { status: 401 })
+  }
+
+  try {
+    const body = await request.json()
+    const email = InboundEmailSchema.parse(body)
+
+    const result = await InboundReplyService.receive({
+      channel: 'email',
+      from: email.from,
+      to: Array.isArray(email.to) ? email.to : email.to ? email.to.split(',') : [],
+      subject: email.subject ?? null,
+      text: email.text || htmlToText(email.html!),
+      messageId: email.messageId ?? null,
+      inReplyTo: messageIds(email.inReplyTo, email.references)
+    })
+
+    // Replies that match no guest are acknowledged too, so the provider does not retry them
+    return NextResponse.json({
+      success: true,
+      data: { outcome: result.outcome, responseId: result.responseId ?? null }
+    })
+
+  } catch (error) {
+    console.error('Inbound email webhook error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid email',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid JSON'
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to process webhook'
+    }, { status: 500 })
+  }
+}
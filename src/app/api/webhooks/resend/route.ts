@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifySvixSignature } from '@/lib/webhooks'
+import { EmailTrackingService, type ResendWebhookEvent } from '@/lib/services/email-tracking'
+
+// POST /api/webhooks/resend - Delivery, bounce, open and click events from Resend
+export async function POST(request: NextRequest) {
+  const secret = process.env.RESEND_WEBHOOK_SECRET
+  if (!secret) {
+    return NextResponse.json({
+      success: false,
+      error: 'Webhook not configured'
+    }, { status: 503 })
+  }
+
+  // The signature covers the raw body, so read it before parsing
+  const payload = await request.text()
+  if (!verifySvixSignature(payload, request.headers, secret)) {
+    return NextResponse.json({
+      success: false,
+      error: 'Invalid signature'
+    }, { status: 401 })
+  }
+
+  try {
+    const event = JSON.parse(payload) as ResendWebhookEvent
+    if (!event?.data?.email_id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid event'
+      }, { status: 400 })
+    }
+
+    const communicationId = await EmailTrackingService.applyResendEvent(event)
+
+    // Unknown emails are acknowledged too, otherwise Resend keeps retrying them
+    return NextResponse.json({
+      success: true,
+      data: { communicationId }
+    })
+
+  } catch (error) {
+    console.error('Resend webhook error:', error)
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid JSON'
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to process webhook'
+    }, { status: 500 })
+  }
+}
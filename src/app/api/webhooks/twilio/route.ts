@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import twilio from 'twilio'
+import { InboundReplyService } from '@/lib/services/inbound-replies'
+
+// Twilio expects TwiML back; an empty response sends no automatic reply
+const EMPTY_TWIML = '<?xml version="1.0" encoding="UTF-8"?><Response></Response>'
+
+// POST /api/webhooks/twilio - Incoming SMS and WhatsApp messages from Twilio
+export async function POST(request: NextRequest) {
+  const authToken = process.env.TWILIO_AUTH_TOKEN
+  if (!authToken) {
+    return NextResponse.json({
+      success: false,
+      error: 'Webhook not configured'
+    }, { status: 503 })
+  }
+
+  try {
+    const form = await request.formData()
+    const params: Record<string, string> = {}
+    form.forEach((value, key) => {
+      if (typeof value === 'string') params[key] = value
+    })
+
+    // Twilio signs the public URL it posted to, which differs from request.url behind a proxy
+    const url = new URL(request.nextUrl.pathname + request.nextUrl.search, process.env.NEXT_PUBLIC_APP_URL || request.url)
+    const signature = request.headers.get('x-twilio-signature') ?? ''
+    if (!twilio.validateRequest(authToken, signature, url.toString(), params)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid signature'
+      }, { status: 401 })
+    }
+
+    if (params.From && params.Body) {
+      const isWhatsApp = params.From.startsWith('whatsapp:')
+      await InboundReplyService.receive({
+        channel: isWhatsApp ? 'whatsapp' : 'sms',
+        from: params.From.replace(/^whatsapp:/, ''),
+        text: params.Body,
+        messageId: params.MessageSid ?? null,
+        inReplyTo: params.OriginalRepliedMessageSid ? [params.OriginalRepliedMessageSid] : []
+      })
+    }
+
+    return new NextResponse(EMPTY_TWIML, {
+      headers: { 'Content-Type': 'text/xml' }
+    })
+
+  } catch (error) {
+    console.error('Twilio webhook error:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to process webhook'
+    }, { status: 500 })
+  }
+}
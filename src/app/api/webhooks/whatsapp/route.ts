@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyHubSignature } from '@/lib/webhooks'
+import { InboundReplyService } from '@/lib/services/inbound-replies'
+
+interface WhatsAppWebhookMessage {
+  from: string
+  id: string
+  type: string
+  text?: { body: string }
+  button?: { text: string }
+  interactive?: { button_reply?: { title: string }; list_reply?: { title: string } }
+  // Present when the guest replied to a specific message
+  context?: { id: string }
+}
+
+interface WhatsAppWebhookPayload {
+  object?: string
+  entry?: Array<{
+    changes?: Array<{
+      value?: { messages?: WhatsAppWebhookMessage[] }
+    }>
+  }>
+}
+
+// The words of a message; quick-reply buttons and list picks send their label
+function messageText(message: WhatsAppWebhookMessage): string | null {
+  return message.text?.body
+    ?? message.button?.text
+    ?? message.interactive?.button_reply?.title
+    ?? message.interactive?.list_reply?.title
+    ?? null
+}
+
+// GET /api/webhooks/whatsapp - Subscription check from the Meta app dashboard
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+  const verifyToken = process.env.WHATSAPP_WEBHOOK_VERIFY_TOKEN
+
+  if (!verifyToken || params.get('hub.mode') !== 'subscribe' || params.get('hub.verify_token') !== verifyToken) {
+    return NextResponse.json({
+      success: false,
+      error: 'Verification failed'
+    }, { status: 403 })
+  }
+
+  return new NextResponse(params.get('hub.challenge') ?? '', {
+    headers: { 'Content-Type': 'text/plain' }
+  })
+}
+
+// POST /api/webhooks/whatsapp - Incoming messages from the WhatsApp Business Cloud API
+export async function POST(request: NextRequest) {
+  const secret = process.env.WHATSAPP_APP_SECRET
+  if (!secret) {
+    return NextResponse.json({
+      success: false,
+      error: 'Webhook not configured'
+    }, { status: 503 })
+  }
+
+  // The signature covers the raw body, so read it before parsing
+  const payload = await request.text()
+  if (!verifyHubSignature(payload, request.headers.get('x-hub-signature-256'), secret)) {
+    return NextResponse.json({
+      success: false,
+      error: 'Invalid signature'
+    }, { status: 401 })
+  }
+
+  try {
+    const body = JSON.parse(payload) as WhatsAppWebhookPayload
+    const messages = (body.entry ?? [])
+      .flatMap(entry => entry.changes ?? [])
+      .flatMap(change => change.value?.messages ?? [])
+
+    let received = 0
+    for (const message of messages) {
+      const text = messageText(message)
+      if (!text) continue
+
+      await InboundReplyService.receive({
+        channel: 'whatsapp',
+        from: `+${message.from.replace(/^\+/, '')}`,
+        text,
+        messageId: message.id,
+        inReplyTo: message.context?.id ? [message.context.id] : []
+      })
+      received++
+    }
+
+    // Status updates and unmatched senders are acknowledged too, otherwise Meta keeps retrying
+    return NextResponse.json({
+      success: true,
+      data: { received }
+    })
+
+  } catch (error) {
+    console.error('WhatsApp webhook error:', error)
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid JSON'
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to process webhook'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,647 @@
+'use client'
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import Link from 'next/link'
+import {
+  ArrowLeft,
+  Camera,
+  CameraOff,
+  Check,
+  CloudOff,
+  Loader2,
+  ScanLine,
+  Search,
+  Undo2,
+  UserCheck,
+  Users
+} from 'lucide-react'
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useToast } from '@/hooks/use-toast'
+import type { CheckInRoster, CheckInGuest, CheckInEntry, ArrivalResult } from '@/lib/services/check-in'
+
+// An arrival as posted to /api/checkin/sync
+interface Arrival {
+  id: string
+  ceremonyId: string
+  guestId?: string
+  token?: string
+  plusOne: boolean
+  arrived: boolean
+  at: string
+}
+
+// The Shape Detection API is not in the TypeScript DOM library yet
+interface BarcodeDetectorLike {
+  detect(source: HTMLVideoElement): Promise<Array<{ rawValue: string }>>
+}
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike
+
+const getBarcodeDetector = (): BarcodeDetectorConstructor | null =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector ?? null
+
+const SCAN_INTERVAL_MS = 300
+const REFRESH_INTERVAL_MS = 20000
+const MAX_RESULTS = 20
+
+/**
+ * The link token in a scanned invitation QR code, or null for any other code
+ */
+function parseInvitationToken(value: string): string | null {
+  try {
+    const match = new URL(value).pathname.match(/^\/rsvp\/([^/]+)$/)
+    return match ? decodeURIComponent(match[1]) : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * The roster with an arrival applied, as the server will record it. Arrivals from scanned
+ * invitations are left out: which guests they cover is only known once they sync.
+ */
+function applyArrival(roster: CheckInRoster, arrival: Arrival): CheckInRoster {
+  if (!arrival.guestId) return roster
+
+  return {
+    ...roster,
+    guests: roster.guests.map(guest => {
+      if (guest.id !== arrival.guestId) return guest
+
+      const entry: CheckInEntry = guest.ceremonies[arrival.ceremonyId] ?? {
+        attendanceStatus: 'yes',
+        isWaitlisted: false,
+        tableName: null,
+        mealPreference: null,
+        plusOneAttendance: null,
+        plusOneMealPreference: null,
+        checkedInAt: null,
+        plusOneCheckedInAt: null
+      }
+      const at = arrival.arrived ? new Date(arrival.at) : null
+      const updated: CheckInEntry = arrival.plusOne
+        ? { ...entry, plusOneCheckedInAt: at, plusOneAttendance: arrival.arrived ? 'yes' : entry.plusOneAttendance }
+        : { ...entry, checkedInAt: at, attendanceStatus: arrival.arrived ? 'yes' : entry.attendanceStatus }
+
+      return { ...guest, ceremonies: { ...guest.ceremonies, [arrival.ceremonyId]: updated } }
+    })
+  }
+}
+
+const isExpected = (entry: CheckInEntry | undefined): entry is CheckInEntry =>
+  !!entry && entry.attendanceStatus === 'yes' && !entry.isWaitlisted
+
+const formatTime = (value: Date | string) =>
+  new Date(value).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
+
+export default function CheckInPage() {
+  const { toast } = useToast()
+  const [eventId, setEventId] = useState<string | null>(null)
+  const [roster, setRoster] = useState<CheckInRoster | null>(null)
+  const [queued, setQueued] = useState<Arrival[]>([])
+  const [ceremonyId, setCeremonyId] = useState('')
+  const [searchQuery, setSearchQuery] = useState('')
+  const [party, setParty] = useState<string[]>([])
+  const [isOnline, setIsOnline] = useState(true)
+  const [isScanning, setIsScanning] = useState(false)
+  const [canScan, setCanScan] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState('')
+  const videoRef = useRef<HTMLVideoElement>(null)
+
+  const fetchRoster = useCallback(async (id: string) => {
+    try {
+      const response = await fetch(`/api/events/${id}/checkin`)
+      const result = await response.json()
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+      const data: CheckInRoster = result.data.roster
+      setRoster(data)
+      setCeremonyId(prev => {
+        if (prev || data.ceremonies.length === 0) return prev
+        const today = new Date().toLocaleDateString('en-CA')
+        return (data.ceremonies.find(c => c.date === today) ?? data.ceremonies[0]).id
+      })
+      setError('')
+    } catch (error: any) {
+      setError(error.message || 'Failed to load the guest list')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  // Load the event given in the URL
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get('eventId')
+    setEventId(id)
+    setIsOnline(navigator.onLine)
+    setCanScan(!!getBarcodeDetector() && !!navigator.mediaDevices?.getUserMedia)
+    if (!id) {
+      setError('Open check-in from an event')
+      setIsLoading(false)
+      return
+    }
+    fetchRoster(id)
+  }, [fetchRoster])
+
+  // The service worker serves this page offline and queues arrivals until they can be sent
+  useEffect(() => {
+    if (!eventId || !('serviceWorker' in navigator)) return
+
+    navigator.serviceWorker.register('/checkin-sw.js', { scope: '/dashboard/checkin' })
+      .catch(error => console.error('Check-in service worker registration failed:', error))
+
+    const onMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'checkin-queue') {
+        setQueued(event.data.arrivals)
+      } else if (event.data?.type === 'checkin-synced' && event.data.results.length > 0) {
+        const unknown = (event.data.results as ArrivalResult[]).filter(r => r.status === 'unknown_guest').length
+        if (unknown > 0) {
+          toast({
+            title: "Some Arrivals Not Recorded",
+            description: `${unknown} queued check-in${unknown === 1 ? ' was' : 's were'} for an invitation not on this event`,
+            variant: "destructive"
+          })
+        }
+        fetchRoster(eventId)
+      }
+    }
+    navigator.serviceWorker.addEventListener('message', onMessage)
+    navigator.serviceWorker.ready.then(registration => {
+      registration.active?.postMessage({ type: 'checkin-status' })
+    })
+
+    return () => navigator.serviceWorker.removeEventListener('message', onMessage)
+  }, [eventId, fetchRoster, toast])
+
+  // Send queued arrivals when the connection returns, and keep the headcount current
+  useEffect(() => {
+    if (!eventId) return
+
+    const refresh = () => {
+      if (!navigator.onLine) return
+      navigator.serviceWorker?.controller?.postMessage({ type: 'checkin-flush' })
+      fetchRoster(eventId)
+    }
+    const goOnline = () => {
+      setIsOnline(true)
+      refresh()
+    }
+    const goOffline = () => setIsOnline(false)
+
+    window.addEventListener('online', goOnline)
+    window.addEventListener('offline', goOffline)
+    const timer = setInterval(refresh, REFRESH_INTERVAL_MS)
+
+    return () => {
+      window.removeEventListener('online', goOnline)
+      window.removeEventListener('offline', goOffline)
+      clearInterval(timer)
+    }
+  }, [eventId, fetchRoster])
+
+  // Queued arrivals are not on the server's list yet, so show them on top of it
+  const displayed = useMemo(
+    () => roster ? queued.reduce(applyArrival, roster) : null,
+    [roster, queued]
+  )
+
+  const headcount = useMemo(() => {
+    let expected = 0
+    let arrived = 0
+    for (const guest of displayed?.guests ?? []) {
+      const entry = guest.ceremonies[ceremonyId]
+      if (!entry) continue
+      if (isExpected(entry)) {
+        expected += entry.plusOneAttendance === 'yes' ? 2 : 1
+      }
+      if (entry.checkedInAt) arrived++
+      if (entry.plusOneCheckedInAt) arrived++
+    }
+    return { expected, arrived }
+  }, [displayed, ceremonyId])
+
+  const matches = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase()
+    if (!displayed || query.length < 2) return []
+    return displayed.guests.filter(guest =>
+      `${guest.firstName} ${guest.lastName}`.toLowerCase().includes(query) ||
+      guest.householdName?.toLowerCase().includes(query) ||
+      guest.plusOneName?.toLowerCase().includes(query)
+    ).slice(0, MAX_RESULTS)
+  }, [displayed, searchQuery])
+
+  const partyGuests = useMemo(
+    () => (displayed?.guests ?? []).filter(guest => party.includes(guest.id)),
+    [displayed, party]
+  )
+
+  const selectGuest = (guest: CheckInGuest) => {
+    setParty(guest.householdId
+      ? (roster?.guests ?? []).filter(g => g.householdId === guest.householdId).map(g => g.id)
+      : [guest.id])
+    setSearchQuery('')
+  }
+
+  const record = useCallback(async (changes: Array<Omit<Arrival, 'id' | 'at' | 'ceremonyId'>>) => {
+    if (!eventId || !ceremonyId) return
+
+    const at = new Date().toISOString()
+    const arrivals: Arrival[] = changes.map(change => ({
+      ...change,
+      id: crypto.randomUUID(),
+      ceremonyId,
+      at
+    }))
+
+    // Show the arrivals straight away; the next refresh brings the server's view
+    setRoster(prev => prev ? arrivals.reduce(applyArrival, prev) : prev)
+
+    try {
+      const response = await fetch('/api/checkin/sync', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ eventId, arrivals })
+      })
+      const result = await response.json()
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+
+      if (result.data.queued) {
+        toast({
+          title: "Saved Offline",
+          description: "Check-ins will be sent when the connection is back",
+        })
+      } else if ((result.data.results as ArrivalResult[]).some(r => r.status === 'unknown_guest')) {
+        throw new Error('This invitation is not for this event')
+      }
+    } catch (error: any) {
+      toast({
+        title: "Check-in Failed",
+        description: error.message || "Failed to record the arrival",
+        variant: "destructive"
+      })
+      fetchRoster(eventId)
+    }
+  }, [eventId, ceremonyId, fetchRoster, toast])
+
+  const handleScan = useCallback(async (value: string) => {
+    const token = parseInvitationToken(value)
+    if (!token) {
+      toast({
+        title: "Not an Invitation",
+        description: "That QR code is not an RSVP link",
+        variant: "destructive"
+      })
+      return
+    }
+
+    try {
+      const response = await fetch('/api/checkin/lookup', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ eventId, token })
+      })
+      const result = await response.json()
+      if (!result.success) {
+        toast({
+          title: "Invitation Not Found",
+          description: result.error,
+          variant: "destructive"
+        })
+        return
+      }
+      setParty(result.data.guestIds)
+      setSearchQuery('')
+    } catch (error) {
+      // Offline: the server works out who is on the card once the arrival syncs
+      await record([{ token, plusOne: false, arrived: true }])
+    }
+  }, [eventId, record, toast])
+
+  // Watch the camera for QR codes while scanning
+  useEffect(() => {
+    if (!isScanning) return
+
+    const Detector = getBarcodeDetector()
+    if (!Detector) return
+    const detector = new Detector({ formats: ['qr_code'] })
+    let stream: MediaStream | null = null
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let stopped = false
+
+    const scan = async () => {
+      if (stopped || !videoRef.current) return
+      try {
+        const [code] = await detector.detect(videoRef.current)
+        if (code && !stopped) {
+          setIsScanning(false)
+          handleScan(code.rawValue)
+          return
+        }
+      } catch {
+        // The video may not have a frame yet
+      }
+      timer = setTimeout(scan, SCAN_INTERVAL_MS)
+    }
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+      .then(async (media) => {
+        stream = media
+        if (stopped || !videoRef.current) {
+          media.getTracks().forEach(track => track.stop())
+          return
+        }
+        videoRef.current.srcObject = media
+        await videoRef.current.play()
+        scan()
+      })
+      .catch(() => {
+        setIsScanning(false)
+        toast({
+          title: "Camera Unavailable",
+          description: "Allow camera access or search by name instead",
+          variant: "destructive"
+        })
+      })
+
+    return () => {
+      stopped = true
+      clearTimeout(timer)
+      stream?.getTracks().forEach(track => track.stop())
+    }
+  }, [isScanning, handleScan, toast])
+
+  const ceremony = displayed?.ceremonies.find(c => c.id === ceremonyId)
+  const progress = headcount.expected > 0 ? Math.min(100, (headcount.arrived / headcount.expected) * 100) : 0
+
+  const renderStatus = (entry: CheckInEntry | undefined) => {
+    if (entry?.checkedInAt) return <Badge variant="success">Arrived {formatTime(entry.checkedInAt)}</Badge>
+    if (!entry) return <Badge variant="pending">No answer</Badge>
+    if (entry.isWaitlisted) return <Badge variant="warning">Waitlisted</Badge>
+    if (entry.attendanceStatus === 'yes') return <Badge variant="attending">Expected</Badge>
+    if (entry.attendanceStatus === 'no') return <Badge variant="not_attending">Declined</Badge>
+    return <Badge variant="maybe">Maybe</Badge>
+  }
+
+  const renderGuest = (guest: CheckInGuest) => {
+    const entry = guest.ceremonies[ceremonyId]
+    const hasPlusOne = guest.plusOneAllowed || !!entry?.plusOneAttendance
+    const notes = [guest.dietaryRequirements, guest.accessibilityNeeds].filter(Boolean).join(' · ')
+
+    return (
+      <div key={guest.id} className="border rounded-lg p-4 space-y-3">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <div className="font-medium text-gray-900 flex items-center gap-2">
+              {guest.firstName} {guest.lastName}
+              {renderStatus(entry)}
+            </div>
+            <div className="text-sm text-gray-600 mt-1">
+              Table <span className="font-semibold text-gray-900">{entry?.tableName || '—'}</span>
+              {' '}· Meal <span className="font-semibold text-gray-900">{entry?.mealPreference || '—'}</span>
+            </div>
+            {notes && <div className="text-sm text-amber-700 mt-1">{notes}</div>}
+          </div>
+          {entry?.checkedInAt ? (
+            <Button size="sm" variant="outline" onClick={() => record([{ guestId: guest.id, plusOne: false, arrived: false }])}>
+              <Undo2 className="w-4 h-4 mr-2" />
+              Undo
+            </Button>
+          ) : (
+            <Button
+              size="sm"
+              className="bg-wedding-gold hover:bg-wedding-gold/90"
+              onClick={() => record([{ guestId: guest.id, plusOne: false, arrived: true }])}
+            >
+              <Check className="w-4 h-4 mr-2" />
+              Check In
+            </Button>
+          )}
+        </div>
+
+        {hasPlusOne && (
+          <div className="flex items-start justify-between gap-3 border-t pt-3">
+            <div>
+              <div className="text-sm font-medium text-gray-900 flex items-center gap-2">
+                Plus-one: {guest.plusOneName || 'Guest'}
+                {entry?.plusOneCheckedInAt
+                  ? <Badge variant="success">Arrived {formatTime(entry.plusOneCheckedInAt)}</Badge>
+                  : entry?.plusOneAttendance === 'yes' && isExpected(entry)
+                    ? <Badge variant="attending">Expected</Badge>
+                    : <Badge variant="pending">Not expected</Badge>}
+              </div>
+              <div className="text-sm text-gray-600 mt-1">
+                Meal <span className="font-semibold text-gray-900">{entry?.plusOneMealPreference || '—'}</span>
+              </div>
+            </div>
+            {entry?.plusOneCheckedInAt ? (
+              <Button size="sm" variant="outline" onClick={() => record([{ guestId: guest.id, plusOne: true, arrived: false }])}>
+                <Undo2 className="w-4 h-4 mr-2" />
+                Undo
+              </Button>
+            ) : (
+              <Button size="sm" variant="outline" onClick={() => record([{ guestId: guest.id, plusOne: true, arrived: true }])}>
+                <Check className="w-4 h-4 mr-2" />
+                Check In
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  // Everyone in the party expected at the ceremony who hasn't arrived, with their plus-ones
+  const checkInParty = () => {
+    const changes: Array<Omit<Arrival, 'id' | 'at' | 'ceremonyId'>> = []
+    for (const guest of partyGuests) {
+      const entry = guest.ceremonies[ceremonyId]
+      if (!isExpected(entry)) continue
+      if (!entry.checkedInAt) changes.push({ guestId: guest.id, plusOne: false, arrived: true })
+      if (entry.plusOneAttendance === 'yes' && !entry.plusOneCheckedInAt) {
+        changes.push({ guestId: guest.id, plusOne: true, arrived: true })
+      }
+    }
+    if (changes.length > 0) record(changes)
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white border-b border-gray-200">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center">
+              <Button variant="ghost" asChild>
+                <Link href={`/dashboard/guests${eventId ? `?eventId=${eventId}` : ''}`}>
+                  <ArrowLeft className="w-4 h-4 mr-2" />
+                  Back
+                </Link>
+              </Button>
+              <h1 className="ml-4 text-xl font-semibold text-gray-900 flex items-center">
+                <UserCheck className="w-6 h-6 mr-2" />
+                Check-in
+              </h1>
+            </div>
+            <div className="flex items-center gap-2">
+              {queued.length > 0 && (
+                <Badge variant="warning">{queued.length} waiting to sync</Badge>
+              )}
+              {!isOnline && (
+                <Badge variant="secondary" className="flex items-center">
+                  <CloudOff className="w-3 h-3 mr-1" />
+                  Offline
+                </Badge>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading && (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-wedding-gold" />
+          </div>
+        )}
+
+        {displayed && displayed.ceremonies.length === 0 && (
+          <Card>
+            <CardContent className="text-center py-12">
+              <Users className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No ceremonies</h3>
+              <p className="text-gray-500">Add the event's ceremonies before checking guests in.</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {displayed && ceremony && (
+          <>
+            <Card>
+              <CardContent className="p-4 space-y-4">
+                <div>
+                  <Label>Ceremony</Label>
+                  <Select value={ceremonyId} onValueChange={setCeremonyId}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {displayed.ceremonies.map(c => (
+                        <SelectItem key={c.id} value={c.id}>
+                          {c.name}{c.startTime ? ` · ${c.startTime}` : ''}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <div className="flex items-baseline justify-between mb-2">
+                    <span className="text-sm font-medium text-gray-600">Arrived</span>
+                    <span className="text-2xl font-bold text-gray-900">
+                      {headcount.arrived}
+                      <span className="text-base font-normal text-gray-500"> of {headcount.expected} expected</span>
+                    </span>
+                  </div>
+                  <Progress value={progress} />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent className="p-4 space-y-3">
+                <div className="flex gap-2">
+                  <div className="relative flex-1">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                    <Input
+                      value={searchQuery}
+                      onChange={(e) => setSearchQuery(e.target.value)}
+                      placeholder="Search guests by name"
+                      className="pl-9"
+                    />
+                  </div>
+                  {canScan && (
+                    <Button variant="outline" onClick={() => setIsScanning(prev => !prev)}>
+                      {isScanning ? <CameraOff className="w-4 h-4 mr-2" /> : <Camera className="w-4 h-4 mr-2" />}
+                      {isScanning ? 'Stop' : 'Scan'}
+                    </Button>
+                  )}
+                </div>
+
+                {isScanning && (
+                  <div className="relative rounded-lg overflow-hidden bg-black">
+                    <video ref={videoRef} className="w-full max-h-80 object-cover" muted playsInline />
+                    <ScanLine className="absolute inset-0 m-auto w-24 h-24 text-white/70" />
+                  </div>
+                )}
+
+                {matches.length > 0 && (
+                  <div className="divide-y border rounded-lg">
+                    {matches.map(guest => (
+                      <button
+                        key={guest.id}
+                        onClick={() => selectGuest(guest)}
+                        className="w-full text-left px-4 py-3 hover:bg-gray-50 flex items-center justify-between"
+                      >
+                        <span>
+                          {guest.firstName} {guest.lastName}
+                          {guest.householdName && (
+                            <span className="text-sm text-gray-500"> · {guest.householdName}</span>
+                          )}
+                        </span>
+                        {renderStatus(guest.ceremonies[ceremonyId])}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {searchQuery.trim().length >= 2 && matches.length === 0 && (
+                  <p className="text-sm text-gray-500 text-center py-2">No guests match "{searchQuery}"</p>
+                )}
+              </CardContent>
+            </Card>
+
+            {partyGuests.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between text-lg">
+                    <span>{partyGuests[0].householdName ?? `${partyGuests[0].firstName} ${partyGuests[0].lastName}`}</span>
+                    {partyGuests.length > 1 && (
+                      <Button size="sm" className="bg-wedding-gold hover:bg-wedding-gold/90" onClick={checkInParty}>
+                        <Users className="w-4 h-4 mr-2" />
+                        Check In Everyone Expected
+                      </Button>
+                    )}
+                  </CardTitle>
+                  <CardDescription>{ceremony.name}{ceremony.venueName ? ` · ${ceremony.venueName}` : ''}</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {partyGuests.map(renderGuest)}
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,752 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { ArrowLeft, Loader2, Save, Trash2, AlertCircle, History, CalendarClock, KeyRound, QrCode, Armchair } from 'lucide-react'
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { useToast } from '@/hooks/use-toast'
+import type { RsvpHistoryEntry } from '@/lib/services/rsvp'
+
+interface GuestFormData {
+  firstName: string
+  lastName: string
+  email: string
+  phone: string
+  address: string
+  side: 'bride' | 'groom' | 'mutual'
+  relationship: string
+  rsvpStatus: 'pending' | 'attending' | 'not_attending' | 'maybe'
+  preferredChannel: 'email' | 'whatsapp' | 'sms'
+  plusOneAllowed: boolean
+  plusOneName: string
+  dietaryRequirements: string
+  specialRequests: string
+  accessibilityNeeds: string
+  notes: string
+}
+
+// An entry of `ceremonies` in the GET /api/guests/[id] response
+interface GuestCeremonyResponse {
+  id: string
+  ceremonyId: string
+  ceremonyName: string
+  attendanceStatus: 'yes' | 'no' | 'maybe'
+  mealPreference: string | null
+  plusOneAttendance: 'yes' | 'no' | 'maybe' | null
+  plusOneMealPreference: string | null
+  specialRequirements: string | null
+  tableName: string | null
+  checkedInAt: string | null
+  plusOneCheckedInAt: string | null
+}
+
+// A ceremony the guest has answered for, with the table they sit at
+interface SeatingRow {
+  ceremonyId: string
+  ceremonyName: string
+  attendanceStatus: 'yes' | 'no' | 'maybe'
+  tableName: string
+}
+
+const STAGE_LABELS: Record<number, string> = {
+  1: 'Attendance',
+  2: 'Event details'
+}
+
+function formatHistoryValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—'
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  return String(value)
+}
+
+export default function EditGuestPage() {
+  const params = useParams()
+  const router = useRouter()
+  const { toast } = useToast()
+  const guestId = params.id as string
+
+  const [formData, setFormData] = useState<GuestFormData | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState('')
+  const [history, setHistory] = useState<RsvpHistoryEntry[]>([])
+  const [rsvpOverride, setRsvpOverride] = useState<string | null>(null)
+  const [overrideUntil, setOverrideUntil] = useState('')
+  const [isSavingOverride, setIsSavingOverride] = useState(false)
+  const [rsvpCode, setRsvpCode] = useState<{ code: string; codeEntryUrl: string; expiresAt: string } | null>(null)
+  const [isIssuingCode, setIsIssuingCode] = useState(false)
+  const [isDownloadingQr, setIsDownloadingQr] = useState(false)
+  const [seating, setSeating] = useState<SeatingRow[]>([])
+  const [savingSeat, setSavingSeat] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchGuest = async () => {
+      try {
+        const response = await fetch(`/api/guests/${guestId}`)
+        const result = await response.json()
+        if (!result.success) {
+          throw new Error(result.error)
+        }
+
+        const guest = result.data.guest
+        setFormData({
+          firstName: guest.firstName,
+          lastName: guest.lastName,
+          email: guest.email ?? '',
+          phone: guest.phone ?? '',
+          address: guest.address ?? '',
+          side: guest.side,
+          relationship: guest.relationship ?? '',
+          rsvpStatus: guest.rsvpStatus,
+          preferredChannel: guest.preferredChannel ?? 'email',
+          plusOneAllowed: !!guest.plusOneAllowed,
+          plusOneName: guest.plusOneName ?? '',
+          dietaryRequirements: guest.dietaryRequirements ?? '',
+          specialRequests: guest.specialRequests ?? '',
+          accessibilityNeeds: guest.accessibilityNeeds ?? '',
+          notes: guest.notes ?? ''
+        })
+        setRsvpOverride(guest.rsvpDeadlineOverride)
+        const ceremonies: GuestCeremonyResponse[] = guest.ceremonies
+        setSeating(ceremonies.map(c => ({
+          ceremonyId: c.ceremonyId,
+          ceremonyName: c.ceremonyName,
+          attendanceStatus: c.attendanceStatus,
+          tableName: c.tableName ?? ''
+        })))
+      } catch (error) {
+        setError('Failed to load guest')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchGuest()
+  }, [guestId])
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        const response = await fetch(`/api/guests/${guestId}/rsvp-history`)
+        const result = await response.json()
+        if (result.success) {
+          setHistory(result.data.history)
+        }
+      } catch (error) {
+        // History is supplementary; the edit form still works without it
+      }
+    }
+
+    fetchHistory()
+  }, [guestId])
+
+  const updateFormData = (field: keyof GuestFormData, value: any) => {
+    setFormData(prev => prev ? { ...prev, [field]: value } : prev)
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!formData) return
+
+    setIsSaving(true)
+    setError('')
+    try {
+      // Empty optional fields are left out rather than sent as blank strings
+      const payload = Object.fromEntries(
+        Object.entries(formData).filter(([, value]) => value !== '')
+      )
+
+      const response = await fetch(`/api/guests/${guestId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload)
+      })
+      const result = await response.json()
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+
+      toast({
+        title: "Guest Updated",
+        description: `Saved changes to ${formData.firstName} ${formData.lastName}`,
+      })
+      router.push('/dashboard/guests')
+    } catch (error: any) {
+      setError(error.message || 'Failed to save guest')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  // Pass null to remove the override
+  const updateRsvpOverride = async (until: string | null) => {
+    setIsSavingOverride(true)
+    try {
+      const response = await fetch(`/api/guests/${guestId}/rsvp-override`, until
+        ? {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ until: new Date(until).toISOString() })
+          }
+        : { method: 'DELETE' })
+      const result = await response.json()
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+
+      setRsvpOverride(result.data.rsvpDeadlineOverride)
+      setOverrideUntil('')
+      toast({
+        title: until ? "Late RSVP Allowed" : "Late RSVP Removed",
+        description: until
+          ? `${formData?.firstName} can respond until ${new Date(until).toLocaleString()}`
+          : `${formData?.firstName} now follows the event's RSVP deadline`,
+      })
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update late RSVP",
+        variant: "destructive"
+      })
+    } finally {
+      setIsSavingOverride(false)
+    }
+  }
+
+  // Codes are only shown once; creating another replaces the previous one
+  const issueRsvpCode = async () => {
+    setIsIssuingCode(true)
+    try {
+      const response = await fetch(`/api/guests/${guestId}/rsvp-code`, { method: 'POST' })
+      const result = await response.json()
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+
+      setRsvpCode(result.data)
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create RSVP code",
+        variant: "destructive"
+      })
+    } finally {
+      setIsIssuingCode(false)
+    }
+  }
+
+  const saveSeat = async (row: SeatingRow) => {
+    setSavingSeat(row.ceremonyId)
+    try {
+      const response = await fetch(`/api/guests/${guestId}/seating`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ceremonyId: row.ceremonyId, tableName: row.tableName.trim() || null })
+      })
+      const result = await response.json()
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+
+      toast({
+        title: "Seating Saved",
+        description: result.data.tableName
+          ? `${formData?.firstName} sits at ${result.data.tableName} for ${row.ceremonyName}`
+          : `Cleared ${formData?.firstName}'s table for ${row.ceremonyName}`,
+      })
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save seating",
+        variant: "destructive"
+      })
+    } finally {
+      setSavingSeat(null)
+    }
+  }
+
+  // The QR code carries a new printed link, so an earlier printed QR code stops working
+  const downloadQrCode = async (format: 'png' | 'svg') => {
+    if (!window.confirm('This issues a new RSVP link for the QR code. A QR code printed earlier will stop working; links sent by email keep working. Continue?')) return
+
+    setIsDownloadingQr(true)
+    try {
+      const response = await fetch(`/api/guests/${guestId}/qr?format=${format}`, { method: 'POST' })
+      if (!response.ok) {
+        const result = await response.json()
+        throw new Error(result.error)
+      }
+
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      const fileName = response.headers.get('Content-Disposition')?.match(/filename\*=UTF-8''(.+)/)?.[1]
+      link.download = fileName ? decodeURIComponent(fileName) : `rsvp-qr.${format}`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create QR code",
+        variant: "destructive"
+      })
+    } finally {
+      setIsDownloadingQr(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!formData) return
+    if (!window.confirm(`Delete ${formData.firstName} ${formData.lastName}? Their RSVP history will be removed.`)) return
+
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/guests/${guestId}`, { method: 'DELETE' })
+      const result = await response.json()
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+
+      toast({
+        title: "Guest Deleted",
+        description: `Deleted ${formData.firstName} ${formData.lastName}`,
+      })
+      router.push('/dashboard/guests')
+    } catch (error: any) {
+      setError(error.message || 'Failed to delete guest')
+      setIsSaving(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-wedding-gold" />
+      </div>
+    )
+  }
+
+  if (!formData) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md text-center">
+          <CardContent className="p-6">
+            <AlertCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
+            <h2 className="text-xl font-semibold text-gray-900 mb-2">Guest Not Found</h2>
+            <p className="text-gray-600 mb-4">{error || 'This guest could not be loaded.'}</p>
+            <Button variant="outline" asChild>
+              <Link href="/dashboard/guests">Back to Guests</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white border-b border-gray-200">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center h-16">
+            <Button variant="ghost" asChild>
+              <Link href="/dashboard/guests">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Guests
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <form onSubmit={handleSave}>
+          <Card>
+            <CardHeader>
+              <CardTitle>Edit Guest</CardTitle>
+              <CardDescription>
+                Update {formData.firstName} {formData.lastName}'s details and RSVP status
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="firstName">First Name</Label>
+                  <Input
+                    id="firstName"
+                    value={formData.firstName}
+                    onChange={(e) => updateFormData('firstName', e.target.value)}
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="lastName">Last Name</Label>
+                  <Input
+                    id="lastName"
+                    value={formData.lastName}
+                    onChange={(e) => updateFormData('lastName', e.target.value)}
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="email">Email</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    value={formData.email}
+                    onChange={(e) => updateFormData('email', e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="phone">Phone</Label>
+                  <Input
+                    id="phone"
+                    value={formData.phone}
+                    onChange={(e) => updateFormData('phone', e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label>Side</Label>
+                  <Select value={formData.side} onValueChange={(value) => updateFormData('side', value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="bride">Bride's Side</SelectItem>
+                      <SelectItem value="groom">Groom's Side</SelectItem>
+                      <SelectItem value="mutual">Mutual</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>RSVP Status</Label>
+                  <Select value={formData.rsvpStatus} onValueChange={(value) => updateFormData('rsvpStatus', value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="pending">Pending</SelectItem>
+                      <SelectItem value="attending">Attending</SelectItem>
+                      <SelectItem value="not_attending">Not Attending</SelectItem>
+                      <SelectItem value="maybe">Maybe</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Contact Via</Label>
+                  <Select value={formData.preferredChannel} onValueChange={(value) => updateFormData('preferredChannel', value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="email">Email</SelectItem>
+                      <SelectItem value="whatsapp">WhatsApp</SelectItem>
+                      <SelectItem value="sms">SMS</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="relationship">Relationship</Label>
+                  <Input
+                    id="relationship"
+                    value={formData.relationship}
+                    onChange={(e) => updateFormData('relationship', e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="address">Address</Label>
+                  <Input
+                    id="address"
+                    value={formData.address}
+                    onChange={(e) => updateFormData('address', e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="plusOneAllowed"
+                    checked={formData.plusOneAllowed}
+                    onCheckedChange={(checked) => updateFormData('plusOneAllowed', checked === true)}
+                  />
+                  <Label htmlFor="plusOneAllowed">Plus one allowed</Label>
+                </div>
+                {formData.plusOneAllowed && (
+                  <div>
+                    <Label htmlFor="plusOneName">Plus One Name</Label>
+                    <Input
+                      id="plusOneName"
+                      value={formData.plusOneName}
+                      onChange={(e) => updateFormData('plusOneName', e.target.value)}
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="dietaryRequirements">Dietary Requirements</Label>
+                  <Textarea
+                    id="dietaryRequirements"
+                    value={formData.dietaryRequirements}
+                    onChange={(e) => updateFormData('dietaryRequirements', e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="accessibilityNeeds">Accessibility Needs</Label>
+                  <Textarea
+                    id="accessibilityNeeds"
+                    value={formData.accessibilityNeeds}
+                    onChange={(e) => updateFormData('accessibilityNeeds', e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="specialRequests">Special Requests</Label>
+                  <Textarea
+                    id="specialRequests"
+                    value={formData.specialRequests}
+                    onChange={(e) => updateFormData('specialRequests', e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="notes">Notes</Label>
+                  <Textarea
+                    id="notes"
+                    value={formData.notes}
+                    onChange={(e) => updateFormData('notes', e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between pt-6 border-t">
+                <Button
+                  type="button"
+                  variant="destructive"
+                  onClick={handleDelete}
+                  disabled={isSaving}
+                >
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Delete Guest
+                </Button>
+                <Button
+                  type="submit"
+                  className="bg-wedding-gold hover:bg-wedding-gold/90"
+                  disabled={isSaving}
+                >
+                  {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+                  Save Changes
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </form>
+
+        <Card className="mt-8">
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <CalendarClock className="w-5 h-5 mr-2" />
+              Late RSVP
+            </CardTitle>
+            <CardDescription>
+              Let {formData.firstName} respond or change their answer after the RSVP deadline
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {rsvpOverride && new Date(rsvpOverride) > new Date() ? (
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-gray-700">
+                  Can respond until {new Date(rsvpOverride).toLocaleString()}
+                </p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateRsvpOverride(null)}
+                  disabled={isSavingOverride}
+                >
+                  Remove
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">Follows the event's RSVP deadline.</p>
+            )}
+            <div className="flex items-end gap-3">
+              <div className="flex-1">
+                <Label htmlFor="overrideUntil">Allow responses until</Label>
+                <Input
+                  id="overrideUntil"
+                  type="datetime-local"
+                  value={overrideUntil}
+                  onChange={(e) => setOverrideUntil(e.target.value)}
+                />
+              </div>
+              <Button
+                onClick={() => updateRsvpOverride(overrideUntil)}
+                disabled={!overrideUntil || isSavingOverride}
+              >
+                {isSavingOverride && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Allow Late RSVP
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {seating.length > 0 && (
+          <Card className="mt-8">
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Armchair className="w-5 h-5 mr-2" />
+                Seating
+              </CardTitle>
+              <CardDescription>
+                Shown to ushers when {formData.firstName} checks in
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {seating.map(row => (
+                <div key={row.ceremonyId} className="flex flex-col md:flex-row md:items-end gap-3">
+                  <div className="flex-1">
+                    <Label htmlFor={`table-${row.ceremonyId}`}>
+                      {row.ceremonyName}
+                      {row.attendanceStatus !== 'yes' && (
+                        <span className="font-normal text-gray-500"> · answered {row.attendanceStatus}</span>
+                      )}
+                    </Label>
+                    <Input
+                      id={`table-${row.ceremonyId}`}
+                      value={row.tableName}
+                      maxLength={50}
+                      placeholder="Table"
+                      onChange={(e) => setSeating(prev => prev.map(r =>
+                        r.ceremonyId === row.ceremonyId ? { ...r, tableName: e.target.value } : r
+                      ))}
+                    />
+                  </div>
+                  <Button variant="outline" onClick={() => saveSeat(row)} disabled={savingSeat !== null}>
+                    {savingSeat === row.ceremonyId && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Save
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card className="mt-8">
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <KeyRound className="w-5 h-5 mr-2" />
+              Printed Invitation Code
+            </CardTitle>
+            <CardDescription>
+              A short code {formData.firstName} can type instead of following a link
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {rsvpCode ? (
+              <div className="rounded-lg bg-gray-50 p-4 text-center">
+                <p className="font-mono text-3xl tracking-widest text-gray-900">{rsvpCode.code}</p>
+                <p className="text-sm text-gray-500 mt-2">
+                  Entered at {rsvpCode.codeEntryUrl} until {new Date(rsvpCode.expiresAt).toLocaleDateString()}.
+                  Note it down now: it can't be shown again.
+                </p>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">
+                Codes are stored like passwords and shown only when created. A new code replaces
+                the previous one; links already sent keep working.
+              </p>
+            )}
+            <Button variant="outline" onClick={issueRsvpCode} disabled={isIssuingCode}>
+              {isIssuingCode && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {rsvpCode ? 'Create Another Code' : 'Create Code'}
+            </Button>
+            <div className="border-t pt-4">
+              <p className="text-sm text-gray-500 mb-3">
+                Or print a QR code of a new RSVP link. It replaces an earlier printed QR code; links sent by email keep working.
+              </p>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => downloadQrCode('png')} disabled={isDownloadingQr}>
+                  {isDownloadingQr ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <QrCode className="w-4 h-4 mr-2" />}
+                  QR Code (PNG)
+                </Button>
+                <Button variant="outline" onClick={() => downloadQrCode('svg')} disabled={isDownloadingQr}>
+                  <QrCode className="w-4 h-4 mr-2" />
+                  QR Code (SVG)
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="mt-8">
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <History className="w-5 h-5 mr-2" />
+              RSVP History
+            </CardTitle>
+            <CardDescription>
+              Every answer {formData.firstName} has submitted, newest first
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {history.length === 0 ? (
+              <p className="text-sm text-gray-500">No RSVP responses yet.</p>
+            ) : (
+              <div className="space-y-4">
+                {history.map(entry => (
+                  <div key={entry.id} className="border rounded-lg p-4">
+                    <div className="flex items-center justify-between mb-2">
+                      <div className="text-sm font-medium text-gray-900">
+                        {STAGE_LABELS[entry.stage] ?? `Stage ${entry.stage}`} · Version {entry.version}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {new Date(entry.submittedAt).toLocaleString()}
+                      </div>
+                    </div>
+                    {entry.version === 1 ? (
+                      <p className="text-sm text-gray-600">First response</p>
+                    ) : entry.changes.length === 0 ? (
+                      <p className="text-sm text-gray-600">Resubmitted without changes</p>
+                    ) : (
+                      <ul className="space-y-1">
+                        {entry.changes.map(change => (
+                          <li key={change.field} className="text-sm">
+                            <span className="font-mono text-gray-700">{change.field}</span>
+                            {': '}
+                            <span className="text-red-600 line-through">{formatHistoryValue(change.from)}</span>
+                            {' → '}
+                            <span className="text-green-700">{formatHistoryValue(change.to)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
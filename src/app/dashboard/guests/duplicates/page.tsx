@@ -0,0 +1,179 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, Copy, GitMerge, Loader2, Users } from 'lucide-react'
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { useToast } from '@/hooks/use-toast'
+import type { DuplicateCandidate, DuplicateGuestSummary } from '@/lib/services/guest-duplicates'
+
+export default function GuestDuplicatesPage() {
+  const { toast } = useToast()
+  const [candidates, setCandidates] = useState<DuplicateCandidate[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [mergingPair, setMergingPair] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  const fetchCandidates = useCallback(async () => {
+    const eventId = new URLSearchParams(window.location.search).get('eventId')
+    if (!eventId) {
+      setError('Open this page from an event to look for duplicate guests')
+      setIsLoading(false)
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      const response = await fetch(`/api/guests/duplicates?eventId=${eventId}`)
+      const result = await response.json()
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+      setCandidates(result.data.candidates)
+    } catch (error) {
+      setError('Failed to load duplicate guests')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchCandidates()
+  }, [fetchCandidates])
+
+  const handleMerge = async (keep: DuplicateGuestSummary, merge: DuplicateGuestSummary) => {
+    const pairKey = `${keep.id}:${merge.id}`
+    setMergingPair(pairKey)
+    try {
+      const response = await fetch('/api/guests/merge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ keepGuestId: keep.id, mergeGuestId: merge.id })
+      })
+      const result = await response.json()
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+
+      // Any other pair involving the removed guest is now stale
+      setCandidates(prev => prev.filter(c => !c.guests.some(g => g.id === merge.id)))
+      toast({
+        title: "Guests Merged",
+        description: `${merge.firstName} ${merge.lastName} was merged into ${keep.firstName} ${keep.lastName}`,
+      })
+    } catch (error: any) {
+      toast({
+        title: "Merge Failed",
+        description: error.message || "Failed to merge guests",
+        variant: "destructive"
+      })
+    } finally {
+      setMergingPair(null)
+    }
+  }
+
+  const renderGuest = (guest: DuplicateGuestSummary, other: DuplicateGuestSummary) => (
+    <div className="flex-1 rounded-lg border p-4">
+      <div className="text-sm font-medium text-gray-900">
+        {guest.firstName} {guest.lastName}
+      </div>
+      <div className="text-sm text-gray-500">{guest.email || 'No email'}</div>
+      <div className="text-sm text-gray-500">{guest.phone || 'No phone'}</div>
+      <div className="text-xs text-gray-400 mt-1">
+        RSVP: {guest.rsvpStatus.replace('_', ' ')} · Added {new Date(guest.createdAt).toLocaleDateString()}
+      </div>
+      <Button
+        size="sm"
+        variant="outline"
+        className="mt-3"
+        onClick={() => handleMerge(guest, other)}
+        disabled={mergingPair !== null}
+      >
+        {mergingPair === `${guest.id}:${other.id}`
+          ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          : <GitMerge className="w-4 h-4 mr-2" />}
+        Keep this record
+      </Button>
+    </div>
+  )
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white border-b border-gray-200">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center h-16">
+            <Button variant="ghost" asChild>
+              <Link href="/dashboard/guests">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Guests
+              </Link>
+            </Button>
+            <div className="ml-6">
+              <h1 className="text-xl font-semibold text-gray-900 flex items-center">
+                <Copy className="w-6 h-6 mr-2" />
+                Duplicate Guests
+              </h1>
+              <p className="text-sm text-gray-500">
+                Review possible duplicates and merge them into a single record
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading && (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-wedding-gold" />
+          </div>
+        )}
+
+        {!isLoading && !error && candidates.length === 0 && (
+          <Card>
+            <CardContent className="text-center py-12">
+              <Users className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No duplicates found</h3>
+              <p className="text-gray-500">Every guest in this event looks unique.</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {candidates.map((candidate) => {
+          const [first, second] = candidate.guests
+          return (
+            <Card key={`${first.id}:${second.id}`}>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between text-base">
+                  <span>Match score {Math.round(candidate.score * 100)}%</span>
+                  <div className="flex gap-1">
+                    {candidate.reasons.map(reason => (
+                      <Badge key={reason} variant="secondary">{reason}</Badge>
+                    ))}
+                  </div>
+                </CardTitle>
+                <CardDescription>
+                  The record you keep receives the other guest's RSVPs, tokens and messages
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="flex flex-col md:flex-row gap-4">
+                  {renderGuest(first, second)}
+                  {renderGuest(second, first)}
+                </div>
+              </CardContent>
+            </Card>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -16,72 +16,20 @@ import {
   FileSpreadsheet,
   Users
 } from 'lucide-react'
-
-interface ImportResult {
-  valid: number
-  invalid: number
-  total: number
-  errors: Array<{
-    row: number
-    field: string
-    message: string
-  }>
-  preview: Array<{
-    firstName: string
-    lastName: string
-    email: string
-    side: string
-    relationship: string
-    status: 'valid' | 'invalid' | 'warning'
-    errors: string[]
-  }>
-}
+import { useToast } from '@/hooks/use-toast'
+import type { ImportResult, ImportCommitResult } from '@/lib/services/guest-import'
 
 export default function GuestImportPage() {
   const [importing, setImporting] = useState(false)
   const [importProgress, setImportProgress] = useState(0)
   const [importResult, setImportResult] = useState<ImportResult | null>(null)
   const [dragActive, setDragActive] = useState(false)
+  const [uploadError, setUploadError] = useState('')
+  const [committing, setCommitting] = useState(false)
+  const [commitResult, setCommitResult] = useState<ImportCommitResult | null>(null)
+  const { toast } = useToast()
 
-  const mockImportResult: ImportResult = {
-    valid: 45,
-    invalid: 3,
-    total: 48,
-    errors: [
-      { row: 12, field: 'email', message: 'Invalid email format' },
-      { row: 23, field: 'side', message: 'Side must be bride, groom, or mutual' },
-      { row: 34, field: 'firstName', message: 'First name is required' }
-    ],
-    preview: [
-      {
-        firstName: 'John',
-        lastName: 'Smith',
-        email: 'john@example.com',
-        side: 'groom',
-        relationship: 'friend',
-        status: 'valid',
-        errors: []
-      },
-      {
-        firstName: 'Jane',
-        lastName: 'Doe',
-        email: 'invalid-email',
-        side: 'bride',
-        relationship: 'cousin',
-        status: 'invalid',
-        errors: ['Invalid email format']
-      },
-      {
-        firstName: 'Bob',
-        lastName: 'Wilson',
-        email: 'bob@example.com',
-        side: 'mutual',
-        relationship: 'family',
-        status: 'warning',
-        errors: ['Duplicate email found']
-      }
-    ]
-  }
+  const getEventId = () => new URLSearchParams(window.location.search).get('eventId')
 
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault()
@@ -110,23 +58,49 @@ export default function GuestImportPage() {
     }
   }, [])
 
-  const handleFileUpload = async (file: File) => {
+  const handleFileUpload = (file: File) => {
+    const eventId = getEventId()
+    if (!eventId) {
+      setUploadError('Open this page from an event so guests can be imported into it')
+      return
+    }
+
     setImporting(true)
     setImportProgress(0)
     setImportResult(null)
+    setCommitResult(null)
+    setUploadError('')
 
-    // Simulate file processing
-    const interval = setInterval(() => {
-      setImportProgress(prev => {
-        if (prev >= 100) {
-          clearInterval(interval)
-          setImporting(false)
-          setImportResult(mockImportResult)
-          return 100
-        }
-        return prev + 10
-      })
-    }, 200)
+    const formData = new FormData()
+    formData.append('file', file)
+    formData.append('eventId', eventId)
+
+    // XHR rather than fetch so the upload progress can be reported
+    const xhr = new XMLHttpRequest()
+    xhr.open('POST', '/api/guests/import')
+    xhr.responseType = 'json'
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        // Upload is the first half of the work; the server still has to parse and validate
+        setImportProgress(Math.round((event.loaded / event.total) * 50))
+      }
+    }
+    xhr.upload.onload = () => setImportProgress(75)
+    xhr.onload = () => {
+      const result = xhr.response
+      setImporting(false)
+      if (result?.success) {
+        setImportProgress(100)
+        setImportResult(result.data)
+      } else {
+        setUploadError(result?.error || 'Failed to process file')
+      }
+    }
+    xhr.onerror = () => {
+      setImporting(false)
+      setUploadError('Upload failed. Please check your connection and try again')
+    }
+    xhr.send(formData)
   }
 
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -151,8 +125,36 @@ export default function GuestImportPage() {
   }
 
   const confirmImport = async () => {
-    // Implement actual import logic here
-    console.log('Importing guests...')
+    const eventId = getEventId()
+    if (!importResult || !eventId) return
+
+    setCommitting(true)
+    try {
+      const response = await fetch('/api/guests/import/commit', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ eventId, guests: importResult.guests })
+      })
+      const result = await response.json()
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+
+      setCommitResult(result.data)
+      setImportResult(null)
+      toast({
+        title: "Import Complete",
+        description: `Imported ${result.data.imported} guests`,
+      })
+    } catch (error: any) {
+      toast({
+        title: "Import Failed",
+        description: error.message || "No guests were imported",
+        variant: "destructive"
+      })
+    } finally {
+      setCommitting(false)
+    }
   }
 
   return (
@@ -213,7 +215,7 @@ export default function GuestImportPage() {
                 <div>
                   <input
                     type="file"
-                    accept=".csv,.xlsx,.xls"
+                    accept=".csv,.xlsx"
                     onChange={handleFileInput}
                     className="hidden"
                     id="fileInput"
@@ -226,13 +228,27 @@ export default function GuestImportPage() {
                   </label>
                 </div>
                 <p className="text-sm text-gray-500">
-                  Supports CSV, Excel (.xlsx, .xls) files up to 10MB
+                  Supports CSV and Excel (.xlsx) files up to 10MB
                 </p>
               </div>
             </div>
           </CardContent>
         </Card>
 
+        {uploadError && (
+          <Alert variant="destructive" className="mb-6">
+            <AlertDescription>{uploadError}</AlertDescription>
+          </Alert>
+        )}
+
+        {commitResult && (
+          <Alert className="mb-6">
+            <AlertDescription>
+              Imported {commitResult.imported} guests. Each guest has been issued an RSVP link.
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Import Progress */}
         {importing && (
           <Card className="mb-6">
@@ -243,7 +259,7 @@ export default function GuestImportPage() {
               <div className="space-y-3">
                 <Progress value={importProgress} />
                 <p className="text-sm text-gray-600">
-                  Processing: {importProgress}% complete
+                  {importProgress < 50 ? 'Uploading' : 'Validating'}: {importProgress}% complete
                 </p>
               </div>
             </CardContent>
@@ -311,6 +327,39 @@ export default function GuestImportPage() {
               </Card>
             )}
 
+            {/* Warnings */}
+            {(importResult.warnings.length > 0 || importResult.unmappedColumns.length > 0) && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <AlertTriangle className="w-5 h-5 text-yellow-500" />
+                    Warnings
+                  </CardTitle>
+                  <CardDescription>
+                    These records will be imported, but you may want to review them first
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2">
+                    {importResult.unmappedColumns.length > 0 && (
+                      <Alert>
+                        <AlertDescription>
+                          <strong>Ignored columns:</strong> {importResult.unmappedColumns.join(', ')}
+                        </AlertDescription>
+                      </Alert>
+                    )}
+                    {importResult.warnings.map((warning, index) => (
+                      <Alert key={index}>
+                        <AlertDescription>
+                          <strong>Row {warning.row}:</strong> {warning.message}
+                        </AlertDescription>
+                      </Alert>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Preview */}
             <Card>
               <CardHeader>
@@ -336,8 +385,8 @@ export default function GuestImportPage() {
                       </TableRow>
                     </TableHeader>
                     <TableBody>
-                      {importResult.preview.map((guest, index) => (
-                        <TableRow key={index}>
+                      {importResult.preview.map((guest) => (
+                        <TableRow key={guest.row}>
                           <TableCell>
                             <Badge 
                               variant={
@@ -385,9 +434,9 @@ export default function GuestImportPage() {
                 </CardHeader>
                 <CardContent>
                   <div className="flex gap-4">
-                    <Button onClick={confirmImport} className="bg-green-600 hover:bg-green-700">
+                    <Button onClick={confirmImport} className="bg-green-600 hover:bg-green-700" disabled={committing}>
                       <CheckCircle className="w-4 h-4 mr-2" />
-                      Import {importResult.valid} Guests
+                      {committing ? 'Importing...' : `Import ${importResult.valid} Guests`}
                     </Button>
                     <Button variant="outline" onClick={() => setImportResult(null)}>
                       Cancel
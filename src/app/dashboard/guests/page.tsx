@@ -12,11 +12,15 @@ import {
   Upload, 
   Mail, 
   MessageSquare,
-  MoreHorizontal,
   Edit,
   Trash2,
   Heart,
-  ArrowLeft
+  ArrowLeft,
+  Copy,
+  Inbox,
+  QrCode,
+  Printer,
+  UserCheck
 } from 'lucide-react'
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -31,110 +35,79 @@ import {
 } from '@/components/ui/select'
 import { Checkbox } from '@/components/ui/checkbox'
 import { useToast } from '@/hooks/use-toast'
+import type { CustomFieldDefinition } from '@/lib/validations/schemas'
+import type { CampaignResult } from '@/lib/services/campaigns'
 
 interface Guest {
   id: string
   firstName: string
   lastName: string
-  email?: string
-  phone?: string
+  email?: string | null
+  // Set when the address bounced or was reported as spam; the event no longer emails it
+  emailInvalid: boolean
+  emailInvalidReason?: string | null
+  phone?: string | null
   side: 'bride' | 'groom' | 'mutual'
-  relationship: string
+  relationship: string | null
   rsvpStatus: 'pending' | 'attending' | 'not_attending' | 'maybe'
-  plusOneAllowed: boolean
-  plusOneName?: string
-  dietaryRequirements?: string
-  invitationSent: boolean
+  plusOneAllowed: boolean | null
+  plusOneName?: string | null
+  dietaryRequirements?: string | null
+  invitationSent: boolean | null
   tags: string[]
+  // Answers to the event's custom RSVP questions, keyed by question name
+  customFields: Record<string, string>
   createdAt: string
 }
 
-const mockGuests: Guest[] = [
-  {
-    id: '1',
-    firstName: 'John',
-    lastName: 'Smith',
-    email: 'john.smith@email.com',
-    phone: '+1234567890',
-    side: 'groom',
-    relationship: 'Brother',
-    rsvpStatus: 'attending',
-    plusOneAllowed: true,
-    plusOneName: 'Jane Smith',
-    dietaryRequirements: 'Vegetarian',
-    invitationSent: true,
-    tags: ['family', 'vip'],
-    createdAt: '2024-01-15T10:00:00Z'
-  },
-  {
-    id: '2',
-    firstName: 'Emily',
-    lastName: 'Johnson',
-    email: 'emily.johnson@email.com',
-    side: 'bride',
-    relationship: 'Best Friend',
-    rsvpStatus: 'pending',
-    plusOneAllowed: false,
-    invitationSent: true,
-    tags: ['friends'],
-    createdAt: '2024-01-16T10:00:00Z'
-  },
-  {
-    id: '3',
-    firstName: 'Michael',
-    lastName: 'Brown',
-    email: 'michael.brown@email.com',
-    phone: '+1234567891',
-    side: 'mutual',
-    relationship: 'Colleague',
-    rsvpStatus: 'not_attending',
-    plusOneAllowed: true,
-    invitationSent: true,
-    tags: ['work'],
-    createdAt: '2024-01-17T10:00:00Z'
-  },
-  {
-    id: '4',
-    firstName: 'Sarah',
-    lastName: 'Davis',
-    email: 'sarah.davis@email.com',
-    side: 'bride',
-    relationship: 'Sister',
-    rsvpStatus: 'attending',
-    plusOneAllowed: true,
-    plusOneName: 'Tom Davis',
-    invitationSent: true,
-    tags: ['family', 'vip'],
-    createdAt: '2024-01-18T10:00:00Z'
-  },
-  {
-    id: '5',
-    firstName: 'David',
-    lastName: 'Wilson',
-    email: 'david.wilson@email.com',
-    side: 'groom',
-    relationship: 'Friend',
-    rsvpStatus: 'maybe',
-    plusOneAllowed: false,
-    invitationSent: false,
-    tags: ['friends'],
-    createdAt: '2024-01-19T10:00:00Z'
-  }
-]
-
 export default function GuestsPage() {
   const { data: session } = useSession()
   const { toast } = useToast()
-  const [guests, setGuests] = useState<Guest[]>(mockGuests)
-  const [filteredGuests, setFilteredGuests] = useState<Guest[]>(mockGuests)
+  const [guests, setGuests] = useState<Guest[]>([])
+  const [filteredGuests, setFilteredGuests] = useState<Guest[]>([])
   const [selectedGuests, setSelectedGuests] = useState<Set<string>>(new Set())
   const [isLoading, setIsLoading] = useState(false)
+  const [eventId, setEventId] = useState<string | null>(null)
+  const [customFieldDefinitions, setCustomFieldDefinitions] = useState<CustomFieldDefinition[]>([])
   
   // Filters
   const [searchQuery, setSearchQuery] = useState('')
   const [sideFilter, setSideFilter] = useState<string>('all')
   const [rsvpFilter, setRsvpFilter] = useState<string>('all')
   const [invitationFilter, setInvitationFilter] = useState<string>('all')
+  const [deliverabilityFilter, setDeliverabilityFilter] = useState<string>('all')
+  const [customFieldFilters, setCustomFieldFilters] = useState<Record<string, string>>({})
+
+  // Load guests for the event given in the URL (or all accessible guests)
+  useEffect(() => {
+    const fetchGuests = async () => {
+      setIsLoading(true)
+      try {
+        const query = new URLSearchParams({ limit: '100' })
+        const eventId = new URLSearchParams(window.location.search).get('eventId')
+        if (eventId) query.set('eventId', eventId)
+        setEventId(eventId)
+
+        const response = await fetch(`/api/guests?${query}`)
+        const result = await response.json()
+        if (!result.success) {
+          throw new Error(result.error)
+        }
+        setGuests(result.data.guests)
+        setCustomFieldDefinitions(result.data.customFieldDefinitions)
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: "Failed to load guests",
+          variant: "destructive"
+        })
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchGuests()
+  }, [toast])
 
   // Apply filters
   useEffect(() => {
@@ -146,7 +119,7 @@ export default function GuestsPage() {
         guest.firstName.toLowerCase().includes(searchQuery.toLowerCase()) ||
         guest.lastName.toLowerCase().includes(searchQuery.toLowerCase()) ||
         guest.email?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        guest.relationship.toLowerCase().includes(searchQuery.toLowerCase())
+        guest.relationship?.toLowerCase().includes(searchQuery.toLowerCase())
       )
     }
 
@@ -167,8 +140,45 @@ export default function GuestsPage() {
       )
     }
 
+    // Contact filter
+    if (deliverabilityFilter !== 'all') {
+      filtered = filtered.filter(guest =>
+        deliverabilityFilter === 'undeliverable' ? guest.emailInvalid : !guest.emailInvalid
+      )
+    }
+
+    // Custom question filters: choices match exactly, free text matches anywhere in the answer
+    for (const [name, value] of Object.entries(customFieldFilters)) {
+      if (!value) continue
+      const definition = customFieldDefinitions.find(d => d.name === name)
+      const exact = definition?.type === 'select' || definition?.type === 'checkbox'
+      filtered = filtered.filter(guest => {
+        const answer = guest.customFields[name]
+        if (answer === undefined) return false
+        return exact ? answer === value : answer.toLowerCase().includes(value.toLowerCase())
+      })
+    }
+
     setFilteredGuests(filtered)
-  }, [guests, searchQuery, sideFilter, rsvpFilter, invitationFilter])
+  }, [guests, searchQuery, sideFilter, rsvpFilter, invitationFilter, deliverabilityFilter, customFieldFilters, customFieldDefinitions])
+
+  // Download the filtered list; the server applies the same filters to the whole event
+  const handleExport = () => {
+    if (!eventId) return
+    const query = new URLSearchParams({ eventId })
+    if (searchQuery) query.set('search', searchQuery)
+    if (sideFilter !== 'all') query.set('side', sideFilter)
+    if (rsvpFilter !== 'all') query.set('rsvpStatus', rsvpFilter)
+    if (deliverabilityFilter !== 'all') query.set('deliverability', deliverabilityFilter)
+    for (const [name, value] of Object.entries(customFieldFilters)) {
+      if (value) query.set(`cf.${name}`, value)
+    }
+    window.location.href = `/api/guests/export?${query}`
+  }
+
+  const setCustomFieldFilter = (name: string, value: string) => {
+    setCustomFieldFilters(prev => ({ ...prev, [name]: value === 'all' ? '' : value }))
+  }
 
   const handleSelectGuest = (guestId: string) => {
     const newSelected = new Set(selectedGuests)
@@ -188,29 +198,136 @@ export default function GuestsPage() {
     }
   }
 
-  const handleBulkAction = async (action: 'send_invitation' | 'send_reminder' | 'delete') => {
+  const deleteGuests = async (guestIds: string[]) => {
+    const results = await Promise.all(
+      guestIds.map(id => fetch(`/api/guests/${id}`, { method: 'DELETE' }).then(res => res.json()))
+    )
+    const deletedIds = new Set(results.filter(r => r.success).map(r => r.data.id as string))
+    setGuests(prev => prev.filter(g => !deletedIds.has(g.id)))
+
+    if (deletedIds.size < guestIds.length) {
+      throw new Error(`Failed to delete ${guestIds.length - deletedIds.size} guests`)
+    }
+  }
+
+  const handleDeleteGuest = async (guest: Guest) => {
+    if (!window.confirm(`Delete ${guest.firstName} ${guest.lastName}? Their RSVP history will be removed.`)) return
+
+    setIsLoading(true)
+    try {
+      await deleteGuests([guest.id])
+      toast({
+        title: "Guest Deleted",
+        description: `Deleted ${guest.firstName} ${guest.lastName}`,
+      })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete guest",
+        variant: "destructive"
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // Queue a campaign for the selected guests after confirming a dry run. Returns false if cancelled.
+  const sendCampaign = async (category: 'invitation' | 'reminder'): Promise<boolean> => {
+    if (!eventId) {
+      throw new Error('Open the guest list from an event to send messages')
+    }
+
+    const send = async (dryRun: boolean): Promise<CampaignResult> => {
+      const response = await fetch('/api/campaigns', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ eventId, category, recipientIds: Array.from(selectedGuests), dryRun })
+      })
+      const result = await response.json()
+      if (!result.success) throw new Error(result.error)
+      return result.data
+    }
+
+    const plan = await send(true)
+    const noun = category === 'invitation' ? 'invitation' : 'reminder'
+    const skippedNote = plan.skipped.length > 0
+      ? `\n${plan.skipped.length} guest${plan.skipped.length === 1 ? '' : 's'} will be skipped (no usable contact details or template).`
+      : ''
+    if (plan.messages === 0) {
+      throw new Error(`None of the selected guests can be sent an ${noun}`)
+    }
+    if (!window.confirm(`Send ${plan.messages} ${noun}${plan.messages === 1 ? '' : 's'}? Household members share one message.${skippedNote}`)) {
+      return false
+    }
+
+    const sent = await send(false)
+    if (category === 'invitation') {
+      const skippedIds = new Set(sent.skipped.map(skip => skip.guestId))
+      setGuests(prev => prev.map(g =>
+        selectedGuests.has(g.id) && !skippedIds.has(g.id) ? { ...g, invitationSent: true } : g
+      ))
+    }
+    toast({
+      title: category === 'invitation' ? "Invitations Queued" : "Reminders Queued",
+      description: `Queued ${sent.messages} message${sent.messages === 1 ? '' : 's'}` +
+        (sent.skipped.length > 0 ? `, skipped ${sent.skipped.length} guests` : ''),
+    })
+    return true
+  }
+
+  // Download QR codes for printed invitations. Returns false if cancelled.
+  const downloadQrCodes = async (format: 'pdf' | 'zip'): Promise<boolean> => {
+    if (!eventId) {
+      throw new Error('Open the guest list from an event to print invitations')
+    }
+    if (!window.confirm('Printing issues new RSVP links for these guests. QR codes and codes printed for them earlier will stop working; links sent by email keep working. Continue?')) {
+      return false
+    }
+
+    const response = await fetch('/api/guests/qr', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ eventId, guestIds: Array.from(selectedGuests), format, includeCode: true })
+    })
+    if (!response.ok) {
+      const result = await response.json()
+      throw new Error(result.error)
+    }
+
+    const url = URL.createObjectURL(await response.blob())
+    const link = document.createElement('a')
+    link.href = url
+    link.download = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] ?? `invitation-qr-codes.${format}`
+    link.click()
+    URL.revokeObjectURL(url)
+
+    toast({
+      title: "QR Codes Ready",
+      description: format === 'pdf' ? 'Downloaded a label sheet' : 'Downloaded one QR code per invitation',
+    })
+    return true
+  }
+
+  const handleBulkAction = async (action: 'send_invitation' | 'send_reminder' | 'print_labels' | 'download_qr' | 'delete') => {
     if (selectedGuests.size === 0) return
 
     setIsLoading(true)
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000))
-      
       switch (action) {
         case 'send_invitation':
-          toast({
-            title: "Invitations Sent",
-            description: `Sent invitations to ${selectedGuests.size} guests`,
-          })
+          if (!await sendCampaign('invitation')) return
           break
         case 'send_reminder':
-          toast({
-            title: "Reminders Sent", 
-            description: `Sent reminders to ${selectedGuests.size} guests`,
-          })
+          if (!await sendCampaign('reminder')) return
+          break
+        case 'print_labels':
+          if (!await downloadQrCodes('pdf')) return
+          break
+        case 'download_qr':
+          if (!await downloadQrCodes('zip')) return
           break
         case 'delete':
-          setGuests(prev => prev.filter(g => !selectedGuests.has(g.id)))
+          await deleteGuests(Array.from(selectedGuests))
           toast({
             title: "Guests Deleted",
             description: `Deleted ${selectedGuests.size} guests`,
@@ -221,7 +338,7 @@ export default function GuestsPage() {
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to perform action",
+        description: error instanceof Error ? error.message : "Failed to perform action",
         variant: "destructive"
       })
     } finally {
@@ -246,6 +363,8 @@ export default function GuestsPage() {
     }
   }
 
+  const eventQuery = eventId ? `?eventId=${eventId}` : ''
+
   const stats = {
     total: guests.length,
     attending: guests.filter(g => g.rsvpStatus === 'attending').length,
@@ -278,11 +397,38 @@ export default function GuestsPage() {
               </div>
             </div>
             <div className="flex items-center space-x-4">
-              <Button variant="outline">
-                <Upload className="w-4 h-4 mr-2" />
-                Import
+              <Button variant="outline" asChild>
+                <Link href={`/dashboard/guests/import${eventQuery}`}>
+                  <Upload className="w-4 h-4 mr-2" />
+                  Import
+                </Link>
+              </Button>
+              <Button variant="outline" asChild>
+                <Link href={`/dashboard/guests/duplicates${eventQuery}`}>
+                  <Copy className="w-4 h-4 mr-2" />
+                  Duplicates
+                </Link>
+              </Button>
+              <Button variant="outline" asChild>
+                <Link href={`/dashboard/guests/replies${eventQuery}`}>
+                  <Inbox className="w-4 h-4 mr-2" />
+                  Replies
+                </Link>
               </Button>
-              <Button variant="outline">
+              {eventId && (
+                <Button variant="outline" asChild>
+                  <Link href={`/dashboard/checkin${eventQuery}`}>
+                    <UserCheck className="w-4 h-4 mr-2" />
+                    Check-in
+                  </Link>
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                onClick={handleExport}
+                disabled={!eventId}
+                title={eventId ? undefined : 'Open the guest list from an event to export it'}
+              >
                 <Download className="w-4 h-4 mr-2" />
                 Export
               </Button>
@@ -345,7 +491,7 @@ export default function GuestsPage() {
         {/* Filters and Search */}
         <Card className="mb-6">
           <CardContent className="p-6">
-            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-4">
               <div>
                 <Label htmlFor="search">Search Guests</Label>
                 <div className="relative">
@@ -401,8 +547,58 @@ export default function GuestsPage() {
                   </SelectContent>
                 </Select>
               </div>
+              <div>
+                <Label>Contact</Label>
+                <Select value={deliverabilityFilter} onValueChange={setDeliverabilityFilter}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="All contacts" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All</SelectItem>
+                    <SelectItem value="deliverable">Deliverable</SelectItem>
+                    <SelectItem value="undeliverable">Undeliverable</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
 
+            {customFieldDefinitions.length > 0 && (
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
+                {customFieldDefinitions.map(field => (
+                  <div key={field.name}>
+                    <Label>{field.name}</Label>
+                    {field.type === 'select' || field.type === 'checkbox' ? (
+                      <Select
+                        value={customFieldFilters[field.name] || 'all'}
+                        onValueChange={(value) => setCustomFieldFilter(field.name, value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Any answer" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">Any Answer</SelectItem>
+                          {field.type === 'checkbox' ? (
+                            <>
+                              <SelectItem value="true">Yes</SelectItem>
+                              <SelectItem value="false">No</SelectItem>
+                            </>
+                          ) : (field.options ?? []).map(option => (
+                            <SelectItem key={option} value={option}>{option}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Input
+                        placeholder="Contains..."
+                        value={customFieldFilters[field.name] ?? ''}
+                        onChange={(e) => setCustomFieldFilter(field.name, e.target.value)}
+                      />
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
             {/* Bulk Actions */}
             {selectedGuests.size > 0 && (
               <div className="flex items-center justify-between bg-blue-50 p-4 rounded-lg">
@@ -428,6 +624,24 @@ export default function GuestsPage() {
                     <MessageSquare className="w-4 h-4 mr-2" />
                     Send Reminders
                   </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleBulkAction('print_labels')}
+                    disabled={isLoading}
+                  >
+                    <Printer className="w-4 h-4 mr-2" />
+                    Print QR Labels
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleBulkAction('download_qr')}
+                    disabled={isLoading}
+                  >
+                    <QrCode className="w-4 h-4 mr-2" />
+                    QR Codes (ZIP)
+                  </Button>
                   <Button
                     size="sm"
                     variant="destructive"
@@ -474,6 +688,11 @@ export default function GuestsPage() {
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Invitation
                     </th>
+                    {customFieldDefinitions.map(field => (
+                      <th key={field.name} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        {field.name}
+                      </th>
+                    ))}
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Actions
                     </th>
@@ -511,7 +730,17 @@ export default function GuestsPage() {
                       <td className="px-6 py-4">
                         <div>
                           {guest.email && (
-                            <div className="text-sm text-gray-900">{guest.email}</div>
+                            <div className="text-sm text-gray-900">
+                              {guest.email}
+                              {guest.emailInvalid && (
+                                <span
+                                  className="ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-red-100 text-red-800"
+                                  title={guest.emailInvalidReason === 'complaint' ? 'Marked as spam' : 'Bounced'}
+                                >
+                                  Undeliverable
+                                </span>
+                              )}
+                            </div>
                           )}
                           {guest.phone && (
                             <div className="text-sm text-gray-500">{guest.phone}</div>
@@ -549,6 +778,16 @@ export default function GuestsPage() {
                           {guest.invitationSent ? 'Sent' : 'Not Sent'}
                         </span>
                       </td>
+                      {customFieldDefinitions.map(field => {
+                        const answer = guest.customFields[field.name]
+                        return (
+                          <td key={field.name} className="px-6 py-4 text-sm text-gray-900">
+                            {field.type === 'checkbox' && answer !== undefined
+                              ? (answer === 'true' ? 'Yes' : 'No')
+                              : answer ?? <span className="text-gray-400">—</span>}
+                          </td>
+                        )
+                      })}
                       <td className="px-6 py-4">
                         <div className="flex items-center space-x-2">
                           <Button size="sm" variant="outline" asChild>
@@ -556,8 +795,13 @@ export default function GuestsPage() {
                               <Edit className="w-4 h-4" />
                             </Link>
                           </Button>
-                          <Button size="sm" variant="outline">
-                            <MoreHorizontal className="w-4 h-4" />
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleDeleteGuest(guest)}
+                            disabled={isLoading}
+                          >
+                            <Trash2 className="w-4 h-4" />
                           </Button>
                         </div>
                       </td>
@@ -0,0 +1,285 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, Check, Inbox, Loader2, MessageSquare, X } from 'lucide-react'
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { useToast } from '@/hooks/use-toast'
+import type { ReplyReview } from '@/lib/services/inbound-replies'
+
+type ReplyStatus = 'pending' | 'applied' | 'rejected'
+
+const CHANNEL_LABELS: Record<string, string> = {
+  email: 'Email',
+  whatsapp: 'WhatsApp',
+  sms: 'SMS'
+}
+
+// What the planner will approve, starting from what the parser read
+interface Draft {
+  attending: 'yes' | 'no' | ''
+  partySize: string
+}
+
+function toDraft(reply: ReplyReview): Draft {
+  return {
+    attending: reply.attending === null ? '' : reply.attending ? 'yes' : 'no',
+    partySize: reply.partySize ? String(reply.partySize) : ''
+  }
+}
+
+export default function GuestRepliesPage() {
+  const { toast } = useToast()
+  const [status, setStatus] = useState<ReplyStatus>('pending')
+  const [replies, setReplies] = useState<ReplyReview[]>([])
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({})
+  const [eventId, setEventId] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [reviewing, setReviewing] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  const fetchReplies = useCallback(async () => {
+    const id = new URLSearchParams(window.location.search).get('eventId')
+    setEventId(id)
+    if (!id) {
+      setError('Open this page from an event to review guest replies')
+      setIsLoading(false)
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      const response = await fetch(`/api/events/${id}/replies?status=${status}`)
+      const result = await response.json()
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+      setReplies(result.data.replies)
+      setDrafts(Object.fromEntries(result.data.replies.map((reply: ReplyReview) => [reply.id, toDraft(reply)])))
+    } catch (error) {
+      setError('Failed to load replies')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [status])
+
+  useEffect(() => {
+    fetchReplies()
+  }, [fetchReplies])
+
+  const updateDraft = (id: string, changes: Partial<Draft>) => {
+    setDrafts(prev => ({ ...prev, [id]: { ...prev[id], ...changes } }))
+  }
+
+  const handleReview = async (reply: ReplyReview, action: 'approve' | 'reject') => {
+    const draft = drafts[reply.id]
+    setReviewing(reply.id)
+    try {
+      const response = await fetch(`/api/events/${eventId}/replies/${reply.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(action === 'reject' ? { action } : {
+          action,
+          attending: draft.attending ? draft.attending === 'yes' : undefined,
+          partySize: draft.attending === 'yes' && draft.partySize ? Number(draft.partySize) : null
+        })
+      })
+      const result = await response.json()
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+
+      setReplies(prev => prev.filter(r => r.id !== reply.id))
+      toast({
+        title: action === 'approve' ? "Reply Applied" : "Reply Rejected",
+        description: action === 'approve'
+          ? `Updated the RSVP for ${reply.guest.firstName} ${reply.guest.lastName}`
+          : `The reply from ${reply.guest.firstName} ${reply.guest.lastName} was set aside`,
+      })
+    } catch (error: any) {
+      toast({
+        title: "Review Failed",
+        description: error.message || "Failed to review reply",
+        variant: "destructive"
+      })
+    } finally {
+      setReviewing(null)
+    }
+  }
+
+  const renderReading = (reply: ReplyReview) => (
+    <div className="text-sm text-gray-600 space-y-1">
+      <div>
+        Read as: <span className="font-medium text-gray-900">
+          {reply.attending === null ? 'Unclear' : reply.attending ? 'Attending' : 'Not attending'}
+          {reply.attending && reply.partySize ? `, ${reply.partySize} ${reply.partySize === 1 ? 'person' : 'people'}` : ''}
+        </span>
+        {' '}· Confidence {Math.round(reply.reply.confidence * 100)}%
+      </div>
+      {reply.reply.signals.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {reply.reply.signals.map(signal => (
+            <Badge key={signal} variant="secondary">{signal}</Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+
+  const renderReview = (reply: ReplyReview) => {
+    const draft = drafts[reply.id] ?? toDraft(reply)
+    return (
+      <div className="flex flex-col md:flex-row md:items-end gap-4 mt-4">
+        <div className="w-full md:w-48">
+          <Label>Attending</Label>
+          <Select value={draft.attending} onValueChange={(value) => updateDraft(reply.id, { attending: value as Draft['attending'] })}>
+            <SelectTrigger>
+              <SelectValue placeholder="Choose" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="yes">Yes</SelectItem>
+              <SelectItem value="no">No</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {draft.attending === 'yes' && (
+          <div className="w-full md:w-40">
+            <Label htmlFor={`party-${reply.id}`}>People coming</Label>
+            <Input
+              id={`party-${reply.id}`}
+              type="number"
+              min={1}
+              max={20}
+              value={draft.partySize}
+              placeholder={reply.household ? `All ${reply.household.members}` : '1'}
+              onChange={(e) => updateDraft(reply.id, { partySize: e.target.value })}
+            />
+          </div>
+        )}
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            className="bg-wedding-gold hover:bg-wedding-gold/90"
+            onClick={() => handleReview(reply, 'approve')}
+            disabled={reviewing !== null || !draft.attending}
+          >
+            {reviewing === reply.id ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Check className="w-4 h-4 mr-2" />}
+            Apply to RSVP
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => handleReview(reply, 'reject')}
+            disabled={reviewing !== null}
+          >
+            <X className="w-4 h-4 mr-2" />
+            Reject
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white border-b border-gray-200">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center h-16">
+            <Button variant="ghost" asChild>
+              <Link href={`/dashboard/guests${eventId ? `?eventId=${eventId}` : ''}`}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Guests
+              </Link>
+            </Button>
+            <div className="ml-6">
+              <h1 className="text-xl font-semibold text-gray-900 flex items-center">
+                <Inbox className="w-6 h-6 mr-2" />
+                Guest Replies
+              </h1>
+              <p className="text-sm text-gray-500">
+                RSVPs sent as replies by email, WhatsApp or SMS
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-4">
+        <Tabs value={status} onValueChange={(value) => setStatus(value as ReplyStatus)}>
+          <TabsList>
+            <TabsTrigger value="pending">To review</TabsTrigger>
+            <TabsTrigger value="applied">Applied</TabsTrigger>
+            <TabsTrigger value="rejected">Rejected</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading && (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-wedding-gold" />
+          </div>
+        )}
+
+        {!isLoading && !error && replies.length === 0 && (
+          <Card>
+            <CardContent className="text-center py-12">
+              <MessageSquare className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No replies here</h3>
+              <p className="text-gray-500">
+                {status === 'pending' ? 'Every reply has been dealt with.' : 'Reviewed replies will show up here.'}
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {!isLoading && replies.map((reply) => (
+          <Card key={reply.id}>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between text-base">
+                <span>
+                  {reply.guest.firstName} {reply.guest.lastName}
+                  {reply.household && (
+                    <span className="text-sm font-normal text-gray-500"> · {reply.household.name} ({reply.household.members})</span>
+                  )}
+                </span>
+                <Badge variant="outline">{CHANNEL_LABELS[reply.reply.channel] ?? reply.reply.channel}</Badge>
+              </CardTitle>
+              <CardDescription>
+                From {reply.reply.from} · {new Date(reply.receivedAt).toLocaleString()}
+                {' '}· Current RSVP: {reply.guest.rsvpStatus.replace('_', ' ')}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {reply.reply.subject && (
+                <div className="text-sm font-medium text-gray-900 mb-1">{reply.reply.subject}</div>
+              )}
+              <blockquote className="border-l-4 border-gray-200 pl-4 text-gray-800 whitespace-pre-wrap mb-4">
+                {reply.reply.text}
+              </blockquote>
+              {renderReading(reply)}
+              {reply.status === 'pending' && renderReview(reply)}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -21,6 +21,7 @@ import {
   CheckCircle2,
   AlertCircle
 } from 'lucide-react'
+import type { TemplateStats } from '@/lib/services/email-tracking'
 
 interface EventStats {
   totalGuests: number
@@ -59,6 +60,9 @@ export default function DashboardPage() {
     transportationBooked: 0
   })
   const [isLoading, setIsLoading] = useState(true)
+  // Engagement is loaded for the event opened with ?eventId=, like the guest list
+  const [statsEventId, setStatsEventId] = useState<string | null>(null)
+  const [templateStats, setTemplateStats] = useState<TemplateStats[]>([])
 
   useEffect(() => {
     if (status === 'loading') return
@@ -99,6 +103,28 @@ export default function DashboardPage() {
     }, 1000)
   }, [session, status, router])
 
+  useEffect(() => {
+    setStatsEventId(new URLSearchParams(window.location.search).get('eventId'))
+  }, [])
+
+  useEffect(() => {
+    if (!statsEventId) return
+
+    const loadTemplateStats = async () => {
+      try {
+        const response = await fetch(`/api/events/${statsEventId}/communications/stats`)
+        const result = await response.json()
+        if (result.success) {
+          setTemplateStats(result.data.templates)
+        }
+      } catch (error) {
+        console.error('Failed to load communication stats:', error)
+      }
+    }
+
+    loadTemplateStats()
+  }, [statsEventId])
+
   if (status === 'loading' || isLoading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -299,6 +325,33 @@ export default function DashboardPage() {
                   <span className="text-lg font-bold">{stats.transportationBooked}</span>
                 </div>
               </div>
+
+              {statsEventId && (
+                <div className="border-t border-gray-200 mt-4 pt-4">
+                  <p className="text-sm font-medium text-gray-600 mb-3">Email Engagement</p>
+                  {templateStats.length === 0 ? (
+                    <p className="text-sm text-gray-500">No emails sent yet</p>
+                  ) : (
+                    <div className="space-y-3">
+                      {templateStats.map(template => (
+                        <div key={template.templateId ?? 'other'} className="flex items-center justify-between">
+                          <div>
+                            <p className="text-sm font-medium">{template.name}</p>
+                            <p className="text-xs text-gray-500">
+                              {template.sent} sent
+                              {template.bounced > 0 && ` · ${template.bounced} bounced`}
+                            </p>
+                          </div>
+                          <div className="text-right text-sm">
+                            <p><span className="font-bold">{(template.openRate * 100).toFixed(1)}%</span> opened</p>
+                            <p><span className="font-bold">{(template.clickRate * 100).toFixed(1)}%</span> clicked</p>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -0,0 +1,278 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useParams } from 'next/navigation'
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Heart, Loader2, AlertCircle, CheckCircle2, BellOff } from 'lucide-react'
+import type { GuestPreferences } from '@/lib/services/guest-preferences'
+import type { PreferenceCategory, UpdatePreferences } from '@/lib/validations/schemas'
+
+const CHANNEL_LABELS: Record<string, string> = {
+  email: 'Email',
+  whatsapp: 'WhatsApp',
+  sms: 'SMS (text message)'
+}
+
+const CATEGORY_LABELS: Record<PreferenceCategory, { title: string; description: string }> = {
+  invitation: { title: 'Invitations', description: 'Your invitation and RSVP link' },
+  reminder: { title: 'Reminders', description: 'Reminders to RSVP and about upcoming events' },
+  update: { title: 'Updates', description: 'Changes to times, venues and plans' },
+  thank_you: { title: 'Thank you notes', description: 'Messages from the couple after the wedding' }
+}
+
+const CATEGORIES = Object.keys(CATEGORY_LABELS) as PreferenceCategory[]
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  es: 'Español',
+  fr: 'Français',
+  de: 'Deutsch',
+  it: 'Italiano',
+  pt: 'Português',
+  nl: 'Nederlands',
+  hi: 'हिन्दी',
+  ar: 'العربية',
+  zh: '中文'
+}
+
+// Dates like the wedding day are calendar dates, so format them without shifting into the viewer's zone
+const formatCalendarDate = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC'
+  })
+
+export default function PreferencesPage() {
+  const params = useParams()
+  const token = params.token as string
+
+  const [preferences, setPreferences] = useState<GuestPreferences | null>(null)
+  const [channel, setChannel] = useState('email')
+  const [language, setLanguage] = useState('en')
+  const [categories, setCategories] = useState<PreferenceCategory[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState('')
+  const [saved, setSaved] = useState('')
+
+  const applyPreferences = (data: GuestPreferences) => {
+    setPreferences(data)
+    setChannel(data.channel)
+    setLanguage(data.language)
+    setCategories(data.categories)
+  }
+
+  useEffect(() => {
+    const fetchPreferences = async () => {
+      try {
+        const response = await fetch(`/api/preferences/${encodeURIComponent(token)}`)
+        const result = await response.json()
+        if (!result.success) {
+          throw new Error(result.error)
+        }
+        applyPreferences(result.data.preferences)
+      } catch (error: any) {
+        setError(error.message || 'Failed to load your preferences')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchPreferences()
+  }, [token])
+
+  const save = async (changes: UpdatePreferences, message: string) => {
+    setIsSaving(true)
+    setError('')
+    setSaved('')
+    try {
+      const response = await fetch(`/api/preferences/${encodeURIComponent(token)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes)
+      })
+      const result = await response.json()
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+      applyPreferences(result.data.preferences)
+      setSaved(message)
+    } catch (error: any) {
+      setError(error.message || 'Failed to save your preferences')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const toggleCategory = (category: PreferenceCategory, checked: boolean) => {
+    setCategories(prev => checked ? [...prev, category] : prev.filter(c => c !== category))
+  }
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-wedding-blush/20 to-wedding-sage/20 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md text-center">
+          <CardContent className="p-6">
+            <Loader2 className="w-8 h-8 animate-spin text-wedding-gold mx-auto mb-4" />
+            <p className="text-gray-600">Loading your preferences...</p>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  if (!preferences) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-wedding-blush/20 to-wedding-sage/20 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md text-center">
+          <CardContent className="p-6">
+            <AlertCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
+            <h2 className="text-xl font-semibold text-gray-900 mb-2">Link Not Valid</h2>
+            <p className="text-gray-600">
+              {error || 'We couldn\'t find your preferences. Please use the link from one of our emails.'}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-wedding-blush/20 to-wedding-sage/20 py-8 px-4">
+      <div className="max-w-xl mx-auto space-y-6">
+        <div className="text-center">
+          <Heart className="w-12 h-12 text-wedding-gold mx-auto mb-3" />
+          <h1 className="text-3xl font-serif text-gray-900 mb-1">{preferences.event.coupleNames}</h1>
+          <p className="text-gray-600">{formatCalendarDate(preferences.event.weddingDate)}</p>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {saved && (
+          <Alert>
+            <CheckCircle2 className="h-4 w-4" />
+            <AlertDescription>{saved}</AlertDescription>
+          </Alert>
+        )}
+
+        {preferences.unsubscribed ? (
+          <Card>
+            <CardContent className="p-6 text-center">
+              <BellOff className="w-10 h-10 text-gray-400 mx-auto mb-3" />
+              <h2 className="text-lg font-semibold text-gray-900 mb-2">You're unsubscribed</h2>
+              <p className="text-gray-600 mb-4">
+                {preferences.guest.firstName}, you won't receive any more messages about the wedding.
+                You'll still get a confirmation when you answer your RSVP.
+              </p>
+              <Button
+                className="bg-wedding-gold hover:bg-wedding-gold/90"
+                onClick={() => save({ unsubscribed: false }, 'Welcome back! You\'ll receive messages again.')}
+                disabled={isSaving}
+              >
+                {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Subscribe again
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>How we contact you</CardTitle>
+              <CardDescription>
+                Hi {preferences.guest.firstName}, choose how and in which language we send you news about the wedding.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label>Contact me by</Label>
+                  <Select value={channel} onValueChange={setChannel}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {preferences.channels.map(option => (
+                        <SelectItem key={option} value={option}>{CHANNEL_LABELS[option]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Language</Label>
+                  <Select value={language} onValueChange={setLanguage}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {preferences.languages.map(code => (
+                        <SelectItem key={code} value={code}>{LANGUAGE_NAMES[code] ?? code.toUpperCase()}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <Label>Send me</Label>
+                {CATEGORIES.map(category => (
+                  <div key={category} className="flex items-start space-x-3">
+                    <Checkbox
+                      id={`category-${category}`}
+                      checked={categories.includes(category)}
+                      onCheckedChange={(checked) => toggleCategory(category, checked === true)}
+                    />
+                    <div>
+                      <Label htmlFor={`category-${category}`} className="font-medium">
+                        {CATEGORY_LABELS[category].title}
+                      </Label>
+                      <p className="text-sm text-gray-500">{CATEGORY_LABELS[category].description}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex flex-col sm:flex-row gap-3 sm:justify-between pt-2">
+                <Button
+                  variant="outline"
+                  onClick={() => save({ unsubscribed: true }, 'You\'ve been unsubscribed.')}
+                  disabled={isSaving}
+                >
+                  <BellOff className="w-4 h-4 mr-2" />
+                  Unsubscribe from everything
+                </Button>
+                <Button
+                  className="bg-wedding-gold hover:bg-wedding-gold/90"
+                  onClick={() => save(
+                    { channel: channel as GuestPreferences['channel'], language, categories },
+                    'Your preferences have been saved.'
+                  )}
+                  disabled={isSaving}
+                >
+                  {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Save preferences
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,14 +1,15 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import { useParams, useRouter } from 'next/navigation'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { useForm } from 'react-hook-form'
-import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from '@/components/ui/card'
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
+import { Checkbox } from '@/components/ui/checkbox'
 import { 
   Select, 
   SelectContent, 
@@ -16,7 +17,6 @@ import {
   SelectTrigger, 
   SelectValue 
 } from '@/components/ui/select'
-import { Checkbox } from '@/components/ui/checkbox'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { 
   Heart, 
@@ -28,100 +28,71 @@ import {
   ArrowRight,
   ArrowLeft,
   Loader2,
-  AlertCircle
+  AlertCircle,
+  Edit
 } from 'lucide-react'
-import { RsvpStage1Schema, RsvpStage2Schema, type RsvpStage1, type RsvpStage2 } from '@/lib/validations/schemas'
-
-interface GuestData {
-  id: string
-  firstName: string
-  lastName: string
-  email?: string
-  side: 'bride' | 'groom' | 'mutual'
-  plusOneAllowed: boolean
-  plusOneName?: string
-  eventName: string
-  coupleNames: string
-  weddingDate: string
-  rsvpDeadline: string
-  ceremonies: Array<{
-    id: string
-    name: string
-    date: string
-    startTime: string
-    venueName: string
-    venueAddress: string
-    description?: string
-    isMainCeremony: boolean
-    mealOptions: string[]
-  }>
-  existingRsvp?: {
-    stage1Complete: boolean
-    stage2Complete: boolean
-    attending: boolean
-    plusOneAttending?: boolean
-    ceremonies: Array<{
-      ceremonyId: string
-      attending: 'yes' | 'no' | 'maybe'
-      mealPreference?: string
-      plusOneAttending?: 'yes' | 'no' | 'maybe'
-      plusOneMealPreference?: string
-    }>
-    dietaryRequirements?: string
-    specialRequests?: string
+import {
+  PartyRsvpStage1Schema,
+  PartyRsvpStage2Schema,
+  type PartyRsvpStage1,
+  type PartyRsvpStage2,
+  type CustomFieldDefinition
+} from '@/lib/validations/schemas'
+import { buildCustomFieldsSchema } from '@/lib/validations/custom-fields'
+import type { RsvpInvitation } from '@/lib/services/rsvp'
+import type { WaitlistEntry } from '@/lib/services/ceremony-capacity'
+
+type RsvpStage = 1 | 2 | 'complete'
+
+// Dates like the wedding day are calendar dates, so format them without shifting into the viewer's zone
+const formatCalendarDate = (date: string, options: Intl.DateTimeFormatOptions) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' })
+
+// Check each member's custom answers in the browser too, reporting all problems for a member together
+const buildStage1Schema = (customFields: CustomFieldDefinition[]) =>
+  PartyRsvpStage1Schema.superRefine((data, ctx) => {
+    data.members.forEach((member, index) => {
+      const result = buildCustomFieldsSchema(customFields, { requireAnswers: member.attending })
+        .safeParse(member.customFields ?? {})
+      if (!result.success) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['members', index, 'customFields'],
+          message: result.error.issues.map(issue => issue.message).join('. ')
+        })
+      }
+    })
+  })
+
+const TRAVEL_ARRANGEMENT_LABELS = {
+  accommodation: {
+    provided: 'Stay where the couple has arranged',
+    self_managed: 'I\'ll book my own',
+    special_arrangement: 'I need a special arrangement'
+  },
+  transportation: {
+    provided: 'Use the transport the couple has arranged',
+    self_managed: 'I\'ll arrange my own',
+    special_arrangement: 'I need a special arrangement'
   }
-}
+} as const
 
-const mockGuestData: GuestData = {
-  id: '1',
-  firstName: 'John',
-  lastName: 'Smith',
-  email: 'john.smith@email.com',
-  side: 'groom',
-  plusOneAllowed: true,
-  plusOneName: 'Jane Smith',
-  eventName: 'Sarah & Michael Wedding',
-  coupleNames: 'Sarah & Michael',
-  weddingDate: '2024-06-15',
-  rsvpDeadline: '2024-05-15',
-  ceremonies: [
-    {
-      id: '1',
-      name: 'Wedding Ceremony',
-      date: '2024-06-15',
-      startTime: '15:00',
-      venueName: 'St. Mary\'s Church',
-      venueAddress: '123 Church Street, City, State',
-      description: 'Join us for our wedding ceremony',
-      isMainCeremony: true,
-      mealOptions: ['Chicken', 'Beef', 'Vegetarian', 'Vegan']
-    },
-    {
-      id: '2',
-      name: 'Wedding Reception',
-      date: '2024-06-15',
-      startTime: '18:00',
-      venueName: 'Grand Hotel Ballroom',
-      venueAddress: '456 Hotel Avenue, City, State',
-      description: 'Dinner, dancing, and celebration',
-      isMainCeremony: false,
-      mealOptions: ['Chicken', 'Beef', 'Vegetarian', 'Vegan', 'Kids Menu']
-    },
-    {
-      id: '3',
-      name: 'Welcome Brunch',
-      date: '2024-06-16',
-      startTime: '11:00',
-      venueName: 'Garden Restaurant',
-      venueAddress: '789 Garden Lane, City, State',
-      description: 'Casual brunch the day after',
-      isMainCeremony: false,
-      mealOptions: ['Full Brunch', 'Continental', 'Vegetarian']
-    }
-  ]
-}
+const TRAVEL_MODE_LABELS = {
+  air: 'Plane',
+  train: 'Train',
+  bus: 'Bus',
+  car: 'Car',
+  other: 'Other'
+} as const
 
-type RsvpStage = 1 | 2 | 'complete'
+// Blank date, time and text inputs mean "not answered"
+const optionalInput = { setValueAs: (value: string) => value || undefined }
+
+const ATTENDANCE_LABELS: Record<string, string> = {
+  yes: 'Attending',
+  no: 'Not attending',
+  maybe: 'Maybe'
+}
 
 export default function RsvpPage() {
   const params = useParams()
@@ -129,86 +100,170 @@ export default function RsvpPage() {
   const token = params.token as string
   
   const [currentStage, setCurrentStage] = useState<RsvpStage>(1)
-  const [guestData, setGuestData] = useState<GuestData | null>(null)
+  const [invitation, setInvitation] = useState<RsvpInvitation | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState('')
   
-  // Stage 1 form
-  const stage1Form = useForm<RsvpStage1>({
-    resolver: zodResolver(RsvpStage1Schema),
+  // Custom questions arrive with the invitation, after the form is created
+  const customFieldsRef = useRef<CustomFieldDefinition[]>([])
+
+  // Stage 1 form - one attendance answer per party member
+  const stage1Form = useForm<PartyRsvpStage1>({
+    resolver: (values, context, options) =>
+      zodResolver(buildStage1Schema(customFieldsRef.current))(values, context, options),
+    defaultValues: { members: [] }
   })
   
-  // Stage 2 form  
-  const stage2Form = useForm<RsvpStage2>({
-    resolver: zodResolver(RsvpStage2Schema),
+  // Stage 2 form - ceremony details for the members who are attending
+  const stage2Form = useForm<PartyRsvpStage2>({
+    resolver: zodResolver(PartyRsvpStage2Schema),
+    defaultValues: { members: [] }
   })
 
+  const stage1Members = stage1Form.watch('members')
+  const stage2Members = stage2Form.watch('members')
+  const allAnswered = stage1Members.length > 0 && stage1Members.every(m => typeof m.attending === 'boolean')
+  const anyoneAttending = stage1Members.some(m => m.attending === true)
+
   const isStageComplete = (stage: number): boolean => {
     if (typeof currentStage === 'string') return currentStage === 'complete'
     return currentStage >= stage
   }
 
-  useEffect(() => {
-    // Simulate API call to fetch guest data by token
-    const fetchGuestData = async () => {
-      try {
-        await new Promise(resolve => setTimeout(resolve, 1000))
-        setGuestData(mockGuestData)
-        
-        // Pre-fill form if existing RSVP
-        if (mockGuestData.existingRsvp) {
-          const { existingRsvp } = mockGuestData
-          
-          if (existingRsvp.stage1Complete) {
-            stage1Form.setValue('guestId', mockGuestData.id)
-            stage1Form.setValue('attending', existingRsvp.attending)
-            stage1Form.setValue('plusOneAttending', existingRsvp.plusOneAttending)
-            
-            if (existingRsvp.stage2Complete) {
-              setCurrentStage('complete')
-            } else {
-              setCurrentStage(2)
+  const memberById = (guestId: string) => invitation?.members.find(m => m.id === guestId)
+
+  // Build stage 2 answers for everyone attending, keeping anything they already told us
+  const prepareStage2 = useCallback((data: RsvpInvitation, attending: PartyRsvpStage1['members']) => {
+    stage2Form.reset({
+      members: attending.filter(m => m.attending).map(answer => {
+        const previous = data.members.find(m => m.id === answer.guestId)?.stage2
+        return {
+          guestId: answer.guestId,
+          ceremonies: data.ceremonies.map(ceremony => {
+            const existing = previous?.ceremonies.find(c => c.ceremonyId === ceremony.id)
+            return {
+              ceremonyId: ceremony.id,
+              attending: existing?.attending ?? 'yes',
+              mealPreference: existing?.mealPreference,
+              plusOneAttending: answer.plusOneAttending ? (existing?.plusOneAttending ?? 'yes') : undefined,
+              plusOneMealPreference: answer.plusOneAttending ? existing?.plusOneMealPreference : undefined,
+              specialRequirements: existing?.specialRequirements
             }
-          }
+          }),
+          dietaryRequirements: previous?.dietaryRequirements ?? '',
+          specialRequests: previous?.specialRequests ?? '',
+          accessibilityNeeds: previous?.accessibilityNeeds ?? '',
+          travel: data.travel.accommodation || data.travel.transportation
+            ? previous?.travel ?? {}
+            : undefined
         }
-      } catch (error) {
-        setError('Failed to load RSVP information')
-      } finally {
-        setIsLoading(false)
+      })
+    })
+  }, [stage2Form])
+
+  const fetchInvitation = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/rsvp/submit?token=${encodeURIComponent(token)}`)
+      const result = await response.json()
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+
+      const data: RsvpInvitation = result.data.invitation
+      customFieldsRef.current = data.customFields
+      setInvitation(data)
+
+      // Pre-fill the forms with the previous answers of everyone who can still respond
+      const respondable = data.members.filter(member => member.canRespond)
+      const answers = respondable.map(member => ({
+        guestId: member.id,
+        attending: member.stage1?.attending as boolean,
+        plusOneAttending: member.stage1?.plusOneAttending,
+        customFields: member.stage1?.customFields ?? {}
+      }))
+      stage1Form.reset({ members: answers })
+      prepareStage2(data, answers)
+
+      const everyoneAnswered = respondable.every(m => m.stage1 !== null)
+      const detailsPending = respondable.some(m => m.stage1?.attending && m.stage2 === null)
+      if (data.isReadOnly || everyoneAnswered) {
+        setCurrentStage(detailsPending ? 2 : 'complete')
       }
+    } catch (error: any) {
+      setError(error.message || 'Failed to load RSVP information')
+    } finally {
+      setIsLoading(false)
     }
+  }, [token, stage1Form, prepareStage2])
 
-    fetchGuestData()
-  }, [token, stage1Form])
+  useEffect(() => {
+    fetchInvitation()
+  }, [fetchInvitation])
 
-  const handleStage1Submit = async (data: RsvpStage1) => {
+  const submitStage = async (stage: 1 | 2, data: PartyRsvpStage1 | PartyRsvpStage2) => {
+    const response = await fetch('/api/rsvp/submit', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token, stage, data })
+    })
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error)
+    }
+    return result.data as { nextStep: 'stage2' | 'complete'; waitlist: WaitlistEntry[] }
+  }
+
+  const handleStage1Submit = async (data: PartyRsvpStage1) => {
+    if (!invitation) return
     setIsSubmitting(true)
+    setError('')
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000))
-      
-      if (data.attending) {
+      const { nextStep } = await submitStage(1, data)
+
+      // Declining gives up any waitlist places
+      setInvitation(prev => prev && {
+        ...prev,
+        members: prev.members.map(member => ({
+          ...member,
+          waitlist: data.members.some(m => m.guestId === member.id && !m.attending) ? [] : member.waitlist
+        }))
+      })
+
+      if (nextStep === 'stage2') {
+        prepareStage2(invitation, data.members)
         setCurrentStage(2)
       } else {
-        // If not attending, submit and complete
+        // Nobody is attending, so there are no details to collect
         setCurrentStage('complete')
       }
-    } catch (error) {
-      setError('Failed to submit RSVP')
+    } catch (error: any) {
+      setError(error.message || 'Failed to submit RSVP')
     } finally {
       setIsSubmitting(false)
     }
   }
 
-  const handleStage2Submit = async (data: RsvpStage2) => {
+  const handleStage2Submit = async (data: PartyRsvpStage2) => {
     setIsSubmitting(true)
+    setError('')
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000))
+      const { waitlist } = await submitStage(2, data)
+
+      // Keep the saved answers so a later revision starts from them
+      setInvitation(prev => prev && {
+        ...prev,
+        members: prev.members.map(member => ({
+          ...member,
+          stage2: data.members.find(m => m.guestId === member.id) ?? member.stage2,
+          waitlist: waitlist
+            .filter(entry => entry.guestId === member.id)
+            .map(({ ceremonyId, position }) => ({ ceremonyId, position }))
+        }))
+      })
       setCurrentStage('complete')
-    } catch (error) {
-      setError('Failed to submit RSVP details')
+    } catch (error: any) {
+      setError(error.message || 'Failed to submit RSVP details')
     } finally {
       setIsSubmitting(false)
     }
@@ -218,6 +273,12 @@ export default function RsvpPage() {
     setCurrentStage(1)
   }
 
+  // Revisions start again from the attendance question, pre-filled with the current answers
+  const handleEditResponse = () => {
+    setError('')
+    setCurrentStage(1)
+  }
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-wedding-blush/20 to-wedding-sage/20 flex items-center justify-center p-4">
@@ -231,7 +292,7 @@ export default function RsvpPage() {
     )
   }
 
-  if (error || !guestData) {
+  if (!invitation) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-wedding-blush/20 to-wedding-sage/20 flex items-center justify-center p-4">
         <Card className="w-full max-w-md text-center">
@@ -250,15 +311,18 @@ export default function RsvpPage() {
     )
   }
 
+  const isParty = invitation.members.length > 1
+  const lockedMembers = invitation.members.filter(member => !member.canRespond)
+
   const renderHeader = () => (
     <div className="text-center mb-8">
       <div className="mb-6">
         <Heart className="w-16 h-16 text-wedding-gold mx-auto mb-4" />
         <h1 className="text-3xl md:text-4xl font-serif text-gray-900 mb-2">
-          {guestData.coupleNames}
+          {invitation.event.coupleNames}
         </h1>
         <p className="text-lg text-gray-600">
-          {new Date(guestData.weddingDate).toLocaleDateString('en-US', {
+          {formatCalendarDate(invitation.event.weddingDate, {
             weekday: 'long',
             year: 'numeric',
             month: 'long',
@@ -268,11 +332,22 @@ export default function RsvpPage() {
       </div>
       <div className="bg-wedding-gold/10 rounded-lg p-4">
         <p className="text-gray-800">
-          Dear {guestData.firstName} {guestData.lastName},
+          Dear {invitation.household?.name ?? `${invitation.respondent.firstName} ${invitation.respondent.lastName}`},
         </p>
         <p className="text-gray-600 mt-2">
-          We're excited to celebrate our special day with you! Please let us know if you'll be joining us.
+          {isParty
+            ? 'We\'re excited to celebrate our special day with you! Please let us know who in your party will be joining us.'
+            : 'We\'re excited to celebrate our special day with you! Please let us know if you\'ll be joining us.'}
         </p>
+        {invitation.rsvpDeadline && (
+          <p className="text-sm text-gray-500 mt-2">
+            Kindly respond by {formatCalendarDate(invitation.rsvpDeadline, {
+              month: 'long',
+              day: 'numeric',
+              year: 'numeric'
+            })}
+          </p>
+        )}
       </div>
     </div>
   )
@@ -288,12 +363,12 @@ export default function RsvpPage() {
           </div>
           <span className="text-sm font-medium">Initial Response</span>
         </div>
-                  <div className={`w-16 h-px ${isStageComplete(2) ? 'bg-wedding-gold' : 'bg-gray-300'}`}></div>
-                  <div className={`flex items-center space-x-2 ${isStageComplete(2) ? 'text-wedding-gold' : 'text-gray-400'}`}>
-            <div className={`w-8 h-8 rounded-full flex items-center justify-center ${
-              isStageComplete(2) ? 'bg-wedding-gold text-white' : 'bg-gray-200'
-            }`}>
-              {currentStage === 'complete' ? <CheckCircle2 className="w-5 h-5" /> : '2'}
+        <div className={`w-16 h-px ${isStageComplete(2) ? 'bg-wedding-gold' : 'bg-gray-300'}`}></div>
+        <div className={`flex items-center space-x-2 ${isStageComplete(2) ? 'text-wedding-gold' : 'text-gray-400'}`}>
+          <div className={`w-8 h-8 rounded-full flex items-center justify-center ${
+            isStageComplete(2) ? 'bg-wedding-gold text-white' : 'bg-gray-200'
+          }`}>
+            {currentStage === 'complete' ? <CheckCircle2 className="w-5 h-5" /> : '2'}
           </div>
           <span className="text-sm font-medium">Event Details</span>
         </div>
@@ -310,83 +385,192 @@ export default function RsvpPage() {
     </div>
   )
 
+  const renderError = () => error && (
+    <Alert variant="destructive" className="mb-6">
+      <AlertDescription>{error}</AlertDescription>
+    </Alert>
+  )
+
+  // The refinement reports at `customFields` itself, which the record's error type doesn't describe
+  const customFieldsError = (index: number): string | null => {
+    const message = stage1Form.formState.errors.members?.[index]?.customFields?.message
+    return typeof message === 'string' ? message : null
+  }
+
+  const renderCustomField = (field: CustomFieldDefinition, index: number) => {
+    const answers = stage1Members[index]?.customFields ?? {}
+    const value = answers[field.name]
+    const inputId = `member-${index}-${field.name}`
+    const setAnswer = (next: string | boolean) =>
+      stage1Form.setValue(`members.${index}.customFields`, { ...answers, [field.name]: next })
+    const label = `${field.name}${field.required ? ' *' : ''}`
+
+    if (field.type === 'checkbox') {
+      return (
+        <div key={field.name} className="flex items-center space-x-2">
+          <Checkbox
+            id={inputId}
+            checked={value === true}
+            onCheckedChange={(checked) => setAnswer(checked === true)}
+          />
+          <Label htmlFor={inputId}>{label}</Label>
+        </div>
+      )
+    }
+
+    return (
+      <div key={field.name}>
+        <Label htmlFor={inputId} className="mb-2 block">{label}</Label>
+        {field.type === 'select' ? (
+          <Select value={typeof value === 'string' ? value : undefined} onValueChange={setAnswer}>
+            <SelectTrigger id={inputId}>
+              <SelectValue placeholder="Select an option" />
+            </SelectTrigger>
+            <SelectContent>
+              {(field.options ?? []).map(option => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : field.type === 'textarea' ? (
+          <Textarea
+            id={inputId}
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => setAnswer(e.target.value)}
+          />
+        ) : (
+          <Input
+            id={inputId}
+            type={field.type === 'email' ? 'email' : field.type === 'phone' ? 'tel' : 'text'}
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => setAnswer(e.target.value)}
+          />
+        )}
+      </div>
+    )
+  }
+
   const renderStage1 = () => (
     <Card className="w-full max-w-2xl mx-auto">
       <CardHeader>
-        <CardTitle className="text-2xl text-center">Will you be joining us?</CardTitle>
+        <CardTitle className="text-2xl text-center">
+          {isParty ? 'Who will be joining us?' : 'Will you be joining us?'}
+        </CardTitle>
         <CardDescription className="text-center">
-          Please let us know if you'll be attending our celebration
+          {isParty
+            ? 'Please answer for each member of your party'
+            : 'Please let us know if you\'ll be attending our celebration'}
         </CardDescription>
       </CardHeader>
       <CardContent>
+        {renderError()}
         <form onSubmit={stage1Form.handleSubmit(handleStage1Submit)} className="space-y-6">
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <Button
-              type="button"
-              variant={stage1Form.watch('attending') === true ? 'default' : 'outline'}
-              className={`h-20 flex-col ${
-                stage1Form.watch('attending') === true 
-                  ? 'bg-green-600 hover:bg-green-700 text-white' 
-                  : 'hover:bg-green-50'
-              }`}
-              onClick={() => stage1Form.setValue('attending', true)}
-            >
-              <CheckCircle2 className="w-6 h-6 mb-2" />
-              Yes, I'll be there!
-            </Button>
-            <Button
-              type="button"
-              variant={stage1Form.watch('attending') === false ? 'default' : 'outline'}
-              className={`h-20 flex-col ${
-                stage1Form.watch('attending') === false 
-                  ? 'bg-red-600 hover:bg-red-700 text-white' 
-                  : 'hover:bg-red-50'
-              }`}
-              onClick={() => stage1Form.setValue('attending', false)}
-            >
-              <AlertCircle className="w-6 h-6 mb-2" />
-              Sorry, can't make it
-            </Button>
-          </div>
+          {stage1Members.map((answer, index) => {
+            const member = memberById(answer.guestId)
+            if (!member) return null
 
-          {guestData.plusOneAllowed && stage1Form.watch('attending') === true && (
-            <div className="bg-blue-50 p-4 rounded-lg">
-              <Label className="text-lg font-medium text-blue-900 mb-3 block">
-                Plus One Guest
-              </Label>
-              <p className="text-blue-800 mb-4">
-                You're invited to bring a guest! Will your plus one be joining us?
-              </p>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <Button
-                  type="button"
-                  variant={stage1Form.watch('plusOneAttending') === true ? 'default' : 'outline'}
-                  className={`h-16 ${
-                    stage1Form.watch('plusOneAttending') === true 
-                      ? 'bg-green-600 hover:bg-green-700 text-white' 
-                      : 'hover:bg-green-50'
-                  }`}
-                  onClick={() => stage1Form.setValue('plusOneAttending', true)}
-                >
-                  Yes, bringing a guest
-                </Button>
-                <Button
-                  type="button"
-                  variant={stage1Form.watch('plusOneAttending') === false ? 'default' : 'outline'}
-                  className={`h-16 ${
-                    stage1Form.watch('plusOneAttending') === false 
-                      ? 'bg-gray-600 hover:bg-gray-700 text-white' 
-                      : 'hover:bg-gray-50'
-                  }`}
-                  onClick={() => stage1Form.setValue('plusOneAttending', false)}
-                >
-                  Just me
-                </Button>
+            return (
+              <div key={answer.guestId} className={isParty ? 'border rounded-lg p-4 space-y-4' : 'space-y-6'}>
+                {isParty && (
+                  <div className="flex items-center text-lg font-medium text-gray-900">
+                    <Users className="w-5 h-5 mr-2 text-wedding-gold" />
+                    {member.firstName} {member.lastName}
+                    {member.ageGroup === 'child' && (
+                      <span className="ml-2 text-sm font-normal text-gray-500">(child)</span>
+                    )}
+                  </div>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <Button
+                    type="button"
+                    variant={answer.attending === true ? 'default' : 'outline'}
+                    className={`${isParty ? 'h-14' : 'h-20 flex-col'} ${
+                      answer.attending === true 
+                        ? 'bg-green-600 hover:bg-green-700 text-white' 
+                        : 'hover:bg-green-50'
+                    }`}
+                    onClick={() => stage1Form.setValue(`members.${index}.attending`, true)}
+                  >
+                    <CheckCircle2 className={isParty ? 'w-5 h-5 mr-2' : 'w-6 h-6 mb-2'} />
+                    {isParty ? 'Attending' : 'Yes, I\'ll be there!'}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant={answer.attending === false ? 'default' : 'outline'}
+                    className={`${isParty ? 'h-14' : 'h-20 flex-col'} ${
+                      answer.attending === false 
+                        ? 'bg-red-600 hover:bg-red-700 text-white' 
+                        : 'hover:bg-red-50'
+                    }`}
+                    onClick={() => {
+                      stage1Form.setValue(`members.${index}.attending`, false)
+                      stage1Form.setValue(`members.${index}.plusOneAttending`, undefined)
+                    }}
+                  >
+                    <AlertCircle className={isParty ? 'w-5 h-5 mr-2' : 'w-6 h-6 mb-2'} />
+                    {isParty ? 'Can\'t make it' : 'Sorry, can\'t make it'}
+                  </Button>
+                </div>
+
+                {member.plusOneAllowed && answer.attending === true && (
+                  <div className="bg-blue-50 p-4 rounded-lg">
+                    <Label className="text-lg font-medium text-blue-900 mb-3 block">
+                      Plus One Guest
+                    </Label>
+                    <p className="text-blue-800 mb-4">
+                      {isParty ? `${member.firstName} is` : 'You\'re'} invited to bring a guest! Will the plus one be joining us?
+                    </p>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <Button
+                        type="button"
+                        variant={answer.plusOneAttending === true ? 'default' : 'outline'}
+                        className={`h-16 ${
+                          answer.plusOneAttending === true 
+                            ? 'bg-green-600 hover:bg-green-700 text-white' 
+                            : 'hover:bg-green-50'
+                        }`}
+                        onClick={() => stage1Form.setValue(`members.${index}.plusOneAttending`, true)}
+                      >
+                        Yes, bringing a guest
+                      </Button>
+                      <Button
+                        type="button"
+                        variant={answer.plusOneAttending === false ? 'default' : 'outline'}
+                        className={`h-16 ${
+                          answer.plusOneAttending === false 
+                            ? 'bg-gray-600 hover:bg-gray-700 text-white' 
+                            : 'hover:bg-gray-50'
+                        }`}
+                        onClick={() => stage1Form.setValue(`members.${index}.plusOneAttending`, false)}
+                      >
+                        {isParty ? 'No guest' : 'Just me'}
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                {answer.attending === true && invitation.customFields.length > 0 && (
+                  <div className="space-y-4">
+                    {invitation.customFields.map(field => renderCustomField(field, index))}
+                    {customFieldsError(index) && (
+                      <p className="text-sm text-red-600">{customFieldsError(index)}</p>
+                    )}
+                  </div>
+                )}
               </div>
-            </div>
+            )
+          })}
+
+          {lockedMembers.length > 0 && (
+            <p className="text-sm text-gray-500">
+              The RSVP deadline has passed for {lockedMembers.map(m => m.firstName).join(', ')}, so their answers can no longer be changed.
+            </p>
           )}
 
-          {stage1Form.watch('attending') === false && (
+          {allAnswered && !anyoneAttending && (
             <div className="bg-red-50 p-4 rounded-lg">
               <p className="text-red-800 text-center">
                 We're sorry you can't make it! We'll miss you on our special day. 💔
@@ -398,17 +582,183 @@ export default function RsvpPage() {
             type="submit" 
             className="w-full bg-wedding-gold hover:bg-wedding-gold/90" 
             size="lg"
-            disabled={stage1Form.watch('attending') === undefined || isSubmitting}
+            disabled={!allAnswered || isSubmitting}
           >
             {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
-            {stage1Form.watch('attending') === true ? 'Continue to Event Details' : 'Submit RSVP'}
-            {stage1Form.watch('attending') === true && <ArrowRight className="w-4 h-4 ml-2" />}
+            {anyoneAttending ? 'Continue to Event Details' : 'Submit RSVP'}
+            {anyoneAttending && <ArrowRight className="w-4 h-4 ml-2" />}
           </Button>
         </form>
       </CardContent>
     </Card>
   )
 
+  const renderMealSelect = (
+    value: string | undefined,
+    options: string[],
+    onChange: (value: string) => void
+  ) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue placeholder="Select meal" />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map(option => (
+          <SelectItem key={option} value={option.toLowerCase()}>
+            {option}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
+  const renderYesNo = (value: boolean | undefined, onChange: (value: boolean) => void) => (
+    <div className="grid grid-cols-2 gap-4">
+      <Button
+        type="button"
+        variant={value === true ? 'default' : 'outline'}
+        className={value === true ? 'bg-green-600 hover:bg-green-700 text-white' : 'hover:bg-green-50'}
+        onClick={() => onChange(true)}
+      >
+        Yes
+      </Button>
+      <Button
+        type="button"
+        variant={value === false ? 'default' : 'outline'}
+        className={value === false ? 'bg-gray-600 hover:bg-gray-700 text-white' : 'hover:bg-gray-50'}
+        onClick={() => onChange(false)}
+      >
+        No
+      </Button>
+    </div>
+  )
+
+  const renderTravel = (memberIndex: number) => {
+    const travel = stage2Members[memberIndex]?.travel
+    if (!travel) return null
+
+    const prefix = `members.${memberIndex}.travel` as const
+    const errors = stage2Form.formState.errors.members?.[memberIndex]?.travel
+    const needsDates = travel.needsAccommodation === true || travel.needsTransportation === true
+
+    return (
+      <div className="md:col-span-2 bg-blue-50 p-4 rounded-lg space-y-4">
+        <h4 className="font-medium text-blue-900">Travel & Accommodation</h4>
+
+        {invitation.travel.accommodation && (
+          <div className="space-y-3">
+            <Label>Do you need somewhere to stay?</Label>
+            {renderYesNo(travel.needsAccommodation, (value) => stage2Form.setValue(`${prefix}.needsAccommodation`, value))}
+            {travel.needsAccommodation && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <Select
+                  value={travel.accommodationPreference}
+                  onValueChange={(value) => stage2Form.setValue(
+                    `${prefix}.accommodationPreference`,
+                    value as keyof typeof TRAVEL_ARRANGEMENT_LABELS.accommodation
+                  )}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="How would you like to stay?" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(TRAVEL_ARRANGEMENT_LABELS.accommodation).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  placeholder="Room or access needs..."
+                  {...stage2Form.register(`${prefix}.accommodationNotes`, optionalInput)}
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        {invitation.travel.transportation && (
+          <div className="space-y-3">
+            <Label>Do you need transport to the celebrations?</Label>
+            {renderYesNo(travel.needsTransportation, (value) => stage2Form.setValue(`${prefix}.needsTransportation`, value))}
+            {travel.needsTransportation && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <Select
+                  value={travel.transportationType}
+                  onValueChange={(value) => stage2Form.setValue(
+                    `${prefix}.transportationType`,
+                    value as keyof typeof TRAVEL_ARRANGEMENT_LABELS.transportation
+                  )}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Transport arrangement" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(TRAVEL_ARRANGEMENT_LABELS.transportation).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={travel.travelMode}
+                  onValueChange={(value) => stage2Form.setValue(`${prefix}.travelMode`, value as keyof typeof TRAVEL_MODE_LABELS)}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="How are you travelling?" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(TRAVEL_MODE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {travel.travelMode === 'air' && (
+                  <>
+                    <Input placeholder="Flight number" {...stage2Form.register(`${prefix}.flightDetails.flightNumber`, optionalInput)} />
+                    <Input placeholder="Airline" {...stage2Form.register(`${prefix}.flightDetails.airline`, optionalInput)} />
+                    <Input placeholder="Arriving at (airport)" {...stage2Form.register(`${prefix}.flightDetails.arrivalAirport`, optionalInput)} />
+                    <Input placeholder="Departing from (airport)" {...stage2Form.register(`${prefix}.flightDetails.departureAirport`, optionalInput)} />
+                  </>
+                )}
+                <Input
+                  className="md:col-span-2"
+                  placeholder="Anything we should know about your journey..."
+                  {...stage2Form.register(`${prefix}.transportationNotes`, optionalInput)}
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        {needsDates && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <Label className="text-sm">Arrival Date</Label>
+              <Input type="date" {...stage2Form.register(`${prefix}.arrivalDate`, optionalInput)} />
+            </div>
+            <div>
+              <Label className="text-sm">Arrival Time</Label>
+              <Input type="time" {...stage2Form.register(`${prefix}.arrivalTime`, optionalInput)} />
+            </div>
+            <div>
+              <Label className="text-sm">Departure Date</Label>
+              <Input type="date" {...stage2Form.register(`${prefix}.departureDate`, optionalInput)} />
+            </div>
+            <div>
+              <Label className="text-sm">Departure Time</Label>
+              <Input type="time" {...stage2Form.register(`${prefix}.departureTime`, optionalInput)} />
+            </div>
+          </div>
+        )}
+
+        {(errors?.arrivalDate || errors?.departureDate) && (
+          <p className="text-sm text-red-600">
+            {errors.arrivalDate?.message ?? errors.departureDate?.message}
+          </p>
+        )}
+      </div>
+    )
+  }
+
   const renderStage2 = () => (
     <div className="space-y-6">
       <Card className="w-full max-w-4xl mx-auto">
@@ -419,12 +769,13 @@ export default function RsvpPage() {
           </CardDescription>
         </CardHeader>
         <CardContent>
+          {renderError()}
           <form onSubmit={stage2Form.handleSubmit(handleStage2Submit)} className="space-y-8">
             {/* Ceremony Selection */}
             <div>
               <h3 className="text-lg font-semibold text-gray-900 mb-4">Event Attendance</h3>
               <div className="grid gap-6">
-                {guestData.ceremonies.map((ceremony) => (
+                {invitation.ceremonies.map((ceremony, ceremonyIndex) => (
                   <Card key={ceremony.id} className="border-2">
                     <CardContent className="p-6">
                       <div className="flex items-start justify-between mb-4">
@@ -440,20 +791,24 @@ export default function RsvpPage() {
                           <div className="text-sm text-gray-600 space-y-1 mt-2">
                             <p className="flex items-center">
                               <Calendar className="w-4 h-4 mr-2" />
-                              {new Date(ceremony.date).toLocaleDateString('en-US', {
+                              {formatCalendarDate(ceremony.date, {
                                 weekday: 'long',
                                 month: 'long',
                                 day: 'numeric'
                               })}
                             </p>
-                            <p className="flex items-center">
-                              <Clock className="w-4 h-4 mr-2" />
-                              {ceremony.startTime}
-                            </p>
-                            <p className="flex items-center">
-                              <MapPin className="w-4 h-4 mr-2" />
-                              {ceremony.venueName}
-                            </p>
+                            {ceremony.startTime && (
+                              <p className="flex items-center">
+                                <Clock className="w-4 h-4 mr-2" />
+                                {ceremony.startTime}
+                              </p>
+                            )}
+                            {ceremony.venueName && (
+                              <p className="flex items-center">
+                                <MapPin className="w-4 h-4 mr-2" />
+                                {ceremony.venueName}
+                              </p>
+                            )}
                             {ceremony.description && (
                               <p className="text-gray-700 mt-2">{ceremony.description}</p>
                             )}
@@ -461,54 +816,61 @@ export default function RsvpPage() {
                         </div>
                       </div>
                       
-                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                        <div>
-                          <Label className="text-sm font-medium">Will you attend?</Label>
-                          <Select>
-                            <SelectTrigger>
-                              <SelectValue placeholder="Select attendance" />
-                            </SelectTrigger>
-                            <SelectContent>
-                              <SelectItem value="yes">Yes, I'll be there</SelectItem>
-                              <SelectItem value="no">No, I can't make it</SelectItem>
-                              <SelectItem value="maybe">Maybe</SelectItem>
-                            </SelectContent>
-                          </Select>
-                        </div>
-                        
-                        <div>
-                          <Label className="text-sm font-medium">Meal Choice</Label>
-                          <Select>
-                            <SelectTrigger>
-                              <SelectValue placeholder="Select meal" />
-                            </SelectTrigger>
-                            <SelectContent>
-                              {ceremony.mealOptions.map(option => (
-                                <SelectItem key={option} value={option.toLowerCase()}>
-                                  {option}
-                                </SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
-                        </div>
+                      <div className="space-y-4">
+                        {stage2Members.map((answer, memberIndex) => {
+                          const member = memberById(answer.guestId)
+                          const ceremonyAnswer = answer.ceremonies[ceremonyIndex]
+                          if (!member || !ceremonyAnswer) return null
 
-                        {guestData.plusOneAllowed && stage1Form.watch('plusOneAttending') && (
-                          <div>
-                            <Label className="text-sm font-medium">Plus One Meal</Label>
-                            <Select>
-                              <SelectTrigger>
-                                <SelectValue placeholder="Select meal" />
-                              </SelectTrigger>
-                              <SelectContent>
-                                {ceremony.mealOptions.map(option => (
-                                  <SelectItem key={option} value={option.toLowerCase()}>
-                                    {option}
-                                  </SelectItem>
-                                ))}
-                              </SelectContent>
-                            </Select>
-                          </div>
-                        )}
+                          const fieldPrefix = `members.${memberIndex}.ceremonies.${ceremonyIndex}` as const
+                          return (
+                            <div key={answer.guestId}>
+                              {isParty && (
+                                <p className="text-sm font-medium text-gray-900 mb-2">
+                                  {member.firstName} {member.lastName}
+                                </p>
+                              )}
+                              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                                <div>
+                                  <Label className="text-sm font-medium">Will you attend?</Label>
+                                  <Select
+                                    value={ceremonyAnswer.attending}
+                                    onValueChange={(value) => stage2Form.setValue(`${fieldPrefix}.attending`, value as 'yes' | 'no' | 'maybe')}
+                                  >
+                                    <SelectTrigger>
+                                      <SelectValue placeholder="Select attendance" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      <SelectItem value="yes">Yes, I'll be there</SelectItem>
+                                      <SelectItem value="no">No, I can't make it</SelectItem>
+                                      <SelectItem value="maybe">Maybe</SelectItem>
+                                    </SelectContent>
+                                  </Select>
+                                </div>
+                                
+                                <div>
+                                  <Label className="text-sm font-medium">Meal Choice</Label>
+                                  {renderMealSelect(
+                                    ceremonyAnswer.mealPreference,
+                                    ceremony.mealOptions,
+                                    (value) => stage2Form.setValue(`${fieldPrefix}.mealPreference`, value)
+                                  )}
+                                </div>
+
+                                {ceremonyAnswer.plusOneAttending !== undefined && (
+                                  <div>
+                                    <Label className="text-sm font-medium">Plus One Meal</Label>
+                                    {renderMealSelect(
+                                      ceremonyAnswer.plusOneMealPreference,
+                                      ceremony.mealOptions,
+                                      (value) => stage2Form.setValue(`${fieldPrefix}.plusOneMealPreference`, value)
+                                    )}
+                                  </div>
+                                )}
+                              </div>
+                            </div>
+                          )
+                        })}
                       </div>
                     </CardContent>
                   </Card>
@@ -517,24 +879,50 @@ export default function RsvpPage() {
             </div>
 
             {/* Additional Information */}
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <div>
-                <Label htmlFor="dietary">Dietary Requirements</Label>
-                <Textarea
-                  id="dietary"
-                  placeholder="Please let us know about any allergies or dietary restrictions..."
-                  className="mt-1"
-                />
-              </div>
-              <div>
-                <Label htmlFor="special">Special Requests</Label>
-                <Textarea
-                  id="special"
-                  placeholder="Any special accommodations or requests..."
-                  className="mt-1"
-                />
-              </div>
-            </div>
+            {stage2Members.map((answer, memberIndex) => {
+              const member = memberById(answer.guestId)
+              if (!member) return null
+
+              return (
+                <div key={answer.guestId}>
+                  {isParty && (
+                    <h3 className="text-base font-semibold text-gray-900 mb-2">
+                      {member.firstName} {member.lastName}
+                    </h3>
+                  )}
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div>
+                      <Label htmlFor={`dietary-${member.id}`}>Dietary Requirements</Label>
+                      <Textarea
+                        id={`dietary-${member.id}`}
+                        placeholder="Please let us know about any allergies or dietary restrictions..."
+                        className="mt-1"
+                        {...stage2Form.register(`members.${memberIndex}.dietaryRequirements`)}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor={`special-${member.id}`}>Special Requests</Label>
+                      <Textarea
+                        id={`special-${member.id}`}
+                        placeholder="Any special accommodations or requests..."
+                        className="mt-1"
+                        {...stage2Form.register(`members.${memberIndex}.specialRequests`)}
+                      />
+                    </div>
+                    <div className="md:col-span-2">
+                      <Label htmlFor={`accessibility-${member.id}`}>Accessibility Needs</Label>
+                      <Textarea
+                        id={`accessibility-${member.id}`}
+                        placeholder="Step-free access, seating near the front, a sign language interpreter..."
+                        className="mt-1"
+                        {...stage2Form.register(`members.${memberIndex}.accessibilityNeeds`)}
+                      />
+                    </div>
+                    {renderTravel(memberIndex)}
+                  </div>
+                </div>
+              )
+            })}
 
             <div className="flex items-center justify-between pt-6 border-t">
               <Button
@@ -570,19 +958,57 @@ export default function RsvpPage() {
           Thank You for Your RSVP!
         </h2>
         <p className="text-gray-600 mb-6">
-          We've received your response and can't wait to celebrate with you on our special day!
+          {anyoneAttending
+            ? 'We\'ve received your response and can\'t wait to celebrate with you on our special day!'
+            : 'We\'ve received your response. You\'ll be missed, thank you for letting us know.'}
         </p>
         
+        {invitation.members.some(member => member.waitlist.length > 0) && (
+          <div className="bg-amber-50 p-4 rounded-lg mb-6 text-left">
+            <h3 className="font-semibold text-amber-800 mb-2">You're on the Waitlist</h3>
+            <p className="text-sm text-amber-700 mb-2">
+              These celebrations are currently full. We'll email you as soon as a place opens up.
+            </p>
+            <ul className="text-sm text-amber-700 space-y-1">
+              {invitation.members.flatMap(member => member.waitlist.map(entry => (
+                <li key={`${member.id}-${entry.ceremonyId}`}>
+                  • {member.firstName} {member.lastName}: {
+                    invitation.ceremonies.find(c => c.id === entry.ceremonyId)?.name
+                  } (#{entry.position} on the waitlist)
+                </li>
+              )))}
+            </ul>
+          </div>
+        )}
+
         <div className="bg-green-50 p-4 rounded-lg mb-6">
           <h3 className="font-semibold text-green-800 mb-2">What's Next?</h3>
           <ul className="text-sm text-green-700 space-y-1">
             <li>• You'll receive a confirmation email shortly</li>
             <li>• Event details and directions will be sent closer to the date</li>
-            <li>• Feel free to update your RSVP anytime using this link</li>
+            {!invitation.isReadOnly && (
+              <li>
+                • You can change your answers using this link
+                {invitation.rsvpDeadline && ` until ${formatCalendarDate(invitation.rsvpDeadline, {
+                  month: 'long',
+                  day: 'numeric',
+                  year: 'numeric'
+                })}`}
+              </li>
+            )}
           </ul>
         </div>
 
         <div className="space-y-3">
+          {!invitation.isReadOnly && (
+            <Button
+              onClick={handleEditResponse}
+              className="w-full bg-wedding-gold hover:bg-wedding-gold/90"
+            >
+              <Edit className="w-4 h-4 mr-2" />
+              Change My Response
+            </Button>
+          )}
           <Button 
             onClick={() => window.print()} 
             variant="outline" 
@@ -590,13 +1016,72 @@ export default function RsvpPage() {
           >
             Print RSVP Confirmation
           </Button>
-          <p className="text-sm text-gray-500">
-            Have questions? Contact us at{' '}
-            <a href="mailto:couple@example.com" className="text-wedding-gold hover:underline">
-              couple@example.com
+          {invitation.event.contactEmail && (
+            <p className="text-sm text-gray-500">
+              Have questions? Contact us at{' '}
+              <a href={`mailto:${invitation.event.contactEmail}`} className="text-wedding-gold hover:underline">
+                {invitation.event.contactEmail}
+              </a>
+            </p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+
+  const renderReadOnly = () => (
+    <Card className="w-full max-w-2xl mx-auto">
+      <CardHeader>
+        <CardTitle className="text-2xl text-center">Your RSVP</CardTitle>
+        <CardDescription className="text-center">
+          The RSVP deadline has passed, so answers can no longer be changed online
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {invitation.members.map(member => (
+          <div key={member.id} className="border rounded-lg p-4">
+            <div className="flex items-center justify-between">
+              <span className="font-medium text-gray-900">
+                {member.firstName} {member.lastName}
+              </span>
+              <span className={`text-sm font-medium ${
+                member.stage1 === null
+                  ? 'text-gray-500'
+                  : member.stage1.attending ? 'text-green-700' : 'text-red-700'
+              }`}>
+                {member.stage1 === null
+                  ? 'No response'
+                  : member.stage1.attending ? 'Attending' : 'Not attending'}
+              </span>
+            </div>
+            {member.stage1?.attending && member.stage2 && (
+              <ul className="mt-3 space-y-1 text-sm text-gray-600">
+                {member.stage2.ceremonies.map(answer => {
+                  const ceremony = invitation.ceremonies.find(c => c.id === answer.ceremonyId)
+                  if (!ceremony) return null
+                  const waitlisted = member.waitlist.find(entry => entry.ceremonyId === answer.ceremonyId)
+                  return (
+                    <li key={answer.ceremonyId}>
+                      {ceremony.name}: {waitlisted
+                        ? `Waitlisted (#${waitlisted.position})`
+                        : ATTENDANCE_LABELS[answer.attending]}
+                      {answer.mealPreference && ` · ${answer.mealPreference}`}
+                    </li>
+                  )
+                })}
+              </ul>
+            )}
+          </div>
+        ))}
+
+        {invitation.event.contactEmail && (
+          <p className="text-sm text-gray-500 text-center pt-2">
+            Need to change something? Contact us at{' '}
+            <a href={`mailto:${invitation.event.contactEmail}`} className="text-wedding-gold hover:underline">
+              {invitation.event.contactEmail}
             </a>
           </p>
-        </div>
+        )}
       </CardContent>
     </Card>
   )
@@ -605,12 +1090,16 @@ export default function RsvpPage() {
     <div className="min-h-screen bg-gradient-to-br from-wedding-blush/20 to-wedding-sage/20 py-8 px-4">
       <div className="max-w-6xl mx-auto">
         {renderHeader()}
-        {currentStage !== 'complete' && renderProgressBar()}
-        
-        {currentStage === 1 && renderStage1()}
-        {currentStage === 2 && renderStage2()}
-        {currentStage === 'complete' && renderComplete()}
+        {invitation.isReadOnly ? renderReadOnly() : (
+          <>
+            {currentStage !== 'complete' && renderProgressBar()}
+
+            {currentStage === 1 && renderStage1()}
+            {currentStage === 2 && renderStage2()}
+            {currentStage === 'complete' && renderComplete()}
+          </>
+        )}
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
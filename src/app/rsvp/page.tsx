@@ -0,0 +1,85 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Heart, Loader2, ArrowRight } from 'lucide-react'
+
+export default function RsvpCodePage() {
+  const router = useRouter()
+  const [code, setCode] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState('')
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/rsvp/code', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code })
+      })
+      const result = await response.json()
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+
+      router.push(`/rsvp/${result.data.token}`)
+    } catch (error: any) {
+      setError(error.message || 'Failed to check your code')
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-wedding-blush/20 to-wedding-sage/20 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <Heart className="w-12 h-12 text-wedding-gold mx-auto mb-2" />
+          <CardTitle className="text-2xl font-serif">RSVP</CardTitle>
+          <CardDescription>
+            Enter the code printed on your invitation
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+            <div>
+              <Label htmlFor="code">Invitation code</Label>
+              <Input
+                id="code"
+                value={code}
+                onChange={(e) => setCode(e.target.value.toUpperCase())}
+                placeholder="e.g. K7MP4XQ2"
+                autoComplete="off"
+                autoCapitalize="characters"
+                spellCheck={false}
+                maxLength={20}
+                className="font-mono text-lg tracking-widest text-center"
+              />
+            </div>
+            <Button
+              type="submit"
+              className="w-full bg-wedding-gold hover:bg-wedding-gold/90"
+              disabled={isSubmitting || code.trim().length < 6}
+            >
+              {isSubmitting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <ArrowRight className="w-4 h-4 mr-2" />}
+              Continue
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,15 @@
+import { timingSafeEqual } from 'crypto'
+
+/**
+ * Scheduled jobs call their routes with `Authorization: Bearer <CRON_SECRET>`
+ * (Vercel Cron sends this header automatically). Without a configured secret
+ * every request is refused.
+ */
+export function isAuthorizedCronRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET
+  if (!secret) return false
+
+  const expected = Buffer.from(`Bearer ${secret}`)
+  const received = Buffer.from(request.headers.get('authorization') ?? '')
+  return received.length === expected.length && timingSafeEqual(received, expected)
+}
@@ -25,4 +25,8 @@ export const db = drizzle(client, {
 
 // Export types and schema
 export * from './schema'
-export type Database = typeof db
\ No newline at end of file
+export type Database = typeof db
+export type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0]
+
+// Anything queries can run against: the shared connection or an open transaction
+export type DbExecutor = Database | Transaction
\ No newline at end of file
@@ -11,6 +11,7 @@ import {
   pgEnum,
   index,
   uniqueIndex,
+  type AnyPgColumn,
 } from 'drizzle-orm/pg-core'
 import { relations } from 'drizzle-orm'
 
@@ -64,6 +65,7 @@ export const communicationTypeEnum = pgEnum('communication_type', [
 
 export const communicationStatusEnum = pgEnum('communication_status', [
   'pending',
+  'sending',
   'sent',
   'delivered',
   'failed',
@@ -78,6 +80,17 @@ export const templateCategoryEnum = pgEnum('template_category', [
   'thank_you'
 ])
 
+// invitation: the party's invitation, replaced when they are re-invited
+// printed: the link on a printed invitation, issued with its short code
+// message: a further link to the invitation, sent in a later message
+// code: a link traded for a typed short code
+export const rsvpTokenPurposeEnum = pgEnum('rsvp_token_purpose', [
+  'invitation',
+  'printed',
+  'message',
+  'code'
+])
+
 // Core Tables
 
 // Users table
@@ -175,14 +188,17 @@ export const guests = pgTable('guests', {
   first_name: varchar('first_name', { length: 100 }).notNull(),
   last_name: varchar('last_name', { length: 100 }).notNull(),
   email: varchar('email', { length: 255 }),
+  email_invalid: boolean('email_invalid').default(false).notNull(), // the address bounced or complained and is suppressed
+  email_invalid_reason: varchar('email_invalid_reason', { length: 20 }), // 'bounce' | 'complaint' | 'manual'
   phone: varchar('phone', { length: 20 }),
   address: text('address'),
   side: guestSideEnum('side').notNull(),
   relationship: varchar('relationship', { length: 100 }),
   age_group: varchar('age_group', { length: 20 }),
   rsvp_status: rsvpStatusEnum('rsvp_status').default('pending').notNull(),
-  rsvp_token: varchar('rsvp_token', { length: 255 }).unique(),
   rsvp_submitted_at: timestamp('rsvp_submitted_at'),
+  rsvp_deadline_override: timestamp('rsvp_deadline_override'), // lets this guest answer after the event's RSVP deadline
+  household_id: uuid('household_id').references((): AnyPgColumn => households.id, { onDelete: 'set null' }),
   plus_one_allowed: boolean('plus_one_allowed').default(false),
   plus_one_name: varchar('plus_one_name', { length: 255 }),
   plus_one_email: varchar('plus_one_email', { length: 255 }),
@@ -191,6 +207,9 @@ export const guests = pgTable('guests', {
   special_requests: text('special_requests'),
   accessibility_needs: text('accessibility_needs'),
   language_preference: varchar('language_preference', { length: 10 }).default('en'),
+  preferred_channel: communicationTypeEnum('preferred_channel').default('email').notNull(), // campaigns fall back to email when it cannot be used
+  unsubscribed_at: timestamp('unsubscribed_at'), // the guest opted out of every campaign from the preferences page
+  muted_categories: text('muted_categories'), // JSON array of template categories the guest chose not to receive
   invitation_sent: boolean('invitation_sent').default(false),
   invitation_sent_at: timestamp('invitation_sent_at'),
   reminder_sent: boolean('reminder_sent').default(false),
@@ -202,10 +221,25 @@ export const guests = pgTable('guests', {
 }, (table) => ({
   eventIndex: index('guests_event_idx').on(table.event_id),
   rsvpStatusIndex: index('guests_rsvp_status_idx').on(table.event_id, table.rsvp_status),
-  rsvpTokenIndex: uniqueIndex('guests_rsvp_token_idx').on(table.rsvp_token),
   emailIndex: index('guests_email_idx').on(table.email),
   sideIndex: index('guests_side_idx').on(table.event_id, table.side),
   nameIndex: index('guests_name_idx').on(table.first_name, table.last_name),
+  householdIndex: index('guests_household_idx').on(table.household_id),
+  emailInvalidIndex: index('guests_email_invalid_idx').on(table.event_id, table.email_invalid),
+}))
+
+// Households - Invitation parties that answer a single RSVP together
+export const households = pgTable('households', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  event_id: uuid('event_id').references(() => events.id, { onDelete: 'cascade' }).notNull(),
+  name: varchar('name', { length: 255 }).notNull(), // e.g. "The Smith Family"
+  primary_guest_id: uuid('primary_guest_id').references(() => guests.id, { onDelete: 'set null' }),
+  address: text('address'),
+  notes: text('notes'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  eventIndex: index('households_event_idx').on(table.event_id),
 }))
 
 // Guest Ceremonies - Many-to-many relationship
@@ -218,13 +252,21 @@ export const guestCeremonies = pgTable('guest_ceremonies', {
   plus_one_attendance: attendanceStatusEnum('plus_one_attendance'),
   plus_one_meal_preference: varchar('plus_one_meal_preference', { length: 100 }),
   special_requirements: text('special_requirements'),
+  is_waitlisted: boolean('is_waitlisted').default(false).notNull(), // said yes while the ceremony was full
+  waitlist_position: integer('waitlist_position'),
+  table_name: varchar('table_name', { length: 50 }), // where the guest sits at this ceremony, shown at check-in
+  checked_in_at: timestamp('checked_in_at'), // when an usher marked the guest as arrived
+  plus_one_checked_in_at: timestamp('plus_one_checked_in_at'),
+  checked_in_by: uuid('checked_in_by').references(() => users.id, { onDelete: 'set null' }),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => ({
+  waitlistIndex: index('guest_ceremonies_waitlist_idx').on(table.ceremony_id, table.is_waitlisted, table.waitlist_position),
   guestCeremonyIndex: uniqueIndex('guest_ceremonies_guest_ceremony_idx').on(table.guest_id, table.ceremony_id),
   guestIndex: index('guest_ceremonies_guest_idx').on(table.guest_id),
   ceremonyIndex: index('guest_ceremonies_ceremony_idx').on(table.ceremony_id),
   attendanceIndex: index('guest_ceremonies_attendance_idx').on(table.ceremony_id, table.attendance_status),
+  checkedInIndex: index('guest_ceremonies_checked_in_idx').on(table.ceremony_id, table.checked_in_at),
 }))
 
 // RSVP Responses - Detailed response tracking
@@ -233,14 +275,35 @@ export const rsvpResponses = pgTable('rsvp_responses', {
   guest_id: uuid('guest_id').references(() => guests.id, { onDelete: 'cascade' }).notNull(),
   event_id: uuid('event_id').references(() => events.id, { onDelete: 'cascade' }).notNull(),
   stage: integer('stage').notNull(), // 1 or 2 for two-stage RSVP
+  version: integer('version').default(1).notNull(), // increments each time the guest revises this stage
   response_data: text('response_data').notNull(), // JSON with all response data
+  status: varchar('status', { length: 20 }).default('applied').notNull(), // 'applied' | 'pending' (a reply awaiting review) | 'rejected'
+  source: varchar('source', { length: 20 }).default('web').notNull(), // 'web' or the channel a reply came in on: 'email' | 'whatsapp' | 'sms'
+  reviewed_by: uuid('reviewed_by').references(() => users.id, { onDelete: 'set null' }),
+  reviewed_at: timestamp('reviewed_at'),
   ip_address: varchar('ip_address', { length: 45 }),
   user_agent: text('user_agent'),
   submitted_at: timestamp('submitted_at').defaultNow().notNull(),
 }, (table) => ({
   guestIndex: index('rsvp_responses_guest_idx').on(table.guest_id),
   eventIndex: index('rsvp_responses_event_idx').on(table.event_id),
+  statusIndex: index('rsvp_responses_status_idx').on(table.event_id, table.status),
   stageIndex: index('rsvp_responses_stage_idx').on(table.guest_id, table.stage),
+  versionIndex: uniqueIndex('rsvp_responses_version_idx').on(table.guest_id, table.stage, table.version),
+}))
+
+// Answers to the event's custom RSVP questions (event_settings.custom_fields), one row per question
+export const guestCustomFieldValues = pgTable('guest_custom_field_values', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  guest_id: uuid('guest_id').references(() => guests.id, { onDelete: 'cascade' }).notNull(),
+  event_id: uuid('event_id').references(() => events.id, { onDelete: 'cascade' }).notNull(),
+  field_name: varchar('field_name', { length: 255 }).notNull(),
+  value: text('value').notNull(), // checkbox answers are stored as 'true' / 'false'
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  guestFieldIndex: uniqueIndex('guest_custom_field_values_guest_field_idx').on(table.guest_id, table.field_name),
+  eventFieldIndex: index('guest_custom_field_values_event_field_idx').on(table.event_id, table.field_name, table.value),
 }))
 
 // Accommodations table
@@ -296,7 +359,9 @@ export const roomTypes = pgTable('room_types', {
 export const guestAccommodations = pgTable('guest_accommodations', {
   id: uuid('id').defaultRandom().primaryKey(),
   guest_id: uuid('guest_id').references(() => guests.id, { onDelete: 'cascade' }).notNull(),
-  accommodation_id: uuid('accommodation_id').references(() => accommodations.id, { onDelete: 'cascade' }).notNull(),
+  accommodation_id: uuid('accommodation_id').references(() => accommodations.id, { onDelete: 'cascade' }), // null until a planner assigns a place to an RSVP request
+  source: varchar('source', { length: 20 }).default('planner').notNull(), // 'rsvp' rows are kept in sync with the guest's travel answers
+  preference: varchar('preference', { length: 50 }), // provided, self_managed, special_arrangement
   room_type_id: uuid('room_type_id').references(() => roomTypes.id, { onDelete: 'cascade' }),
   room_number: varchar('room_number', { length: 50 }),
   check_in_date: date('check_in_date'),
@@ -313,6 +378,7 @@ export const guestAccommodations = pgTable('guest_accommodations', {
 }, (table) => ({
   guestIndex: index('guest_accommodations_guest_idx').on(table.guest_id),
   accommodationIndex: index('guest_accommodations_accommodation_idx').on(table.accommodation_id),
+  sourceIndex: index('guest_accommodations_source_idx').on(table.guest_id, table.source),
   statusIndex: index('guest_accommodations_status_idx').on(table.booking_status),
 }))
 
@@ -349,7 +415,16 @@ export const transportation = pgTable('transportation', {
 export const guestTransportation = pgTable('guest_transportation', {
   id: uuid('id').defaultRandom().primaryKey(),
   guest_id: uuid('guest_id').references(() => guests.id, { onDelete: 'cascade' }).notNull(),
-  transportation_id: uuid('transportation_id').references(() => transportation.id, { onDelete: 'cascade' }).notNull(),
+  transportation_id: uuid('transportation_id').references(() => transportation.id, { onDelete: 'cascade' }), // null until a planner assigns a ride to an RSVP request
+  source: varchar('source', { length: 20 }).default('planner').notNull(), // 'rsvp' rows are kept in sync with the guest's travel answers
+  preference: varchar('preference', { length: 50 }), // provided, self_managed, special_arrangement
+  travel_mode: varchar('travel_mode', { length: 20 }), // air, train, bus, car, other
+  flight_number: varchar('flight_number', { length: 20 }),
+  airline: varchar('airline', { length: 100 }),
+  arrival_airport: varchar('arrival_airport', { length: 100 }),
+  departure_airport: varchar('departure_airport', { length: 100 }),
+  arrival_at: timestamp('arrival_at'),
+  departure_at: timestamp('departure_at'),
   pickup_location: text('pickup_location'),
   dropoff_location: text('dropoff_location'),
   pickup_time: timestamp('pickup_time'),
@@ -365,6 +440,7 @@ export const guestTransportation = pgTable('guest_transportation', {
 }, (table) => ({
   guestIndex: index('guest_transportation_guest_idx').on(table.guest_id),
   transportationIndex: index('guest_transportation_transportation_idx').on(table.transportation_id),
+  sourceIndex: index('guest_transportation_source_idx').on(table.guest_id, table.source),
   statusIndex: index('guest_transportation_status_idx').on(table.booking_status),
 }))
 
@@ -381,6 +457,9 @@ export const communicationTemplates = pgTable('communication_templates', {
   is_default: boolean('is_default').default(false),
   is_active: boolean('is_active').default(true),
   language: varchar('language', { length: 10 }).default('en'),
+  whatsapp_template_name: varchar('whatsapp_template_name', { length: 512 }), // approved WhatsApp template sent instead of the content outside the 24 hour session window
+  whatsapp_template_language: varchar('whatsapp_template_language', { length: 15 }), // the approved template's language code, e.g. 'en_US'
+  whatsapp_template_parameters: text('whatsapp_template_parameters'), // JSON array of the variables that fill the approved template's {{1}}, {{2}}... in order
   created_by: uuid('created_by').references(() => users.id),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
@@ -401,16 +480,25 @@ export const communications = pgTable('communications', {
   type: communicationTypeEnum('type').notNull(),
   subject: varchar('subject', { length: 500 }),
   content: text('content').notNull(),
+  text_content: text('text_content'), // plain-text alternative for email
+  attachments: text('attachments'), // JSON array of { filename, content, contentType } text attachments, e.g. calendar invites
+  from_address: varchar('from_address', { length: 255 }),
+  reply_to: varchar('reply_to', { length: 255 }),
+  whatsapp_template: text('whatsapp_template'), // JSON { name, language, parameters } of the approved template to send outside the 24 hour session window
   status: communicationStatusEnum('status').default('pending').notNull(),
   sent_at: timestamp('sent_at'),
   delivered_at: timestamp('delivered_at'),
   opened_at: timestamp('opened_at'),
   clicked_at: timestamp('clicked_at'),
   error_message: text('error_message'),
-  provider_id: varchar('provider_id', { length: 255 }),
+  provider_id: varchar('provider_id', { length: 255 }), // email provider that delivered the message, e.g. 'resend'
+  provider_message_id: varchar('provider_message_id', { length: 255 }), // the message id that provider returned
   provider_response: text('provider_response'),
   retry_count: integer('retry_count').default(0),
   scheduled_for: timestamp('scheduled_for'),
+  next_attempt_at: timestamp('next_attempt_at'), // when the outbox worker may pick the row up; pushed back after a failed attempt
+  last_attempt_at: timestamp('last_attempt_at'),
+  locked_at: timestamp('locked_at'), // set while a worker is sending; stale locks are reclaimed
   sent_by: uuid('sent_by').references(() => users.id),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
@@ -420,6 +508,53 @@ export const communications = pgTable('communications', {
   statusIndex: index('communications_status_idx').on(table.status),
   typeIndex: index('communications_type_idx').on(table.type),
   scheduledIndex: index('communications_scheduled_idx').on(table.scheduled_for),
+  dueIndex: index('communications_due_idx').on(table.status, table.next_attempt_at),
+  providerMessageIndex: index('communications_provider_message_idx').on(table.provider_id, table.provider_message_id),
+}))
+
+// Email Suppressions - Addresses an event must not email again after a hard bounce or complaint
+export const emailSuppressions = pgTable('email_suppressions', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  event_id: uuid('event_id').references(() => events.id, { onDelete: 'cascade' }).notNull(),
+  email: varchar('email', { length: 255 }).notNull(), // stored lower-cased
+  reason: varchar('reason', { length: 20 }).notNull(), // 'bounce' | 'complaint' | 'manual'
+  detail: text('detail'), // provider's bounce message, if any
+  communication_id: uuid('communication_id').references(() => communications.id, { onDelete: 'set null' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  eventEmailIndex: uniqueIndex('email_suppressions_event_email_idx').on(table.event_id, table.email),
+}))
+
+// Reminder Rules - Reminders sent automatically a number of days before the RSVP deadline or a ceremony
+export const reminderRules = pgTable('reminder_rules', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  event_id: uuid('event_id').references(() => events.id, { onDelete: 'cascade' }).notNull(),
+  name: varchar('name', { length: 255 }).notNull(),
+  anchor: varchar('anchor', { length: 20 }).notNull(), // 'rsvp_deadline' | 'ceremony'
+  ceremony_id: uuid('ceremony_id').references(() => ceremonies.id, { onDelete: 'cascade' }), // null with a ceremony anchor means every ceremony
+  days_before: text('days_before').notNull(), // JSON array of day counts, e.g. [14, 7, 2]
+  send_time: varchar('send_time', { length: 10 }).default('09:00').notNull(), // HH:MM in the event's time zone
+  rsvp_status: rsvpStatusEnum('rsvp_status'), // only remind guests with this status; null for everyone
+  template_id: uuid('template_id').references(() => communicationTemplates.id, { onDelete: 'set null' }), // null uses the event's reminder template
+  is_active: boolean('is_active').default(true).notNull(),
+  last_run_at: timestamp('last_run_at'),
+  created_by: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  eventIndex: index('reminder_rules_event_idx').on(table.event_id),
+}))
+
+// Reminder Rule Sends - One row per guest and reminder, so a rule never reminds a guest twice
+export const reminderRuleSends = pgTable('reminder_rule_sends', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  rule_id: uuid('rule_id').references(() => reminderRules.id, { onDelete: 'cascade' }).notNull(),
+  guest_id: uuid('guest_id').references(() => guests.id, { onDelete: 'cascade' }).notNull(),
+  occurrence: varchar('occurrence', { length: 100 }).notNull(), // which reminder: 'rsvp_deadline:7' or 'ceremony:<id>:3'
+  skipped_reason: varchar('skipped_reason', { length: 20 }), // set when the guest could not be reminded, e.g. no email address
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  ruleGuestOccurrenceIndex: uniqueIndex('reminder_rule_sends_rule_guest_occurrence_idx').on(table.rule_id, table.guest_id, table.occurrence),
 }))
 
 // Event Settings
@@ -485,11 +620,14 @@ export const eventsRelations = relations(events, ({ one, many }) => ({
   }),
   eventUsers: many(eventUsers),
   guests: many(guests),
+  households: many(households),
   ceremonies: many(ceremonies),
   accommodations: many(accommodations),
   transportation: many(transportation),
   communicationTemplates: many(communicationTemplates),
   communications: many(communications),
+  emailSuppressions: many(emailSuppressions),
+  reminderRules: many(reminderRules),
   rsvpResponses: many(rsvpResponses),
   settings: one(eventSettings),
   auditLogs: many(auditLogs),
@@ -511,13 +649,33 @@ export const guestsRelations = relations(guests, ({ one, many }) => ({
     fields: [guests.event_id],
     references: [events.id],
   }),
+  household: one(households, {
+    fields: [guests.household_id],
+    references: [households.id],
+    relationName: 'household_members',
+  }),
   guestCeremonies: many(guestCeremonies),
   rsvpResponses: many(rsvpResponses),
+  customFieldValues: many(guestCustomFieldValues),
   guestAccommodations: many(guestAccommodations),
   guestTransportation: many(guestTransportation),
   communications: many(communications),
 }))
 
+export const householdsRelations = relations(households, ({ one, many }) => ({
+  event: one(events, {
+    fields: [households.event_id],
+    references: [events.id],
+  }),
+  primaryGuest: one(guests, {
+    fields: [households.primary_guest_id],
+    references: [guests.id],
+    relationName: 'household_primary',
+  }),
+  members: many(guests, { relationName: 'household_members' }),
+  rsvpTokens: many(rsvpTokens),
+}))
+
 export const ceremoniesRelations = relations(ceremonies, ({ one, many }) => ({
   event: one(events, {
     fields: [ceremonies.event_id],
@@ -628,6 +786,59 @@ export const rsvpResponsesRelations = relations(rsvpResponses, ({ one }) => ({
     fields: [rsvpResponses.event_id],
     references: [events.id],
   }),
+  reviewer: one(users, {
+    fields: [rsvpResponses.reviewed_by],
+    references: [users.id],
+  }),
+}))
+
+export const guestCustomFieldValuesRelations = relations(guestCustomFieldValues, ({ one }) => ({
+  guest: one(guests, {
+    fields: [guestCustomFieldValues.guest_id],
+    references: [guests.id],
+  }),
+  event: one(events, {
+    fields: [guestCustomFieldValues.event_id],
+    references: [events.id],
+  }),
+}))
+
+export const emailSuppressionsRelations = relations(emailSuppressions, ({ one }) => ({
+  event: one(events, {
+    fields: [emailSuppressions.event_id],
+    references: [events.id],
+  }),
+  communication: one(communications, {
+    fields: [emailSuppressions.communication_id],
+    references: [communications.id],
+  }),
+}))
+
+export const reminderRulesRelations = relations(reminderRules, ({ one, many }) => ({
+  event: one(events, {
+    fields: [reminderRules.event_id],
+    references: [events.id],
+  }),
+  ceremony: one(ceremonies, {
+    fields: [reminderRules.ceremony_id],
+    references: [ceremonies.id],
+  }),
+  template: one(communicationTemplates, {
+    fields: [reminderRules.template_id],
+    references: [communicationTemplates.id],
+  }),
+  sends: many(reminderRuleSends),
+}))
+
+export const reminderRuleSendsRelations = relations(reminderRuleSends, ({ one }) => ({
+  rule: one(reminderRules, {
+    fields: [reminderRuleSends.rule_id],
+    references: [reminderRules.id],
+  }),
+  guest: one(guests, {
+    fields: [reminderRuleSends.guest_id],
+    references: [guests.id],
+  }),
 }))
 
 export const eventSettingsRelations = relations(eventSettings, ({ one }) => ({
@@ -655,6 +866,8 @@ export type Event = typeof events.$inferSelect
 export type NewEvent = typeof events.$inferInsert
 export type Guest = typeof guests.$inferSelect
 export type NewGuest = typeof guests.$inferInsert
+export type Household = typeof households.$inferSelect
+export type NewHousehold = typeof households.$inferInsert
 export type Ceremony = typeof ceremonies.$inferSelect
 export type NewCeremony = typeof ceremonies.$inferInsert
 export type GuestCeremony = typeof guestCeremonies.$inferSelect
@@ -667,6 +880,16 @@ export type CommunicationTemplate = typeof communicationTemplates.$inferSelect
 export type NewCommunicationTemplate = typeof communicationTemplates.$inferInsert
 export type Communication = typeof communications.$inferSelect
 export type NewCommunication = typeof communications.$inferInsert
+export type EmailSuppression = typeof emailSuppressions.$inferSelect
+export type NewEmailSuppression = typeof emailSuppressions.$inferInsert
+export type ReminderRule = typeof reminderRules.$inferSelect
+export type NewReminderRule = typeof reminderRules.$inferInsert
+export type ReminderRuleSend = typeof reminderRuleSends.$inferSelect
+export type NewReminderRuleSend = typeof reminderRuleSends.$inferInsert
+export type RsvpResponse = typeof rsvpResponses.$inferSelect
+export type NewRsvpResponse = typeof rsvpResponses.$inferInsert
+export type GuestCustomFieldValue = typeof guestCustomFieldValues.$inferSelect
+export type NewGuestCustomFieldValue = typeof guestCustomFieldValues.$inferInsert
 export type EventSettings = typeof eventSettings.$inferSelect
 export type NewEventSettings = typeof eventSettings.$inferInsert
 
@@ -674,15 +897,31 @@ export type NewEventSettings = typeof eventSettings.$inferInsert
 export const rsvpTokens = pgTable('rsvp_tokens', {
   id: uuid('id').defaultRandom().primaryKey(),
   guest_id: uuid('guest_id').references(() => guests.id, { onDelete: 'cascade' }).notNull(),
-  token: varchar('token', { length: 255 }).notNull().unique(),
+  household_id: uuid('household_id').references(() => households.id, { onDelete: 'cascade' }), // set when the token answers for a whole household
+  token_hash: varchar('token_hash', { length: 64 }).notNull().unique(), // HMAC of the link token; the token itself is never stored
+  code_hash: varchar('code_hash', { length: 64 }).unique(), // HMAC of the short code typed from a printed invitation
   expires_at: timestamp('expires_at').notNull(),
   used_at: timestamp('used_at'),
   is_active: boolean('is_active').default(true).notNull(),
+  purpose: rsvpTokenPurposeEnum('purpose').default('invitation').notNull(),
   created_at: timestamp('created_at').defaultNow().notNull(),
 }, (table) => ({
-  tokenIndex: index('rsvp_tokens_token_idx').on(table.token),
+  tokenIndex: index('rsvp_tokens_token_idx').on(table.token_hash),
+  codeIndex: index('rsvp_tokens_code_idx').on(table.code_hash),
   guestTokenIndex: index('rsvp_tokens_guest_idx').on(table.guest_id),
   activeTokenIndex: index('rsvp_tokens_active_idx').on(table.is_active),
+  householdTokenIndex: index('rsvp_tokens_household_idx').on(table.household_id),
+}))
+
+export const rsvpTokensRelations = relations(rsvpTokens, ({ one }) => ({
+  guest: one(guests, {
+    fields: [rsvpTokens.guest_id],
+    references: [guests.id],
+  }),
+  household: one(households, {
+    fields: [rsvpTokens.household_id],
+    references: [households.id],
+  }),
 }))
 
 export type RsvpToken = typeof rsvpTokens.$inferSelect
@@ -0,0 +1,38 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { RateLimiter, getClientIp } from '@/lib/rate-limit'
+
+describe('RateLimiter', () => {
+  it('limits a key within the window and frees it afterwards', () => {
+    const limiter = new RateLimiter(2, 1000)
+    limiter.hit('a', 0)
+    limiter.hit('a', 100)
+
+    expect(limiter.retryAfter('a', 200)).toBe(800)
+    expect(limiter.retryAfter('b', 200)).toBe(0)
+    expect(limiter.retryAfter('a', 1000)).toBe(0)
+  })
+})
+
+describe('getClientIp', () => {
+  afterEach(() => {
+    delete process.env.TRUSTED_PROXY_COUNT
+  })
+
+  it('ignores addresses the client put in X-Forwarded-For', () => {
+    const headers = new Headers({ 'x-forwarded-for': '1.1.1.1, 2.2.2.2, 203.0.113.7' })
+
+    expect(getClientIp(headers)).toBe('203.0.113.7')
+  })
+
+  it('uses the address the outermost trusted proxy saw', () => {
+    process.env.TRUSTED_PROXY_COUNT = '2'
+    const headers = new Headers({ 'x-forwarded-for': '1.1.1.1, 203.0.113.7, 10.0.0.2' })
+
+    expect(getClientIp(headers)).toBe('203.0.113.7')
+  })
+
+  it('falls back to X-Real-IP', () => {
+    expect(getClientIp(new Headers({ 'x-real-ip': '203.0.113.7' }))).toBe('203.0.113.7')
+    expect(getClientIp(new Headers())).toBe('unknown')
+  })
+})
@@ -0,0 +1,61 @@
+/**
+ * Counts attempts per key over a sliding window. Counts live in this process's memory, so
+ * each server instance limits on its own and a restart clears them.
+ */
+export class RateLimiter {
+  private attempts = new Map<string, number[]>()
+
+  constructor(private limit: number, private windowMs: number) {}
+
+  private recent(key: string, now: number): number[] {
+    const times = (this.attempts.get(key) ?? []).filter(time => now - time < this.windowMs)
+    if (times.length === 0) {
+      this.attempts.delete(key)
+    } else {
+      this.attempts.set(key, times)
+    }
+    return times
+  }
+
+  /**
+   * Milliseconds until the key may try again, or 0 when it is under the limit
+   */
+  retryAfter(key: string, now: number = Date.now()): number {
+    const times = this.recent(key, now)
+    if (times.length < this.limit) return 0
+    return times[times.length - this.limit] + this.windowMs - now
+  }
+
+  hit(key: string, now: number = Date.now()): void {
+    this.attempts.set(key, [...this.recent(key, now), now])
+
+    // Drop idle keys now and then so the map does not grow without bound
+    if (this.attempts.size > 10000) {
+      this.attempts.forEach((_, other) => this.recent(other, now))
+    }
+  }
+
+  reset(key: string): void {
+    this.attempts.delete(key)
+  }
+}
+
+// TRUSTED_PROXY_COUNT proxies sit in front of the app; 1 unless set
+function getTrustedProxyCount(): number {
+  const count = Number(process.env.TRUSTED_PROXY_COUNT)
+  return Number.isInteger(count) && count >= 1 ? count : 1
+}
+
+/**
+ * The caller's address as seen by the outermost trusted proxy. Each proxy appends the
+ * address it was connected from to X-Forwarded-For, so entries further left were sent
+ * by the client and can be anything; only the entry the trusted proxies added is used.
+ */
+export function getClientIp(headers: Headers): string {
+  const proxies = getTrustedProxyCount()
+  const forwarded = headers.get('x-forwarded-for')?.split(',').map(entry => entry.trim()).filter(Boolean) ?? []
+  if (forwarded.length > 0) {
+    return forwarded[Math.max(0, forwarded.length - proxies)]
+  }
+  return headers.get('x-real-ip') || 'unknown'
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import { buildCalendar, type CalendarEvent } from '@/lib/services/calendar'
+
+const entry: CalendarEvent = {
+  uid: 'ceremony-1@myrsvp',
+  sequence: 2,
+  summary: 'Wedding',
+  lastModified: new Date('2030-01-01T10:00:00Z'),
+  start: new Date('2030-06-01T14:00:00Z'),
+  end: new Date('2030-06-01T16:00:00Z')
+}
+
+const options = { name: 'Alex & Sam', timezone: 'Europe/London' }
+
+function unfold(calendar: string): string[] {
+  return calendar.replace(/\r\n /g, '').split('\r\n')
+}
+
+describe('buildCalendar', () => {
+  it('ends every line with CRLF and writes times in UTC', () => {
+    const calendar = buildCalendar([entry], options, new Date('2030-02-03T04:05:06Z'))
+
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true)
+    expect(calendar.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/)
+    expect(unfold(calendar)).toEqual(expect.arrayContaining([
+      'DTSTAMP:20300203T040506Z',
+      'DTSTART:20300601T140000Z',
+      'DTEND:20300601T160000Z',
+      'SEQUENCE:2'
+    ]))
+  })
+
+  it('writes all-day entries as dates', () => {
+    const calendar = buildCalendar([{ ...entry, start: '2030-06-01', end: '2030-06-02' }], options)
+
+    expect(unfold(calendar)).toEqual(expect.arrayContaining([
+      'DTSTART;VALUE=DATE:20300601',
+      'DTEND;VALUE=DATE:20300602'
+    ]))
+  })
+
+  it('escapes text values', () => {
+    const calendar = buildCalendar([{
+      ...entry,
+      summary: 'Dinner; drinks, dancing',
+      location: 'Hall\\Garden',
+      description: 'Dress code: black tie\nCarriages at midnight'
+    }], options)
+
+    expect(unfold(calendar)).toEqual(expect.arrayContaining([
+      'SUMMARY:Dinner\\; drinks\\, dancing',
+      'LOCATION:Hall\\\\Garden',
+      'DESCRIPTION:Dress code: black tie\\nCarriages at midnight'
+    ]))
+  })
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const description = 'Célébration '.repeat(20)
+    const calendar = buildCalendar([{ ...entry, description }], options)
+
+    for (const line of calendar.split('\r\n')) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75)
+    }
+    expect(calendar).not.toContain('�')
+    expect(unfold(calendar)).toContain(`DESCRIPTION:${description}`)
+  })
+})
@@ -0,0 +1,218 @@
+import { db } from '@/lib/db'
+import { ceremonies, events, guestCeremonies, type Ceremony } from '@/lib/db/schema'
+import { getRsvpWindow } from '@/lib/services/rsvp'
+import { zonedTimeToUtc } from '@/lib/timezone'
+import { eq, and, asc, inArray } from 'drizzle-orm'
+
+export interface CalendarEvent {
+  // Stable across feeds and attachments, so calendars update the entry instead of adding one
+  uid: string
+  // Raised whenever the entry changes; calendars ignore an update with the same sequence
+  sequence: number
+  summary: string
+  description?: string | null
+  location?: string | null
+  url?: string | null
+  lastModified: Date
+  // Timed entries have instants; entries without a start time span the whole date (YYYY-MM-DD)
+  start: Date | string
+  end: Date | string
+}
+
+export interface CalendarOptions {
+  name: string
+  timezone: string
+  // Feeds tell subscribed clients how often to refetch
+  refreshInterval?: string
+}
+
+// Ceremonies without an end time are shown this long
+const DEFAULT_DURATION_MS = 2 * 60 * 60 * 1000
+
+const PRODUCT_ID = '-//MyRSVP//Wedding Calendar//EN'
+
+function getBaseUrl(): string {
+  return process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+}
+
+/**
+ * Escape a TEXT value (RFC 5545 section 3.3.11)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * Fold a content line into chunks of at most 75 octets, continued with CRLF and a space
+ * (RFC 5545 section 3.1). Multi-byte characters are never split.
+ */
+function foldLine(line: string): string {
+  const chunks: string[] = []
+  let chunk = ''
+  let octets = 0
+
+  for (const char of Array.from(line)) {
+    const size = Buffer.byteLength(char)
+    // Continuation lines lose one octet to the leading space
+    const limit = chunks.length === 0 ? 75 : 74
+    if (octets + size > limit) {
+      chunks.push(chunk)
+      chunk = ''
+      octets = 0
+    }
+    chunk += char
+    octets += size
+  }
+  chunks.push(chunk)
+
+  return chunks.join('\r\n ')
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+function formatDate(date: string): string {
+  return date.replace(/-/g, '')
+}
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10)
+}
+
+function dateProperty(name: string, value: Date | string): string {
+  return typeof value === 'string'
+    ? `${name};VALUE=DATE:${formatDate(value)}`
+    : `${name}:${formatUtc(value)}`
+}
+
+/**
+ * Build an iCalendar document. Times are written in UTC, so no VTIMEZONE is needed and
+ * every client shows them correctly in its own zone.
+ */
+export function buildCalendar(entries: CalendarEvent[], options: CalendarOptions, now: Date = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    `X-WR-TIMEZONE:${options.timezone}`
+  ]
+  if (options.refreshInterval) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:${options.refreshInterval}`)
+    lines.push(`X-PUBLISHED-TTL:${options.refreshInterval}`)
+  }
+
+  for (const entry of entries) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${entry.uid}`,
+      `SEQUENCE:${entry.sequence}`,
+      `DTSTAMP:${formatUtc(now)}`,
+      `LAST-MODIFIED:${formatUtc(entry.lastModified)}`,
+      dateProperty('DTSTART', entry.start),
+      dateProperty('DTEND', entry.end),
+      `SUMMARY:${escapeText(entry.summary)}`
+    )
+    if (entry.location) lines.push(`LOCATION:${escapeText(entry.location)}`)
+    if (entry.description) lines.push(`DESCRIPTION:${escapeText(entry.description)}`)
+    if (entry.url) lines.push(`URL:${entry.url}`)
+    lines.push('STATUS:CONFIRMED', 'TRANSP:OPAQUE', 'END:VEVENT')
+  }
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+/**
+ * A ceremony as a calendar entry. Start and end are event-local wall-clock times; an end
+ * before the start is taken to be after midnight.
+ */
+export function ceremonyToCalendarEvent(
+  ceremony: Ceremony,
+  eventName: string,
+  timezone: string
+): CalendarEvent {
+  const host = new URL(getBaseUrl()).hostname
+  const location = [ceremony.venue_name, ceremony.venue_address].filter(Boolean).join(', ')
+  const description = [
+    ceremony.description,
+    ceremony.dress_code ? `Dress code: ${ceremony.dress_code}` : null
+  ].filter(Boolean).join('\n\n')
+
+  let start: Date | string = ceremony.ceremony_date
+  let end: Date | string = addDays(ceremony.ceremony_date, 1)
+  if (ceremony.start_time) {
+    start = zonedTimeToUtc(ceremony.ceremony_date, ceremony.start_time, timezone)
+    end = ceremony.end_time
+      ? zonedTimeToUtc(ceremony.ceremony_date, ceremony.end_time, timezone)
+      : new Date(start.getTime() + DEFAULT_DURATION_MS)
+    if (end <= start) {
+      end = zonedTimeToUtc(addDays(ceremony.ceremony_date, 1), ceremony.end_time!, timezone)
+    }
+  }
+
+  return {
+    uid: `ceremony-${ceremony.id}@${host}`,
+    // Seconds from creation to the last edit, which grows with every edit
+    sequence: Math.max(0, Math.floor((ceremony.updated_at.getTime() - ceremony.created_at.getTime()) / 1000)),
+    summary: `${ceremony.name} - ${eventName}`,
+    description: description || null,
+    location: location || null,
+    lastModified: ceremony.updated_at,
+    start,
+    end
+  }
+}
+
+export class CalendarService {
+  /**
+   * Subscribable feed address for an RSVP link's party
+   */
+  static getFeedUrl(token: string): string {
+    return new URL(`/api/rsvp/calendar/${encodeURIComponent(token)}.ics`, getBaseUrl()).toString()
+  }
+
+  /**
+   * The ceremonies the given guests have accepted (waitlisted places do not count), as an
+   * iCalendar document. Built from the current ceremony details on every call.
+   */
+  static async getItinerary(
+    eventId: string,
+    guestIds: string[],
+    options: { refreshInterval?: string } = {}
+  ): Promise<{ calendar: string; ceremonies: Ceremony[] }> {
+    const [event] = await db.select({ name: events.name })
+      .from(events)
+      .where(eq(events.id, eventId))
+      .limit(1)
+    const window = await getRsvpWindow(eventId)
+    const timezone = window?.timezone ?? 'UTC'
+
+    const accepted = guestIds.length === 0 ? [] : await db.selectDistinct({ ceremony: ceremonies })
+      .from(ceremonies)
+      .innerJoin(guestCeremonies, eq(guestCeremonies.ceremony_id, ceremonies.id))
+      .where(and(
+        eq(ceremonies.event_id, eventId),
+        inArray(guestCeremonies.guest_id, guestIds),
+        eq(guestCeremonies.attendance_status, 'yes'),
+        eq(guestCeremonies.is_waitlisted, false)
+      ))
+      .orderBy(asc(ceremonies.ceremony_date), asc(ceremonies.start_time))
+
+    const eventName = event?.name ?? 'Wedding'
+    const calendar = buildCalendar(
+      accepted.map(row => ceremonyToCalendarEvent(row.ceremony, eventName, timezone)),
+      { name: eventName, timezone, refreshInterval: options.refreshInterval }
+    )
+
+    return { calendar, ceremonies: accepted.map(row => row.ceremony) }
+  }
+}
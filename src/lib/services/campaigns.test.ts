@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { CampaignService } from '@/lib/services/campaigns'
+import { RSVPTokenService } from '@/lib/services/rsvp-tokens'
+import { createEvent, createGuest } from '@/test/fixtures'
+
+describe('CampaignService.send', () => {
+  it('keeps links and printed codes issued before the campaign working', async () => {
+    const event = await createEvent()
+    const guest = await createGuest(event.id, { email: 'guest@example.com' })
+    const invitation = await RSVPTokenService.issueToken(guest.id, { withCode: true })
+
+    const result = await CampaignService.send({
+      eventId: event.id,
+      recipientIds: [guest.id],
+      type: 'email',
+      subject: 'Save the date',
+      content: 'See you there',
+      dryRun: false
+    })
+
+    expect(result.messages).toBe(1)
+    expect((await RSVPTokenService.validateToken(invitation.token)).isValid).toBe(true)
+    const exchanged = await RSVPTokenService.exchangeCode(invitation.code!)
+    expect(exchanged).not.toBeNull()
+    expect((await RSVPTokenService.validateToken(exchanged!)).isValid).toBe(true)
+  })
+
+  it('issues an invitation to a guest who has none', async () => {
+    const event = await createEvent()
+    const guest = await createGuest(event.id, { email: 'new@example.com' })
+
+    const result = await CampaignService.send({
+      eventId: event.id,
+      recipientIds: [guest.id],
+      type: 'email',
+      content: 'Your link: {{rsvpLink}}',
+      dryRun: false
+    })
+
+    expect(result.communicationIds).toHaveLength(1)
+    expect(await RSVPTokenService.issueLink(guest.id, null)).not.toBeNull()
+  })
+})
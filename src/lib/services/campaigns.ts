@@ -0,0 +1,327 @@
+import { db } from '@/lib/db'
+import { events, guests, households, type Guest } from '@/lib/db/schema'
+import { CalendarService } from '@/lib/services/calendar'
+import { EmailOutbox } from '@/lib/services/email-outbox'
+import { isCategoryMuted } from '@/lib/services/guest-preferences'
+import { getChannelAddress, getMessagingChannel, type MessageChannel } from '@/lib/services/messaging'
+import { RSVPTokenService } from '@/lib/services/rsvp-tokens'
+import {
+  CommunicationTemplateService,
+  TEMPLATE_VARIABLES,
+  toTemplateSource,
+  type TemplateSource
+} from '@/lib/services/templates'
+import { TemplateError } from '@/lib/services/template-engine'
+import { type SendCommunication } from '@/lib/validations/schemas'
+import { eq, and, or, ilike, inArray, isNotNull, isNull, asc, type SQL } from 'drizzle-orm'
+
+type TemplateCategory = NonNullable<SendCommunication['category']>
+
+export type CampaignSkipReason =
+  | 'not_found'
+  | 'unsubscribed'
+  | 'opted_out'
+  | 'no_email'
+  | 'no_phone'
+  | 'undeliverable'
+  | 'channel_unavailable'
+  | 'no_template'
+  | 'render_failed'
+
+export interface CampaignSkip {
+  guestId: string
+  name: string | null
+  reason: CampaignSkipReason
+  detail?: string
+}
+
+export interface CampaignResult {
+  dryRun: boolean
+  // Guests the campaign was aimed at
+  recipients: number
+  // Messages queued, or that would be queued: one per household
+  messages: number
+  // The same messages counted by the channel they go out on
+  channels: Partial<Record<MessageChannel, number>>
+  // Guests reached through a message addressed to another member of their household
+  coveredByHousehold: number
+  skipped: CampaignSkip[]
+  communicationIds: string[]
+}
+
+export class CampaignError extends Error {}
+
+// One message for each household, addressed to its primary contact when possible
+interface PlannedMessage {
+  addressee: Guest
+  channel: MessageChannel
+  members: Guest[]
+}
+
+function filterConditions(eventId: string, filter: NonNullable<SendCommunication['filter']>): SQL[] {
+  const conditions = [eq(guests.event_id, eventId)]
+
+  if (filter.side) conditions.push(eq(guests.side, filter.side))
+  if (filter.rsvpStatus) conditions.push(eq(guests.rsvp_status, filter.rsvpStatus))
+  if (filter.plusOneAllowed !== undefined) conditions.push(eq(guests.plus_one_allowed, filter.plusOneAllowed))
+  if (filter.hasEmail !== undefined) {
+    conditions.push(filter.hasEmail ? isNotNull(guests.email) : isNull(guests.email))
+  }
+  if (filter.hasPhone !== undefined) {
+    conditions.push(filter.hasPhone ? isNotNull(guests.phone) : isNull(guests.phone))
+  }
+  if (filter.search) {
+    conditions.push(or(
+      ilike(guests.first_name, `%${filter.search}%`),
+      ilike(guests.last_name, `%${filter.search}%`),
+      ilike(guests.email, `%${filter.search}%`)
+    )!)
+  }
+
+  return conditions
+}
+
+function guestName(guest: Guest): string {
+  return `${guest.first_name} ${guest.last_name}`
+}
+
+// Email is queued whether or not a provider is up, since the outbox retries it. WhatsApp
+// and SMS need a configured provider, or the guest is sent an email instead.
+function canUse(guest: Guest, channel: MessageChannel): boolean {
+  if (!getChannelAddress(guest, channel)) return false
+  return channel === 'email' || getMessagingChannel(channel).isAvailable()
+}
+
+/**
+ * The channel a guest is messaged on: the campaign's own channel when it has one,
+ * otherwise the guest's preferred channel, falling back to email
+ */
+function chooseChannel(guest: Guest, fixed: MessageChannel | undefined): MessageChannel | null {
+  const wanted = fixed ?? guest.preferred_channel
+  if (canUse(guest, wanted)) return wanted
+  if (!fixed && canUse(guest, 'email')) return 'email'
+  return null
+}
+
+function unreachableReason(guest: Guest, fixed: MessageChannel | undefined): CampaignSkipReason {
+  const wanted = fixed ?? guest.preferred_channel
+  if (wanted === 'email') return guest.email ? 'undeliverable' : 'no_email'
+  if (!getMessagingChannel(wanted).isAvailable()) return 'channel_unavailable'
+  return guest.phone ? 'undeliverable' : 'no_phone'
+}
+
+// Guests who unsubscribed get no campaigns; others can turn off single categories
+function optOutReason(guest: Guest, category: TemplateCategory | null): CampaignSkipReason | null {
+  if (guest.unsubscribed_at) return 'unsubscribed'
+  if (category && isCategoryMuted(guest, category)) return 'opted_out'
+  return null
+}
+
+/**
+ * Group the chosen guests into one message per household (or per guest outside one).
+ * Groups where nobody can be reached are skipped.
+ */
+async function planMessages(
+  selected: Guest[],
+  fixed: MessageChannel | undefined,
+  skipped: CampaignSkip[]
+): Promise<PlannedMessage[]> {
+  const householdIds = Array.from(new Set(selected.map(guest => guest.household_id).filter((id): id is string => !!id)))
+  const primaryContacts = new Map<string, string | null>()
+  if (householdIds.length > 0) {
+    const rows = await db.select({ id: households.id, primaryGuestId: households.primary_guest_id })
+      .from(households)
+      .where(inArray(households.id, householdIds))
+    for (const row of rows) primaryContacts.set(row.id, row.primaryGuestId)
+  }
+
+  const groups = new Map<string, Guest[]>()
+  for (const guest of selected) {
+    const key = guest.household_id ?? guest.id
+    groups.set(key, [...(groups.get(key) ?? []), guest])
+  }
+
+  const plan: PlannedMessage[] = []
+  groups.forEach((members, key) => {
+    const reachable = members
+      .map(member => ({ member, channel: chooseChannel(member, fixed) }))
+      .filter((entry): entry is { member: Guest; channel: MessageChannel } => entry.channel !== null)
+    const primaryId = primaryContacts.get(key)
+    const chosen = reachable.find(entry => entry.member.id === primaryId) ?? reachable[0]
+
+    if (!chosen) {
+      for (const member of members) {
+        skipped.push({ guestId: member.id, name: guestName(member), reason: unreachableReason(member, fixed) })
+      }
+      return
+    }
+    plan.push({ addressee: chosen.member, channel: chosen.channel, members })
+  })
+
+  return plan
+}
+
+export class CampaignService {
+  /**
+   * Send a template to the chosen guests through the outbox. Household members share one
+   * message and one RSVP link, sent to the household's primary contact, or to the first
+   * chosen member who can be reached. Without a type (or a saved template, which fixes
+   * it), each message goes out on the addressee's preferred channel, or by email when that
+   * channel cannot reach them. WhatsApp and SMS guests are sent the channel's template
+   * for the category when there is one, and the email template's text otherwise.
+   * Guests who unsubscribed, or turned off the campaign's category, are skipped and not
+   * counted in their household's message.
+   * Each message carries a new link to the party's current invitation, so links and
+   * printed codes sent earlier keep working; a party without one is issued an invitation.
+   * Invitations and reminders are marked on every guest they reach.
+   */
+  static async send(data: SendCommunication, sentBy?: string | null): Promise<CampaignResult> {
+    const [event] = await db.select({ id: events.id })
+      .from(events)
+      .where(eq(events.id, data.eventId))
+      .limit(1)
+    if (!event) throw new CampaignError('Event not found')
+
+    let storedTemplate: { id: string; category: TemplateCategory; source: TemplateSource } | null = null
+    if (data.templateId) {
+      const template = await CommunicationTemplateService.getForEvent(data.eventId, data.templateId)
+      if (data.type && template.type !== data.type) {
+        throw new CampaignError(`Template is for ${template.type}, not ${data.type}`)
+      }
+      storedTemplate = { id: template.id, category: template.category, source: toTemplateSource(template) }
+    }
+    const category = storedTemplate?.category ?? data.category ?? null
+    const fixedChannel = data.type ?? storedTemplate?.source.type
+
+    const skipped: CampaignSkip[] = []
+    const selected = data.recipientIds
+      ? await db.select().from(guests).where(and(
+        eq(guests.event_id, data.eventId),
+        inArray(guests.id, data.recipientIds)
+      ))
+      : await db.select().from(guests)
+        .where(and(...filterConditions(data.eventId, data.filter!)))
+        .orderBy(asc(guests.last_name), asc(guests.first_name))
+
+    if (data.recipientIds) {
+      const found = new Set(selected.map(guest => guest.id))
+      for (const guestId of data.recipientIds) {
+        if (!found.has(guestId)) skipped.push({ guestId, name: null, reason: 'not_found' })
+      }
+    }
+
+    const wanted = selected.filter(guest => {
+      const reason = optOutReason(guest, category)
+      if (reason) skipped.push({ guestId: guest.id, name: guestName(guest), reason })
+      return !reason
+    })
+
+    const plan = await planMessages(wanted, fixedChannel, skipped)
+
+    // Templates are looked up once per channel and language
+    const resolved = new Map<string, { templateId: string | null; source: TemplateSource } | null>()
+    const resolveFor = async (guest: Guest, channel: MessageChannel) => {
+      if (storedTemplate) return { templateId: storedTemplate.id, source: storedTemplate.source }
+      if (!category) {
+        return {
+          templateId: null,
+          source: { type: channel, subject: data.subject, content: data.content!, variables: TEMPLATE_VARIABLES }
+        }
+      }
+      const language = guest.language_preference || 'en'
+      const key = `${channel}:${language}`
+      if (!resolved.has(key)) {
+        const template = await CommunicationTemplateService.resolve(data.eventId, category, { language, type: channel })
+        resolved.set(key, template ?? (channel === 'email'
+          ? null
+          : await CommunicationTemplateService.resolve(data.eventId, category, { language, type: 'email' })))
+      }
+      return resolved.get(key)!
+    }
+
+    const scheduledFor = data.scheduledFor ? new Date(data.scheduledFor) : null
+    const communicationIds: string[] = []
+    const channels: Partial<Record<MessageChannel, number>> = {}
+    let messages = 0
+    let coveredByHousehold = 0
+
+    for (const { addressee, channel, members } of plan) {
+      const template = await resolveFor(addressee, channel)
+      if (!template) {
+        for (const member of members) {
+          skipped.push({ guestId: member.id, name: guestName(member), reason: 'no_template' })
+        }
+        continue
+      }
+
+      // Render before issuing a token, so a broken template costs nobody their current link
+      const context = await CommunicationTemplateService.getGuestContext(addressee.id, data.eventId)
+      try {
+        CommunicationTemplateService.render(template.source, context)
+      } catch (error) {
+        if (!(error instanceof TemplateError)) throw error
+        for (const member of members) {
+          skipped.push({ guestId: member.id, name: guestName(member), reason: 'render_failed', detail: error.message })
+        }
+        continue
+      }
+
+      messages++
+      channels[channel] = (channels[channel] ?? 0) + 1
+      coveredByHousehold += members.length - 1
+      if (data.dryRun) continue
+
+      const id = await db.transaction(async (tx) => {
+        const token = await RSVPTokenService.issueLink(addressee.id, addressee.household_id, tx)
+          ?? await RSVPTokenService.generateToken(addressee.id, undefined, tx)
+        const rendered = CommunicationTemplateService.render(template.source, {
+          ...context,
+          variables: {
+            ...context.variables,
+            rsvpLink: RSVPTokenService.generateRSVPUrl(token),
+            calendarLink: CalendarService.getFeedUrl(token)
+          }
+        })
+
+        const communicationId = await EmailOutbox.enqueue({
+          eventId: data.eventId,
+          type: channel,
+          to: getChannelAddress(addressee, channel)!,
+          subject: rendered.subject,
+          // Email templates sent over WhatsApp or SMS go out as their text version
+          html: channel === 'email' ? rendered.html! : undefined,
+          text: rendered.text,
+          whatsappTemplate: channel === 'whatsapp' ? rendered.whatsappTemplate : null,
+          recipientId: addressee.id,
+          templateId: template.templateId,
+          sentBy: sentBy ?? null,
+          scheduledFor
+        }, tx)
+
+        const memberIds = members.map(member => member.id)
+        if (category === 'invitation') {
+          await tx.update(guests)
+            .set({ invitation_sent: true, invitation_sent_at: new Date(), updated_at: new Date() })
+            .where(inArray(guests.id, memberIds))
+        } else if (category === 'reminder') {
+          await tx.update(guests)
+            .set({ reminder_sent: true, reminder_sent_at: new Date(), updated_at: new Date() })
+            .where(inArray(guests.id, memberIds))
+        }
+
+        return communicationId
+      })
+      communicationIds.push(id)
+    }
+
+    return {
+      dryRun: data.dryRun,
+      recipients: selected.length,
+      messages,
+      channels,
+      coveredByHousehold,
+      skipped,
+      communicationIds
+    }
+  }
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest'
+import { db } from '@/lib/db'
+import { ceremonies, guestCeremonies } from '@/lib/db/schema'
+import { CeremonyCapacityService, CeremonyFullError, seatsFor } from '@/lib/services/ceremony-capacity'
+import { createEvent, createGuest } from '@/test/fixtures'
+import { and, eq } from 'drizzle-orm'
+
+async function createCeremony(eventId: string, maxGuests: number | null, name = 'Ceremony') {
+  const [ceremony] = await db.insert(ceremonies)
+    .values({ event_id: eventId, name, ceremony_date: '2030-06-01', max_guests: maxGuests })
+    .returning()
+  return ceremony
+}
+
+/**
+ * Answer for a guest the way an RSVP submission does: place the answer, save it, then
+ * promote into any seats freed
+ */
+async function answer(eventId: string, guestId: string, ceremonyId: string, attending: string, plusOneAttending: string | null = null) {
+  return db.transaction(async (tx) => {
+    const capacities = await CeremonyCapacityService.lockCeremonies(tx, eventId)
+    const placement = await CeremonyCapacityService.place(tx, { guestId, ceremonyId, attending, plusOneAttending }, capacities)
+    const values = {
+      attendance_status: attending as 'yes' | 'no' | 'maybe',
+      plus_one_attendance: plusOneAttending as 'yes' | 'no' | 'maybe' | null,
+      is_waitlisted: placement.isWaitlisted,
+      waitlist_position: placement.waitlistPosition
+    }
+    await tx.insert(guestCeremonies)
+      .values({ guest_id: guestId, ceremony_id: ceremonyId, ...values })
+      .onConflictDoUpdate({ target: [guestCeremonies.guest_id, guestCeremonies.ceremony_id], set: values })
+    const promoted = await CeremonyCapacityService.promoteAll(tx, capacities)
+    return { placement, promoted }
+  })
+}
+
+async function getAnswer(guestId: string, ceremonyId: string) {
+  const [row] = await db.select()
+    .from(guestCeremonies)
+    .where(and(eq(guestCeremonies.guest_id, guestId), eq(guestCeremonies.ceremony_id, ceremonyId)))
+  return row
+}
+
+describe('seatsFor', () => {
+  it('counts the guest and an attending plus-one', () => {
+    expect(seatsFor('yes', 'yes')).toBe(2)
+    expect(seatsFor('yes', 'no')).toBe(1)
+    expect(seatsFor('no', 'yes')).toBe(0)
+  })
+})
+
+describe('CeremonyCapacityService', () => {
+  it('waitlists guests once a ceremony is full, in the order they answered', async () => {
+    const event = await createEvent()
+    const ceremony = await createCeremony(event.id, 2)
+    const [a, b, c] = await Promise.all([createGuest(event.id), createGuest(event.id), createGuest(event.id)])
+
+    expect((await answer(event.id, a.id, ceremony.id, 'yes', 'yes')).placement.isWaitlisted).toBe(false)
+    expect((await answer(event.id, b.id, ceremony.id, 'yes')).placement).toEqual({ isWaitlisted: true, waitlistPosition: 1 })
+    expect((await answer(event.id, c.id, ceremony.id, 'yes')).placement).toEqual({ isWaitlisted: true, waitlistPosition: 2 })
+  })
+
+  it('promotes the waitlist in order when seats are freed', async () => {
+    const event = await createEvent()
+    const ceremony = await createCeremony(event.id, 2)
+    const [a, b, c] = await Promise.all([createGuest(event.id), createGuest(event.id), createGuest(event.id)])
+    await answer(event.id, a.id, ceremony.id, 'yes', 'yes')
+    await answer(event.id, b.id, ceremony.id, 'yes', 'yes')
+    await answer(event.id, c.id, ceremony.id, 'yes')
+
+    const { promoted } = await answer(event.id, a.id, ceremony.id, 'no')
+
+    expect(promoted).toEqual([{ guestId: b.id, ceremonyId: ceremony.id }])
+    expect(await getAnswer(c.id, ceremony.id)).toMatchObject({ is_waitlisted: true, waitlist_position: 2 })
+  })
+
+  it('keeps a confirmed guest seated and refuses a plus-one with no seat left', async () => {
+    const event = await createEvent()
+    const ceremony = await createCeremony(event.id, 2, 'The Reception')
+    const [a, b] = await Promise.all([createGuest(event.id), createGuest(event.id)])
+    await answer(event.id, a.id, ceremony.id, 'yes')
+    await answer(event.id, b.id, ceremony.id, 'yes')
+
+    await expect(answer(event.id, a.id, ceremony.id, 'yes', 'yes')).rejects.toThrow(CeremonyFullError)
+    await expect(answer(event.id, a.id, ceremony.id, 'yes', 'yes')).rejects.toThrow('The Reception')
+    expect(await getAnswer(a.id, ceremony.id)).toMatchObject({ is_waitlisted: false, plus_one_attendance: null })
+  })
+
+  it('applies the event limit across ceremonies, counting each guest once', async () => {
+    const event = await createEvent({ max_guests: 2 })
+    const welcome = await createCeremony(event.id, null)
+    const wedding = await createCeremony(event.id, null)
+    const [a, b, c] = await Promise.all([createGuest(event.id), createGuest(event.id), createGuest(event.id)])
+
+    await answer(event.id, a.id, welcome.id, 'yes')
+    await answer(event.id, a.id, wedding.id, 'yes')
+    await answer(event.id, b.id, wedding.id, 'yes')
+
+    expect((await answer(event.id, c.id, welcome.id, 'yes')).placement.isWaitlisted).toBe(true)
+    expect((await answer(event.id, b.id, welcome.id, 'yes')).placement.isWaitlisted).toBe(false)
+  })
+
+  it('promotes across ceremonies only while the event has room', async () => {
+    const event = await createEvent({ max_guests: 2 })
+    const welcome = await createCeremony(event.id, null)
+    const wedding = await createCeremony(event.id, null)
+    const [a, b, c] = await Promise.all([createGuest(event.id), createGuest(event.id), createGuest(event.id)])
+    await answer(event.id, a.id, welcome.id, 'yes')
+    await answer(event.id, b.id, wedding.id, 'yes')
+    await answer(event.id, c.id, welcome.id, 'yes')
+
+    const { promoted } = await answer(event.id, b.id, wedding.id, 'no')
+
+    expect(promoted).toEqual([{ guestId: c.id, ceremonyId: welcome.id }])
+  })
+})
@@ -0,0 +1,354 @@
+import { db, type DbExecutor } from '@/lib/db'
+import { events, eventSettings, ceremonies, guests, guestCeremonies } from '@/lib/db/schema'
+import { defaultTemplates, processTemplate } from '@/lib/services/email'
+import { EmailOutbox } from '@/lib/services/email-outbox'
+import { RSVPTokenService } from '@/lib/services/rsvp-tokens'
+import { resolveTimezone } from '@/lib/timezone'
+import { eq, and, or, ne, lt, asc, max, count, sql, inArray } from 'drizzle-orm'
+
+export interface WaitlistEntry {
+  guestId: string
+  ceremonyId: string
+  position: number
+}
+
+export interface WaitlistPromotion {
+  guestId: string
+  ceremonyId: string
+}
+
+export interface CeremonyPlacement {
+  isWaitlisted: boolean
+  waitlistPosition: number | null
+}
+
+export interface CeremonyAnswer {
+  guestId: string
+  ceremonyId: string
+  attending: string
+  plusOneAttending?: string | null
+}
+
+/**
+ * Seat limits for an event, from lockCeremonies; null means unlimited
+ */
+export interface CeremonyCapacities {
+  eventId: string
+  // events.max_guests, counted across the event: a guest at several ceremonies takes
+  // one seat, or two with a plus-one at any of them
+  event: number | null
+  // Each ceremony's own max_guests
+  ceremonies: Map<string, number | null>
+}
+
+// A confirmed guest asked to bring a plus-one to a ceremony with no seat left for them
+export class CeremonyFullError extends Error {
+  constructor(ceremonyName: string) {
+    super(`There is no seat left for a plus-one at ${ceremonyName}. Your own place is still confirmed.`)
+  }
+}
+
+/**
+ * Seats an answer takes up: the guest when they say yes, plus one more for an attending plus-one
+ */
+export function seatsFor(attending: string, plusOneAttending?: string | null): number {
+  if (attending !== 'yes') return 0
+  return plusOneAttending === 'yes' ? 2 : 1
+}
+
+const seatsPerAnswer = sql`case when ${guestCeremonies.plus_one_attendance} = 'yes' then 2 else 1 end`
+const confirmedSeats = sql<number>`coalesce(sum(${seatsPerAnswer}), 0)`.mapWith(Number)
+
+/**
+ * Seats taken by confirmed (not waitlisted) guests, optionally leaving one guest out
+ */
+async function getOccupiedSeats(tx: DbExecutor, ceremonyId: string, excludeGuestId?: string): Promise<number> {
+  const [row] = await tx.select({ seats: confirmedSeats })
+    .from(guestCeremonies)
+    .where(and(
+      eq(guestCeremonies.ceremony_id, ceremonyId),
+      eq(guestCeremonies.attendance_status, 'yes'),
+      eq(guestCeremonies.is_waitlisted, false),
+      excludeGuestId ? ne(guestCeremonies.guest_id, excludeGuestId) : undefined
+    ))
+
+  return row?.seats ?? 0
+}
+
+/**
+ * Seats taken across the event if a guest's answer for one ceremony took `seats`. Each
+ * confirmed guest counts once, with their plus-one if they bring one to any ceremony.
+ */
+async function getEventSeatsWith(
+  tx: DbExecutor,
+  eventId: string,
+  answer: { guestId: string; ceremonyId: string },
+  seats: number
+): Promise<number> {
+  const rows = await tx.select({
+    guestId: guestCeremonies.guest_id,
+    seats: sql<number>`max(${seatsPerAnswer})`.mapWith(Number)
+  })
+    .from(guestCeremonies)
+    .innerJoin(ceremonies, eq(ceremonies.id, guestCeremonies.ceremony_id))
+    .where(and(
+      eq(ceremonies.event_id, eventId),
+      eq(guestCeremonies.attendance_status, 'yes'),
+      eq(guestCeremonies.is_waitlisted, false),
+      or(ne(guestCeremonies.guest_id, answer.guestId), ne(guestCeremonies.ceremony_id, answer.ceremonyId))
+    ))
+    .groupBy(guestCeremonies.guest_id)
+
+  const own = rows.find(row => row.guestId === answer.guestId)?.seats ?? 0
+  const others = rows.reduce((total, row) => row.guestId === answer.guestId ? total : total + row.seats, 0)
+  return others + Math.max(own, seats)
+}
+
+/**
+ * Whether an answer taking `seats` fits both its ceremony, where `occupied` seats are
+ * taken by others, and the event as a whole
+ */
+async function fits(
+  tx: DbExecutor,
+  capacities: CeremonyCapacities,
+  answer: { guestId: string; ceremonyId: string },
+  occupied: number,
+  seats: number
+): Promise<boolean> {
+  const ceremonyCapacity = capacities.ceremonies.get(answer.ceremonyId) ?? null
+  if (ceremonyCapacity !== null && occupied + seats > ceremonyCapacity) return false
+  if (capacities.event === null) return true
+  return await getEventSeatsWith(tx, capacities.eventId, answer, seats) <= capacities.event
+}
+
+/**
+ * Whether an answer competes with nobody in the queue: its ceremony has no limit of its own
+ * and the guest already holds every event seat it takes at another ceremony
+ */
+async function takesNoNewSeats(
+  tx: DbExecutor,
+  capacities: CeremonyCapacities,
+  answer: { guestId: string; ceremonyId: string },
+  seats: number
+): Promise<boolean> {
+  if ((capacities.ceremonies.get(answer.ceremonyId) ?? null) !== null) return false
+  return await getEventSeatsWith(tx, capacities.eventId, answer, seats) ===
+    await getEventSeatsWith(tx, capacities.eventId, answer, 0)
+}
+
+export class CeremonyCapacityService {
+  /**
+   * Lock the event's ceremonies for the rest of the transaction and return the seat limits:
+   * each ceremony's own max_guests, and the event's max_guests across all of them.
+   * Locking every ceremony in id order keeps concurrent submissions from overbooking the
+   * last seats or deadlocking each other.
+   */
+  static async lockCeremonies(tx: DbExecutor, eventId: string): Promise<CeremonyCapacities> {
+    const rows = await tx.select({
+      id: ceremonies.id,
+      ceremonyMax: ceremonies.max_guests,
+      eventMax: events.max_guests
+    })
+      .from(ceremonies)
+      .innerJoin(events, eq(ceremonies.event_id, events.id))
+      .where(eq(ceremonies.event_id, eventId))
+      .orderBy(asc(ceremonies.id))
+      .for('update', { of: ceremonies })
+
+    return {
+      eventId,
+      event: rows[0]?.eventMax ?? null,
+      ceremonies: new Map(rows.map(row => [row.id, row.ceremonyMax]))
+    }
+  }
+
+  /**
+   * Decide whether a yes fits or joins the waitlist. Guests already confirmed keep their seat
+   * while it still fits; newcomers only skip the queue when nobody is waiting ahead of them,
+   * or when they take no seat the queue is waiting for.
+   * Waitlisted guests keep their place in the queue when they resubmit. A confirmed guest
+   * adding a plus-one who does not fit is refused with a CeremonyFullError rather than
+   * losing their own seat.
+   */
+  static async place(tx: DbExecutor, answer: CeremonyAnswer, capacities: CeremonyCapacities): Promise<CeremonyPlacement> {
+    const seats = seatsFor(answer.attending, answer.plusOneAttending)
+    const ceremonyCapacity = capacities.ceremonies.get(answer.ceremonyId) ?? null
+    if (seats === 0 || (ceremonyCapacity === null && capacities.event === null)) {
+      return { isWaitlisted: false, waitlistPosition: null }
+    }
+
+    const [existing] = await tx.select({
+      attending: guestCeremonies.attendance_status,
+      plusOneAttending: guestCeremonies.plus_one_attendance,
+      isWaitlisted: guestCeremonies.is_waitlisted,
+      position: guestCeremonies.waitlist_position
+    })
+      .from(guestCeremonies)
+      .where(and(
+        eq(guestCeremonies.guest_id, answer.guestId),
+        eq(guestCeremonies.ceremony_id, answer.ceremonyId)
+      ))
+      .limit(1)
+    const wasConfirmed = existing?.attending === 'yes' && !existing.isWaitlisted
+    const currentPosition = existing?.isWaitlisted ? existing.position : null
+
+    const [ahead] = await tx.select({ total: count() })
+      .from(guestCeremonies)
+      .where(and(
+        eq(guestCeremonies.ceremony_id, answer.ceremonyId),
+        eq(guestCeremonies.is_waitlisted, true),
+        ne(guestCeremonies.guest_id, answer.guestId),
+        currentPosition !== null ? lt(guestCeremonies.waitlist_position, currentPosition) : undefined
+      ))
+
+    const occupied = await getOccupiedSeats(tx, answer.ceremonyId, answer.guestId)
+    const mayTakeSeat = wasConfirmed || ahead.total === 0 || await takesNoNewSeats(tx, capacities, answer, seats)
+    if (mayTakeSeat && await fits(tx, capacities, answer, occupied, seats)) {
+      return { isWaitlisted: false, waitlistPosition: null }
+    }
+
+    if (wasConfirmed) {
+      const confirmedSeats = seatsFor(existing.attending, existing.plusOneAttending)
+      if (seats > confirmedSeats && await fits(tx, capacities, answer, occupied, confirmedSeats)) {
+        const [ceremony] = await tx.select({ name: ceremonies.name })
+          .from(ceremonies)
+          .where(eq(ceremonies.id, answer.ceremonyId))
+        throw new CeremonyFullError(ceremony.name)
+      }
+    }
+
+    if (currentPosition !== null) {
+      return { isWaitlisted: true, waitlistPosition: currentPosition }
+    }
+
+    const [last] = await tx.select({ position: max(guestCeremonies.waitlist_position) })
+      .from(guestCeremonies)
+      .where(eq(guestCeremonies.ceremony_id, answer.ceremonyId))
+
+    return { isWaitlisted: true, waitlistPosition: (last?.position ?? 0) + 1 }
+  }
+
+  /**
+   * Move waitlisted guests into freed seats in the order they joined. Promotion stops at the
+   * first guest whose party does not fit, so nobody is overtaken by a smaller party behind them;
+   * only guests who take no new seat are seated past that point.
+   */
+  static async promote(tx: DbExecutor, ceremonyId: string, capacities: CeremonyCapacities): Promise<WaitlistPromotion[]> {
+    const queue = await tx.select({
+      id: guestCeremonies.id,
+      guestId: guestCeremonies.guest_id,
+      attending: guestCeremonies.attendance_status,
+      plusOneAttending: guestCeremonies.plus_one_attendance
+    })
+      .from(guestCeremonies)
+      .where(and(
+        eq(guestCeremonies.ceremony_id, ceremonyId),
+        eq(guestCeremonies.is_waitlisted, true)
+      ))
+      .orderBy(asc(guestCeremonies.waitlist_position))
+    if (queue.length === 0) return []
+
+    let occupied = await getOccupiedSeats(tx, ceremonyId)
+    const promoted: WaitlistPromotion[] = []
+    let blocked = false
+
+    for (const entry of queue) {
+      const seats = seatsFor(entry.attending, entry.plusOneAttending)
+      const answer = { guestId: entry.guestId, ceremonyId }
+      if (blocked && !await takesNoNewSeats(tx, capacities, answer, seats)) continue
+      if (!await fits(tx, capacities, answer, occupied, seats)) {
+        blocked = true
+        continue
+      }
+
+      await tx.update(guestCeremonies)
+        .set({ is_waitlisted: false, waitlist_position: null, updated_at: new Date() })
+        .where(eq(guestCeremonies.id, entry.id))
+      occupied += seats
+      promoted.push({ guestId: entry.guestId, ceremonyId })
+    }
+
+    return promoted
+  }
+
+  /**
+   * Run promotion for every ceremony of the event
+   */
+  static async promoteAll(tx: DbExecutor, capacities: CeremonyCapacities): Promise<WaitlistPromotion[]> {
+    const promoted: WaitlistPromotion[] = []
+    for (const ceremonyId of Array.from(capacities.ceremonies.keys())) {
+      promoted.push(...await this.promote(tx, ceremonyId, capacities))
+    }
+    return promoted
+  }
+
+  /**
+   * Current waitlist entries for a set of guests
+   */
+  static async getWaitlist(guestIds: string[], executor: DbExecutor = db): Promise<WaitlistEntry[]> {
+    if (guestIds.length === 0) return []
+
+    const rows = await executor.select({
+      guestId: guestCeremonies.guest_id,
+      ceremonyId: guestCeremonies.ceremony_id,
+      position: guestCeremonies.waitlist_position
+    })
+      .from(guestCeremonies)
+      .where(and(
+        inArray(guestCeremonies.guest_id, guestIds),
+        eq(guestCeremonies.is_waitlisted, true)
+      ))
+      .orderBy(asc(guestCeremonies.waitlist_position))
+
+    return rows.map(row => ({ ...row, position: row.position ?? 0 }))
+  }
+
+  /**
+   * Queue an email telling each promoted guest their place is confirmed. Queued in the
+   * same transaction as the promotion, so the email goes out only if the promotion sticks.
+   */
+  static async queuePromotionEmails(executor: DbExecutor, promotions: WaitlistPromotion[]): Promise<void> {
+    for (const promotion of promotions) {
+      const [row] = await executor.select({
+        guestId: guests.id,
+        firstName: guests.first_name,
+        lastName: guests.last_name,
+        email: guests.email,
+        householdId: guests.household_id,
+        eventId: events.id,
+        ceremonyName: ceremonies.name,
+        ceremonyDate: ceremonies.ceremony_date,
+        coupleNames: events.couple_names,
+        eventTimezone: events.timezone,
+        settingsTimezone: eventSettings.timezone
+      })
+        .from(guests)
+        .innerJoin(ceremonies, eq(ceremonies.id, promotion.ceremonyId))
+        .innerJoin(events, eq(events.id, ceremonies.event_id))
+        .leftJoin(eventSettings, eq(eventSettings.event_id, events.id))
+        .where(eq(guests.id, promotion.guestId))
+        .limit(1)
+      if (!row?.email) continue
+
+      // Household members answer through the shared invitation held by the primary contact
+      const token = await RSVPTokenService.issueLink(row.guestId, row.householdId, executor)
+
+      const content = processTemplate(defaultTemplates.waitlistPromotion, {
+        guestName: `${row.firstName} ${row.lastName}`,
+        ceremonyName: row.ceremonyName,
+        ceremonyDate: row.ceremonyDate,
+        coupleNames: row.coupleNames,
+        rsvpLink: token
+          ? RSVPTokenService.generateRSVPUrl(token)
+          : RSVPTokenService.getCodeEntryUrl()
+      }, { timezone: resolveTimezone(row.eventTimezone ?? row.settingsTimezone) })
+
+      await EmailOutbox.enqueue({
+        eventId: row.eventId,
+        recipientId: row.guestId,
+        to: row.email,
+        ...content
+      }, executor)
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import { randomUUID } from 'crypto'
+import { describe, it, expect } from 'vitest'
+import { db } from '@/lib/db'
+import { ceremonies, guestCeremonies, households } from '@/lib/db/schema'
+import { CheckInService } from '@/lib/services/check-in'
+import { RSVPTokenService } from '@/lib/services/rsvp-tokens'
+import type { CheckInArrival } from '@/lib/validations/schemas'
+import { createEvent, createGuest } from '@/test/fixtures'
+import { and, eq } from 'drizzle-orm'
+
+async function createCeremony(eventId: string) {
+  const [ceremony] = await db.insert(ceremonies)
+    .values({ event_id: eventId, name: 'Ceremony', ceremony_date: '2030-06-01' })
+    .returning()
+  return ceremony
+}
+
+async function getAnswer(guestId: string, ceremonyId: string) {
+  const [row] = await db.select()
+    .from(guestCeremonies)
+    .where(and(eq(guestCeremonies.guest_id, guestId), eq(guestCeremonies.ceremony_id, ceremonyId)))
+  return row
+}
+
+function arrival(values: Partial<CheckInArrival> & Pick<CheckInArrival, 'ceremonyId' | 'at'>): CheckInArrival {
+  return { id: randomUUID(), plusOne: false, arrived: true, ...values }
+}
+
+describe('CheckInService.recordArrivals', () => {
+  it('checks in the expected members of a household when its invitation is scanned', async () => {
+    const event = await createEvent()
+    const ceremony = await createCeremony(event.id)
+    const [household] = await db.insert(households).values({ event_id: event.id, name: 'The Smiths' }).returning()
+    const attending = await createGuest(event.id, { household_id: household.id, plus_one_allowed: true })
+    const declined = await createGuest(event.id, { household_id: household.id })
+    const waitlisted = await createGuest(event.id, { household_id: household.id })
+    await db.insert(guestCeremonies).values([
+      { guest_id: attending.id, ceremony_id: ceremony.id, attendance_status: 'yes', plus_one_attendance: 'yes' },
+      { guest_id: declined.id, ceremony_id: ceremony.id, attendance_status: 'no' },
+      { guest_id: waitlisted.id, ceremony_id: ceremony.id, attendance_status: 'yes', is_waitlisted: true, waitlist_position: 1 }
+    ])
+    const token = await RSVPTokenService.generateToken(declined.id)
+    const at = new Date('2025-06-01T15:00:00Z')
+
+    const [result] = await CheckInService.recordArrivals(event.id, [arrival({ ceremonyId: ceremony.id, token, at })], event.created_by)
+
+    expect(result).toMatchObject({ status: 'applied', guestIds: [attending.id] })
+    const answer = await getAnswer(attending.id, ceremony.id)
+    expect(answer.checked_in_at).toEqual(at)
+    expect(answer.plus_one_checked_in_at).toEqual(at)
+    expect(answer.checked_in_by).toBe(event.created_by)
+    expect((await getAnswer(declined.id, ceremony.id)).checked_in_at).toBeNull()
+    expect((await getAnswer(waitlisted.id, ceremony.id)).checked_in_at).toBeNull()
+  })
+
+  it('checks in the whole household when nobody in it is expected', async () => {
+    const event = await createEvent()
+    const ceremony = await createCeremony(event.id)
+    const [household] = await db.insert(households).values({ event_id: event.id, name: 'The Joneses' }).returning()
+    const first = await createGuest(event.id, { household_id: household.id })
+    const second = await createGuest(event.id, { household_id: household.id })
+    const token = await RSVPTokenService.generateToken(first.id)
+
+    const [result] = await CheckInService.recordArrivals(
+      event.id,
+      [arrival({ ceremonyId: ceremony.id, token, at: new Date('2025-06-01T15:00:00Z') })],
+      event.created_by
+    )
+
+    expect(result.guestIds.sort()).toEqual([first.id, second.id].sort())
+    expect((await getAnswer(first.id, ceremony.id)).attendance_status).toBe('yes')
+    expect((await getAnswer(second.id, ceremony.id)).checked_in_at).not.toBeNull()
+  })
+
+  it('ignores an undo made before the arrival was recorded', async () => {
+    const event = await createEvent()
+    const ceremony = await createCeremony(event.id)
+    const guest = await createGuest(event.id)
+    const arrivedAt = new Date('2025-06-01T15:00:00Z')
+    await CheckInService.recordArrivals(event.id, [arrival({ ceremonyId: ceremony.id, guestId: guest.id, at: arrivedAt })], event.created_by)
+
+    await CheckInService.recordArrivals(
+      event.id,
+      [arrival({ ceremonyId: ceremony.id, guestId: guest.id, arrived: false, at: new Date('2025-06-01T14:55:00Z') })],
+      event.created_by
+    )
+    expect((await getAnswer(guest.id, ceremony.id)).checked_in_at).toEqual(arrivedAt)
+
+    await CheckInService.recordArrivals(
+      event.id,
+      [arrival({ ceremonyId: ceremony.id, guestId: guest.id, arrived: false, at: new Date('2025-06-01T15:05:00Z') })],
+      event.created_by
+    )
+    const answer = await getAnswer(guest.id, ceremony.id)
+    expect(answer.checked_in_at).toBeNull()
+    expect(answer.checked_in_by).toBeNull()
+  })
+
+  it('keeps the earliest time when two devices record the same arrival', async () => {
+    const event = await createEvent()
+    const ceremony = await createCeremony(event.id)
+    const guest = await createGuest(event.id)
+    const earlier = new Date('2025-06-01T15:00:00Z')
+
+    await CheckInService.recordArrivals(
+      event.id,
+      [arrival({ ceremonyId: ceremony.id, guestId: guest.id, at: new Date('2025-06-01T15:10:00Z') })],
+      event.created_by
+    )
+    await CheckInService.recordArrivals(event.id, [arrival({ ceremonyId: ceremony.id, guestId: guest.id, at: earlier })], event.created_by)
+
+    expect((await getAnswer(guest.id, ceremony.id)).checked_in_at).toEqual(earlier)
+  })
+})
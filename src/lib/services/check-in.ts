@@ -0,0 +1,309 @@
+import { db, type DbExecutor } from '@/lib/db'
+import { ceremonies, guests, households, guestCeremonies } from '@/lib/db/schema'
+import { RSVPTokenService } from '@/lib/services/rsvp-tokens'
+import type { CheckInArrival, UpdateSeating } from '@/lib/validations/schemas'
+import { eq, and, asc, inArray, lte, sql } from 'drizzle-orm'
+
+export class CheckInNotFoundError extends Error {}
+
+export interface CheckInCeremony {
+  id: string
+  name: string
+  date: string
+  startTime: string | null
+  venueName: string | null
+}
+
+export interface CheckInEntry {
+  attendanceStatus: 'yes' | 'no' | 'maybe'
+  isWaitlisted: boolean
+  tableName: string | null
+  mealPreference: string | null
+  plusOneAttendance: 'yes' | 'no' | 'maybe' | null
+  plusOneMealPreference: string | null
+  checkedInAt: Date | null
+  plusOneCheckedInAt: Date | null
+}
+
+export interface CheckInGuest {
+  id: string
+  firstName: string
+  lastName: string
+  householdId: string | null
+  householdName: string | null
+  plusOneAllowed: boolean
+  plusOneName: string | null
+  dietaryRequirements: string | null
+  accessibilityNeeds: string | null
+  // Keyed by ceremony id; ceremonies the guest never answered for are missing
+  ceremonies: Record<string, CheckInEntry>
+}
+
+export interface CheckInRoster {
+  ceremonies: CheckInCeremony[]
+  guests: CheckInGuest[]
+  generatedAt: Date
+}
+
+export interface ArrivalResult {
+  id: string
+  // unknown_guest: the guest, ceremony or scanned invitation is not part of the event
+  status: 'applied' | 'unknown_guest'
+  guestIds: string[]
+}
+
+/**
+ * The guests an invitation link was issued for: the household's members for a household
+ * card, otherwise the guest. Empty when the token is unknown or belongs to another event.
+ */
+async function findParty(executor: DbExecutor, eventId: string, token: string): Promise<string[]> {
+  const holder = await RSVPTokenService.findTokenHolder(token, executor)
+  if (!holder) return []
+
+  const members = await executor.select({ id: guests.id })
+    .from(guests)
+    .where(and(
+      eq(guests.event_id, eventId),
+      holder.householdId ? eq(guests.household_id, holder.householdId) : eq(guests.id, holder.guestId)
+    ))
+  return members.map(member => member.id)
+}
+
+/**
+ * Mark a guest, or their plus-one, as arrived. Arriving counts as attending, so a guest
+ * who answered no or never answered is recorded as a yes. When two devices record the same
+ * arrival, the earlier time is kept.
+ */
+async function markArrived(
+  executor: DbExecutor,
+  guestId: string,
+  ceremonyId: string,
+  plusOne: boolean,
+  at: Date,
+  userId: string
+): Promise<void> {
+  if (plusOne) {
+    await executor.insert(guestCeremonies)
+      .values({ guest_id: guestId, ceremony_id: ceremonyId, plus_one_attendance: 'yes', plus_one_checked_in_at: at })
+      .onConflictDoUpdate({
+        target: [guestCeremonies.guest_id, guestCeremonies.ceremony_id],
+        set: {
+          plus_one_attendance: 'yes',
+          plus_one_checked_in_at: sql`least(${guestCeremonies.plus_one_checked_in_at}, excluded.plus_one_checked_in_at)`,
+          updated_at: new Date()
+        }
+      })
+    return
+  }
+
+  await executor.insert(guestCeremonies)
+    .values({ guest_id: guestId, ceremony_id: ceremonyId, attendance_status: 'yes', checked_in_at: at, checked_in_by: userId })
+    .onConflictDoUpdate({
+      target: [guestCeremonies.guest_id, guestCeremonies.ceremony_id],
+      set: {
+        attendance_status: 'yes',
+        checked_in_at: sql`least(${guestCeremonies.checked_in_at}, excluded.checked_in_at)`,
+        checked_in_by: sql`coalesce(${guestCeremonies.checked_in_by}, excluded.checked_in_by)`,
+        updated_at: new Date()
+      }
+    })
+}
+
+/**
+ * Undo an arrival, unless it was recorded after the undo (by another device that synced later)
+ */
+async function clearArrival(
+  executor: DbExecutor,
+  guestId: string,
+  ceremonyId: string,
+  plusOne: boolean,
+  at: Date
+): Promise<void> {
+  const row = and(eq(guestCeremonies.guest_id, guestId), eq(guestCeremonies.ceremony_id, ceremonyId))
+
+  if (plusOne) {
+    await executor.update(guestCeremonies)
+      .set({ plus_one_checked_in_at: null, updated_at: new Date() })
+      .where(and(row, lte(guestCeremonies.plus_one_checked_in_at, at)))
+    return
+  }
+
+  await executor.update(guestCeremonies)
+    .set({ checked_in_at: null, checked_in_by: null, updated_at: new Date() })
+    .where(and(row, lte(guestCeremonies.checked_in_at, at)))
+}
+
+export class CheckInService {
+  /**
+   * Everything an usher needs to check guests in without a connection: the event's
+   * ceremonies and each guest's answers, seating and arrivals so far
+   */
+  static async getRoster(eventId: string): Promise<CheckInRoster> {
+    const eventCeremonies = await db.select({
+      id: ceremonies.id,
+      name: ceremonies.name,
+      date: ceremonies.ceremony_date,
+      startTime: ceremonies.start_time,
+      venueName: ceremonies.venue_name
+    })
+      .from(ceremonies)
+      .where(eq(ceremonies.event_id, eventId))
+      .orderBy(asc(ceremonies.display_order), asc(ceremonies.ceremony_date))
+
+    const rows = await db.select({
+      guest: guests,
+      householdName: households.name
+    })
+      .from(guests)
+      .leftJoin(households, eq(guests.household_id, households.id))
+      .where(eq(guests.event_id, eventId))
+      .orderBy(asc(guests.last_name), asc(guests.first_name))
+
+    const answers = eventCeremonies.length > 0
+      ? await db.select()
+        .from(guestCeremonies)
+        .where(inArray(guestCeremonies.ceremony_id, eventCeremonies.map(c => c.id)))
+      : []
+
+    const entriesByGuest = new Map<string, Record<string, CheckInEntry>>()
+    for (const answer of answers) {
+      const entries = entriesByGuest.get(answer.guest_id) ?? {}
+      entries[answer.ceremony_id] = {
+        attendanceStatus: answer.attendance_status,
+        isWaitlisted: answer.is_waitlisted,
+        tableName: answer.table_name,
+        mealPreference: answer.meal_preference,
+        plusOneAttendance: answer.plus_one_attendance,
+        plusOneMealPreference: answer.plus_one_meal_preference,
+        checkedInAt: answer.checked_in_at,
+        plusOneCheckedInAt: answer.plus_one_checked_in_at
+      }
+      entriesByGuest.set(answer.guest_id, entries)
+    }
+
+    return {
+      ceremonies: eventCeremonies,
+      guests: rows.map(({ guest, householdName }) => ({
+        id: guest.id,
+        firstName: guest.first_name,
+        lastName: guest.last_name,
+        householdId: guest.household_id,
+        householdName,
+        plusOneAllowed: guest.plus_one_allowed ?? false,
+        plusOneName: guest.plus_one_name,
+        dietaryRequirements: guest.dietary_requirements,
+        accessibilityNeeds: guest.accessibility_needs,
+        ceremonies: entriesByGuest.get(guest.id) ?? {}
+      })),
+      generatedAt: new Date()
+    }
+  }
+
+  /**
+   * The guests on a scanned invitation, or an empty list when it is not one of the event's
+   */
+  static async lookupInvitation(eventId: string, token: string): Promise<string[]> {
+    return findParty(db, eventId, token)
+  }
+
+  /**
+   * Apply arrivals recorded by a check-in device, oldest first. The device may have queued
+   * them offline, so each is applied on its own terms and reported back by its id. A
+   * scanned invitation checks in the party on the card who are expected at the ceremony,
+   * with their expected plus-ones; if nobody is expected, everyone on the card.
+   */
+  static async recordArrivals(eventId: string, arrivals: CheckInArrival[], userId: string): Promise<ArrivalResult[]> {
+    const now = new Date()
+    const ordered = [...arrivals].sort((a, b) => a.at.getTime() - b.at.getTime())
+
+    return db.transaction(async (tx) => {
+      const eventCeremonies = await tx.select({ id: ceremonies.id })
+        .from(ceremonies)
+        .where(eq(ceremonies.event_id, eventId))
+      const ceremonyIds = new Set(eventCeremonies.map(c => c.id))
+
+      const namedGuestIds = Array.from(new Set(ordered.flatMap(a => a.guestId ? [a.guestId] : [])))
+      const eventGuests = namedGuestIds.length > 0
+        ? await tx.select({ id: guests.id })
+          .from(guests)
+          .where(and(eq(guests.event_id, eventId), inArray(guests.id, namedGuestIds)))
+        : []
+      const eventGuestIds = new Set(eventGuests.map(g => g.id))
+
+      const results: ArrivalResult[] = []
+      for (const arrival of ordered) {
+        // Device clocks drift; an arrival cannot be later than when it reached the server
+        const at = arrival.at > now ? now : arrival.at
+
+        if (!ceremonyIds.has(arrival.ceremonyId)) {
+          results.push({ id: arrival.id, status: 'unknown_guest', guestIds: [] })
+          continue
+        }
+
+        if (arrival.guestId) {
+          if (!eventGuestIds.has(arrival.guestId)) {
+            results.push({ id: arrival.id, status: 'unknown_guest', guestIds: [] })
+            continue
+          }
+          if (arrival.arrived) {
+            await markArrived(tx, arrival.guestId, arrival.ceremonyId, arrival.plusOne, at, userId)
+          } else {
+            await clearArrival(tx, arrival.guestId, arrival.ceremonyId, arrival.plusOne, at)
+          }
+          results.push({ id: arrival.id, status: 'applied', guestIds: [arrival.guestId] })
+          continue
+        }
+
+        const party = await findParty(tx, eventId, arrival.token!)
+        if (party.length === 0) {
+          results.push({ id: arrival.id, status: 'unknown_guest', guestIds: [] })
+          continue
+        }
+
+        const answers = await tx.select()
+          .from(guestCeremonies)
+          .where(and(
+            eq(guestCeremonies.ceremony_id, arrival.ceremonyId),
+            inArray(guestCeremonies.guest_id, party)
+          ))
+        const expected = answers.filter(a => a.attendance_status === 'yes' && !a.is_waitlisted)
+        const guestIds = expected.length > 0 ? expected.map(a => a.guest_id) : party
+
+        for (const guestId of guestIds) {
+          if (arrival.arrived) {
+            await markArrived(tx, guestId, arrival.ceremonyId, false, at, userId)
+          } else {
+            await clearArrival(tx, guestId, arrival.ceremonyId, false, at)
+          }
+        }
+        for (const answer of expected.filter(a => a.plus_one_attendance === 'yes')) {
+          if (arrival.arrived) {
+            await markArrived(tx, answer.guest_id, arrival.ceremonyId, true, at, userId)
+          } else {
+            await clearArrival(tx, answer.guest_id, arrival.ceremonyId, true, at)
+          }
+        }
+        results.push({ id: arrival.id, status: 'applied', guestIds })
+      }
+
+      return results
+    })
+  }
+
+  /**
+   * Seat a guest at a table for a ceremony they have answered for; null clears the table
+   */
+  static async updateSeating(guestId: string, seating: UpdateSeating): Promise<void> {
+    const updated = await db.update(guestCeremonies)
+      .set({ table_name: seating.tableName || null, updated_at: new Date() })
+      .where(and(
+        eq(guestCeremonies.guest_id, guestId),
+        eq(guestCeremonies.ceremony_id, seating.ceremonyId)
+      ))
+      .returning({ id: guestCeremonies.id })
+
+    if (updated.length === 0) {
+      throw new CheckInNotFoundError('The guest has no answer for this ceremony')
+    }
+  }
+}
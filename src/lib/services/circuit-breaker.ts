@@ -0,0 +1,75 @@
+export type CircuitState = 'closed' | 'open' | 'half_open'
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit
+  failureThreshold?: number
+  // How long an open circuit rejects calls before letting a trial call through
+  cooldownMs?: number
+}
+
+export interface CircuitStatus {
+  state: CircuitState
+  consecutiveFailures: number
+  openedAt: Date | null
+}
+
+/**
+ * Tracks the health of one downstream service. After `failureThreshold` failures in a row the
+ * circuit opens and callers skip the service; once `cooldownMs` has passed a single trial call
+ * is allowed (half open), which closes the circuit on success or reopens it on failure.
+ * State is kept in memory, so each server instance learns a provider's health on its own.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed'
+  private consecutiveFailures = 0
+  private openedAt: number | null = null
+  private trialInFlight = false
+  private readonly failureThreshold: number
+  private readonly cooldownMs: number
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 5
+    this.cooldownMs = options.cooldownMs ?? 60 * 1000
+  }
+
+  /**
+   * Whether a call may go ahead now. Claims the trial call when the cooldown is over.
+   */
+  canRequest(now: number = Date.now()): boolean {
+    if (this.state === 'closed') return true
+
+    if (this.state === 'open' && this.openedAt !== null && now - this.openedAt >= this.cooldownMs) {
+      this.state = 'half_open'
+    }
+    if (this.state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true
+      return true
+    }
+    return false
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed'
+    this.consecutiveFailures = 0
+    this.openedAt = null
+    this.trialInFlight = false
+  }
+
+  recordFailure(now: number = Date.now()): void {
+    this.consecutiveFailures++
+    this.trialInFlight = false
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.failureThreshold) {
+      this.state = 'open'
+      this.openedAt = now
+    }
+  }
+
+  getStatus(): CircuitStatus {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt !== null ? new Date(this.openedAt) : null
+    }
+  }
+}
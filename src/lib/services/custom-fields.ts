@@ -0,0 +1,149 @@
+import { z } from 'zod'
+import { db, type DbExecutor } from '@/lib/db'
+import { eventSettings, guests, guestCustomFieldValues } from '@/lib/db/schema'
+import { type CustomFieldDefinition } from '@/lib/validations/schemas'
+import {
+  buildCustomFieldsSchema,
+  parseCustomFieldDefinitions,
+  serializeCustomFieldValue,
+  type CustomFieldAnswers
+} from '@/lib/validations/custom-fields'
+import { eq, and, inArray, ilike, exists, type SQL } from 'drizzle-orm'
+
+// Query parameters of the form `cf.<field name>=<value>` filter guests by their answers
+export const CUSTOM_FIELD_FILTER_PREFIX = 'cf.'
+
+/**
+ * Pull `cf.<name>` filters out of a query string
+ */
+export function parseCustomFieldFilters(searchParams: URLSearchParams): Record<string, string> {
+  const filters: Record<string, string> = {}
+  searchParams.forEach((value, key) => {
+    if (key.startsWith(CUSTOM_FIELD_FILTER_PREFIX) && value !== '') {
+      filters[key.slice(CUSTOM_FIELD_FILTER_PREFIX.length)] = value
+    }
+  })
+  return filters
+}
+
+export class CustomFieldService {
+  static async getDefinitions(eventId: string, executor: DbExecutor = db): Promise<CustomFieldDefinition[]> {
+    const [settings] = await executor.select({ customFields: eventSettings.custom_fields })
+      .from(eventSettings)
+      .where(eq(eventSettings.event_id, eventId))
+      .limit(1)
+
+    return parseCustomFieldDefinitions(settings?.customFields)
+  }
+
+  /**
+   * Check answers against the event's definitions. Issues are reported under `pathPrefix`
+   * so a party submission points at the member whose answer is wrong.
+   */
+  static validateAnswers(
+    definitions: CustomFieldDefinition[],
+    answers: unknown,
+    options: { requireAnswers: boolean; pathPrefix?: Array<string | number> }
+  ): CustomFieldAnswers {
+    const result = buildCustomFieldsSchema(definitions, options).safeParse(answers ?? {})
+    if (!result.success) {
+      throw new z.ZodError(result.error.issues.map(issue => ({
+        ...issue,
+        path: [...(options.pathPrefix ?? []), ...issue.path]
+      })))
+    }
+
+    return Object.fromEntries(
+      Object.entries(result.data).filter(([, value]) => value !== undefined)
+    ) as CustomFieldAnswers
+  }
+
+  /**
+   * Replace a guest's stored answers. Questions left blank lose any earlier answer;
+   * answers to questions that were since removed from the event are kept.
+   */
+  static async saveAnswers(
+    executor: DbExecutor,
+    guestId: string,
+    eventId: string,
+    definitions: CustomFieldDefinition[],
+    answers: CustomFieldAnswers
+  ): Promise<void> {
+    const answered = Object.keys(answers)
+    const cleared = definitions.map(d => d.name).filter(name => !answered.includes(name))
+
+    if (cleared.length > 0) {
+      await executor.delete(guestCustomFieldValues)
+        .where(and(
+          eq(guestCustomFieldValues.guest_id, guestId),
+          inArray(guestCustomFieldValues.field_name, cleared)
+        ))
+    }
+
+    for (const [fieldName, value] of Object.entries(answers)) {
+      await executor.insert(guestCustomFieldValues)
+        .values({
+          guest_id: guestId,
+          event_id: eventId,
+          field_name: fieldName,
+          value: serializeCustomFieldValue(value),
+          created_at: new Date(),
+          updated_at: new Date()
+        })
+        .onConflictDoUpdate({
+          target: [guestCustomFieldValues.guest_id, guestCustomFieldValues.field_name],
+          set: { value: serializeCustomFieldValue(value), updated_at: new Date() }
+        })
+    }
+  }
+
+  /**
+   * Stored answers for a set of guests, as `guestId -> field name -> value`
+   */
+  static async getAnswers(
+    guestIds: string[],
+    executor: DbExecutor = db
+  ): Promise<Record<string, Record<string, string>>> {
+    if (guestIds.length === 0) return {}
+
+    const rows = await executor.select({
+      guestId: guestCustomFieldValues.guest_id,
+      fieldName: guestCustomFieldValues.field_name,
+      value: guestCustomFieldValues.value
+    })
+      .from(guestCustomFieldValues)
+      .where(inArray(guestCustomFieldValues.guest_id, guestIds))
+
+    const answers: Record<string, Record<string, string>> = {}
+    for (const row of rows) {
+      answers[row.guestId] = { ...answers[row.guestId], [row.fieldName]: row.value }
+    }
+    return answers
+  }
+
+  /**
+   * Conditions matching guests whose answers satisfy every filter. Select and checkbox answers
+   * must match exactly; free-text answers match on a case-insensitive substring.
+   */
+  static buildFilterConditions(
+    definitions: CustomFieldDefinition[],
+    filters: Record<string, string>
+  ): SQL[] {
+    return Object.entries(filters).map(([fieldName, value]) => {
+      const definition = definitions.find(d => d.name === fieldName)
+      const exact = !definition || definition.type === 'select' || definition.type === 'checkbox'
+
+      return exists(
+        db.select({ id: guestCustomFieldValues.id })
+          .from(guestCustomFieldValues)
+          .where(and(
+            eq(guestCustomFieldValues.guest_id, guests.id),
+            eq(guestCustomFieldValues.field_name, fieldName),
+            exact
+              ? eq(guestCustomFieldValues.value, value)
+              : ilike(guestCustomFieldValues.value, `%${value}%`)
+          ))
+      )
+    })
+  }
+}
@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeAll, afterEach, vi } from 'vitest'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { db } from '@/lib/db'
+import { communications } from '@/lib/db/schema'
+import { EmailOutbox, MAX_EMAIL_ATTEMPTS, getRetryDelay } from '@/lib/services/email-outbox'
+import { EmailSuppressionService } from '@/lib/services/email-suppression'
+import { InboundReplyService } from '@/lib/services/inbound-replies'
+import { getMessagingChannel } from '@/lib/services/messaging'
+import { createEvent, createGuest } from '@/test/fixtures'
+import { eq } from 'drizzle-orm'
+
+let messageDir: string
+
+beforeAll(async () => {
+  messageDir = await fs.mkdtemp(path.join(os.tmpdir(), 'outbox-test-'))
+  process.env.MESSAGING_PROVIDER = 'file'
+  process.env.MESSAGING_FILE_DIR = messageDir
+})
+
+async function deliver(id: string) {
+  const [message] = await db.select().from(communications).where(eq(communications.id, id))
+  return EmailOutbox.deliver(message)
+}
+
+// The last message written by the file channel
+async function lastSent(channel: string) {
+  const lines = (await fs.readFile(path.join(messageDir, `${channel}.jsonl`), 'utf8')).trim().split('\n')
+  return JSON.parse(lines[lines.length - 1])
+}
+
+describe('EmailOutbox WhatsApp delivery', () => {
+  it('sends the approved template unless the guest wrote in the last 24 hours', async () => {
+    const event = await createEvent()
+    const guest = await createGuest(event.id, { phone: '+447700900123' })
+    const queued = {
+      eventId: event.id,
+      type: 'whatsapp' as const,
+      to: '+447700900123',
+      subject: '',
+      text: 'Please RSVP',
+      whatsappTemplate: { name: 'rsvp_reminder', language: 'en_GB', parameters: ['Guest'] },
+      recipientId: guest.id
+    }
+
+    expect(await deliver(await EmailOutbox.enqueue(queued))).toBe('sent')
+    expect((await lastSent('whatsapp')).template).toEqual(queued.whatsappTemplate)
+
+    await InboundReplyService.receive({ channel: 'whatsapp', from: '+447700900123', text: 'What time does it start?' })
+
+    expect(await deliver(await EmailOutbox.enqueue(queued))).toBe('sent')
+    const sent = await lastSent('whatsapp')
+    expect(sent.template).toBeUndefined()
+    expect(sent.text).toBe('Please RSVP')
+  })
+})
+
+describe('EmailOutbox email delivery', () => {
+  it('does not send to a suppressed address', async () => {
+    const event = await createEvent()
+    await EmailSuppressionService.suppress({ eventId: event.id, email: 'Bounced@Example.com', reason: 'bounce' })
+
+    const id = await EmailOutbox.enqueue({
+      eventId: event.id,
+      to: 'bounced@example.com',
+      subject: 'Hello',
+      html: '<p>Hello</p>'
+    })
+
+    expect(await deliver(id)).toBe('failed')
+    const [message] = await db.select().from(communications).where(eq(communications.id, id))
+    expect(message.error_message).toBe('Recipient is on the suppression list')
+  })
+})
+
+describe('getRetryDelay', () => {
+  it('doubles from about 30 seconds, with jitter, up to an hour', () => {
+    for (let i = 0; i < 20; i++) {
+      expect(getRetryDelay(1)).toBeGreaterThanOrEqual(24 * 1000)
+      expect(getRetryDelay(1)).toBeLessThanOrEqual(36 * 1000)
+      expect(getRetryDelay(3)).toBeGreaterThanOrEqual(96 * 1000)
+      expect(getRetryDelay(3)).toBeLessThanOrEqual(144 * 1000)
+      expect(getRetryDelay(20)).toBeLessThanOrEqual(72 * 60 * 1000)
+    }
+  })
+})
+
+describe('EmailOutbox retries', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  async function queueSms(eventId: string) {
+    return EmailOutbox.enqueue({ eventId, type: 'sms', to: '+447700900123', subject: '', text: 'Hello' })
+  }
+
+  async function load(id: string) {
+    const [message] = await db.select().from(communications).where(eq(communications.id, id))
+    return message
+  }
+
+  it('puts a failed message back in the queue with a later attempt', async () => {
+    vi.spyOn(getMessagingChannel('sms'), 'send').mockResolvedValue({ success: false, error: 'Timeout', provider: 'file' })
+    const event = await createEvent()
+    const id = await queueSms(event.id)
+
+    const before = Date.now()
+    expect(await deliver(id)).toBe('retrying')
+    const message = await load(id)
+    expect(message).toMatchObject({ status: 'pending', retry_count: 1, error_message: 'Timeout', locked_at: null })
+    expect(message.next_attempt_at!.getTime()).toBeGreaterThan(before + 20 * 1000)
+  })
+
+  it('gives up after the last attempt', async () => {
+    vi.spyOn(getMessagingChannel('sms'), 'send').mockResolvedValue({ success: false, error: 'Timeout', provider: 'file' })
+    const event = await createEvent()
+    const id = await queueSms(event.id)
+    await db.update(communications).set({ retry_count: MAX_EMAIL_ATTEMPTS - 1 }).where(eq(communications.id, id))
+
+    expect(await deliver(id)).toBe('failed')
+    expect(await load(id)).toMatchObject({ status: 'failed', retry_count: MAX_EMAIL_ATTEMPTS, next_attempt_at: null })
+  })
+
+  it('does not retry a message the provider refused', async () => {
+    vi.spyOn(getMessagingChannel('sms'), 'send').mockResolvedValue({
+      success: false,
+      error: 'Invalid number',
+      permanent: true,
+      provider: 'file'
+    })
+    const event = await createEvent()
+    const id = await queueSms(event.id)
+
+    expect(await deliver(id)).toBe('failed')
+    expect(await load(id)).toMatchObject({ status: 'failed', retry_count: 1 })
+  })
+
+  it('counts an interrupted send as an attempt when the message is reclaimed', async () => {
+    const event = await createEvent()
+    const stale = new Date(Date.now() - 60 * 60 * 1000)
+    const interrupted = await queueSms(event.id)
+    const lastChance = await queueSms(event.id)
+    const sending = await queueSms(event.id)
+    await db.update(communications)
+      .set({ status: 'sending', locked_at: stale, retry_count: 2 })
+      .where(eq(communications.id, interrupted))
+    await db.update(communications)
+      .set({ status: 'sending', locked_at: stale, retry_count: MAX_EMAIL_ATTEMPTS - 1 })
+      .where(eq(communications.id, lastChance))
+    await db.update(communications)
+      .set({ status: 'sending', locked_at: new Date() })
+      .where(eq(communications.id, sending))
+
+    const claimed = await EmailOutbox.claimBatch(100)
+    const ids = claimed.map(message => message.id)
+
+    expect(ids).toContain(interrupted)
+    expect(ids).not.toContain(lastChance)
+    expect(ids).not.toContain(sending)
+    expect(claimed.find(message => message.id === interrupted)).toMatchObject({ status: 'sending', retry_count: 3 })
+    expect(await load(lastChance)).toMatchObject({ status: 'failed', retry_count: MAX_EMAIL_ATTEMPTS, locked_at: null })
+  })
+
+  it('reclaims past a batch of messages it gave up on', async () => {
+    const event = await createEvent()
+    const stale = new Date(Date.now() - 60 * 60 * 1000)
+    const exhausted = await queueSms(event.id)
+    const due = await queueSms(event.id)
+    await db.update(communications)
+      .set({ status: 'sending', locked_at: stale, retry_count: MAX_EMAIL_ATTEMPTS - 1, next_attempt_at: new Date(0) })
+      .where(eq(communications.id, exhausted))
+
+    const claimed = await EmailOutbox.claimBatch(1)
+
+    expect(claimed.map(message => message.id)).toEqual([due])
+    expect((await load(exhausted)).status).toBe('failed')
+  })
+})
@@ -0,0 +1,322 @@
+import { db, type DbExecutor } from '@/lib/db'
+import { communications, rsvpResponses, type Communication } from '@/lib/db/schema'
+import { getDefaultFromAddress } from '@/lib/services/email'
+import {
+  getMessagingChannel,
+  type MessageChannel,
+  type OutgoingMessage,
+  type WhatsAppTemplate
+} from '@/lib/services/messaging'
+import { getReplyAddress } from '@/lib/services/reply-parser'
+import { addPreferencesFooter, getPreferencesUrl, getUnsubscribeUrl } from '@/lib/services/guest-preferences'
+import { EmailTrackingService, isTrackingEnabled } from '@/lib/services/email-tracking'
+import { EmailSuppressionService } from '@/lib/services/email-suppression'
+import { eq, and, or, gt, lt, lte, isNull, asc, inArray, sql } from 'drizzle-orm'
+
+// Attachments are stored with the message, so only text content (such as .ics files) is supported
+export interface QueuedAttachment {
+  filename: string
+  content: string
+  contentType?: string
+}
+
+export interface QueuedEmail {
+  eventId: string
+  // Defaults to email. WhatsApp and SMS messages are sent as text to a phone number.
+  type?: MessageChannel
+  // An email address, or an E.164 phone number for WhatsApp and SMS
+  to: string
+  subject: string
+  // Required for email
+  html?: string
+  text?: string
+  from?: string
+  replyTo?: string
+  attachments?: QueuedAttachment[]
+  // WhatsApp only: sent instead of the text when the guest's session window is closed
+  whatsappTemplate?: WhatsAppTemplate | null
+  recipientId?: string | null
+  templateId?: string | null
+  sentBy?: string | null
+  // Hold the message until this time
+  scheduledFor?: Date | null
+}
+
+export interface OutboxRunResult {
+  claimed: number
+  sent: number
+  retrying: number
+  failed: number
+}
+
+// A message is given up on after this many failed attempts
+export const MAX_EMAIL_ATTEMPTS = 6
+
+// Rows stuck in 'sending' this long belong to a worker that died and are picked up again
+const STALE_LOCK_MS = 10 * 60 * 1000
+
+// WhatsApp allows free text only this long after the guest last wrote to us
+const WHATSAPP_SESSION_MS = 24 * 60 * 60 * 1000
+
+const BASE_RETRY_DELAY_MS = 30 * 1000
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000
+
+/**
+ * Exponential backoff with jitter: about 30s, 1m, 2m, 4m... capped at an hour
+ */
+export function getRetryDelay(attempt: number): number {
+  const delay = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempt - 1))
+  return Math.round(delay * (0.8 + Math.random() * 0.4))
+}
+
+/**
+ * The email as sent. Guest emails get a signed link to the guest's preferences page in the
+ * footer and a one-click List-Unsubscribe header.
+ */
+function buildEmail(message: Communication): OutgoingMessage {
+  let html = isTrackingEnabled() ? EmailTrackingService.instrumentHtml(message.content, message.id) : message.content
+  let text = message.text_content ?? ''
+  const headers: Record<string, string> = {}
+
+  const preferencesUrl = message.recipient_id ? getPreferencesUrl(message.recipient_id) : null
+  if (message.recipient_id && preferencesUrl) {
+    ({ html, text } = addPreferencesFooter(html, text, preferencesUrl))
+    headers['List-Unsubscribe'] = `<${getUnsubscribeUrl(message.recipient_id)}>`
+    headers['List-Unsubscribe-Post'] = 'List-Unsubscribe=One-Click'
+  }
+
+  return {
+    to: message.recipient_email!,
+    from: message.from_address ?? getDefaultFromAddress(),
+    subject: message.subject ?? '',
+    html,
+    text,
+    // Replies to guest messages come back through the inbound webhook when it is set up
+    replyTo: message.reply_to ?? (message.recipient_id ? getReplyAddress(message.id) : null) ?? undefined,
+    headers,
+    attachments: message.attachments ? JSON.parse(message.attachments) as QueuedAttachment[] : undefined
+  }
+}
+
+/**
+ * Whether a guest wrote to us on WhatsApp in the last 24 hours. Replies are kept as
+ * RSVP answers, so their arrival time is what the session window is measured from.
+ */
+async function isWhatsAppSessionOpen(guestId: string | null, now: Date): Promise<boolean> {
+  if (!guestId) return false
+  const [reply] = await db.select({ id: rsvpResponses.id })
+    .from(rsvpResponses)
+    .where(and(
+      eq(rsvpResponses.guest_id, guestId),
+      eq(rsvpResponses.source, 'whatsapp'),
+      gt(rsvpResponses.submitted_at, new Date(now.getTime() - WHATSAPP_SESSION_MS))
+    ))
+    .limit(1)
+  return !!reply
+}
+
+/**
+ * A WhatsApp or SMS message as sent. WhatsApp messages with an approved template go out
+ * as the template unless the guest's session window is open.
+ */
+async function buildTextMessage(message: Communication): Promise<OutgoingMessage> {
+  const outgoing: OutgoingMessage = { to: message.recipient_phone!, text: message.text_content ?? message.content }
+  if (message.type !== 'whatsapp' || !message.whatsapp_template) return outgoing
+  if (await isWhatsAppSessionOpen(message.recipient_id, new Date())) return outgoing
+  return { ...outgoing, template: JSON.parse(message.whatsapp_template) as WhatsAppTemplate }
+}
+
+export class EmailOutbox {
+  /**
+   * Queue a message. Pass the surrounding transaction so the message is only sent
+   * if the change that triggered it commits.
+   */
+  static async enqueue(email: QueuedEmail, executor: DbExecutor = db): Promise<string> {
+    const [id] = await this.enqueueMany([email], executor)
+    return id
+  }
+
+  static async enqueueMany(emails: QueuedEmail[], executor: DbExecutor = db): Promise<string[]> {
+    if (emails.length === 0) return []
+
+    const rows = await executor.insert(communications)
+      .values(emails.map(email => {
+        const type = email.type ?? 'email'
+        return {
+          event_id: email.eventId,
+          template_id: email.templateId ?? null,
+          recipient_id: email.recipientId ?? null,
+          recipient_email: type === 'email' ? email.to : null,
+          recipient_phone: type === 'email' ? null : email.to,
+          type,
+          subject: email.subject,
+          content: email.html ?? email.text ?? '',
+          text_content: email.text ?? null,
+          from_address: type === 'email' ? email.from ?? getDefaultFromAddress() : null,
+          reply_to: email.replyTo ?? null,
+          whatsapp_template: type === 'whatsapp' && email.whatsappTemplate ? JSON.stringify(email.whatsappTemplate) : null,
+          attachments: email.attachments?.length ? JSON.stringify(email.attachments) : null,
+          status: 'pending' as const,
+          scheduled_for: email.scheduledFor ?? null,
+          next_attempt_at: email.scheduledFor ?? new Date(),
+          sent_by: email.sentBy ?? null,
+          created_at: new Date(),
+          updated_at: new Date()
+        }
+      }))
+      .returning({ id: communications.id })
+
+    return rows.map(row => row.id)
+  }
+
+  /**
+   * Lock a batch of due messages, on any channel, for this worker. SKIP LOCKED lets several workers run
+   * side by side without sending the same message twice. A message reclaimed from a worker
+   * that stopped counts that worker's try as a failed attempt, and is given up on once the
+   * attempts run out.
+   */
+  static async claimBatch(limit: number): Promise<Communication[]> {
+    const now = new Date()
+    const staleBefore = new Date(now.getTime() - STALE_LOCK_MS)
+
+    const { rows, gaveUp } = await db.transaction(async (tx) => {
+      const due = await tx.select({ id: communications.id, status: communications.status, retryCount: communications.retry_count })
+        .from(communications)
+        .where(or(
+          and(
+            eq(communications.status, 'pending'),
+            or(isNull(communications.next_attempt_at), lte(communications.next_attempt_at, now))
+          ),
+          and(eq(communications.status, 'sending'), lt(communications.locked_at, staleBefore))
+        ))
+        .orderBy(asc(communications.next_attempt_at), asc(communications.created_at))
+        .limit(limit)
+        .for('update', { skipLocked: true })
+      if (due.length === 0) return { rows: [], gaveUp: 0 }
+
+      const exhausted = due.filter(row => row.status === 'sending' && (row.retryCount ?? 0) + 1 >= MAX_EMAIL_ATTEMPTS)
+      if (exhausted.length > 0) {
+        await tx.update(communications)
+          .set({
+            status: 'failed',
+            retry_count: sql`coalesce(${communications.retry_count}, 0) + 1`,
+            error_message: 'Sending was interrupted too many times',
+            next_attempt_at: null,
+            locked_at: null,
+            updated_at: now
+          })
+          .where(inArray(communications.id, exhausted.map(row => row.id)))
+      }
+
+      const claimed = due.filter(row => !exhausted.includes(row))
+      if (claimed.length === 0) return { rows: [], gaveUp: exhausted.length }
+
+      const rows = await tx.update(communications)
+        .set({
+          status: 'sending',
+          retry_count: sql`case when ${communications.status} = 'sending' then coalesce(${communications.retry_count}, 0) + 1 else ${communications.retry_count} end`,
+          locked_at: now,
+          updated_at: now
+        })
+        .where(inArray(communications.id, claimed.map(row => row.id)))
+        .returning()
+      return { rows, gaveUp: exhausted.length }
+    })
+
+    // A batch of messages given up on does not mean the queue is empty
+    return rows.length === 0 && gaveUp > 0 ? this.claimBatch(limit) : rows
+  }
+
+  /**
+   * Send one claimed message through its channel and record the outcome: sent, back in
+   * the queue with a later next_attempt_at, or failed once the attempts run out or the
+   * message is refused. Tracking and bounce handling apply to email only.
+   */
+  static async deliver(message: Communication): Promise<'sent' | 'retrying' | 'failed'> {
+    const outgoing = message.type === 'email' ? buildEmail(message) : await buildTextMessage(message)
+    const result = await getMessagingChannel(message.type).send(outgoing, { eventId: message.event_id })
+    const now = new Date()
+
+    if (result.success) {
+      await db.update(communications)
+        .set({
+          status: 'sent',
+          sent_at: now,
+          provider_id: result.provider,
+          provider_message_id: result.messageId ?? null,
+          provider_response: JSON.stringify(result),
+          error_message: null,
+          last_attempt_at: now,
+          locked_at: null,
+          updated_at: now
+        })
+        .where(eq(communications.id, message.id))
+      return 'sent'
+    }
+
+    const attempts = (message.retry_count ?? 0) + 1
+    // A refused message would be refused again, so it is not retried
+    const exhausted = result.permanent || attempts >= MAX_EMAIL_ATTEMPTS
+
+    await db.update(communications)
+      .set({
+        status: exhausted ? 'failed' : 'pending',
+        retry_count: attempts,
+        error_message: result.error ?? 'Unknown error',
+        provider_response: JSON.stringify(result),
+        next_attempt_at: exhausted ? null : new Date(now.getTime() + getRetryDelay(attempts)),
+        last_attempt_at: now,
+        locked_at: null,
+        updated_at: now
+      })
+      .where(eq(communications.id, message.id))
+
+    if (result.bounced) {
+      await EmailSuppressionService.recordBounce(message.id, 'bounce', result.error)
+    }
+
+    return exhausted ? 'failed' : 'retrying'
+  }
+
+  /**
+   * Work through due emails until the queue is empty or the time budget runs out.
+   * Called by the cron route and the standalone worker script.
+   */
+  static async processDue(options: { batchSize?: number; timeBudgetMs?: number } = {}): Promise<OutboxRunResult> {
+    const { batchSize = 25, timeBudgetMs = 50 * 1000 } = options
+    const startedAt = Date.now()
+    const totals: OutboxRunResult = { claimed: 0, sent: 0, retrying: 0, failed: 0 }
+
+    while (Date.now() - startedAt < timeBudgetMs) {
+      const batch = await this.claimBatch(batchSize)
+      if (batch.length === 0) break
+      totals.claimed += batch.length
+
+      for (const message of batch) {
+        try {
+          totals[await this.deliver(message)]++
+        } catch (error) {
+          // Leave the row locked; it is reclaimed, as another attempt, once the lock goes stale
+          console.error('Email outbox delivery error:', error)
+        }
+      }
+    }
+
+    return totals
+  }
+
+  /**
+   * Queue counts by status, for dashboards and health checks
+   */
+  static async getStats(eventId?: string): Promise<Record<string, number>> {
+    const rows = await db.select({
+      status: communications.status,
+      total: sql<number>`count(*)`.mapWith(Number)
+    })
+      .from(communications)
+      .where(eventId ? eq(communications.event_id, eventId) : undefined)
+      .groupBy(communications.status)
+
+    return Object.fromEntries(rows.map(row => [row.status, row.total]))
+  }
+}
@@ -0,0 +1,119 @@
+import { db, type DbExecutor } from '@/lib/db'
+import { communications, emailSuppressions, guests, type Guest } from '@/lib/db/schema'
+import { eq, and, inArray, sql } from 'drizzle-orm'
+
+export type SuppressionReason = 'bounce' | 'complaint' | 'manual'
+
+export interface SuppressionEntry {
+  eventId: string
+  email: string
+  reason: SuppressionReason
+  detail?: string | null
+  communicationId?: string | null
+}
+
+/**
+ * Comparable form of an address: the part inside angle brackets if there is one, lower-cased
+ */
+export function normalizeEmail(address: string): string {
+  const match = address.match(/<([^>]+)>/)
+  return (match ? match[1] : address).trim().toLowerCase()
+}
+
+export class EmailSuppressionService {
+  /**
+   * Which of the given addresses the event must not email, in normalized form
+   */
+  static async getSuppressed(eventId: string, emails: string[], executor: DbExecutor = db): Promise<Set<string>> {
+    const normalized = Array.from(new Set(emails.map(normalizeEmail)))
+    if (normalized.length === 0) return new Set()
+
+    const rows = await executor.select({ email: emailSuppressions.email })
+      .from(emailSuppressions)
+      .where(and(
+        eq(emailSuppressions.event_id, eventId),
+        inArray(emailSuppressions.email, normalized)
+      ))
+
+    return new Set(rows.map(row => row.email))
+  }
+
+  /**
+   * Add an address to the event's suppression list and flag every guest using it.
+   * The first reason recorded for an address is kept.
+   */
+  static async suppress(entry: SuppressionEntry, executor: DbExecutor = db): Promise<void> {
+    const email = normalizeEmail(entry.email)
+
+    await executor.insert(emailSuppressions)
+      .values({
+        event_id: entry.eventId,
+        email,
+        reason: entry.reason,
+        detail: entry.detail ?? null,
+        communication_id: entry.communicationId ?? null,
+        created_at: new Date()
+      })
+      .onConflictDoNothing({ target: [emailSuppressions.event_id, emailSuppressions.email] })
+
+    await executor.update(guests)
+      .set({ email_invalid: true, email_invalid_reason: entry.reason, updated_at: new Date() })
+      .where(and(
+        eq(guests.event_id, entry.eventId),
+        sql`lower(${guests.email}) = ${email}`,
+        eq(guests.email_invalid, false)
+      ))
+  }
+
+  /**
+   * Mark a sent message as bounced and suppress its recipient. Used for hard bounces and
+   * spam complaints, whether reported by a provider webhook or refused during the SMTP exchange.
+   */
+  static async recordBounce(communicationId: string, reason: 'bounce' | 'complaint', detail?: string | null): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [message] = await tx.update(communications)
+        .set({
+          status: 'bounced',
+          error_message: detail || (reason === 'complaint' ? 'Marked as spam by the recipient' : 'Bounced'),
+          updated_at: new Date()
+        })
+        .where(eq(communications.id, communicationId))
+        .returning({
+          eventId: communications.event_id,
+          email: communications.recipient_email
+        })
+      if (!message?.email) return
+
+      await this.suppress({
+        eventId: message.eventId,
+        email: message.email,
+        reason,
+        detail,
+        communicationId
+      }, tx)
+    })
+  }
+
+  /**
+   * Recompute a guest's invalid-email flag from the suppression list, e.g. after their
+   * address was corrected
+   */
+  static async refreshGuestFlag(guestId: string, executor: DbExecutor = db): Promise<Guest | undefined> {
+    const reason = sql<string | null>`(
+      select ${emailSuppressions.reason} from ${emailSuppressions}
+      where ${emailSuppressions.event_id} = ${guests.event_id}
+        and ${emailSuppressions.email} = lower(${guests.email})
+    )`
+
+    const [guest] = await executor.update(guests)
+      .set({
+        email_invalid: sql`${reason} is not null`,
+        email_invalid_reason: reason,
+        updated_at: new Date()
+      })
+      .where(eq(guests.id, guestId))
+      .returning()
+
+    return guest
+  }
+}
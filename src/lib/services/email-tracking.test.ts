@@ -0,0 +1,144 @@
+import { randomUUID } from 'crypto'
+import { describe, it, expect } from 'vitest'
+import { db } from '@/lib/db'
+import { communications, communicationTemplates } from '@/lib/db/schema'
+import { EmailTrackingService, verifyTrackingSignature } from '@/lib/services/email-tracking'
+import { EmailSuppressionService } from '@/lib/services/email-suppression'
+import { createEvent } from '@/test/fixtures'
+import { eq } from 'drizzle-orm'
+
+const COMMUNICATION_ID = '00000000-0000-4000-8000-000000000001'
+
+async function createEmail(eventId: string, values: Partial<typeof communications.$inferInsert> = {}) {
+  const [message] = await db.insert(communications).values({
+    event_id: eventId,
+    type: 'email',
+    recipient_email: 'guest@example.com',
+    content: '<p>Hello</p>',
+    status: 'sent',
+    sent_at: new Date(),
+    provider_id: 'resend',
+    provider_message_id: randomUUID(),
+    ...values
+  }).returning()
+  return message
+}
+
+async function getEmail(id: string) {
+  const [message] = await db.select().from(communications).where(eq(communications.id, id))
+  return message
+}
+
+function resendEvent(emailId: string, type: string, createdAt: string, bounceType?: string) {
+  return {
+    type,
+    created_at: createdAt,
+    data: { email_id: emailId, ...(bounceType ? { bounce: { type: bounceType, message: 'Mailbox full' } } : {}) }
+  }
+}
+
+describe('EmailTrackingService.instrumentHtml', () => {
+  it('routes web links through a signed click URL and adds the open pixel', () => {
+    const html = EmailTrackingService.instrumentHtml(
+      '<html><body><a href="https://example.com/a?x=1&amp;y=2">RSVP</a> <a href=\'mailto:us@example.com\'>Mail</a></body></html>',
+      COMMUNICATION_ID
+    )
+
+    const [, clickUrl] = html.match(/<a href="([^"]+)">RSVP/)!
+    const url = new URL(clickUrl.replace(/&amp;/g, '&'))
+    expect(url.pathname).toBe(`/api/track/click/${COMMUNICATION_ID}`)
+    expect(url.searchParams.get('url')).toBe('https://example.com/a?x=1&y=2')
+    expect(verifyTrackingSignature(url.searchParams.get('sig'), COMMUNICATION_ID, 'https://example.com/a?x=1&y=2')).toBe(true)
+    expect(verifyTrackingSignature(url.searchParams.get('sig'), COMMUNICATION_ID, 'https://evil.example.com')).toBe(false)
+
+    expect(html).toContain("href='mailto:us@example.com'")
+    expect(html).toMatch(/<img src="[^"]*\/api\/track\/open\/[^"]+" [^>]*\/><\/body>/)
+  })
+
+  it('leaves links that already go through tracking alone', () => {
+    const tracked = EmailTrackingService.getClickUrl(COMMUNICATION_ID, 'https://example.com')
+    const html = EmailTrackingService.instrumentHtml(`<a href="${tracked}">Go</a>`, COMMUNICATION_ID)
+
+    expect(html.startsWith(`<a href="${tracked}">Go</a>`)).toBe(true)
+  })
+})
+
+describe('EmailTrackingService.applyResendEvent', () => {
+  it('records delivery, then the first open and click', async () => {
+    const event = await createEvent()
+    const message = await createEmail(event.id)
+    const emailId = message.provider_message_id!
+
+    await EmailTrackingService.applyResendEvent(resendEvent(emailId, 'email.delivered', '2030-01-01T10:00:00Z'))
+    await EmailTrackingService.applyResendEvent(resendEvent(emailId, 'email.opened', '2030-01-01T11:00:00Z'))
+    await EmailTrackingService.applyResendEvent(resendEvent(emailId, 'email.opened', '2030-01-01T12:00:00Z'))
+    await EmailTrackingService.applyResendEvent(resendEvent(emailId, 'email.clicked', '2030-01-01T13:00:00Z'))
+
+    expect(await getEmail(message.id)).toMatchObject({
+      status: 'delivered',
+      delivered_at: new Date('2030-01-01T10:00:00Z'),
+      opened_at: new Date('2030-01-01T11:00:00Z'),
+      clicked_at: new Date('2030-01-01T13:00:00Z')
+    })
+  })
+
+  it('does not turn a bounced message back into a delivered one', async () => {
+    const event = await createEvent()
+    const message = await createEmail(event.id)
+    const emailId = message.provider_message_id!
+
+    await EmailTrackingService.applyResendEvent(resendEvent(emailId, 'email.bounced', '2030-01-01T10:00:00Z', 'Transient'))
+    await EmailTrackingService.applyResendEvent(resendEvent(emailId, 'email.opened', '2030-01-01T11:00:00Z'))
+
+    expect(await getEmail(message.id)).toMatchObject({ status: 'bounced', error_message: 'Mailbox full' })
+    expect(await EmailSuppressionService.getSuppressed(event.id, ['guest@example.com'])).toEqual(new Set())
+  })
+
+  it('suppresses the address after a hard bounce', async () => {
+    const event = await createEvent()
+    const message = await createEmail(event.id)
+
+    await EmailTrackingService.applyResendEvent(resendEvent(message.provider_message_id!, 'email.bounced', '2030-01-01T10:00:00Z', 'Permanent'))
+
+    expect((await getEmail(message.id)).status).toBe('bounced')
+    expect(await EmailSuppressionService.getSuppressed(event.id, ['guest@example.com'])).toEqual(new Set(['guest@example.com']))
+  })
+
+  it('ignores emails not sent from this app', async () => {
+    expect(await EmailTrackingService.applyResendEvent(resendEvent('unknown', 'email.delivered', '2030-01-01T10:00:00Z'))).toBeNull()
+  })
+})
+
+describe('EmailTrackingService.getTemplateStats', () => {
+  it('counts sent, opened and clicked emails per template', async () => {
+    const event = await createEvent()
+    const [template] = await db.insert(communicationTemplates).values({
+      event_id: event.id,
+      name: 'Save the date',
+      type: 'email',
+      category: 'invitation',
+      content: '<p>Hi</p>'
+    }).returning()
+    const now = new Date()
+    await createEmail(event.id, { template_id: template.id, opened_at: now, clicked_at: now })
+    await createEmail(event.id, { template_id: template.id, opened_at: now })
+    await createEmail(event.id, { template_id: template.id, status: 'bounced' })
+    await createEmail(event.id, { template_id: template.id })
+    await createEmail(event.id)
+    await createEmail(event.id, { status: 'pending', sent_at: null })
+
+    const stats = await EmailTrackingService.getTemplateStats(event.id)
+
+    expect(stats).toHaveLength(2)
+    expect(stats.find(row => row.templateId === template.id)).toMatchObject({
+      name: 'Save the date',
+      sent: 4,
+      opened: 2,
+      clicked: 1,
+      bounced: 1,
+      openRate: 0.5,
+      clickRate: 0.25
+    })
+    expect(stats.find(row => row.templateId === null)).toMatchObject({ name: 'Other messages', sent: 1 })
+  })
+})
@@ -0,0 +1,247 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { db } from '@/lib/db'
+import { communications, communicationTemplates } from '@/lib/db/schema'
+import { EmailSuppressionService } from '@/lib/services/email-suppression'
+import { eq, and, sql, isNotNull, type SQL } from 'drizzle-orm'
+import type { AnyPgColumn } from 'drizzle-orm/pg-core'
+
+export interface TemplateStats {
+  // Messages are grouped by the template they were sent from; null groups one-off messages
+  templateId: string | null
+  name: string
+  sent: number
+  delivered: number
+  opened: number
+  clicked: number
+  bounced: number
+  // Fractions of the messages sent, 0 to 1
+  openRate: number
+  clickRate: number
+}
+
+// Resend webhook payload, reduced to the fields we read
+export interface ResendWebhookEvent {
+  type: string
+  created_at: string
+  data: {
+    email_id: string
+    // type is 'Permanent', 'Transient' or 'Undetermined'
+    bounce?: { message?: string; type?: string }
+  }
+}
+
+// 1x1 transparent GIF served by the open-tracking pixel
+export const TRACKING_PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64')
+
+function getBaseUrl(): string {
+  return process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+}
+
+function getTrackingSecret(): string {
+  const secret = process.env.EMAIL_TRACKING_SECRET || process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error('EMAIL_TRACKING_SECRET or NEXTAUTH_SECRET must be set to sign tracking links')
+  }
+  return secret
+}
+
+/**
+ * Signature over a communication id and, for clicks, the destination. Signing the
+ * destination keeps the click endpoint from being used as an open redirect.
+ */
+export function signTrackingValue(...parts: string[]): string {
+  return createHmac('sha256', getTrackingSecret()).update(parts.join('\n')).digest('base64url')
+}
+
+export function verifyTrackingSignature(signature: string | null, ...parts: string[]): boolean {
+  if (!signature) return false
+  const expected = Buffer.from(signTrackingValue(...parts))
+  const received = Buffer.from(signature)
+  return received.length === expected.length && timingSafeEqual(received, expected)
+}
+
+// Whether signed links (tracking, preferences) can be issued
+export function hasSigningSecret(): boolean {
+  return !!(process.env.EMAIL_TRACKING_SECRET || process.env.NEXTAUTH_SECRET)
+}
+
+export function isTrackingEnabled(): boolean {
+  return process.env.EMAIL_TRACKING_ENABLED !== 'false' && hasSigningSecret()
+}
+
+function decodeAttribute(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+function encodeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+// Keep an existing timestamp, so only the first event of each kind is recorded
+function keepFirst(column: AnyPgColumn, at: Date): SQL {
+  return sql`coalesce(${column}, ${at.toISOString()}::timestamp)`
+}
+
+// Moves a sent message to delivered without overriding a later state such as bounced
+const markDelivered = sql`case when ${communications.status} = 'sent' then 'delivered'::communication_status else ${communications.status} end`
+
+const ANCHOR_HREF = /(<a\b[^>]*?\bhref\s*=\s*)(["'])(.*?)\2/gi
+
+export class EmailTrackingService {
+  static getOpenUrl(communicationId: string): string {
+    const url = new URL(`/api/track/open/${communicationId}`, getBaseUrl())
+    url.searchParams.set('sig', signTrackingValue(communicationId))
+    return url.toString()
+  }
+
+  static getClickUrl(communicationId: string, destination: string): string {
+    const url = new URL(`/api/track/click/${communicationId}`, getBaseUrl())
+    url.searchParams.set('url', destination)
+    url.searchParams.set('sig', signTrackingValue(communicationId, destination))
+    return url.toString()
+  }
+
+  /**
+   * Route every http(s) link through the click endpoint and add the open pixel. Applied
+   * when the message is sent, so the stored content stays as it was rendered.
+   */
+  static instrumentHtml(html: string, communicationId: string): string {
+    const trackingPrefix = new URL('/api/track/', getBaseUrl()).toString()
+
+    const linked = html.replace(ANCHOR_HREF, (match, prefix: string, quote: string, href: string) => {
+      const destination = decodeAttribute(href.trim())
+      if (!/^https?:\/\//i.test(destination) || destination.startsWith(trackingPrefix)) {
+        return match
+      }
+      return `${prefix}${quote}${encodeAttribute(this.getClickUrl(communicationId, destination))}${quote}`
+    })
+
+    const pixel = `<img src="${encodeAttribute(this.getOpenUrl(communicationId))}" width="1" height="1" alt="" style="display:none" />`
+    return /<\/body>/i.test(linked)
+      ? linked.replace(/<\/body>/i, `${pixel}</body>`)
+      : linked + pixel
+  }
+
+  /**
+   * The first open is kept. An open also proves delivery for providers that send no
+   * delivery events.
+   */
+  static async recordOpen(communicationId: string, at: Date = new Date()): Promise<void> {
+    await db.update(communications)
+      .set({
+        opened_at: keepFirst(communications.opened_at, at),
+        delivered_at: keepFirst(communications.delivered_at, at),
+        status: markDelivered,
+        updated_at: new Date()
+      })
+      .where(eq(communications.id, communicationId))
+  }
+
+  /**
+   * The first click is kept, and a click counts as an open for clients that block images
+   */
+  static async recordClick(communicationId: string, at: Date = new Date()): Promise<void> {
+    await db.update(communications)
+      .set({
+        clicked_at: keepFirst(communications.clicked_at, at),
+        opened_at: keepFirst(communications.opened_at, at),
+        delivered_at: keepFirst(communications.delivered_at, at),
+        status: markDelivered,
+        updated_at: new Date()
+      })
+      .where(eq(communications.id, communicationId))
+  }
+
+  /**
+   * Apply a Resend delivery event to the message it refers to. Hard bounces and
+   * complaints also put the recipient on the event's suppression list. Returns the id of the
+   * matching communication, or null when the email was not sent from this app.
+   */
+  static async applyResendEvent(event: ResendWebhookEvent): Promise<string | null> {
+    const [message] = await db.select({ id: communications.id })
+      .from(communications)
+      .where(and(
+        eq(communications.provider_id, 'resend'),
+        eq(communications.provider_message_id, event.data.email_id)
+      ))
+      .limit(1)
+    if (!message) return null
+
+    const at = new Date(event.created_at)
+    const occurredAt = Number.isNaN(at.getTime()) ? new Date() : at
+
+    switch (event.type) {
+      case 'email.delivered':
+        await db.update(communications)
+          .set({
+            delivered_at: keepFirst(communications.delivered_at, occurredAt),
+            status: markDelivered,
+            updated_at: new Date()
+          })
+          .where(eq(communications.id, message.id))
+        break
+      case 'email.bounced':
+        if (event.data.bounce?.type === 'Transient') {
+          // A soft bounce (full mailbox, temporary block) does not mean the address is bad
+          await db.update(communications)
+            .set({
+              status: 'bounced',
+              error_message: event.data.bounce.message ?? 'Bounced',
+              updated_at: new Date()
+            })
+            .where(eq(communications.id, message.id))
+        } else {
+          await EmailSuppressionService.recordBounce(message.id, 'bounce', event.data.bounce?.message)
+        }
+        break
+      case 'email.complained':
+        await EmailSuppressionService.recordBounce(message.id, 'complaint')
+        break
+      case 'email.opened':
+        await this.recordOpen(message.id, occurredAt)
+        break
+      case 'email.clicked':
+        await this.recordClick(message.id, occurredAt)
+        break
+    }
+
+    return message.id
+  }
+
+  /**
+   * Delivery, open and click counts for an event's emails, one row per template
+   */
+  static async getTemplateStats(eventId: string): Promise<TemplateStats[]> {
+    const rows = await db.select({
+      templateId: communications.template_id,
+      name: communicationTemplates.name,
+      sent: sql<number>`count(${communications.sent_at})`.mapWith(Number),
+      delivered: sql<number>`count(${communications.delivered_at})`.mapWith(Number),
+      opened: sql<number>`count(${communications.opened_at})`.mapWith(Number),
+      clicked: sql<number>`count(${communications.clicked_at})`.mapWith(Number),
+      bounced: sql<number>`count(*) filter (where ${communications.status} = 'bounced')`.mapWith(Number)
+    })
+      .from(communications)
+      .leftJoin(communicationTemplates, eq(communications.template_id, communicationTemplates.id))
+      .where(and(
+        eq(communications.event_id, eventId),
+        eq(communications.type, 'email'),
+        isNotNull(communications.sent_at)
+      ))
+      .groupBy(communications.template_id, communicationTemplates.name)
+      .orderBy(sql`max(${communications.sent_at}) desc`)
+
+    return rows.map(row => ({
+      ...row,
+      name: row.name ?? 'Other messages',
+      openRate: row.sent > 0 ? row.opened / row.sent : 0,
+      clickRate: row.sent > 0 ? row.clicked / row.sent : 0
+    }))
+  }
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { EmailService } from '@/lib/services/email'
+
+function stubResend(status: number, body: unknown) {
+  vi.stubEnv('RESEND_API_KEY', 're_test')
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(body), { status })))
+}
+
+const message = { from: 'us@example.com', to: 'guest@example.com', subject: 'Hello', html: '<p>Hello</p>' }
+
+describe('EmailService with Resend', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.unstubAllGlobals()
+  })
+
+  it('treats an invalid message as permanent', async () => {
+    stubResend(422, { statusCode: 422, name: 'validation_error', message: 'Invalid `to` field.' })
+
+    const result = await new EmailService().sendEmail(message)
+
+    expect(result).toMatchObject({ success: false, permanent: true, provider: 'resend' })
+  })
+
+  it('treats account problems reported as validation errors as transient', async () => {
+    stubResend(403, {
+      statusCode: 403,
+      name: 'validation_error',
+      message: 'The example.com domain is not verified. Please, add and verify your domain on https://resend.com/domains'
+    })
+
+    const result = await new EmailService().sendEmail(message)
+
+    expect(result.success).toBe(false)
+    expect(result.permanent).toBeFalsy()
+    expect(result.error).toContain('All email providers failed')
+  })
+})
@@ -1,14 +1,20 @@
 import { Resend } from 'resend'
 import nodemailer from 'nodemailer'
 import { google } from 'googleapis'
+import { CircuitBreaker, type CircuitStatus } from '@/lib/services/circuit-breaker'
+import { EmailSuppressionService, normalizeEmail } from '@/lib/services/email-suppression'
+import { escapeHtml, renderTemplate, validateTemplate, type TemplateData } from '@/lib/services/template-engine'
+import type { CommunicationTemplate } from '@/lib/db/schema'
+import type { MessagingChannel, OutgoingMessage } from '@/lib/services/messaging'
 
-interface EmailMessage {
+export interface EmailMessage {
   to: string | string[]
   from: string
   subject: string
   html: string
   text?: string
   replyTo?: string
+  headers?: Record<string, string>
   attachments?: Array<{
     filename: string
     content: Buffer | string
@@ -16,19 +22,54 @@ interface EmailMessage {
   }>
 }
 
-interface SendResult {
+export interface SendResult {
   success: boolean
   messageId?: string
   error?: string
+  // Set when the message itself was refused (bad address, invalid content): another
+  // provider or a later attempt would fail the same way
+  permanent?: boolean
+  // The receiving server rejected the recipient address (a hard bounce)
+  bounced?: boolean
+  // Not sent because every recipient is on the event's suppression list
+  suppressed?: boolean
   provider: string
 }
 
+export interface SendOptions {
+  // Check the recipients against this event's suppression list
+  eventId?: string
+}
+
 interface EmailProvider {
   name: string
   send(message: EmailMessage): Promise<SendResult>
   verify(): Promise<boolean>
 }
 
+// Resend errors caused by the message rather than the account or the service
+const RESEND_PERMANENT_ERRORS = new Set<string>(['missing_required_field', 'invalid_parameter'])
+
+// Resend also reports account problems as a validation_error, with a 403 (an unverified
+// sending domain, a recipient other than the owner in testing mode); only a 422 means the
+// message itself is invalid. The SDK passes the API's statusCode through untyped.
+function isPermanentResendError(error: { name: string; statusCode?: number }): boolean {
+  if (error.name === 'validation_error') return error.statusCode === 422
+  return RESEND_PERMANENT_ERRORS.has(error.name)
+}
+
+// Nodemailer errors carry the SMTP reply code. 5xx replies from 550 up reject the
+// recipient or the message; authentication failures are a problem with the provider.
+function isPermanentSmtpError(error: { code?: string; responseCode?: number }): boolean {
+  if (error.code === 'EAUTH') return false
+  return error.code === 'EENVELOPE' || (error.responseCode !== undefined && error.responseCode >= 550)
+}
+
+// Enhanced status codes 5.1.x mean the mailbox or domain does not exist
+function isRejectedRecipient(error: { response?: string }): boolean {
+  return /\b5\.1\.\d{1,3}\b/.test(error.response ?? '')
+}
+
 // Resend Provider
 class ResendProvider implements EmailProvider {
   name = 'resend'
@@ -47,9 +88,20 @@ class ResendProvider implements EmailProvider {
         html: message.html,
         text: message.text,
         replyTo: message.replyTo,
+        headers: message.headers,
         attachments: message.attachments,
       })
 
+      // The SDK reports API errors in the result rather than throwing
+      if (result.error) {
+        return {
+          success: false,
+          error: result.error.message,
+          permanent: isPermanentResendError(result.error),
+          provider: this.name,
+        }
+      }
+
       return {
         success: true,
         messageId: result.data?.id,
@@ -67,8 +119,8 @@ class ResendProvider implements EmailProvider {
   async verify(): Promise<boolean> {
     try {
       // Test by getting domain verification status
-      await this.resend.domains.list()
-      return true
+      const { error } = await this.resend.domains.list()
+      return !error
     } catch {
       return false
     }
@@ -110,6 +162,7 @@ class GmailProvider implements EmailProvider {
         html: message.html,
         text: message.text,
         replyTo: message.replyTo,
+        headers: message.headers,
         attachments: message.attachments,
       })
 
@@ -122,6 +175,8 @@ class GmailProvider implements EmailProvider {
       return {
         success: false,
         error: error.message,
+        permanent: isPermanentSmtpError(error),
+        bounced: isRejectedRecipient(error),
         provider: this.name,
       }
     }
@@ -182,6 +237,7 @@ class SMTPProvider implements EmailProvider {
         html: message.html,
         text: message.text,
         replyTo: message.replyTo,
+        headers: message.headers,
         attachments: message.attachments,
       })
 
@@ -194,6 +250,8 @@ class SMTPProvider implements EmailProvider {
       return {
         success: false,
         error: error.message,
+        permanent: isPermanentSmtpError(error),
+        bounced: isRejectedRecipient(error),
         provider: this.name,
       }
     }
@@ -209,13 +267,105 @@ class SMTPProvider implements EmailProvider {
   }
 }
 
+// Messages per second each provider accepts by default; override with
+// EMAIL_RATE_LIMITS="resend:2,gmail:1,smtp:5"
+const DEFAULT_RATE_LIMITS: Record<string, number> = {
+  resend: 2,
+  gmail: 1,
+  smtp: 5,
+}
+
+function parseRateLimits(value: string | undefined): Record<string, number> {
+  const limits = { ...DEFAULT_RATE_LIMITS }
+  for (const entry of (value ?? '').split(',')) {
+    const [name, rate] = entry.split(':').map(part => part.trim())
+    if (name && Number(rate) > 0) limits[name] = Number(rate)
+  }
+  return limits
+}
+
+// Token bucket per provider, so bulk sends stay under each provider's rate limit
+class ProviderRateLimiter {
+  private buckets = new Map<string, { tokens: number; updatedAt: number }>()
+
+  constructor(private limits: Record<string, number>) {}
+
+  async acquire(provider: string): Promise<void> {
+    const rate = this.limits[provider]
+    if (!rate) return
+
+    for (;;) {
+      const now = Date.now()
+      const bucket = this.buckets.get(provider) ?? { tokens: rate, updatedAt: now }
+      bucket.tokens = Math.min(rate, bucket.tokens + ((now - bucket.updatedAt) / 1000) * rate)
+      bucket.updatedAt = now
+      this.buckets.set(provider, bucket)
+
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1
+        return
+      }
+      await new Promise(resolve => setTimeout(resolve, Math.ceil(((1 - bucket.tokens) / rate) * 1000)))
+    }
+  }
+}
+
+// Providers are tried in this order; override with EMAIL_PROVIDER_ORDER="smtp,resend".
+// Configured providers left out of the list follow in the default order.
+const DEFAULT_PROVIDER_ORDER = ['resend', 'gmail', 'smtp']
+
+function parseProviderOrder(value: string | undefined): string[] {
+  const names = (value ?? '').split(',').map(name => name.trim()).filter(Boolean)
+  return Array.from(new Set([...names, ...DEFAULT_PROVIDER_ORDER]))
+}
+
+export interface ProviderHealth extends CircuitStatus {
+  provider: string
+}
+
 // Email Service Manager
-export class EmailService {
+/**
+ * The recipients an event may still email: those not on its suppression list
+ */
+export async function getAllowedRecipients(to: string | string[], eventId: string): Promise<string[]> {
+  const recipients = Array.isArray(to) ? to : [to]
+  const suppressed = await EmailSuppressionService.getSuppressed(eventId, recipients)
+  return recipients.filter(recipient => !suppressed.has(normalizeEmail(recipient)))
+}
+
+export function suppressedResult(): SendResult {
+  return {
+    success: false,
+    error: 'Recipient is on the suppression list',
+    permanent: true,
+    suppressed: true,
+    provider: 'none',
+  }
+}
+
+export class EmailService implements MessagingChannel {
+  channel = 'email' as const
+  // Kept in failover order; the first provider is the primary
   private providers: EmailProvider[] = []
-  private primaryProvider: EmailProvider | null = null
+  private breakers = new Map<string, CircuitBreaker>()
+  private rateLimiter = new ProviderRateLimiter(parseRateLimits(process.env.EMAIL_RATE_LIMITS))
 
   constructor() {
     this.initializeProviders()
+
+    const order = parseProviderOrder(process.env.EMAIL_PROVIDER_ORDER)
+    const rank = (provider: EmailProvider) => {
+      const index = order.indexOf(provider.name)
+      return index === -1 ? order.length : index
+    }
+    this.providers.sort((a, b) => rank(a) - rank(b))
+
+    for (const provider of this.providers) {
+      this.breakers.set(provider.name, new CircuitBreaker({
+        failureThreshold: Number(process.env.EMAIL_CIRCUIT_FAILURE_THRESHOLD) || 5,
+        cooldownMs: (Number(process.env.EMAIL_CIRCUIT_COOLDOWN_SECONDS) || 60) * 1000,
+      }))
+    }
   }
 
   private initializeProviders(): void {
@@ -223,7 +373,6 @@ export class EmailService {
     if (process.env.RESEND_API_KEY) {
       const resendProvider = new ResendProvider(process.env.RESEND_API_KEY)
       this.providers.push(resendProvider)
-      if (!this.primaryProvider) this.primaryProvider = resendProvider
     }
 
     // Initialize Gmail OAuth2 if credentials are available
@@ -240,7 +389,6 @@ export class EmailService {
         process.env.GMAIL_USER_EMAIL
       )
       this.providers.push(gmailProvider)
-      if (!this.primaryProvider) this.primaryProvider = gmailProvider
     }
 
     // Initialize SMTP if configuration is available
@@ -260,12 +408,18 @@ export class EmailService {
         },
       })
       this.providers.push(smtpProvider)
-      if (!this.primaryProvider) this.primaryProvider = smtpProvider
     }
   }
 
-  async sendEmail(message: EmailMessage): Promise<SendResult> {
-    if (!this.primaryProvider) {
+  /**
+   * Send through the first healthy provider, failing over to the next one on a transient
+   * error. Providers whose circuit is open are skipped until their cooldown ends. A message
+   * refused outright is returned straight away, since every provider would refuse it too.
+   * The result's `provider` names the provider that delivered the message.
+   * With an event id, suppressed recipients are dropped before anything is sent.
+   */
+  async sendEmail(message: EmailMessage, options: SendOptions = {}): Promise<SendResult> {
+    if (this.providers.length === 0) {
       return {
         success: false,
         error: 'No email provider configured',
@@ -273,40 +427,72 @@ export class EmailService {
       }
     }
 
-    // Try primary provider first
-    let result = await this.primaryProvider.send(message)
-    
-    if (result.success) {
-      return result
+    if (options.eventId) {
+      const allowed = await getAllowedRecipients(message.to, options.eventId)
+      if (allowed.length === 0) return suppressedResult()
+      message = { ...message, to: allowed.length === 1 ? allowed[0] : allowed }
     }
 
-    // If primary provider fails, try fallback providers
+    const errors: string[] = []
+
     for (const provider of this.providers) {
-      if (provider === this.primaryProvider) continue
-      
-      result = await provider.send(message)
-      if (result.success) {
+      const breaker = this.breakers.get(provider.name)!
+      if (!breaker.canRequest()) {
+        errors.push(`${provider.name}: unavailable (circuit open)`)
+        continue
+      }
+
+      await this.rateLimiter.acquire(provider.name)
+      const result = await provider.send(message)
+
+      if (result.success || result.permanent) {
+        // The provider answered, so it counts as healthy even when it refused the message
+        breaker.recordSuccess()
         return result
       }
+
+      breaker.recordFailure()
+      errors.push(`${provider.name}: ${result.error}`)
     }
 
     // All providers failed
     return {
       success: false,
-      error: 'All email providers failed',
+      error: `All email providers failed (${errors.join('; ')})`,
       provider: 'fallback',
     }
   }
 
-  async sendBulkEmails(messages: EmailMessage[]): Promise<SendResult[]> {
+  isAvailable(): boolean {
+    return this.providers.length > 0
+  }
+
+  /**
+   * The messaging channel entry point. The sender defaults to the system address, and
+   * text-only messages are sent as preformatted HTML.
+   */
+  async send(message: OutgoingMessage, options: SendOptions = {}): Promise<SendResult> {
+    return this.sendEmail({
+      to: message.to,
+      from: message.from ?? getDefaultFromAddress(),
+      subject: message.subject ?? '',
+      html: message.html ?? `<pre style="white-space: pre-wrap; font-family: inherit;">${escapeHtml(message.text)}</pre>`,
+      text: message.text || undefined,
+      replyTo: message.replyTo,
+      headers: message.headers,
+      attachments: message.attachments,
+    }, options)
+  }
+
+  /**
+   * Send messages one after another, paced by the provider rate limits.
+   * Prefer queueing through the email outbox, which also retries failures.
+   */
+  async sendBulkEmails(messages: EmailMessage[], options: SendOptions = {}): Promise<SendResult[]> {
     const results: SendResult[] = []
     
     for (const message of messages) {
-      const result = await this.sendEmail(message)
-      results.push(result)
-      
-      // Add delay between emails to avoid rate limiting
-      await new Promise(resolve => setTimeout(resolve, 100))
+      results.push(await this.sendEmail(message, options))
     }
     
     return results
@@ -327,16 +513,38 @@ export class EmailService {
     return this.providers.map(p => p.name)
   }
 
+  /**
+   * Circuit breaker state of each provider, in failover order
+   */
+  getProviderHealth(): ProviderHealth[] {
+    return this.providers.map(provider => ({
+      provider: provider.name,
+      ...this.breakers.get(provider.name)!.getStatus(),
+    }))
+  }
+
+  /**
+   * Move a provider to the front of the failover order
+   */
   setPrimaryProvider(providerName: string): boolean {
     const provider = this.providers.find(p => p.name === providerName)
     if (provider) {
-      this.primaryProvider = provider
+      this.providers = [provider, ...this.providers.filter(p => p !== provider)]
       return true
     }
     return false
   }
 }
 
+/**
+ * Sender used for system messages, e.g. "Our Wedding <wedding@example.com>"
+ */
+export function getDefaultFromAddress(): string {
+  const email = process.env.RESEND_FROM_EMAIL || process.env.SMTP_USER || 'noreply@example.com'
+  const name = process.env.RESEND_FROM_NAME
+  return name ? `${name} <${email}>` : email
+}
+
 // Template Processing
 export interface EmailTemplate {
   subject: string
@@ -345,64 +553,114 @@ export interface EmailTemplate {
   variables: string[]
 }
 
+export interface ProcessTemplateOptions {
+  // Event timezone for the date and time helpers
+  timezone?: string | null
+  locale?: string
+  partials?: Record<string, string>
+}
+
+/**
+ * Render a template's subject, HTML and text with the template engine. Values are
+ * HTML-escaped in the HTML part only. Throws TemplateError when the template is invalid
+ * or references a variable missing from `template.variables`.
+ */
 export function processTemplate(
   template: EmailTemplate,
-  variables: Record<string, string>
+  variables: TemplateData,
+  options: ProcessTemplateOptions = {}
 ): { subject: string; html: string; text?: string } {
-  let { subject, html, text } = template
-
-  // Replace variables in subject
-  for (const [key, value] of Object.entries(variables)) {
-    const regex = new RegExp(`{{\\s*${key}\\s*}}`, 'gi')
-    subject = subject.replace(regex, value)
-    html = html.replace(regex, value)
-    if (text) {
-      text = text.replace(regex, value)
-    }
+  const render = (source: string, plainText: boolean) =>
+    renderTemplate(source, variables, { ...options, variables: template.variables, plainText })
+
+  return {
+    subject: render(template.subject, true),
+    html: render(template.html, false),
+    text: template.text ? render(template.text, true) : undefined,
   }
+}
+
+/**
+ * Problems with a template, checked without rendering it
+ */
+export function validateEmailTemplate(template: EmailTemplate, partials?: Record<string, string>): string[] {
+  return Array.from(new Set([
+    ...validateTemplate(template.subject, template.variables, partials),
+    ...validateTemplate(template.html, template.variables, partials),
+    ...(template.text ? validateTemplate(template.text, template.variables, partials) : []),
+  ]))
+}
+
+/**
+ * Adapt a communication_templates row; its `variables` column holds a JSON array of names
+ */
+export function templateFromRecord(record: Pick<CommunicationTemplate, 'subject' | 'content' | 'variables'>): EmailTemplate {
+  return {
+    subject: record.subject ?? '',
+    html: record.content,
+    variables: parseTemplateVariables(record.variables),
+  }
+}
 
-  return { subject, html, text }
+export function parseTemplateVariables(value: string | null): string[] {
+  try {
+    const parsed = value ? JSON.parse(value) : []
+    return Array.isArray(parsed) ? parsed.filter((name): name is string => typeof name === 'string') : []
+  } catch {
+    return []
+  }
 }
 
 // Default Templates
+// `ceremonies` is a list of { name, date, time, venue } for the ceremonies the guest is invited to
 export const defaultTemplates = {
   invitation: {
-    subject: 'You\'re Invited: {{eventName}} - {{weddingDate}}',
+    subject: 'You\'re Invited: {{eventName}} - {{formatDate weddingDate "medium"}}',
     html: `
       <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-        <div style="text-align: center; padding: 40px 20px; background: linear-gradient(135deg, #D4AF37, #FFB6C1);">
-          <h1 style="color: white; margin: 0; font-size: 32px;">{{coupleNames}}</h1>
-          <p style="color: white; margin: 10px 0 0 0; font-size: 18px;">{{weddingDate}}</p>
-        </div>
+        {{> header}}
         <div style="padding: 40px 20px;">
           <h2 style="color: #333; margin: 0 0 20px 0;">Dear {{guestName}},</h2>
           <p style="color: #666; line-height: 1.6; margin: 0 0 20px 0;">
             We're excited to invite you to celebrate our special day with us! Your presence would make our wedding even more meaningful.
           </p>
+          {{#if ceremonies}}
+          <div style="background: #f8f9fa; padding: 20px; border-radius: 5px; margin: 20px 0;">
+            {{#each ceremonies}}
+            <p style="color: #666; margin: 5px 0;">
+              <strong>{{name}}</strong>: {{formatDate date}}{{#if time}} at {{formatTime time}}{{/if}}{{#if venue}}, {{venue}}{{/if}}
+            </p>
+            {{/each}}
+          </div>
+          {{/if}}
+          {{#if plusOneAllowed}}
+          <p style="color: #666; line-height: 1.6; margin: 0 0 20px 0;">
+            You're welcome to bring a guest{{#if plusOneName}}, {{plusOneName}}{{/if}}.
+          </p>
+          {{/if}}
           <div style="text-align: center; margin: 30px 0;">
             <a href="{{rsvpLink}}" style="background: #D4AF37; color: white; padding: 15px 30px; text-decoration: none; border-radius: 5px; font-weight: bold;">
               RSVP Now
             </a>
           </div>
+          {{#if rsvpDeadline}}
           <p style="color: #666; line-height: 1.6; margin: 20px 0 0 0;">
-            Please respond by {{rsvpDeadline}}. We can't wait to celebrate with you!
-          </p>
-          <p style="color: #666; line-height: 1.6; margin: 20px 0 0 0;">
-            With love,<br>
-            {{coupleNames}}
+            Please respond by {{formatDate rsvpDeadline}}. We can't wait to celebrate with you!
           </p>
+          {{/if}}
+          {{> footer}}
         </div>
       </div>
     `,
-    variables: ['eventName', 'coupleNames', 'weddingDate', 'guestName', 'rsvpLink', 'rsvpDeadline'],
+    variables: ['eventName', 'coupleNames', 'weddingDate', 'guestName', 'rsvpLink', 'rsvpDeadline', 'ceremonies', 'plusOneAllowed', 'plusOneName'],
   },
   reminder: {
-    subject: 'RSVP Reminder: {{eventName}} - {{weddingDate}}',
+    subject: 'RSVP Reminder: {{eventName}} - {{formatDate weddingDate "medium"}}',
     html: `
       <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
         <div style="text-align: center; padding: 30px 20px; background: #f8f9fa;">
           <h1 style="color: #333; margin: 0; font-size: 28px;">{{coupleNames}}</h1>
-          <p style="color: #666; margin: 10px 0 0 0; font-size: 16px;">{{weddingDate}}</p>
+          <p style="color: #666; margin: 10px 0 0 0; font-size: 16px;">{{formatDate weddingDate}}</p>
         </div>
         <div style="padding: 30px 20px;">
           <h2 style="color: #333; margin: 0 0 20px 0;">Hi {{guestName}},</h2>
@@ -414,9 +672,11 @@ export const defaultTemplates = {
               RSVP Now
             </a>
           </div>
+          {{#if rsvpDeadline}}
           <p style="color: #666; line-height: 1.6; margin: 20px 0 0 0;">
-            Please respond by {{rsvpDeadline}}. Thank you!
+            Please respond by {{formatDate rsvpDeadline}}. Thank you!
           </p>
+          {{/if}}
         </div>
       </div>
     `,
@@ -437,17 +697,59 @@ export const defaultTemplates = {
           </p>
           <div style="background: #f8f9fa; padding: 20px; border-radius: 5px; margin: 20px 0;">
             <h3 style="color: #333; margin: 0 0 15px 0;">Event Details:</h3>
-            <p style="color: #666; margin: 5px 0;"><strong>Date:</strong> {{weddingDate}}</p>
-            <p style="color: #666; margin: 5px 0;"><strong>Time:</strong> {{weddingTime}}</p>
+            <p style="color: #666; margin: 5px 0;"><strong>Date:</strong> {{formatDate weddingDate}}</p>
+            {{#if weddingTime}}
+            <p style="color: #666; margin: 5px 0;"><strong>Time:</strong> {{formatTime weddingTime}}</p>
+            {{/if}}
+            {{#if venueName}}
             <p style="color: #666; margin: 5px 0;"><strong>Venue:</strong> {{venueName}}</p>
+            {{/if}}
+            {{#each ceremonies}}
+            <p style="color: #666; margin: 5px 0;">
+              <strong>{{name}}:</strong> {{formatDate date}}{{#if time}} at {{formatTime time}}{{/if}}{{#if venue}}, {{venue}}{{/if}}
+            </p>
+            {{/each}}
           </div>
+          {{#if calendarLink}}
+          <p style="color: #666; line-height: 1.6; margin: 0 0 20px 0;">
+            The attached invite adds these to your calendar, or
+            <a href="{{calendarLink}}" style="color: #D4AF37;">subscribe to your itinerary</a> to keep it up to date if times change.
+          </p>
+          {{/if}}
           <p style="color: #666; line-height: 1.6; margin: 20px 0 0 0;">
             More details will follow closer to the date. See you soon!
           </p>
         </div>
       </div>
     `,
-    variables: ['eventName', 'guestName', 'weddingDate', 'weddingTime', 'venueName'],
+    variables: ['eventName', 'guestName', 'weddingDate', 'weddingTime', 'venueName', 'ceremonies', 'calendarLink'],
+  },
+  waitlistPromotion: {
+    subject: 'A Spot Opened Up: {{ceremonyName}}',
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="text-align: center; padding: 30px 20px; background: #d4edda;">
+          <h1 style="color: #155724; margin: 0; font-size: 28px;">Good News!</h1>
+          <p style="color: #155724; margin: 10px 0 0 0; font-size: 16px;">You're off the waitlist</p>
+        </div>
+        <div style="padding: 30px 20px;">
+          <h2 style="color: #333; margin: 0 0 20px 0;">Dear {{guestName}},</h2>
+          <p style="color: #666; line-height: 1.6; margin: 0 0 20px 0;">
+            A place has opened up at {{ceremonyName}} on {{formatDate ceremonyDate}}, and your spot is now confirmed.
+          </p>
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="{{rsvpLink}}" style="background: #D4AF37; color: white; padding: 15px 30px; text-decoration: none; border-radius: 5px; font-weight: bold;">
+              View Your RSVP
+            </a>
+          </div>
+          <p style="color: #666; line-height: 1.6; margin: 20px 0 0 0;">
+            If your plans have changed, please update your RSVP so we can offer the place to someone else.
+          </p>
+          {{> footer}}
+        </div>
+      </div>
+    `,
+    variables: ['guestName', 'ceremonyName', 'ceremonyDate', 'coupleNames', 'rsvpLink'],
   },
 }
 
@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest'
+import { db } from '@/lib/db'
+import { ceremonies, guestCeremonies, guestCustomFieldValues, households, reminderRules, reminderRuleSends, rsvpResponses } from '@/lib/db/schema'
+import { GuestDuplicateService, normalizeEmail, normalizeName } from '@/lib/services/guest-duplicates'
+import { createEvent, createGuest } from '@/test/fixtures'
+import { and, asc, eq } from 'drizzle-orm'
+
+describe('GuestDuplicateService.merge', () => {
+  it('takes the stricter opt-outs of the two records', async () => {
+    const event = await createEvent()
+    const unsubscribedAt = new Date('2030-01-05T10:00:00Z')
+    const keep = await createGuest(event.id, { email: 'ana@example.com', muted_categories: JSON.stringify(['reminder']) })
+    const merge = await createGuest(event.id, {
+      email: 'ANA@example.com',
+      email_invalid: true,
+      email_invalid_reason: 'bounce',
+      unsubscribed_at: unsubscribedAt,
+      muted_categories: JSON.stringify(['update']),
+      preferred_channel: 'whatsapp'
+    })
+
+    const merged = await GuestDuplicateService.merge(keep.id, merge.id)
+
+    expect(merged.unsubscribed_at).toEqual(unsubscribedAt)
+    expect(JSON.parse(merged.muted_categories!)).toEqual(['reminder', 'update'])
+    expect(merged).toMatchObject({ email_invalid: true, email_invalid_reason: 'bounce', preferred_channel: 'whatsapp' })
+  })
+
+  it('does not flag a different address kept from the kept guest', async () => {
+    const event = await createEvent()
+    const keep = await createGuest(event.id, { email: 'ana@example.com' })
+    const merge = await createGuest(event.id, { email: 'old@example.com', email_invalid: true, email_invalid_reason: 'bounce' })
+
+    const merged = await GuestDuplicateService.merge(keep.id, merge.id)
+
+    expect(merged).toMatchObject({ email: 'ana@example.com', email_invalid: false, email_invalid_reason: null })
+  })
+
+  it('carries over the household, with its primary contact, and a later RSVP deadline', async () => {
+    const event = await createEvent()
+    const [household] = await db.insert(households).values({ event_id: event.id, name: 'The Silvas' }).returning()
+    const override = new Date('2030-05-20T00:00:00Z')
+    const keep = await createGuest(event.id)
+    const merge = await createGuest(event.id, { household_id: household.id, rsvp_deadline_override: override })
+    await db.update(households).set({ primary_guest_id: merge.id }).where(eq(households.id, household.id))
+
+    const merged = await GuestDuplicateService.merge(keep.id, merge.id)
+
+    expect(merged.household_id).toBe(household.id)
+    expect(merged.rsvp_deadline_override).toEqual(override)
+    const [updated] = await db.select().from(households).where(eq(households.id, household.id))
+    expect(updated.primary_guest_id).toBe(keep.id)
+  })
+
+  it('moves custom field answers and reminder history to the kept guest', async () => {
+    const event = await createEvent()
+    const keep = await createGuest(event.id)
+    const merge = await createGuest(event.id)
+    const [rule] = await db.insert(reminderRules)
+      .values({ event_id: event.id, name: 'Nudge', anchor: 'rsvp_deadline', days_before: '[7, 2]' })
+      .returning()
+    await db.insert(guestCustomFieldValues).values([
+      { guest_id: keep.id, event_id: event.id, field_name: 'Song', value: 'Kept' },
+      { guest_id: merge.id, event_id: event.id, field_name: 'Song', value: 'Merged' },
+      { guest_id: merge.id, event_id: event.id, field_name: 'Shuttle', value: 'true' }
+    ])
+    await db.insert(reminderRuleSends).values([
+      { rule_id: rule.id, guest_id: keep.id, occurrence: 'rsvp_deadline:7' },
+      { rule_id: rule.id, guest_id: merge.id, occurrence: 'rsvp_deadline:7' },
+      { rule_id: rule.id, guest_id: merge.id, occurrence: 'rsvp_deadline:2' }
+    ])
+
+    await GuestDuplicateService.merge(keep.id, merge.id)
+
+    const fields = await db.select().from(guestCustomFieldValues).where(eq(guestCustomFieldValues.guest_id, keep.id))
+    expect(Object.fromEntries(fields.map(f => [f.field_name, f.value]))).toEqual({ Song: 'Kept', Shuttle: 'true' })
+    const sends = await db.select().from(reminderRuleSends).where(eq(reminderRuleSends.guest_id, keep.id))
+    expect(sends.map(send => send.occurrence).sort()).toEqual(['rsvp_deadline:2', 'rsvp_deadline:7'])
+  })
+
+  it("numbers the merged guest's answers before the kept guest's", async () => {
+    const event = await createEvent()
+    const keep = await createGuest(event.id)
+    const merge = await createGuest(event.id)
+    const response = (guestId: string, version: number, attending: boolean) => ({
+      guest_id: guestId,
+      event_id: event.id,
+      stage: 1,
+      version,
+      response_data: JSON.stringify({ guestId, attending })
+    })
+    await db.insert(rsvpResponses).values([
+      response(keep.id, 1, false),
+      response(keep.id, 2, true),
+      response(merge.id, 1, false),
+      response(merge.id, 2, false)
+    ])
+
+    await GuestDuplicateService.merge(keep.id, merge.id)
+
+    const rows = await db.select().from(rsvpResponses)
+      .where(eq(rsvpResponses.guest_id, keep.id))
+      .orderBy(asc(rsvpResponses.version))
+    expect(rows.map(row => row.version)).toEqual([1, 2, 3, 4])
+    expect(JSON.parse(rows[3].response_data)).toEqual({ guestId: keep.id, attending: true })
+    expect(JSON.parse(rows[1].response_data).guestId).toBe(merge.id)
+  })
+
+  it('keeps the stronger ceremony answer and the table and arrival from either record', async () => {
+    const event = await createEvent()
+    const keep = await createGuest(event.id)
+    const merge = await createGuest(event.id)
+    const [wedding, dinner] = await db.insert(ceremonies).values([
+      { event_id: event.id, name: 'Wedding', ceremony_date: '2030-06-01' },
+      { event_id: event.id, name: 'Dinner', ceremony_date: '2030-06-01' }
+    ]).returning()
+    const arrivedAt = new Date('2030-06-01T14:05:00Z')
+    await db.insert(guestCeremonies).values([
+      { guest_id: keep.id, ceremony_id: wedding.id, attendance_status: 'maybe' },
+      { guest_id: merge.id, ceremony_id: wedding.id, attendance_status: 'yes', table_name: '4', checked_in_at: arrivedAt },
+      { guest_id: keep.id, ceremony_id: dinner.id, attendance_status: 'yes' },
+      { guest_id: merge.id, ceremony_id: dinner.id, attendance_status: 'yes', is_waitlisted: true, waitlist_position: 1, table_name: '7' }
+    ])
+
+    await GuestDuplicateService.merge(keep.id, merge.id)
+
+    const answerFor = async (ceremonyId: string) => {
+      const rows = await db.select().from(guestCeremonies)
+        .where(and(eq(guestCeremonies.guest_id, keep.id), eq(guestCeremonies.ceremony_id, ceremonyId)))
+      expect(rows).toHaveLength(1)
+      return rows[0]
+    }
+    expect(await answerFor(wedding.id)).toMatchObject({ attendance_status: 'yes', table_name: '4', checked_in_at: arrivedAt })
+    expect(await answerFor(dinner.id)).toMatchObject({ attendance_status: 'yes', is_waitlisted: false, table_name: '7' })
+  })
+})
+
+describe('guest comparison', () => {
+  it('normalizes names and emails', () => {
+    expect(normalizeName('José', "O'Neil")).toBe('jose oneil')
+    expect(normalizeEmail('J.Smith+wedding@Gmail.com')).toBe('jsmith@gmail.com')
+  })
+})
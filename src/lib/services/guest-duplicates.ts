@@ -0,0 +1,437 @@
+import { db } from '@/lib/db'
+import {
+  guests,
+  households,
+  guestCeremonies,
+  guestAccommodations,
+  guestTransportation,
+  guestCustomFieldValues,
+  reminderRuleSends,
+  rsvpResponses,
+  rsvpTokens,
+  communications,
+  auditLogs,
+  type Guest,
+  type GuestCeremony,
+  type NewGuest
+} from '@/lib/db/schema'
+import { eq, and, inArray, max, sql } from 'drizzle-orm'
+
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.6
+
+export interface DuplicateGuestSummary {
+  id: string
+  firstName: string
+  lastName: string
+  email: string | null
+  phone: string | null
+  rsvpStatus: string
+  createdAt: Date
+}
+
+export interface DuplicateCandidate {
+  guests: [DuplicateGuestSummary, DuplicateGuestSummary]
+  score: number
+  reasons: string[]
+}
+
+type ComparableGuest = Pick<Guest, 'first_name' | 'last_name' | 'email' | 'phone'>
+
+/**
+ * Lower-case, strip accents and punctuation so "José O'Neil" and "jose oneil" compare equal
+ */
+export function normalizeName(firstName: string, lastName: string): string {
+  return `${firstName} ${lastName}`
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Lower-case and drop "+tag" suffixes; Gmail also ignores dots in the local part
+ */
+export function normalizeEmail(email: string | null | undefined): string | null {
+  if (!email) return null
+
+  const [local, domain] = email.trim().toLowerCase().split('@')
+  if (!local || !domain) return null
+
+  let normalizedLocal = local.split('+')[0]
+  if (domain === 'gmail.com' || domain === 'googlemail.com') {
+    normalizedLocal = normalizedLocal.replace(/\./g, '')
+    return `${normalizedLocal}@gmail.com`
+  }
+
+  return `${normalizedLocal}@${domain}`
+}
+
+/**
+ * Compare on the last ten digits so numbers entered with and without a country code match
+ */
+export function normalizePhone(phone: string | null | undefined): string | null {
+  if (!phone) return null
+
+  const digits = phone.replace(/\D/g, '')
+  if (digits.length < 7) return null
+
+  return digits.slice(-10)
+}
+
+/**
+ * Jaro-Winkler similarity between 0 (nothing in common) and 1 (identical)
+ */
+export function nameSimilarity(a: string, b: string): number {
+  if (a === b) return 1
+  if (!a || !b) return 0
+
+  const matchWindow = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1)
+  const aMatches = new Array<boolean>(a.length).fill(false)
+  const bMatches = new Array<boolean>(b.length).fill(false)
+
+  let matches = 0
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - matchWindow)
+    const end = Math.min(i + matchWindow + 1, b.length)
+    for (let j = start; j < end; j++) {
+      if (bMatches[j] || a[i] !== b[j]) continue
+      aMatches[i] = true
+      bMatches[j] = true
+      matches++
+      break
+    }
+  }
+
+  if (matches === 0) return 0
+
+  let transpositions = 0
+  let k = 0
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatches[i]) continue
+    while (!bMatches[k]) k++
+    if (a[i] !== b[k]) transpositions++
+    k++
+  }
+
+  const jaro = (
+    matches / a.length +
+    matches / b.length +
+    (matches - transpositions / 2) / matches
+  ) / 3
+
+  let prefix = 0
+  while (prefix < 4 && a[prefix] === b[prefix]) prefix++
+
+  return jaro + prefix * 0.1 * (1 - jaro)
+}
+
+/**
+ * Score how likely two guest records describe the same person.
+ * Each piece of evidence is combined as independent odds, so a shared email plus
+ * a similar name scores higher than either alone without ever exceeding 1.
+ */
+export function scoreGuestPair(a: ComparableGuest, b: ComparableGuest): { score: number; reasons: string[] } {
+  const evidence: number[] = []
+  const reasons: string[] = []
+
+  const emailA = normalizeEmail(a.email)
+  if (emailA && emailA === normalizeEmail(b.email)) {
+    evidence.push(0.9)
+    reasons.push('Same email')
+  }
+
+  const phoneA = normalizePhone(a.phone)
+  if (phoneA && phoneA === normalizePhone(b.phone)) {
+    evidence.push(0.8)
+    reasons.push('Same phone number')
+  }
+
+  const nameA = normalizeName(a.first_name, a.last_name)
+  const nameB = normalizeName(b.first_name, b.last_name)
+  const swappedB = normalizeName(b.last_name, b.first_name)
+  const similarity = Math.max(nameSimilarity(nameA, nameB), nameSimilarity(nameA, swappedB))
+
+  if (similarity >= 0.97) {
+    evidence.push(0.7)
+    reasons.push('Same name')
+  } else if (similarity >= 0.9) {
+    evidence.push(0.5)
+    reasons.push('Very similar name')
+  } else if (similarity >= 0.85) {
+    evidence.push(0.3)
+    reasons.push('Similar name')
+  }
+
+  const score = 1 - evidence.reduce((remaining, p) => remaining * (1 - p), 1)
+
+  return { score: Math.round(score * 100) / 100, reasons }
+}
+
+function toSummary(guest: Guest): DuplicateGuestSummary {
+  return {
+    id: guest.id,
+    firstName: guest.first_name,
+    lastName: guest.last_name,
+    email: guest.email,
+    phone: guest.phone,
+    rsvpStatus: guest.rsvp_status,
+    createdAt: guest.created_at
+  }
+}
+
+// Union of two JSON arrays of strings, such as tags
+function mergeLists(a: string | null, b: string | null): string | null {
+  const items = new Set<string>([...(a ? JSON.parse(a) : []), ...(b ? JSON.parse(b) : [])])
+  return items.size > 0 ? JSON.stringify(Array.from(items)) : null
+}
+
+function earliest(a: Date | null, b: Date | null): Date | null {
+  if (!a || !b) return a ?? b
+  return a < b ? a : b
+}
+
+function latest(a: Date | null, b: Date | null): Date | null {
+  if (!a || !b) return a ?? b
+  return a > b ? a : b
+}
+
+/**
+ * How much a ceremony answer holds: an arrival, then a confirmed seat, then a place on
+ * the waitlist, then any other answer
+ */
+function ceremonyAnswerRank(answer: GuestCeremony): number {
+  if (answer.checked_in_at || answer.plus_one_checked_in_at) return 3
+  if (answer.attendance_status !== 'yes') return 0
+  return answer.is_waitlisted ? 1 : 2
+}
+
+/**
+ * Whether the kept guest's email may be used: a bounce or complaint recorded against the
+ * same address on either record counts. An address taken from the merged guest keeps
+ * its own flag.
+ */
+function mergeEmailValidity(keep: Guest, merge: Guest): Pick<NewGuest, 'email_invalid' | 'email_invalid_reason'> {
+  if (!keep.email) {
+    return { email_invalid: merge.email_invalid, email_invalid_reason: merge.email_invalid_reason }
+  }
+  if (keep.email_invalid) {
+    return { email_invalid: true, email_invalid_reason: keep.email_invalid_reason }
+  }
+  const sameAddress = !!merge.email && merge.email.trim().toLowerCase() === keep.email.trim().toLowerCase()
+  if (sameAddress && merge.email_invalid) {
+    return { email_invalid: true, email_invalid_reason: merge.email_invalid_reason }
+  }
+  return { email_invalid: false, email_invalid_reason: null }
+}
+
+export class GuestMergeError extends Error {}
+
+export class GuestDuplicateService {
+  /**
+   * Find likely duplicate guest pairs within an event, best matches first
+   */
+  static async findDuplicates(
+    eventId: string,
+    threshold: number = DEFAULT_DUPLICATE_THRESHOLD
+  ): Promise<DuplicateCandidate[]> {
+    const eventGuests = await db.select()
+      .from(guests)
+      .where(eq(guests.event_id, eventId))
+
+    const candidates: DuplicateCandidate[] = []
+    for (let i = 0; i < eventGuests.length; i++) {
+      for (let j = i + 1; j < eventGuests.length; j++) {
+        const { score, reasons } = scoreGuestPair(eventGuests[i], eventGuests[j])
+        if (score >= threshold) {
+          candidates.push({
+            guests: [toSummary(eventGuests[i]), toSummary(eventGuests[j])],
+            score,
+            reasons
+          })
+        }
+      }
+    }
+
+    return candidates.sort((a, b) => b.score - a.score)
+  }
+
+  /**
+   * Merge `mergeGuestId` into `keepGuestId`. Blank fields on the kept record are filled from the
+   * merged one, all related rows are re-pointed to the kept record, and the merged guest is removed.
+   * Opt-outs take the stricter of the two records: an unsubscribe or muted category on either
+   * applies to the merged guest, as does a bounce against the same address.
+   */
+  static async merge(keepGuestId: string, mergeGuestId: string, userId?: string): Promise<Guest> {
+    if (keepGuestId === mergeGuestId) {
+      throw new GuestMergeError('Cannot merge a guest into itself')
+    }
+
+    return db.transaction(async (tx) => {
+      const pair = await tx.select()
+        .from(guests)
+        .where(inArray(guests.id, [keepGuestId, mergeGuestId]))
+
+      const keep = pair.find(g => g.id === keepGuestId)
+      const merge = pair.find(g => g.id === mergeGuestId)
+      if (!keep || !merge) {
+        throw new GuestMergeError('Guest not found')
+      }
+      if (keep.event_id !== merge.event_id) {
+        throw new GuestMergeError('Guests belong to different events')
+      }
+
+      const fillable = [
+        'email', 'phone', 'address', 'relationship', 'age_group', 'plus_one_name',
+        'plus_one_email', 'plus_one_phone', 'dietary_requirements', 'special_requests',
+        'accessibility_needs', 'invitation_sent_at', 'reminder_sent_at', 'rsvp_submitted_at'
+      ] as const
+
+      const updates: Partial<NewGuest> = {}
+      for (const field of fillable) {
+        if (!keep[field] && merge[field]) {
+          (updates as Record<string, unknown>)[field] = merge[field]
+        }
+      }
+      if (keep.rsvp_status === 'pending' && merge.rsvp_status !== 'pending') {
+        updates.rsvp_status = merge.rsvp_status
+      }
+      updates.plus_one_allowed = !!(keep.plus_one_allowed || merge.plus_one_allowed)
+      updates.invitation_sent = !!(keep.invitation_sent || merge.invitation_sent)
+      updates.reminder_sent = !!(keep.reminder_sent || merge.reminder_sent)
+      updates.tags = mergeLists(keep.tags, merge.tags)
+      updates.household_id = keep.household_id ?? merge.household_id
+      updates.rsvp_deadline_override = latest(keep.rsvp_deadline_override, merge.rsvp_deadline_override)
+      updates.unsubscribed_at = earliest(keep.unsubscribed_at, merge.unsubscribed_at)
+      updates.muted_categories = mergeLists(keep.muted_categories, merge.muted_categories)
+      Object.assign(updates, mergeEmailValidity(keep, merge))
+      // Email is the default, so any other channel was chosen on purpose
+      if (keep.preferred_channel === 'email') {
+        updates.preferred_channel = merge.preferred_channel
+      }
+      if (keep.notes && merge.notes && keep.notes !== merge.notes) {
+        updates.notes = `${keep.notes}\n${merge.notes}`
+      }
+
+      // Ceremony answers are unique per guest. On overlap the stronger answer is kept (the
+      // kept guest's on a tie) and takes the table and arrivals recorded on the other one.
+      const answers = await tx.select()
+        .from(guestCeremonies)
+        .where(inArray(guestCeremonies.guest_id, [keepGuestId, mergeGuestId]))
+      const keptAnswers = new Map(answers.filter(a => a.guest_id === keepGuestId).map(a => [a.ceremony_id, a]))
+      for (const mergedAnswer of answers.filter(a => a.guest_id === mergeGuestId)) {
+        const keptAnswer = keptAnswers.get(mergedAnswer.ceremony_id)
+        if (!keptAnswer) continue
+
+        const [winner, loser] = ceremonyAnswerRank(mergedAnswer) > ceremonyAnswerRank(keptAnswer)
+          ? [mergedAnswer, keptAnswer]
+          : [keptAnswer, mergedAnswer]
+        await tx.delete(guestCeremonies).where(eq(guestCeremonies.id, loser.id))
+        await tx.update(guestCeremonies)
+          .set({
+            table_name: winner.table_name ?? loser.table_name,
+            checked_in_at: earliest(winner.checked_in_at, loser.checked_in_at),
+            plus_one_checked_in_at: earliest(winner.plus_one_checked_in_at, loser.plus_one_checked_in_at),
+            checked_in_by: winner.checked_in_by ?? loser.checked_in_by,
+            updated_at: new Date()
+          })
+          .where(eq(guestCeremonies.id, winner.id))
+      }
+      await tx.update(guestCeremonies)
+        .set({ guest_id: keepGuestId, updated_at: new Date() })
+        .where(eq(guestCeremonies.guest_id, mergeGuestId))
+
+      // The kept guest's answers stay the latest: they are numbered after the merged
+      // guest's, going through negative versions so no two rows share one on the way
+      const [mergedVersions] = await tx.select({ version: max(rsvpResponses.version) })
+        .from(rsvpResponses)
+        .where(eq(rsvpResponses.guest_id, mergeGuestId))
+      const offset = mergedVersions?.version ?? 0
+      if (offset > 0) {
+        await tx.update(rsvpResponses)
+          .set({ version: sql`-(${rsvpResponses.version} + ${offset})` })
+          .where(eq(rsvpResponses.guest_id, keepGuestId))
+        await tx.update(rsvpResponses)
+          .set({ version: sql`-${rsvpResponses.version}` })
+          .where(eq(rsvpResponses.guest_id, keepGuestId))
+        await tx.update(rsvpResponses)
+          .set({ guest_id: keepGuestId })
+          .where(eq(rsvpResponses.guest_id, mergeGuestId))
+      }
+
+      // Links already sent to the merged guest keep working and now resolve to the kept guest
+      await tx.update(rsvpTokens)
+        .set({ guest_id: keepGuestId })
+        .where(eq(rsvpTokens.guest_id, mergeGuestId))
+
+      await tx.update(communications)
+        .set({ recipient_id: keepGuestId, updated_at: new Date() })
+        .where(eq(communications.recipient_id, mergeGuestId))
+
+      await tx.update(guestAccommodations)
+        .set({ guest_id: keepGuestId, updated_at: new Date() })
+        .where(eq(guestAccommodations.guest_id, mergeGuestId))
+
+      await tx.update(guestTransportation)
+        .set({ guest_id: keepGuestId, updated_at: new Date() })
+        .where(eq(guestTransportation.guest_id, mergeGuestId))
+
+      // Custom field answers are unique per guest and field; the kept guest's answer wins
+      const keptFields = await tx.select({ fieldName: guestCustomFieldValues.field_name })
+        .from(guestCustomFieldValues)
+        .where(eq(guestCustomFieldValues.guest_id, keepGuestId))
+      if (keptFields.length > 0) {
+        await tx.delete(guestCustomFieldValues)
+          .where(and(
+            eq(guestCustomFieldValues.guest_id, mergeGuestId),
+            inArray(guestCustomFieldValues.field_name, keptFields.map(f => f.fieldName))
+          ))
+      }
+      await tx.update(guestCustomFieldValues)
+        .set({ guest_id: keepGuestId, updated_at: new Date() })
+        .where(eq(guestCustomFieldValues.guest_id, mergeGuestId))
+
+      // Reminders already sent to either record are not sent again
+      await tx.delete(reminderRuleSends)
+        .where(and(
+          eq(reminderRuleSends.guest_id, mergeGuestId),
+          sql`exists (select 1 from ${reminderRuleSends} kept where kept.guest_id = ${keepGuestId} and kept.rule_id = ${reminderRuleSends.rule_id} and kept.occurrence = ${reminderRuleSends.occurrence})`
+        ))
+      await tx.update(reminderRuleSends)
+        .set({ guest_id: keepGuestId })
+        .where(eq(reminderRuleSends.guest_id, mergeGuestId))
+
+      // The merged guest's household keeps its primary contact if the kept guest joins it
+      if (updates.household_id) {
+        await tx.update(households)
+          .set({ primary_guest_id: keepGuestId, updated_at: new Date() })
+          .where(and(eq(households.id, updates.household_id), eq(households.primary_guest_id, mergeGuestId)))
+      }
+
+      await tx.delete(guests).where(eq(guests.id, mergeGuestId))
+
+      const [merged] = await tx.update(guests)
+        .set({ ...updates, updated_at: new Date() })
+        .where(eq(guests.id, keepGuestId))
+        .returning()
+
+      await tx.insert(auditLogs).values({
+        event_id: keep.event_id,
+        user_id: userId,
+        action: 'guest.merge',
+        resource: 'guest',
+        resource_id: keepGuestId,
+        details: JSON.stringify({
+          mergedGuestId: mergeGuestId,
+          mergedGuestName: `${merge.first_name} ${merge.last_name}`,
+          mergedEmail: merge.email,
+          mergedPhone: merge.phone
+        }),
+        severity: 'medium'
+      })
+
+      return merged
+    })
+  }
+}
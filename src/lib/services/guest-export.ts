@@ -0,0 +1,109 @@
+import { db } from '@/lib/db'
+import { guests, households } from '@/lib/db/schema'
+import { CustomFieldService } from '@/lib/services/custom-fields'
+import { eq, and, or, ilike, asc, type SQL } from 'drizzle-orm'
+
+export interface GuestExportFilters {
+  search?: string
+  side?: 'bride' | 'groom' | 'mutual'
+  rsvpStatus?: 'pending' | 'attending' | 'not_attending' | 'maybe'
+  deliverability?: 'deliverable' | 'undeliverable'
+  // `field name -> value`, as parsed from `cf.<name>` query parameters
+  customFields?: Record<string, string>
+}
+
+/**
+ * Quote a cell when needed and defuse values a spreadsheet would run as a formula
+ */
+function csvCell(value: string | number | boolean | null | undefined): string {
+  let text = value === null || value === undefined ? '' : String(value)
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Rows of cells as CSV text, one line per row
+ */
+export function toCsv(rows: Array<Array<string | number | boolean | null | undefined>>): string {
+  return rows.map(row => row.map(csvCell).join(',')).join('\r\n')
+}
+
+export class GuestExportService {
+  /**
+   * Export an event's guest list as CSV, with one column per custom RSVP question.
+   * The standard column headers match what the guest import recognises.
+   */
+  static async exportCsv(eventId: string, filters: GuestExportFilters = {}): Promise<string> {
+    const definitions = await CustomFieldService.getDefinitions(eventId)
+
+    const conditions: Array<SQL | undefined> = [eq(guests.event_id, eventId)]
+    if (filters.search) {
+      conditions.push(or(
+        ilike(guests.first_name, `%${filters.search}%`),
+        ilike(guests.last_name, `%${filters.search}%`),
+        ilike(guests.email, `%${filters.search}%`)
+      ))
+    }
+    if (filters.side) conditions.push(eq(guests.side, filters.side))
+    if (filters.rsvpStatus) conditions.push(eq(guests.rsvp_status, filters.rsvpStatus))
+    if (filters.deliverability) conditions.push(eq(guests.email_invalid, filters.deliverability === 'undeliverable'))
+    conditions.push(...CustomFieldService.buildFilterConditions(definitions, filters.customFields ?? {}))
+
+    const rows = await db.select({
+      guest: guests,
+      householdName: households.name
+    })
+      .from(guests)
+      .leftJoin(households, eq(guests.household_id, households.id))
+      .where(and(...conditions))
+      .orderBy(asc(guests.last_name), asc(guests.first_name))
+
+    const answers = await CustomFieldService.getAnswers(rows.map(row => row.guest.id))
+
+    const header = [
+      'First Name',
+      'Last Name',
+      'Email',
+      'Email Undeliverable',
+      'Phone',
+      'Address',
+      'Side',
+      'Relationship',
+      'Age Group',
+      'Plus One',
+      'Plus One Name',
+      'RSVP Status',
+      'Dietary Requirements',
+      'Special Requests',
+      'Accessibility Needs',
+      'Household',
+      'Tags',
+      ...definitions.map(d => d.name)
+    ]
+
+    const body = rows.map(({ guest, householdName }) => [
+      guest.first_name,
+      guest.last_name,
+      guest.email,
+      guest.email_invalid ? guest.email_invalid_reason ?? 'yes' : '',
+      guest.phone,
+      guest.address,
+      guest.side,
+      guest.relationship,
+      guest.age_group,
+      guest.plus_one_allowed ? 'yes' : 'no',
+      guest.plus_one_name,
+      guest.rsvp_status,
+      guest.dietary_requirements,
+      guest.special_requests,
+      guest.accessibility_needs,
+      householdName,
+      guest.tags ? (JSON.parse(guest.tags) as string[]).join('; ') : '',
+      ...definitions.map(d => answers[guest.id]?.[d.name] ?? '')
+    ])
+
+    return toCsv([header, ...body])
+  }
+}
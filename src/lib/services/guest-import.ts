@@ -0,0 +1,406 @@
+import ExcelJS from 'exceljs'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { guests, type NewGuest } from '@/lib/db/schema'
+import { BulkGuestImportSchema, type BulkGuestImport } from '@/lib/validations/schemas'
+import { RSVPTokenService } from '@/lib/services/rsvp-tokens'
+import { scoreGuestPair, DEFAULT_DUPLICATE_THRESHOLD } from '@/lib/services/guest-duplicates'
+import { eq } from 'drizzle-orm'
+
+export const ImportRowSchema = BulkGuestImportSchema.shape.guests.element
+export type ImportRow = z.infer<typeof ImportRowSchema>
+
+export const MAX_IMPORT_FILE_SIZE = 10 * 1024 * 1024
+const PREVIEW_LIMIT = 100
+
+export interface ImportIssue {
+  row: number
+  field: string
+  message: string
+}
+
+export interface ImportPreviewRow {
+  row: number
+  firstName: string
+  lastName: string
+  email: string
+  side: string
+  relationship: string
+  status: 'valid' | 'invalid' | 'warning'
+  errors: string[]
+}
+
+export interface ImportResult {
+  valid: number
+  invalid: number
+  total: number
+  errors: ImportIssue[]
+  warnings: ImportIssue[]
+  preview: ImportPreviewRow[]
+  unmappedColumns: string[]
+  // Rows that passed validation, ready to be sent back for the commit step
+  guests: ImportRow[]
+}
+
+export interface ImportCommitResult {
+  imported: number
+  guests: Array<{
+    id: string
+    firstName: string
+    lastName: string
+    rsvpUrl: string
+  }>
+}
+
+export class ImportFileError extends Error {}
+
+type ImportField = keyof ImportRow | 'fullName'
+
+// Header names are compared after lower-casing and stripping everything but letters and digits
+const COLUMN_ALIASES: Record<string, ImportField> = {
+  firstname: 'firstName',
+  first: 'firstName',
+  givenname: 'firstName',
+  lastname: 'lastName',
+  last: 'lastName',
+  surname: 'lastName',
+  familyname: 'lastName',
+  name: 'fullName',
+  fullname: 'fullName',
+  guestname: 'fullName',
+  email: 'email',
+  emailaddress: 'email',
+  phone: 'phone',
+  phonenumber: 'phone',
+  mobile: 'phone',
+  cell: 'phone',
+  address: 'address',
+  side: 'side',
+  relationship: 'relationship',
+  relation: 'relationship',
+  agegroup: 'ageGroup',
+  age: 'ageGroup',
+  plusone: 'plusOneAllowed',
+  plusoneallowed: 'plusOneAllowed',
+  dietary: 'dietaryRequirements',
+  dietaryrequirements: 'dietaryRequirements',
+  dietaryrestrictions: 'dietaryRequirements',
+  specialrequests: 'specialRequests',
+  specialrequest: 'specialRequests',
+  accessibility: 'accessibilityNeeds',
+  accessibilityneeds: 'accessibilityNeeds',
+  language: 'languagePreference',
+  languagepreference: 'languagePreference',
+  channel: 'preferredChannel',
+  preferredchannel: 'preferredChannel',
+  contactvia: 'preferredChannel',
+  notes: 'notes',
+  tags: 'tags',
+}
+
+const TRUE_VALUES = new Set(['yes', 'y', 'true', '1', 'x'])
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+/**
+ * Minimal RFC 4180 parser: quoted fields, escaped quotes and embedded newlines.
+ * The delimiter is guessed from the header line so semicolon exports from Excel also work.
+ */
+function parseCsv(content: string): string[][] {
+  const text = content.replace(/^\uFEFF/, '')
+  const headerLine = text.slice(0, text.search(/\r?\n/) === -1 ? undefined : text.search(/\r?\n/))
+  const delimiter = (headerLine.match(/;/g)?.length ?? 0) > (headerLine.match(/,/g)?.length ?? 0) ? ';' : ','
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows
+}
+
+function cellToString(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return ''
+  if (value instanceof Date) return value.toISOString().slice(0, 10)
+  if (typeof value === 'object') {
+    if ('richText' in value) return value.richText.map(part => part.text).join('')
+    if ('text' in value) return String(value.text)
+    if ('result' in value) return value.result === undefined ? '' : cellToString(value.result as ExcelJS.CellValue)
+    if ('error' in value) return ''
+  }
+  return String(value)
+}
+
+async function parseXlsx(buffer: ArrayBuffer): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook()
+  await workbook.xlsx.load(buffer)
+
+  const worksheet = workbook.worksheets[0]
+  if (!worksheet) {
+    throw new ImportFileError('The workbook does not contain any worksheets')
+  }
+
+  const rows: string[][] = []
+  worksheet.eachRow({ includeEmpty: false }, (row) => {
+    // row.values is 1-indexed; drop the empty first slot
+    const values = Array.isArray(row.values) ? row.values.slice(1) : []
+    rows.push(values.map(cellToString))
+  })
+
+  return rows
+}
+
+function coerceField(field: keyof ImportRow, raw: string): unknown {
+  switch (field) {
+    case 'plusOneAllowed':
+      return TRUE_VALUES.has(raw.toLowerCase())
+    case 'side':
+      return raw.toLowerCase().replace(/'s( side)?$/, '').replace(/ side$/, '').trim()
+    case 'email':
+      return raw.toLowerCase()
+    case 'languagePreference':
+      return raw.toLowerCase()
+    case 'preferredChannel':
+      return raw.toLowerCase().replace(/^text$/, 'sms')
+    case 'tags':
+      return raw.split(/[;,]/).map(tag => tag.trim()).filter(Boolean)
+    default:
+      return raw
+  }
+}
+
+export class GuestImportService {
+  /**
+   * Turn an uploaded CSV or XLSX file into a table of string cells
+   */
+  static async parseFile(file: File): Promise<string[][]> {
+    if (file.size > MAX_IMPORT_FILE_SIZE) {
+      throw new ImportFileError('File is larger than 10MB')
+    }
+
+    const name = file.name.toLowerCase()
+    if (name.endsWith('.csv') || file.type === 'text/csv') {
+      return parseCsv(await file.text())
+    }
+    if (name.endsWith('.xlsx')) {
+      return parseXlsx(await file.arrayBuffer())
+    }
+    if (name.endsWith('.xls')) {
+      throw new ImportFileError('Legacy .xls files are not supported. Please save the file as .xlsx or .csv')
+    }
+
+    throw new ImportFileError('Unsupported file type. Please upload a CSV or XLSX file')
+  }
+
+  /**
+   * Map columns onto the guest import schema and validate every row.
+   * Nothing is written; the valid rows are returned for the commit step.
+   */
+  static async validate(eventId: string, table: string[][]): Promise<ImportResult> {
+    const [headerRow = [], ...dataRows] = table
+    const columns = headerRow.map(header => COLUMN_ALIASES[normalizeHeader(header)])
+    const unmappedColumns = headerRow.filter((header, index) => header.trim() && !columns[index])
+
+    if (!columns.includes('firstName') && !columns.includes('fullName')) {
+      throw new ImportFileError('Could not find a first name or name column in the header row')
+    }
+
+    const existingGuests = await db.select({
+      first_name: guests.first_name,
+      last_name: guests.last_name,
+      email: guests.email,
+      phone: guests.phone
+    })
+      .from(guests)
+      .where(eq(guests.event_id, eventId))
+    const acceptedRows: Array<{ row: number; guest: (typeof existingGuests)[number] }> = []
+
+    const result: ImportResult = {
+      valid: 0,
+      invalid: 0,
+      total: 0,
+      errors: [],
+      warnings: [],
+      preview: [],
+      unmappedColumns,
+      guests: [],
+    }
+
+    dataRows.forEach((cells, index) => {
+      // Spreadsheet row number, counting the header as row 1
+      const rowNumber = index + 2
+      if (cells.every(cell => !cell.trim())) return
+
+      const raw: Record<string, unknown> = {}
+      columns.forEach((field, column) => {
+        const value = cells[column]?.trim()
+        if (!field || !value) return
+
+        if (field === 'fullName') {
+          const [first, ...rest] = value.split(/\s+/)
+          raw.firstName ??= first
+          if (rest.length > 0) raw.lastName ??= rest.join(' ')
+          return
+        }
+        raw[field] = coerceField(field, value)
+      })
+
+      result.total++
+      const rowErrors: string[] = []
+      const rowWarnings: string[] = []
+
+      const parsed = ImportRowSchema.safeParse(raw)
+      if (!parsed.success) {
+        for (const issue of parsed.error.errors) {
+          const field = issue.path.join('.') || 'row'
+          result.errors.push({ row: rowNumber, field, message: issue.message })
+          rowErrors.push(`${field}: ${issue.message}`)
+        }
+      } else {
+        const comparable = {
+          first_name: parsed.data.firstName,
+          last_name: parsed.data.lastName,
+          email: parsed.data.email ?? null,
+          phone: parsed.data.phone ?? null
+        }
+
+        for (const existing of existingGuests) {
+          const { score, reasons } = scoreGuestPair(comparable, existing)
+          if (score >= DEFAULT_DUPLICATE_THRESHOLD) {
+            rowWarnings.push(
+              `Possible duplicate of ${existing.first_name} ${existing.last_name} (${reasons.join(', ').toLowerCase()})`
+            )
+            break
+          }
+        }
+        for (const accepted of acceptedRows) {
+          const { score, reasons } = scoreGuestPair(comparable, accepted.guest)
+          if (score >= DEFAULT_DUPLICATE_THRESHOLD) {
+            rowWarnings.push(`Possible duplicate of row ${accepted.row} (${reasons.join(', ').toLowerCase()})`)
+            break
+          }
+        }
+        acceptedRows.push({ row: rowNumber, guest: comparable })
+
+        if (!parsed.data.email && !parsed.data.phone) {
+          rowWarnings.push('No email or phone; the invitation cannot be delivered')
+        }
+
+        for (const message of rowWarnings) {
+          result.warnings.push({ row: rowNumber, field: 'row', message })
+        }
+        result.guests.push(parsed.data)
+      }
+
+      if (rowErrors.length > 0) {
+        result.invalid++
+      } else {
+        result.valid++
+      }
+
+      if (result.preview.length < PREVIEW_LIMIT) {
+        result.preview.push({
+          row: rowNumber,
+          firstName: String(raw.firstName ?? ''),
+          lastName: String(raw.lastName ?? ''),
+          email: String(raw.email ?? ''),
+          side: String(raw.side ?? ''),
+          relationship: String(raw.relationship ?? ''),
+          status: rowErrors.length > 0 ? 'invalid' : rowWarnings.length > 0 ? 'warning' : 'valid',
+          errors: [...rowErrors, ...rowWarnings],
+        })
+      }
+    })
+
+    return result
+  }
+
+  /**
+   * Insert validated rows in a single transaction and issue an RSVP token for each new guest
+   */
+  static async commit(data: BulkGuestImport): Promise<ImportCommitResult> {
+    const { eventId } = data
+
+    return db.transaction(async (tx) => {
+      const values: NewGuest[] = data.guests.map(guest => ({
+        event_id: eventId,
+        first_name: guest.firstName,
+        last_name: guest.lastName,
+        email: guest.email,
+        phone: guest.phone,
+        address: guest.address,
+        side: guest.side,
+        relationship: guest.relationship,
+        age_group: guest.ageGroup,
+        plus_one_allowed: guest.plusOneAllowed,
+        dietary_requirements: guest.dietaryRequirements,
+        special_requests: guest.specialRequests,
+        accessibility_needs: guest.accessibilityNeeds,
+        language_preference: guest.languagePreference,
+        preferred_channel: guest.preferredChannel,
+        notes: guest.notes,
+        tags: guest.tags ? JSON.stringify(guest.tags) : null,
+        created_at: new Date(),
+        updated_at: new Date()
+      }))
+
+      const inserted = values.length > 0
+        ? await tx.insert(guests).values(values).returning()
+        : []
+
+      const imported: ImportCommitResult['guests'] = []
+      for (const guest of inserted) {
+        const token = await RSVPTokenService.generateToken(guest.id, 30, tx)
+        imported.push({
+          id: guest.id,
+          firstName: guest.first_name,
+          lastName: guest.last_name,
+          rsvpUrl: RSVPTokenService.generateRSVPUrl(token)
+        })
+      }
+
+      return {
+        imported: imported.length,
+        guests: imported
+      }
+    })
+  }
+}
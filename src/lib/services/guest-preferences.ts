@@ -0,0 +1,193 @@
+import { db } from '@/lib/db'
+import { communicationTemplates, events, guests, type Guest } from '@/lib/db/schema'
+import { hasSigningSecret, signTrackingValue, verifyTrackingSignature } from '@/lib/services/email-tracking'
+import { getChannelAddress, getMessagingChannel, type MessageChannel } from '@/lib/services/messaging'
+import { escapeHtml } from '@/lib/services/template-engine'
+import {
+  PreferenceCategorySchema,
+  type PreferenceCategory,
+  type UpdatePreferences
+} from '@/lib/validations/schemas'
+import { eq, or, isNull, sql } from 'drizzle-orm'
+
+export interface GuestPreferences {
+  guest: { firstName: string; lastName: string }
+  event: { name: string; coupleNames: string; weddingDate: string }
+  channel: MessageChannel
+  language: string
+  // The categories the guest receives
+  categories: PreferenceCategory[]
+  unsubscribed: boolean
+  // Channels that can reach the guest, for the channel picker
+  channels: MessageChannel[]
+  // Languages the event has templates in
+  languages: string[]
+}
+
+export class GuestPreferencesError extends Error {}
+export class GuestPreferencesNotFoundError extends Error {}
+
+export const PREFERENCE_CATEGORIES = PreferenceCategorySchema.options
+
+const CHANNEL_NAMES: Record<MessageChannel, string> = {
+  email: 'email',
+  whatsapp: 'WhatsApp',
+  sms: 'SMS'
+}
+
+function getBaseUrl(): string {
+  return process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+}
+
+/**
+ * A link token for the guest's preferences: the guest id and a signature over it. Nothing
+ * is stored, so every email can carry one without issuing anything.
+ */
+export function getPreferencesToken(guestId: string): string {
+  return `${guestId}.${signTrackingValue('preferences', guestId)}`
+}
+
+/**
+ * The guest id a preferences token was issued for, or null when the signature does not match
+ */
+export function verifyPreferencesToken(token: string): string | null {
+  const [guestId, signature] = token.split('.')
+  if (!guestId || !signature) return null
+  return verifyTrackingSignature(signature, 'preferences', guestId) ? guestId : null
+}
+
+/**
+ * The preferences page for a guest, or null when links cannot be signed
+ */
+export function getPreferencesUrl(guestId: string): string | null {
+  if (!hasSigningSecret()) return null
+  return new URL(`/preferences/${getPreferencesToken(guestId)}`, getBaseUrl()).toString()
+}
+
+/**
+ * One-click unsubscribe endpoint (RFC 8058) for the List-Unsubscribe header
+ */
+export function getUnsubscribeUrl(guestId: string): string | null {
+  if (!hasSigningSecret()) return null
+  return new URL(`/api/preferences/${getPreferencesToken(guestId)}`, getBaseUrl()).toString()
+}
+
+/**
+ * Add the preferences link to the foot of an email. Added when the message is sent, after
+ * click tracking, so the link is never rewritten.
+ */
+export function addPreferencesFooter(html: string, text: string, url: string): { html: string; text: string } {
+  const footer = `<p style="margin-top:32px;font-size:12px;color:#6b7280;text-align:center;">` +
+    `Don't want these emails? <a href="${escapeHtml(url)}" style="color:#6b7280;">Unsubscribe or choose how we contact you</a>.</p>`
+
+  return {
+    html: /<\/body>/i.test(html) ? html.replace(/<\/body>/i, `${footer}</body>`) : html + footer,
+    // HTML-only emails stay without a text part
+    text: text.trim() ? `${text.trimEnd()}\n\n---\nUnsubscribe or choose how we contact you: ${url}\n` : text
+  }
+}
+
+export function getMutedCategories(guest: Pick<Guest, 'muted_categories'>): string[] {
+  return guest.muted_categories ? JSON.parse(guest.muted_categories) : []
+}
+
+/**
+ * Whether the guest has turned off messages of this category
+ */
+export function isCategoryMuted(guest: Pick<Guest, 'muted_categories'>, category: string): boolean {
+  return getMutedCategories(guest).includes(category)
+}
+
+// Channels that can reach the guest now; their current choice is kept so the picker shows it
+function getReachableChannels(guest: Guest): MessageChannel[] {
+  const channels: MessageChannel[] = ['email', 'whatsapp', 'sms']
+  return channels.filter(channel =>
+    channel === guest.preferred_channel || (
+      getChannelAddress(guest, channel) !== null &&
+      (channel === 'email' || getMessagingChannel(channel).isAvailable())
+    )
+  )
+}
+
+async function findGuest(token: string): Promise<Guest> {
+  const guestId = verifyPreferencesToken(token)
+  if (!guestId) throw new GuestPreferencesNotFoundError('Invalid preferences link')
+
+  const [guest] = await db.select().from(guests).where(eq(guests.id, guestId)).limit(1)
+  if (!guest) throw new GuestPreferencesNotFoundError('Invalid preferences link')
+  return guest
+}
+
+export class GuestPreferencesService {
+  static async get(token: string): Promise<GuestPreferences> {
+    const guest = await findGuest(token)
+
+    const [event] = await db.select({
+      name: events.name,
+      coupleNames: events.couple_names,
+      weddingDate: events.wedding_date
+    })
+      .from(events)
+      .where(eq(events.id, guest.event_id))
+      .limit(1)
+
+    const templateLanguages = await db.selectDistinct({ language: communicationTemplates.language })
+      .from(communicationTemplates)
+      .where(or(eq(communicationTemplates.event_id, guest.event_id), isNull(communicationTemplates.event_id)))
+    const language = guest.language_preference || 'en'
+    const languages = Array.from(new Set([
+      'en',
+      language,
+      ...templateLanguages.map(row => row.language).filter((code): code is string => !!code)
+    ])).sort()
+
+    const muted = getMutedCategories(guest)
+    return {
+      guest: { firstName: guest.first_name, lastName: guest.last_name },
+      event,
+      channel: guest.preferred_channel,
+      language,
+      categories: PREFERENCE_CATEGORIES.filter(category => !muted.includes(category)),
+      unsubscribed: guest.unsubscribed_at !== null,
+      channels: getReachableChannels(guest),
+      languages
+    }
+  }
+
+  /**
+   * Save the guest's choices. A channel that cannot reach the guest is refused, since
+   * campaigns would only fall back to email.
+   */
+  static async update(token: string, data: UpdatePreferences): Promise<GuestPreferences> {
+    const guest = await findGuest(token)
+    const updates: Partial<typeof guests.$inferInsert> = { updated_at: new Date() }
+
+    if (data.channel !== undefined && data.channel !== guest.preferred_channel) {
+      if (!getReachableChannels(guest).includes(data.channel)) {
+        throw new GuestPreferencesError(`We can't reach you by ${CHANNEL_NAMES[data.channel]} with the details we have`)
+      }
+      updates.preferred_channel = data.channel
+    }
+    if (data.language !== undefined) updates.language_preference = data.language
+    if (data.categories !== undefined) {
+      const muted = PREFERENCE_CATEGORIES.filter(category => !data.categories!.includes(category))
+      updates.muted_categories = muted.length > 0 ? JSON.stringify(muted) : null
+    }
+    if (data.unsubscribed !== undefined) {
+      updates.unsubscribed_at = data.unsubscribed ? guest.unsubscribed_at ?? new Date() : null
+    }
+
+    await db.update(guests).set(updates).where(eq(guests.id, guest.id))
+    return this.get(token)
+  }
+
+  /**
+   * One-click unsubscribe from every campaign. The first time is kept.
+   */
+  static async unsubscribe(token: string): Promise<void> {
+    const guest = await findGuest(token)
+    await db.update(guests)
+      .set({ unsubscribed_at: sql`coalesce(${guests.unsubscribed_at}, now())`, updated_at: new Date() })
+      .where(eq(guests.id, guest.id))
+  }
+}
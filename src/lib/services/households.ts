@@ -0,0 +1,201 @@
+import { db, type DbExecutor } from '@/lib/db'
+import { guests, households, type Household, type NewHousehold } from '@/lib/db/schema'
+import { type CreateHousehold, type UpdateHousehold } from '@/lib/validations/schemas'
+import { RSVPTokenService } from '@/lib/services/rsvp-tokens'
+import { eq, and, inArray, asc, desc } from 'drizzle-orm'
+
+export interface HouseholdMemberSummary {
+  id: string
+  firstName: string
+  lastName: string
+  ageGroup: string | null
+  rsvpStatus: string
+}
+
+export interface HouseholdSummary {
+  id: string
+  eventId: string
+  name: string
+  primaryGuestId: string | null
+  address: string | null
+  notes: string | null
+  members: HouseholdMemberSummary[]
+  createdAt: Date
+  updatedAt: Date
+}
+
+export class HouseholdError extends Error {}
+
+type HouseholdWithMembers = Household & { members: Array<typeof guests.$inferSelect> }
+
+function toSummary(household: HouseholdWithMembers): HouseholdSummary {
+  return {
+    id: household.id,
+    eventId: household.event_id,
+    name: household.name,
+    primaryGuestId: household.primary_guest_id,
+    address: household.address,
+    notes: household.notes,
+    members: household.members.map(member => ({
+      id: member.id,
+      firstName: member.first_name,
+      lastName: member.last_name,
+      ageGroup: member.age_group,
+      rsvpStatus: member.rsvp_status
+    })),
+    createdAt: household.created_at,
+    updatedAt: household.updated_at
+  }
+}
+
+/**
+ * Make sure every guest exists in the event before it is attached to a household
+ */
+async function assertGuestsInEvent(executor: DbExecutor, eventId: string, guestIds: string[]) {
+  const found = await executor.select({ id: guests.id })
+    .from(guests)
+    .where(and(eq(guests.event_id, eventId), inArray(guests.id, guestIds)))
+
+  if (found.length !== new Set(guestIds).size) {
+    throw new HouseholdError('All household members must be guests of the same event')
+  }
+}
+
+export class HouseholdService {
+  /**
+   * List every household in an event with its members
+   */
+  static async list(eventId: string): Promise<HouseholdSummary[]> {
+    const result = await db.query.households.findMany({
+      where: eq(households.event_id, eventId),
+      with: {
+        members: {
+          orderBy: [asc(guests.created_at)]
+        }
+      },
+      orderBy: [desc(households.created_at)]
+    })
+
+    return result.map(toSummary)
+  }
+
+  static async get(householdId: string): Promise<HouseholdSummary | null> {
+    const household = await db.query.households.findFirst({
+      where: eq(households.id, householdId),
+      with: {
+        members: {
+          orderBy: [asc(guests.created_at)]
+        }
+      }
+    })
+
+    return household ? toSummary(household) : null
+  }
+
+  /**
+   * Create a household from existing guests and issue its shared RSVP token.
+   * Guests already in another household are moved into the new one.
+   */
+  static async create(data: CreateHousehold): Promise<{ household: HouseholdSummary; token: string }> {
+    const householdId = await db.transaction(async (tx) => {
+      await assertGuestsInEvent(tx, data.eventId, data.guestIds)
+
+      const [household] = await tx.insert(households).values({
+        event_id: data.eventId,
+        name: data.name,
+        primary_guest_id: data.primaryGuestId ?? data.guestIds[0],
+        address: data.address,
+        notes: data.notes,
+        created_at: new Date(),
+        updated_at: new Date()
+      }).returning()
+
+      await tx.update(guests)
+        .set({ household_id: household.id, updated_at: new Date() })
+        .where(inArray(guests.id, data.guestIds))
+
+      return household.id
+    })
+
+    const token = await RSVPTokenService.generateHouseholdToken(householdId)
+    const household = await this.get(householdId)
+
+    return { household: household!, token }
+  }
+
+  /**
+   * Update household details. When `guestIds` is given it replaces the member list;
+   * guests dropped from the household go back to being invited on their own.
+   */
+  static async update(householdId: string, data: UpdateHousehold): Promise<HouseholdSummary | null> {
+    const updated = await db.transaction(async (tx) => {
+      const [existing] = await tx.select()
+        .from(households)
+        .where(eq(households.id, householdId))
+        .limit(1)
+      if (!existing) return null
+
+      const memberIds = data.guestIds
+      if (memberIds) {
+        await assertGuestsInEvent(tx, existing.event_id, memberIds)
+
+        const current = await tx.select({ id: guests.id })
+          .from(guests)
+          .where(eq(guests.household_id, householdId))
+        const removedIds = current.map(m => m.id).filter(id => !memberIds.includes(id))
+
+        if (removedIds.length > 0) {
+          await tx.update(guests)
+            .set({ household_id: null, updated_at: new Date() })
+            .where(inArray(guests.id, removedIds))
+        }
+        await tx.update(guests)
+          .set({ household_id: householdId, updated_at: new Date() })
+          .where(inArray(guests.id, memberIds))
+      }
+
+      const members = memberIds ?? (await tx.select({ id: guests.id })
+        .from(guests)
+        .where(eq(guests.household_id, householdId))).map(m => m.id)
+      if (data.primaryGuestId && !members.includes(data.primaryGuestId)) {
+        throw new HouseholdError('Primary contact must be a member of the household')
+      }
+
+      // Fall back to the first member when the previous primary contact was removed
+      const primaryGuestId = data.primaryGuestId ?? existing.primary_guest_id
+      const updateData: Partial<NewHousehold> = {
+        primary_guest_id: primaryGuestId && members.includes(primaryGuestId) ? primaryGuestId : members[0] ?? null,
+        updated_at: new Date()
+      }
+      if (data.name !== undefined) updateData.name = data.name
+      if (data.address !== undefined) updateData.address = data.address
+      if (data.notes !== undefined) updateData.notes = data.notes
+
+      await tx.update(households)
+        .set(updateData)
+        .where(eq(households.id, householdId))
+
+      return householdId
+    })
+
+    return updated ? this.get(updated) : null
+  }
+
+  /**
+   * Delete a household. Members stay on the guest list and their shared token stops working;
+   * issue them individual tokens to invite them again.
+   */
+  static async delete(householdId: string): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      await tx.update(guests)
+        .set({ household_id: null, updated_at: new Date() })
+        .where(eq(guests.household_id, householdId))
+
+      const deleted = await tx.delete(households)
+        .where(eq(households.id, householdId))
+        .returning({ id: households.id })
+
+      return deleted.length > 0
+    })
+  }
+}
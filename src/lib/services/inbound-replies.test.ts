@@ -0,0 +1,83 @@
+import { randomUUID } from 'crypto'
+import { describe, it, expect } from 'vitest'
+import { eq } from 'drizzle-orm'
+import { db } from '@/lib/db'
+import { guests, households } from '@/lib/db/schema'
+import { InboundReplyService } from '@/lib/services/inbound-replies'
+import { createEvent, createGuest } from '@/test/fixtures'
+
+async function createParty(size: number, values: { plus_one_allowed?: boolean } = {}) {
+  const event = await createEvent()
+  const [household] = await db.insert(households).values({ event_id: event.id, name: 'The Testers' }).returning()
+  const members = []
+  for (let index = 0; index < size; index++) {
+    members.push(await createGuest(event.id, {
+      household_id: household.id,
+      email: `${randomUUID()}@example.com`,
+      ...values
+    }))
+  }
+  return members
+}
+
+async function reply(from: string, text: string) {
+  return InboundReplyService.receive({ channel: 'email', from, text })
+}
+
+async function getStatus(guestId: string) {
+  const [guest] = await db.select({ status: guests.rsvp_status }).from(guests).where(eq(guests.id, guestId))
+  return guest.status
+}
+
+describe('InboundReplyService.receive', () => {
+  it('applies a yes that counts the whole household', async () => {
+    const [sender, partner] = await createParty(2)
+
+    const result = await reply(sender.email!, 'Yes, 2 of us!')
+
+    expect(result.outcome).toBe('applied')
+    expect(await getStatus(sender.id)).toBe('attending')
+    expect(await getStatus(partner.id)).toBe('attending')
+  })
+
+  it('applies a plural decline to the whole household', async () => {
+    const [sender, partner] = await createParty(2)
+
+    const result = await reply(sender.email!, "Sorry, we can't make it")
+
+    expect(result.outcome).toBe('applied')
+    expect(await getStatus(sender.id)).toBe('not_attending')
+    expect(await getStatus(partner.id)).toBe('not_attending')
+  })
+
+  it('counts numbers beyond the household as plus-ones', async () => {
+    const [sender] = await createParty(1, { plus_one_allowed: true })
+
+    expect((await reply(sender.email!, 'Yes, 2 of us!')).outcome).toBe('applied')
+  })
+
+  it('leaves a yes without a number for review when the household has several members', async () => {
+    const [sender, partner] = await createParty(2)
+
+    const result = await reply(sender.email!, 'Yes!')
+
+    expect(result.outcome).toBe('pending')
+    expect(await getStatus(partner.id)).toBe('pending')
+  })
+
+  it('leaves a party size that only covers part of the household for review', async () => {
+    const [sender] = await createParty(3)
+
+    expect((await reply(sender.email!, 'Yes, 2 of us!')).outcome).toBe('pending')
+  })
+
+  it('leaves a party size larger than the household and its plus-ones for review', async () => {
+    const [sender] = await createParty(2)
+
+    expect((await reply(sender.email!, 'Yes, 3 of us!')).outcome).toBe('pending')
+  })
+
+  it('ignores a reply from an unknown sender', async () => {
+    expect((await reply('nobody@example.com', 'Yes!')).outcome).toBe('unmatched')
+  })
+})
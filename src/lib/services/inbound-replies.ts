@@ -0,0 +1,456 @@
+import { db, type DbExecutor } from '@/lib/db'
+import {
+  auditLogs,
+  communications,
+  guests,
+  households,
+  rsvpResponses,
+  type Communication,
+  type Guest,
+  type RsvpResponse
+} from '@/lib/db/schema'
+import { normalizeEmail } from '@/lib/services/email-suppression'
+import { normalizePhone, type MessageChannel } from '@/lib/services/messaging'
+import { parseReply, parseReplyAddress, type ParsedReply } from '@/lib/services/reply-parser'
+import { canGuestRespond, getRsvpWindow, recordResponse, setAttendance } from '@/lib/services/rsvp'
+import { CeremonyCapacityService } from '@/lib/services/ceremony-capacity'
+import { eq, and, ne, desc, asc, inArray, isNotNull, max, sql } from 'drizzle-orm'
+
+export interface InboundMessage {
+  channel: MessageChannel
+  // An email address (display names are fine) or a phone number
+  from: string
+  // The addresses the email was sent to; a reply address carries the message it answers
+  to?: string[]
+  subject?: string | null
+  text: string
+  // The provider's id for this message, used to ignore repeated webhook deliveries
+  messageId?: string | null
+  // Provider ids of the messages this one answers (In-Reply-To and References headers,
+  // the WhatsApp context id)
+  inReplyTo?: string[]
+}
+
+export type InboundReplyOutcome = 'unmatched' | 'duplicate' | 'pending' | 'applied'
+
+export interface InboundReplyResult {
+  outcome: InboundReplyOutcome
+  guestId?: string
+  responseId?: string
+  parsed?: ParsedReply
+}
+
+// Stored in response_data.reply
+export interface ReplyDetails {
+  channel: MessageChannel
+  from: string
+  subject: string | null
+  text: string
+  messageId: string | null
+  communicationId: string | null
+  confidence: number
+  signals: string[]
+}
+
+// response_data of a reply; the attendance fields match a stage 1 answer
+interface ReplyData {
+  guestId: string
+  attending: boolean | null
+  partySize: number | null
+  plusOneAttending?: boolean
+  customFields: Record<string, string | boolean>
+  reply: ReplyDetails
+}
+
+export interface ReplyReview {
+  id: string
+  status: string
+  source: string
+  receivedAt: Date
+  reviewedAt: Date | null
+  guest: {
+    id: string
+    firstName: string
+    lastName: string
+    rsvpStatus: string
+  }
+  household: { id: string; name: string; members: number } | null
+  attending: boolean | null
+  partySize: number | null
+  reply: ReplyDetails
+}
+
+export interface ReplyCorrection {
+  attending?: boolean
+  partySize?: number | null
+}
+
+export class InboundReplyError extends Error {}
+export class InboundReplyNotFoundError extends Error {}
+
+// Replies read at least this confidently are applied without review
+function getAutoApplyConfidence(): number {
+  const value = Number(process.env.INBOUND_AUTO_APPLY_CONFIDENCE)
+  return Number.isFinite(value) && value > 0 ? value : 0.8
+}
+
+/**
+ * The outgoing message a reply answers: named by the reply address, by the provider ids
+ * the reply quotes, or else the latest message sent to the sender on that channel
+ */
+async function findThread(message: InboundMessage): Promise<Communication | null> {
+  for (const address of message.to ?? []) {
+    const communicationId = parseReplyAddress(address)
+    if (!communicationId) continue
+    const [communication] = await db.select()
+      .from(communications)
+      .where(eq(communications.id, communicationId))
+      .limit(1)
+    if (communication) return communication
+  }
+
+  const quoted = (message.inReplyTo ?? []).map(id => id.replace(/^<|>$/g, '')).filter(Boolean)
+  if (quoted.length > 0) {
+    const [communication] = await db.select()
+      .from(communications)
+      .where(inArray(communications.provider_message_id, quoted))
+      .orderBy(desc(communications.created_at))
+      .limit(1)
+    if (communication) return communication
+  }
+
+  const address = message.channel === 'email' ? normalizeEmail(message.from) : normalizePhone(message.from)
+  if (!address) return null
+  const [latest] = await db.select()
+    .from(communications)
+    .where(and(
+      message.channel === 'email'
+        ? sql`lower(${communications.recipient_email}) = ${address}`
+        : eq(communications.recipient_phone, address),
+      isNotNull(communications.recipient_id)
+    ))
+    .orderBy(desc(communications.created_at))
+    .limit(1)
+  return latest ?? null
+}
+
+/**
+ * The guest who sent a reply: the recipient of the message it answers, or the only guest
+ * with the sender's address or phone number. A sender shared by guests of several events
+ * cannot be matched without a thread.
+ */
+async function findSender(message: InboundMessage): Promise<{ guest: Guest; communication: Communication | null } | null> {
+  const communication = await findThread(message)
+  if (communication?.recipient_id) {
+    const [guest] = await db.select().from(guests).where(eq(guests.id, communication.recipient_id)).limit(1)
+    if (guest) return { guest, communication }
+  }
+
+  let candidates: Guest[] = []
+  if (message.channel === 'email') {
+    candidates = await db.select()
+      .from(guests)
+      .where(sql`lower(${guests.email}) = ${normalizeEmail(message.from)}`)
+  } else {
+    const phone = normalizePhone(message.from)
+    if (!phone) return null
+    // Stored numbers are formatted freely, so compare the trailing digits and check in full after
+    const rows = await db.select()
+      .from(guests)
+      .where(sql`regexp_replace(${guests.phone}, '[^0-9]', '', 'g') like ${`%${phone.slice(-9)}`}`)
+    candidates = rows.filter(guest => normalizePhone(guest.phone) === phone)
+  }
+
+  return candidates.length === 1 ? { guest: candidates[0], communication: null } : null
+}
+
+/**
+ * The people a reply answers for: the sender's household, sender first, or just the sender
+ */
+async function getParty(executor: DbExecutor, guest: Guest): Promise<Guest[]> {
+  if (!guest.household_id) return [guest]
+
+  const [household] = await executor.select({ primaryGuestId: households.primary_guest_id })
+    .from(households)
+    .where(eq(households.id, guest.household_id))
+    .limit(1)
+  const members = await executor.select()
+    .from(guests)
+    .where(eq(guests.household_id, guest.household_id))
+    .orderBy(asc(guests.created_at))
+
+  const rank = (member: Guest) => member.id === guest.id ? 0 : member.id === household?.primaryGuestId ? 1 : 2
+  return members.sort((a, b) => rank(a) - rank(b))
+}
+
+interface AttendancePlan {
+  members: Array<{ guestId: string; attending: boolean; plusOneAttending?: boolean }>
+  // The reply accounts for everyone in the party without guessing
+  exact: boolean
+}
+
+/**
+ * Turn an answer into attendance for each member. A decline, or a yes without a number,
+ * covers the whole party. Saying how many are coming marks that many members (the sender
+ * first) as attending and the rest as not; numbers beyond the household are their
+ * plus-ones. Null when the number cannot fit the party.
+ */
+function planAttendance(
+  party: Guest[],
+  attending: boolean,
+  partySize: number | null,
+  plural: boolean
+): AttendancePlan | null {
+  if (!attending) {
+    return { members: party.map(member => ({ guestId: member.id, attending: false })), exact: party.length === 1 || plural }
+  }
+  if (partySize === null) {
+    return { members: party.map(member => ({ guestId: member.id, attending: true })), exact: party.length === 1 }
+  }
+
+  const extra = partySize - party.length
+  const plusOnes = party.filter(member => member.plus_one_allowed)
+  if (extra > plusOnes.length) return null
+
+  const bringing = new Set(plusOnes.slice(0, Math.max(0, extra)).map(member => member.id))
+  return {
+    members: party.map((member, index) => ({
+      guestId: member.id,
+      attending: index < partySize,
+      plusOneAttending: member.plus_one_allowed ? bringing.has(member.id) : undefined
+    })),
+    exact: partySize >= party.length
+  }
+}
+
+/**
+ * Apply a reply: set each member's attendance, record a stage 1 answer for the others, and
+ * mark the reply itself applied. Seats freed by members who decline go to the waitlist.
+ */
+async function applyReply(
+  tx: DbExecutor,
+  response: RsvpResponse,
+  data: ReplyData,
+  plan: AttendancePlan,
+  reviewedBy: string | null
+) {
+  const capacities = await CeremonyCapacityService.lockCeremonies(tx, response.event_id)
+
+  for (const member of plan.members) {
+    await setAttendance(tx, member.guestId, member.attending)
+    if (member.guestId === response.guest_id) continue
+
+    await recordResponse(tx, member.guestId, response.event_id, 1, {
+      guestId: member.guestId,
+      attending: member.attending,
+      plusOneAttending: member.plusOneAttending,
+      customFields: {},
+      replyId: response.id
+    }, { ipAddress: null, userAgent: null, source: data.reply.channel })
+  }
+
+  const own = plan.members.find(member => member.guestId === response.guest_id)!
+  await tx.update(rsvpResponses)
+    .set({
+      status: 'applied',
+      response_data: JSON.stringify({ ...data, attending: own.attending, plusOneAttending: own.plusOneAttending }),
+      reviewed_by: reviewedBy,
+      reviewed_at: reviewedBy ? new Date() : null
+    })
+    .where(eq(rsvpResponses.id, response.id))
+
+  const promotions = await CeremonyCapacityService.promoteAll(tx, capacities)
+  await CeremonyCapacityService.queuePromotionEmails(tx, promotions)
+
+  await tx.insert(auditLogs).values({
+    event_id: response.event_id,
+    user_id: reviewedBy,
+    action: reviewedBy ? 'rsvp.reply_approved' : 'rsvp.reply_applied',
+    resource: 'rsvp_response',
+    resource_id: response.id,
+    details: JSON.stringify({
+      guestId: response.guest_id,
+      channel: data.reply.channel,
+      attending: data.attending,
+      partySize: data.partySize,
+      confidence: data.reply.confidence,
+      members: plan.members
+    }),
+    severity: 'low'
+  })
+}
+
+export class InboundReplyService {
+  /**
+   * Handle a reply to one of our messages: match it to a guest, read attendance and party
+   * size from it, and store it as a pending RSVP answer. Replies read confidently enough,
+   * that account for the whole party and arrive while the party can still answer are
+   * applied straight away. Webhook retries of a message already stored are ignored.
+   */
+  static async receive(message: InboundMessage): Promise<InboundReplyResult> {
+    const sender = await findSender(message)
+    if (!sender) return { outcome: 'unmatched' }
+    const { guest, communication } = sender
+
+    if (message.messageId) {
+      const [existing] = await db.select({ id: rsvpResponses.id })
+        .from(rsvpResponses)
+        .where(and(
+          eq(rsvpResponses.guest_id, guest.id),
+          ne(rsvpResponses.source, 'web'),
+          sql`${rsvpResponses.response_data}::jsonb -> 'reply' ->> 'messageId' = ${message.messageId}`
+        ))
+        .limit(1)
+      if (existing) return { outcome: 'duplicate', guestId: guest.id, responseId: existing.id }
+    }
+
+    const parsed = parseReply(message.text)
+    const data: ReplyData = {
+      guestId: guest.id,
+      attending: parsed.attending,
+      partySize: parsed.partySize,
+      customFields: {},
+      reply: {
+        channel: message.channel,
+        from: message.from,
+        subject: message.subject ?? null,
+        text: parsed.text || message.text,
+        messageId: message.messageId ?? null,
+        communicationId: communication?.id ?? null,
+        confidence: parsed.confidence,
+        signals: parsed.signals
+      }
+    }
+
+    const window = await getRsvpWindow(guest.event_id)
+
+    return db.transaction(async (tx) => {
+      const responseId = await recordResponse(tx, guest.id, guest.event_id, 1, data, {
+        ipAddress: null,
+        userAgent: null,
+        source: message.channel
+      }, 'pending')
+
+      const members = await getParty(tx, guest)
+      const plan = parsed.attending === null
+        ? null
+        : planAttendance(members, parsed.attending, parsed.partySize, parsed.plural)
+      const canApply = !!plan && plan.exact &&
+        parsed.confidence >= getAutoApplyConfidence() &&
+        !!window && members.every(member => canGuestRespond(window, member.rsvp_deadline_override))
+
+      if (!canApply) return { outcome: 'pending' as const, guestId: guest.id, responseId, parsed }
+
+      const [response] = await tx.select().from(rsvpResponses).where(eq(rsvpResponses.id, responseId))
+      await applyReply(tx, response, data, plan, null)
+      return { outcome: 'applied' as const, guestId: guest.id, responseId, parsed }
+    })
+  }
+
+  /**
+   * Replies received for an event, newest first
+   */
+  static async list(eventId: string, status: 'pending' | 'applied' | 'rejected' = 'pending'): Promise<ReplyReview[]> {
+    const rows = await db.select({ response: rsvpResponses, guest: guests, household: households })
+      .from(rsvpResponses)
+      .innerJoin(guests, eq(guests.id, rsvpResponses.guest_id))
+      .leftJoin(households, eq(households.id, guests.household_id))
+      .where(and(
+        eq(rsvpResponses.event_id, eventId),
+        eq(rsvpResponses.status, status),
+        ne(rsvpResponses.source, 'web'),
+        sql`${rsvpResponses.response_data}::jsonb ? 'reply'`
+      ))
+      .orderBy(desc(rsvpResponses.submitted_at))
+
+    const householdIds = Array.from(new Set(rows.map(row => row.household?.id).filter((id): id is string => !!id)))
+    const sizes = new Map<string, number>()
+    if (householdIds.length > 0) {
+      const counts = await db.select({ householdId: guests.household_id, total: sql<number>`count(*)`.mapWith(Number) })
+        .from(guests)
+        .where(inArray(guests.household_id, householdIds))
+        .groupBy(guests.household_id)
+      for (const row of counts) sizes.set(row.householdId!, row.total)
+    }
+
+    return rows.map(({ response, guest, household }) => {
+      const data = JSON.parse(response.response_data) as ReplyData
+      return {
+        id: response.id,
+        status: response.status,
+        source: response.source,
+        receivedAt: response.submitted_at,
+        reviewedAt: response.reviewed_at,
+        guest: {
+          id: guest.id,
+          firstName: guest.first_name,
+          lastName: guest.last_name,
+          rsvpStatus: guest.rsvp_status
+        },
+        household: household ? { id: household.id, name: household.name, members: sizes.get(household.id) ?? 1 } : null,
+        attending: data.attending,
+        partySize: data.partySize,
+        reply: data.reply
+      }
+    })
+  }
+
+  /**
+   * Apply a pending reply, with the planner's corrections to what the parser read.
+   * Refused when the guest has answered again since the reply arrived.
+   */
+  static async approve(eventId: string, responseId: string, reviewedBy: string, correction: ReplyCorrection = {}): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [response] = await tx.select()
+        .from(rsvpResponses)
+        .where(and(eq(rsvpResponses.id, responseId), eq(rsvpResponses.event_id, eventId)))
+        .for('update')
+      if (!response || response.source === 'web') throw new InboundReplyNotFoundError('Reply not found')
+      if (response.status !== 'pending') throw new InboundReplyError(`This reply has already been ${response.status}`)
+
+      const [newer] = await tx.select({ version: max(rsvpResponses.version) })
+        .from(rsvpResponses)
+        .where(and(
+          eq(rsvpResponses.guest_id, response.guest_id),
+          eq(rsvpResponses.stage, 1),
+          eq(rsvpResponses.status, 'applied')
+        ))
+      if ((newer?.version ?? 0) > response.version) {
+        throw new InboundReplyError('The guest has answered again since this reply arrived')
+      }
+
+      const stored = JSON.parse(response.response_data) as ReplyData
+      const data: ReplyData = {
+        ...stored,
+        attending: correction.attending ?? stored.attending,
+        partySize: correction.partySize !== undefined ? correction.partySize : stored.partySize
+      }
+      if (data.attending === null) {
+        throw new InboundReplyError('Say whether the guest is attending before approving the reply')
+      }
+
+      const [guest] = await tx.select().from(guests).where(eq(guests.id, response.guest_id))
+      const members = await getParty(tx, guest)
+      // The planner has read the reply, so it is taken to answer for everyone
+      const plan = planAttendance(members, data.attending, data.attending ? data.partySize : null, true)
+      if (!plan) {
+        throw new InboundReplyError(`A party size of ${data.partySize} is more than this invitation allows`)
+      }
+
+      await applyReply(tx, response, data, plan, reviewedBy)
+    })
+  }
+
+  static async reject(eventId: string, responseId: string, reviewedBy: string): Promise<void> {
+    const [rejected] = await db.update(rsvpResponses)
+      .set({ status: 'rejected', reviewed_by: reviewedBy, reviewed_at: new Date() })
+      .where(and(
+        eq(rsvpResponses.id, responseId),
+        eq(rsvpResponses.event_id, eventId),
+        eq(rsvpResponses.status, 'pending'),
+        ne(rsvpResponses.source, 'web')
+      ))
+      .returning({ id: rsvpResponses.id })
+    if (!rejected) throw new InboundReplyNotFoundError('Pending reply not found')
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import { db } from '@/lib/db'
+import { households } from '@/lib/db/schema'
+import { InvitationQrService } from '@/lib/services/invitation-qr'
+import { RSVPTokenService } from '@/lib/services/rsvp-tokens'
+import { createEvent, createGuest } from '@/test/fixtures'
+
+function tokenOf(rsvpUrl: string) {
+  return rsvpUrl.split('/rsvp/')[1]
+}
+
+async function isValid(token: string) {
+  return (await RSVPTokenService.validateToken(token)).isValid
+}
+
+describe('InvitationQrService.issueForEvent', () => {
+  it('prints one card per household and keeps emailed links working', async () => {
+    const event = await createEvent()
+    const [household] = await db.insert(households).values({ event_id: event.id, name: 'The Smiths' }).returning()
+    const first = await createGuest(event.id, { household_id: household.id, last_name: 'Smith' })
+    await createGuest(event.id, { household_id: household.id, last_name: 'Smith' })
+    const single = await createGuest(event.id, { first_name: 'Jo', last_name: 'Adams' })
+    const householdLink = await RSVPTokenService.generateToken(first.id)
+    const singleLink = await RSVPTokenService.generateToken(single.id)
+
+    const invitations = await InvitationQrService.issueForEvent(event.id, { includeCode: true })
+
+    expect(invitations.map(invitation => invitation.name)).toEqual(['Jo Adams', 'The Smiths'])
+    expect(invitations.every(invitation => invitation.code)).toBe(true)
+    for (const invitation of invitations) {
+      expect(await isValid(tokenOf(invitation.rsvpUrl))).toBe(true)
+    }
+    expect(await isValid(householdLink)).toBe(true)
+    expect(await isValid(singleLink)).toBe(true)
+  })
+
+  it('replaces the earlier printed link when one guest is printed again', async () => {
+    const event = await createEvent()
+    const guest = await createGuest(event.id)
+    const emailed = await RSVPTokenService.generateToken(guest.id)
+    const [labels] = await InvitationQrService.issueForEvent(event.id)
+
+    const reprinted = await InvitationQrService.issueForGuest(guest.id)
+
+    expect(await isValid(emailed)).toBe(true)
+    expect(await isValid(tokenOf(labels.rsvpUrl))).toBe(false)
+    expect(await isValid(tokenOf(reprinted.rsvpUrl))).toBe(true)
+  })
+})
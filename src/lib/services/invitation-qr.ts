@@ -0,0 +1,291 @@
+import QRCode from 'qrcode'
+import JSZip from 'jszip'
+import { PDFDocument, PageSizes, StandardFonts, rgb, type PDFFont } from 'pdf-lib'
+import { db } from '@/lib/db'
+import { guests, households } from '@/lib/db/schema'
+import { RSVPTokenService } from '@/lib/services/rsvp-tokens'
+import { toCsv } from '@/lib/services/guest-export'
+import { eq, and, inArray, asc, type SQL } from 'drizzle-orm'
+import type { QrImageFormat } from '@/lib/validations/schemas'
+
+export class InvitationQrError extends Error {}
+export class InvitationQrNotFoundError extends Error {}
+
+export interface PrintedInvitation {
+  eventId: string
+  // The guest the link was issued through; household members share the household's link
+  guestId: string
+  householdId: string | null
+  // The guest's name, or the household's name for a household card
+  name: string
+  // The name without characters file systems reject, unique within one export
+  fileName: string
+  rsvpUrl: string
+  code: string | null
+}
+
+export interface IssueInvitationOptions {
+  guestIds?: string[]
+  includeCode?: boolean
+  expirationDays?: number
+}
+
+export interface LabelSheetOptions {
+  paperSize?: 'letter' | 'a4'
+  includeCode?: boolean
+}
+
+// Medium error correction still scans off a slightly scuffed card without making the code dense
+const QR_OPTIONS = { errorCorrectionLevel: 'M' as const, margin: 4 }
+
+const PAPER_SIZES: Record<NonNullable<LabelSheetOptions['paperSize']>, [number, number]> = {
+  letter: PageSizes.Letter,
+  a4: PageSizes.A4
+}
+
+// Label grid in PDF points (1/72 inch)
+const LABEL_COLUMNS = 3
+const LABEL_ROWS = 5
+const PAGE_MARGIN = 36
+const LABEL_PADDING = 8
+const NAME_SIZE = 10
+const CODE_SIZE = 9
+
+function toFileName(name: string): string {
+  const safe = name
+    .replace(/[\\/:*?"<>|\u0000-\u001f]/g, '')
+    .trim()
+    .replace(/\s+/g, '-')
+    .replace(/^\.+/, '')
+  return safe || 'guest'
+}
+
+/**
+ * Number repeated file names, so two guests called the same get two files
+ */
+function dedupeFileNames(names: string[]): string[] {
+  const seen = new Map<string, number>()
+  return names.map(name => {
+    const key = name.toLowerCase()
+    const count = (seen.get(key) ?? 0) + 1
+    seen.set(key, count)
+    return count === 1 ? name : `${name}-${count}`
+  })
+}
+
+/**
+ * The standard PDF fonts only cover Latin-1, so fall back to the unaccented letter,
+ * then to '?', for characters they can't draw
+ */
+function printable(font: PDFFont, text: string): string {
+  return Array.from(text.normalize('NFC')).map(char => {
+    for (const candidate of [char, char.normalize('NFD').charAt(0)]) {
+      try {
+        font.encodeText(candidate)
+        return candidate
+      } catch {
+        // Try the next candidate
+      }
+    }
+    return '?'
+  }).join('')
+}
+
+function fitText(font: PDFFont, text: string, size: number, maxWidth: number): string {
+  let fitted = printable(font, text)
+  if (font.widthOfTextAtSize(fitted, size) <= maxWidth) return fitted
+  while (fitted.length > 1 && font.widthOfTextAtSize(`${fitted}...`, size) > maxWidth) {
+    fitted = fitted.slice(0, -1)
+  }
+  return `${fitted.trimEnd()}...`
+}
+
+export class InvitationQrService {
+  /**
+   * A QR code for the URL as an SVG document
+   */
+  static async toSvg(url: string): Promise<string> {
+    return QRCode.toString(url, { ...QR_OPTIONS, type: 'svg' })
+  }
+
+  /**
+   * A QR code for the URL as a PNG image, `width` pixels square
+   */
+  static async toPng(url: string, width: number = 600): Promise<Buffer> {
+    return QRCode.toBuffer(url, { ...QR_OPTIONS, type: 'png', width })
+  }
+
+  /**
+   * Issue the RSVP links to print on an event's invitations, one per household and one
+   * per guest outside a household, sorted by name. Links already sent by email keep
+   * working; each party's earlier printed link and code stop working. All links are
+   * issued together, or none are.
+   */
+  static async issueForEvent(eventId: string, options: IssueInvitationOptions = {}): Promise<PrintedInvitation[]> {
+    const conditions: Array<SQL | undefined> = [eq(guests.event_id, eventId)]
+    if (options.guestIds) {
+      if (options.guestIds.length === 0) {
+        throw new InvitationQrError('Select at least one guest to print')
+      }
+      conditions.push(inArray(guests.id, options.guestIds))
+    }
+
+    const rows = await db.select({
+      guest: guests,
+      householdName: households.name
+    })
+      .from(guests)
+      .leftJoin(households, eq(guests.household_id, households.id))
+      .where(and(...conditions))
+      .orderBy(asc(guests.last_name), asc(guests.first_name))
+
+    // A household's new printed link revokes the one before it, so each household gets one card
+    const cards = new Map<string, { guestId: string; householdId: string | null; name: string }>()
+    for (const { guest, householdName } of rows) {
+      const key = guest.household_id ?? guest.id
+      if (cards.has(key)) continue
+      cards.set(key, {
+        guestId: guest.id,
+        householdId: guest.household_id,
+        name: guest.household_id && householdName
+          ? householdName
+          : `${guest.first_name} ${guest.last_name}`
+      })
+    }
+
+    if (cards.size === 0) {
+      throw new InvitationQrError('No guests to print')
+    }
+
+    const invitations = Array.from(cards.values())
+    const issued = await RSVPTokenService.generateBatchTokens(
+      invitations.map(card => card.guestId),
+      options.expirationDays,
+      options.includeCode ?? false
+    )
+
+    const fileNames = dedupeFileNames(invitations.map(card => toFileName(card.name)))
+    return invitations.map((card, index) => ({
+      ...card,
+      eventId,
+      fileName: fileNames[index],
+      rsvpUrl: issued[index].rsvpUrl,
+      code: issued[index].code
+    }))
+  }
+
+  /**
+   * Issue the RSVP link to print on one guest's invitation; a household member gets
+   * the household's card
+   */
+  static async issueForGuest(guestId: string, options: Omit<IssueInvitationOptions, 'guestIds'> = {}): Promise<PrintedInvitation> {
+    const [guest] = await db.select({ eventId: guests.event_id })
+      .from(guests)
+      .where(eq(guests.id, guestId))
+      .limit(1)
+    if (!guest) throw new InvitationQrNotFoundError('Guest not found')
+
+    const [invitation] = await this.issueForEvent(guest.eventId, { ...options, guestIds: [guestId] })
+    return invitation
+  }
+
+  /**
+   * A ZIP with one QR image per invitation, named after the guest, and an
+   * invitations.csv listing each file's guest, code and link for mail merges
+   */
+  static async buildZip(invitations: PrintedInvitation[], imageFormat: QrImageFormat = 'png'): Promise<Buffer> {
+    const zip = new JSZip()
+
+    for (const invitation of invitations) {
+      const image = imageFormat === 'svg'
+        ? await this.toSvg(invitation.rsvpUrl)
+        : await this.toPng(invitation.rsvpUrl)
+      zip.file(`${invitation.fileName}.${imageFormat}`, image)
+    }
+
+    zip.file('invitations.csv', `\uFEFF${toCsv([
+      ['File', 'Name', 'Code', 'RSVP Link'],
+      ...invitations.map(invitation => [
+        `${invitation.fileName}.${imageFormat}`,
+        invitation.name,
+        invitation.code,
+        invitation.rsvpUrl
+      ])
+    ])}`)
+
+    return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' })
+  }
+
+  /**
+   * A PDF of cut-out labels, a grid of QR codes with the guest's name under each
+   * and the printed code when asked
+   */
+  static async buildLabelSheet(invitations: PrintedInvitation[], options: LabelSheetOptions = {}): Promise<Uint8Array> {
+    const { paperSize = 'letter', includeCode = false } = options
+    const [pageWidth, pageHeight] = PAPER_SIZES[paperSize]
+
+    const pdf = await PDFDocument.create()
+    pdf.setTitle('Invitation QR codes')
+    const nameFont = await pdf.embedFont(StandardFonts.Helvetica)
+    const codeFont = await pdf.embedFont(StandardFonts.Courier)
+
+    const labelWidth = (pageWidth - PAGE_MARGIN * 2) / LABEL_COLUMNS
+    const labelHeight = (pageHeight - PAGE_MARGIN * 2) / LABEL_ROWS
+    const textHeight = NAME_SIZE + 6 + (includeCode ? CODE_SIZE + 4 : 0)
+    const qrSize = Math.min(labelWidth, labelHeight - textHeight) - LABEL_PADDING * 2
+    const textWidth = labelWidth - LABEL_PADDING * 2
+    const perPage = LABEL_COLUMNS * LABEL_ROWS
+
+    let page = pdf.addPage([pageWidth, pageHeight])
+    for (let index = 0; index < invitations.length; index++) {
+      const slot = index % perPage
+      if (index > 0 && slot === 0) {
+        page = pdf.addPage([pageWidth, pageHeight])
+      }
+
+      const invitation = invitations[index]
+      const x = PAGE_MARGIN + (slot % LABEL_COLUMNS) * labelWidth
+      const top = pageHeight - PAGE_MARGIN - Math.floor(slot / LABEL_COLUMNS) * labelHeight
+
+      // A faint outline to cut along
+      page.drawRectangle({
+        x,
+        y: top - labelHeight,
+        width: labelWidth,
+        height: labelHeight,
+        borderColor: rgb(0.85, 0.85, 0.85),
+        borderWidth: 0.5
+      })
+
+      const image = await pdf.embedPng(await this.toPng(invitation.rsvpUrl))
+      page.drawImage(image, {
+        x: x + (labelWidth - qrSize) / 2,
+        y: top - LABEL_PADDING - qrSize,
+        width: qrSize,
+        height: qrSize
+      })
+
+      const name = fitText(nameFont, invitation.name, NAME_SIZE, textWidth)
+      let baseline = top - LABEL_PADDING - qrSize - NAME_SIZE - 2
+      page.drawText(name, {
+        x: x + (labelWidth - nameFont.widthOfTextAtSize(name, NAME_SIZE)) / 2,
+        y: baseline,
+        size: NAME_SIZE,
+        font: nameFont
+      })
+
+      if (includeCode && invitation.code) {
+        const code = `Code ${invitation.code}`
+        baseline -= CODE_SIZE + 4
+        page.drawText(code, {
+          x: x + (labelWidth - codeFont.widthOfTextAtSize(code, CODE_SIZE)) / 2,
+          y: baseline,
+          size: CODE_SIZE,
+          font: codeFont
+        })
+      }
+    }
+
+    return pdf.save()
+  }
+}
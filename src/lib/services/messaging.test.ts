@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { TwilioChannel, WhatsAppBusinessChannel, normalizePhone } from '@/lib/services/messaging'
+
+const createTwilioMessage = vi.hoisted(() => vi.fn())
+vi.mock('twilio', () => ({
+  default: () => ({ messages: { create: createTwilioMessage } })
+}))
+
+function stubGraphApi(status: number, body: unknown) {
+  const fetchMock = vi.fn(async () => new Response(JSON.stringify(body), { status }))
+  vi.stubGlobal('fetch', fetchMock)
+  return fetchMock
+}
+
+function sentBody(fetchMock: ReturnType<typeof stubGraphApi>) {
+  const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit]
+  return JSON.parse(init.body as string)
+}
+
+describe('WhatsAppBusinessChannel', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('sends free text when there is no template', async () => {
+    const fetchMock = stubGraphApi(200, { messages: [{ id: 'wamid.1' }] })
+    const result = await new WhatsAppBusinessChannel('123', 'token').send({ to: '+447700900123', text: 'Hello' })
+
+    expect(result).toMatchObject({ success: true, messageId: 'wamid.1' })
+    expect(sentBody(fetchMock)).toMatchObject({
+      to: '447700900123',
+      type: 'text',
+      text: { body: 'Hello' }
+    })
+  })
+
+  it('sends the approved template with its parameters', async () => {
+    const fetchMock = stubGraphApi(200, { messages: [{ id: 'wamid.2' }] })
+    await new WhatsAppBusinessChannel('123', 'token').send({
+      to: '+447700900123',
+      text: 'Hello Ana',
+      template: { name: 'rsvp_reminder', language: 'en_GB', parameters: ['Ana', 'https://wedding.test/rsvp/x'] }
+    })
+
+    const body = sentBody(fetchMock)
+    expect(body.type).toBe('template')
+    expect(body.text).toBeUndefined()
+    expect(body.template).toEqual({
+      name: 'rsvp_reminder',
+      language: { code: 'en_GB' },
+      components: [{
+        type: 'body',
+        parameters: [{ type: 'text', text: 'Ana' }, { type: 'text', text: 'https://wedding.test/rsvp/x' }]
+      }]
+    })
+  })
+
+  it('treats free text outside the session window as refused', async () => {
+    stubGraphApi(400, { error: { code: 131047, message: 'Re-engagement message' } })
+    const result = await new WhatsAppBusinessChannel('123', 'token').send({ to: '+447700900123', text: 'Hello' })
+
+    expect(result).toMatchObject({ success: false, permanent: true, error: 'Re-engagement message' })
+  })
+
+  it('retries errors on the provider side', async () => {
+    stubGraphApi(500, { error: { code: 131000, message: 'Something went wrong' } })
+    const result = await new WhatsAppBusinessChannel('123', 'token').send({ to: '+447700900123', text: 'Hello' })
+
+    expect(result.permanent).toBe(false)
+  })
+})
+
+describe('normalizePhone', () => {
+  afterEach(() => {
+    delete process.env.DEFAULT_PHONE_COUNTRY_CODE
+  })
+
+  it('keeps international numbers and drops formatting', () => {
+    expect(normalizePhone('+44 7700-900123')).toBe('+447700900123')
+    expect(normalizePhone('0044 7700 900123')).toBe('+447700900123')
+  })
+
+  it('adds the default country code to national numbers', () => {
+    expect(normalizePhone('07700 900123')).toBeNull()
+    process.env.DEFAULT_PHONE_COUNTRY_CODE = '44'
+    expect(normalizePhone('07700 900123')).toBe('+447700900123')
+  })
+})
+
+describe('TwilioChannel', () => {
+  const contentSid = 'HX0123456789abcdef0123456789abcdef'
+  const channel = () => new TwilioChannel('whatsapp', 'AC123', 'token', '+14155238886')
+
+  afterEach(() => {
+    createTwilioMessage.mockReset()
+  })
+
+  it('sends an approved template through the Content API', async () => {
+    createTwilioMessage.mockResolvedValue({ sid: 'SM1' })
+
+    const result = await channel().send({
+      to: '+447700900123',
+      text: 'Hello Sam',
+      template: { name: contentSid, language: 'en', parameters: ['Sam', '1 June'] }
+    })
+
+    expect(result).toMatchObject({ success: true, messageId: 'SM1' })
+    expect(createTwilioMessage).toHaveBeenCalledWith({
+      from: 'whatsapp:+14155238886',
+      to: 'whatsapp:+447700900123',
+      contentSid,
+      contentVariables: JSON.stringify({ 1: 'Sam', 2: '1 June' })
+    })
+  })
+
+  it('refuses a template that is not named by its Content SID', async () => {
+    const result = await channel().send({
+      to: '+447700900123',
+      text: 'Hello Sam',
+      template: { name: 'rsvp_reminder', language: 'en', parameters: [] }
+    })
+
+    expect(result).toMatchObject({ success: false, permanent: true })
+    expect(createTwilioMessage).not.toHaveBeenCalled()
+  })
+
+  it('treats free text outside the session window as permanent', async () => {
+    createTwilioMessage.mockRejectedValue(Object.assign(new Error('Outside the allowed window'), { code: 63016 }))
+
+    const result = await channel().send({ to: '+447700900123', text: 'Hello Sam' })
+
+    expect(result).toMatchObject({ success: false, permanent: true })
+  })
+})
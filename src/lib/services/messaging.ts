@@ -0,0 +1,351 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import twilio from 'twilio'
+import {
+  emailService,
+  getAllowedRecipients,
+  suppressedResult,
+  type SendResult,
+  type SendOptions
+} from '@/lib/services/email'
+import type { Communication } from '@/lib/db/schema'
+
+export type MessageChannel = Communication['type']
+
+/**
+ * A template approved in WhatsApp Business Manager. Business-initiated messages outside
+ * the 24 hours after a guest last wrote to us must be one of these.
+ */
+export interface WhatsAppTemplate {
+  name: string
+  // The language code it was approved in, e.g. 'en_US'
+  language: string
+  // Values for its {{1}}, {{2}}... placeholders, in order
+  parameters: string[]
+}
+
+export interface OutgoingMessage {
+  // An email address, or an E.164 phone number for WhatsApp and SMS
+  to: string
+  text: string
+  // WhatsApp only: sent instead of the text, which the guest can only be sent while
+  // their session window is open
+  template?: WhatsAppTemplate
+  // Email only
+  subject?: string
+  html?: string
+  from?: string
+  replyTo?: string
+  headers?: Record<string, string>
+  attachments?: Array<{
+    filename: string
+    content: Buffer | string
+    contentType?: string
+  }>
+}
+
+/**
+ * A way of reaching a guest. Every channel reports the outcome as a SendResult, so the
+ * outbox retries and gives up on messages the same way whichever channel carries them.
+ */
+export interface MessagingChannel {
+  channel: MessageChannel
+  // Whether a provider is configured for the channel
+  isAvailable(): boolean
+  send(message: OutgoingMessage, options?: SendOptions): Promise<SendResult>
+}
+
+const GRAPH_API_URL = 'https://graph.facebook.com/v20.0'
+
+// Cloud API errors caused by the recipient or the message: not on WhatsApp, free text
+// outside the 24 hour session window, unsupported message type, invalid parameters, or a
+// template that does not exist or does not match its parameters
+const WHATSAPP_PERMANENT_ERRORS = new Set<number>([100, 131026, 131047, 131051, 132000, 132001])
+
+// Twilio errors caused by the recipient or the message: invalid number, opted out, not a
+// mobile number, WhatsApp free text outside the 24 hour session window
+const TWILIO_PERMANENT_ERRORS = new Set<number>([21211, 21610, 21614, 63016])
+
+// Twilio sends approved WhatsApp templates through its Content API, named by Content SID
+const TWILIO_CONTENT_SID = /^HX[0-9a-f]{32}$/i
+
+const E164_PATTERN = /^\+[1-9]\d{6,14}$/
+
+/**
+ * Normalize a phone number to E.164. Numbers without a country code take
+ * DEFAULT_PHONE_COUNTRY_CODE (e.g. "44"), dropping a leading trunk zero; without it
+ * they cannot be used and null is returned.
+ */
+export function normalizePhone(phone: string | null | undefined): string | null {
+  if (!phone) return null
+
+  let digits = phone.trim().replace(/[\s().-]/g, '')
+  if (digits.startsWith('00')) digits = `+${digits.slice(2)}`
+  if (!digits.startsWith('+')) {
+    const countryCode = process.env.DEFAULT_PHONE_COUNTRY_CODE?.replace(/\D/g, '')
+    if (!countryCode) return null
+    digits = `+${countryCode}${digits.replace(/^0/, '')}`
+  }
+
+  return E164_PATTERN.test(digits) ? digits : null
+}
+
+// The Cloud API message body: the approved template when there is one, otherwise free text
+function whatsAppContent(message: OutgoingMessage) {
+  if (!message.template) {
+    return { type: 'text', text: { preview_url: true, body: message.text } }
+  }
+
+  const { name, language, parameters } = message.template
+  return {
+    type: 'template',
+    template: {
+      name,
+      language: { code: language },
+      components: parameters.length > 0
+        ? [{ type: 'body', parameters: parameters.map(text => ({ type: 'text', text })) }]
+        : undefined
+    }
+  }
+}
+
+// WhatsApp Business Cloud API
+export class WhatsAppBusinessChannel implements MessagingChannel {
+  channel = 'whatsapp' as const
+
+  constructor(private phoneNumberId: string, private accessToken: string) {}
+
+  isAvailable(): boolean {
+    return true
+  }
+
+  async send(message: OutgoingMessage): Promise<SendResult> {
+    try {
+      const response = await fetch(`${GRAPH_API_URL}/${this.phoneNumberId}/messages`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.accessToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          messaging_product: 'whatsapp',
+          recipient_type: 'individual',
+          to: message.to.replace(/^\+/, ''),
+          ...whatsAppContent(message)
+        })
+      })
+      const body = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        const code = body?.error?.code
+        return {
+          success: false,
+          error: body?.error?.message ?? `WhatsApp API returned ${response.status}`,
+          permanent: typeof code === 'number' && WHATSAPP_PERMANENT_ERRORS.has(code),
+          provider: 'whatsapp_business'
+        }
+      }
+
+      return {
+        success: true,
+        messageId: body?.messages?.[0]?.id,
+        provider: 'whatsapp_business'
+      }
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message,
+        provider: 'whatsapp_business'
+      }
+    }
+  }
+}
+
+// Twilio, for SMS or WhatsApp through a Twilio sender
+export class TwilioChannel implements MessagingChannel {
+  private client: ReturnType<typeof twilio>
+
+  constructor(
+    public channel: 'sms' | 'whatsapp',
+    accountSid: string,
+    authToken: string,
+    private fromNumber: string
+  ) {
+    this.client = twilio(accountSid, authToken)
+  }
+
+  isAvailable(): boolean {
+    return true
+  }
+
+  async send(message: OutgoingMessage): Promise<SendResult> {
+    const provider = this.channel === 'sms' ? 'twilio_sms' : 'twilio_whatsapp'
+    const address = (number: string) => this.channel === 'whatsapp' ? `whatsapp:${number}` : number
+
+    const template = this.channel === 'whatsapp' ? message.template : undefined
+    if (template && !TWILIO_CONTENT_SID.test(template.name)) {
+      return {
+        success: false,
+        error: `WhatsApp template "${template.name}" must be named by its Twilio Content SID (HX...) to send through Twilio`,
+        permanent: true,
+        provider
+      }
+    }
+
+    try {
+      const result = await this.client.messages.create({
+        from: address(this.fromNumber),
+        to: address(message.to),
+        ...(template
+          ? {
+            contentSid: template.name,
+            contentVariables: JSON.stringify(Object.fromEntries(
+              template.parameters.map((value, index) => [String(index + 1), value])
+            ))
+          }
+          : { body: message.text })
+      })
+
+      return {
+        success: true,
+        messageId: result.sid,
+        provider
+      }
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message,
+        permanent: typeof error.code === 'number' && TWILIO_PERMANENT_ERRORS.has(error.code),
+        provider
+      }
+    }
+  }
+}
+
+/**
+ * Development and test stand-in: appends each message as a JSON line to
+ * <MESSAGING_FILE_DIR>/<channel>.jsonl (./.messages by default) instead of sending it.
+ * Email is checked against the suppression list first, as the email service does.
+ */
+export class FileChannel implements MessagingChannel {
+  constructor(public channel: MessageChannel, private directory: string) {}
+
+  isAvailable(): boolean {
+    return true
+  }
+
+  async send(message: OutgoingMessage, options: SendOptions = {}): Promise<SendResult> {
+    if (this.channel === 'email' && options.eventId) {
+      const allowed = await getAllowedRecipients(message.to, options.eventId)
+      if (allowed.length === 0) return suppressedResult()
+    }
+
+    const messageId = `file-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`
+    try {
+      await fs.mkdir(this.directory, { recursive: true })
+      await fs.appendFile(
+        path.join(this.directory, `${this.channel}.jsonl`),
+        JSON.stringify({
+          id: messageId,
+          sentAt: new Date().toISOString(),
+          ...message,
+          attachments: message.attachments?.map(attachment => attachment.filename)
+        }) + '\n'
+      )
+      return { success: true, messageId, provider: 'file' }
+    } catch (error: any) {
+      return { success: false, error: error.message, provider: 'file' }
+    }
+  }
+}
+
+// Stands in for a channel that has no provider configured
+class UnavailableChannel implements MessagingChannel {
+  constructor(public channel: MessageChannel) {}
+
+  isAvailable(): boolean {
+    return false
+  }
+
+  async send(): Promise<SendResult> {
+    return {
+      success: false,
+      error: `No ${this.channel} provider configured`,
+      provider: 'none'
+    }
+  }
+}
+
+function isEnabled(flag: string | undefined): boolean {
+  return flag === undefined || flag === 'true'
+}
+
+// WHATSAPP_PROVIDER picks the adapter; without it the Business API is used when its
+// credentials are set, then Twilio. The web_js provider is not supported for sending.
+function createWhatsAppChannel(): MessagingChannel {
+  if (!isEnabled(process.env.ENABLE_WHATSAPP)) return new UnavailableChannel('whatsapp')
+
+  const provider = process.env.WHATSAPP_PROVIDER
+  const { WHATSAPP_BUSINESS_PHONE_NUMBER_ID, WHATSAPP_BUSINESS_ACCESS_TOKEN } = process.env
+  const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_WHATSAPP_NUMBER } = process.env
+
+  if (
+    (!provider || provider === 'business_api') &&
+    WHATSAPP_BUSINESS_PHONE_NUMBER_ID &&
+    WHATSAPP_BUSINESS_ACCESS_TOKEN
+  ) {
+    return new WhatsAppBusinessChannel(WHATSAPP_BUSINESS_PHONE_NUMBER_ID, WHATSAPP_BUSINESS_ACCESS_TOKEN)
+  }
+  if (
+    (!provider || provider === 'twilio') &&
+    TWILIO_ACCOUNT_SID &&
+    TWILIO_AUTH_TOKEN &&
+    TWILIO_WHATSAPP_NUMBER
+  ) {
+    return new TwilioChannel('whatsapp', TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_WHATSAPP_NUMBER)
+  }
+  return new UnavailableChannel('whatsapp')
+}
+
+function createSmsChannel(): MessagingChannel {
+  if (!isEnabled(process.env.ENABLE_SMS)) return new UnavailableChannel('sms')
+
+  const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_SMS_NUMBER } = process.env
+  if (TWILIO_ACCOUNT_SID && TWILIO_AUTH_TOKEN && TWILIO_SMS_NUMBER) {
+    return new TwilioChannel('sms', TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_SMS_NUMBER)
+  }
+  return new UnavailableChannel('sms')
+}
+
+// MESSAGING_PROVIDER=file writes every channel's messages to files instead of sending them
+function createChannel(channel: MessageChannel): MessagingChannel {
+  if (process.env.MESSAGING_PROVIDER === 'file') {
+    return new FileChannel(channel, process.env.MESSAGING_FILE_DIR || path.join(process.cwd(), '.messages'))
+  }
+  if (channel === 'whatsapp') return createWhatsAppChannel()
+  if (channel === 'sms') return createSmsChannel()
+  return emailService
+}
+
+const channels = new Map<MessageChannel, MessagingChannel>()
+
+/**
+ * The configured channel, created on first use
+ */
+export function getMessagingChannel(channel: MessageChannel): MessagingChannel {
+  if (!channels.has(channel)) {
+    channels.set(channel, createChannel(channel))
+  }
+  return channels.get(channel)!
+}
+
+/**
+ * Where a guest can be reached on a channel, or null when they cannot
+ */
+export function getChannelAddress(
+  guest: { email: string | null; email_invalid: boolean; phone: string | null },
+  channel: MessageChannel
+): string | null {
+  if (channel === 'email') return guest.email && !guest.email_invalid ? guest.email : null
+  return normalizePhone(guest.phone)
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import { db } from '@/lib/db'
+import { auditLogs, communicationTemplates, reminderRules, reminderRuleSends } from '@/lib/db/schema'
+import { ReminderRuleService, getDueOccurrence } from '@/lib/services/reminder-rules'
+import { createEvent, createGuest } from '@/test/fixtures'
+import { and, eq } from 'drizzle-orm'
+
+describe('getDueOccurrence', () => {
+  const rule = { days_before: '[7, 2]', send_time: '09:00' }
+  // 9am in New York is 13:00 UTC in June
+  const anchor = {
+    key: 'rsvp_deadline',
+    ceremonyId: null,
+    date: '2030-06-10',
+    endsAt: new Date('2030-06-11T04:00:00Z')
+  }
+  const due = (now: string) => getDueOccurrence(rule, anchor, 'America/New_York', new Date(now))
+
+  it('is due from the send time in the event time zone', () => {
+    expect(due('2030-06-03T12:59:00Z')).toBeNull()
+    expect(due('2030-06-03T13:00:00Z')).toEqual({
+      key: 'rsvp_deadline:7',
+      ceremonyId: null,
+      daysBefore: 7,
+      dueAt: new Date('2030-06-03T13:00:00Z')
+    })
+  })
+
+  it('skips earlier reminders that were missed', () => {
+    expect(due('2030-06-09T00:00:00Z')?.key).toBe('rsvp_deadline:2')
+  })
+
+  it('stops once the anchor has passed', () => {
+    expect(due('2030-06-11T03:59:00Z')?.key).toBe('rsvp_deadline:2')
+    expect(due('2030-06-11T04:00:00Z')).toBeNull()
+  })
+})
+
+describe('ReminderRuleService.runOccurrence', () => {
+  async function createRule() {
+    const event = await createEvent()
+    const [template] = await db.insert(communicationTemplates).values({
+      event_id: event.id,
+      name: 'Nudge',
+      type: 'email',
+      category: 'reminder',
+      subject: 'Please reply',
+      content: '<p>Please reply</p>'
+    }).returning()
+    const [rule] = await db.insert(reminderRules).values({
+      event_id: event.id,
+      name: 'Nudge',
+      anchor: 'rsvp_deadline',
+      days_before: '[7]',
+      rsvp_status: 'pending',
+      template_id: template.id
+    }).returning()
+    return { event, rule }
+  }
+
+  const occurrence = { key: 'rsvp_deadline:7', ceremonyId: null, daysBefore: 7, dueAt: new Date('2030-05-25T13:00:00Z') }
+
+  async function getRuns(ruleId: string) {
+    const rows = await db.select().from(auditLogs)
+      .where(and(eq(auditLogs.action, 'reminder_rule.run'), eq(auditLogs.resource_id, ruleId)))
+    return rows.map(row => JSON.parse(row.details!))
+  }
+
+  it('reminds each guest once when runs overlap', async () => {
+    const { event, rule } = await createRule()
+    await createGuest(event.id, { email: 'a@example.com' })
+    await createGuest(event.id, { email: 'b@example.com' })
+
+    const results = await Promise.all([
+      ReminderRuleService.runOccurrence(rule, occurrence),
+      ReminderRuleService.runOccurrence(rule, occurrence)
+    ])
+
+    expect(results.reduce((total, result) => total + result.reminded, 0)).toBe(2)
+    const sends = await db.select().from(reminderRuleSends).where(eq(reminderRuleSends.rule_id, rule.id))
+    expect(sends).toHaveLength(2)
+  })
+
+  it('logs a run that finds nobody left to remind', async () => {
+    const { event, rule } = await createRule()
+    await createGuest(event.id, { email: 'a@example.com' })
+
+    await ReminderRuleService.runOccurrence(rule, occurrence)
+    const second = await ReminderRuleService.runOccurrence(rule, occurrence)
+
+    expect(second).toEqual({ reminded: 0, messages: 0, skipped: 0, failed: false })
+    const runs = await getRuns(rule.id)
+    expect(runs.map(run => run.guests).sort()).toEqual([0, 1])
+    expect(runs.every(run => run.occurrence === 'rsvp_deadline:7')).toBe(true)
+  })
+})
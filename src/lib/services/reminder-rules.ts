@@ -0,0 +1,421 @@
+import { db } from '@/lib/db'
+import {
+  auditLogs,
+  ceremonies,
+  guestCeremonies,
+  guests,
+  reminderRules,
+  reminderRuleSends,
+  type ReminderRule
+} from '@/lib/db/schema'
+import { CampaignService, type CampaignSkip } from '@/lib/services/campaigns'
+import { CommunicationTemplateService } from '@/lib/services/templates'
+import { getRsvpWindow, isEventClosed } from '@/lib/services/rsvp'
+import { endOfDayInTimezone, zonedTimeToUtc } from '@/lib/timezone'
+import { type CreateReminderRule, type UpdateReminderRule } from '@/lib/validations/schemas'
+import { eq, and, asc, inArray, isNull, notExists, count } from 'drizzle-orm'
+
+export type ReminderAnchor = 'rsvp_deadline' | 'ceremony'
+
+// One reminder of a rule: a number of days before a particular deadline or ceremony
+export interface ReminderOccurrence {
+  // Stored with each send, e.g. 'rsvp_deadline:7' or 'ceremony:<id>:3'
+  key: string
+  ceremonyId: string | null
+  daysBefore: number
+  dueAt: Date
+}
+
+export interface ReminderRunResult {
+  rulesChecked: number
+  remindersDue: number
+  guestsReminded: number
+  messages: number
+  skipped: number
+  failed: number
+}
+
+export class ReminderRuleError extends Error {}
+export class ReminderRuleNotFoundError extends Error {}
+
+// A point in time reminders count back from
+interface ReminderAnchorPoint {
+  key: string
+  ceremonyId: string | null
+  date: string
+  // Reminders are pointless once this has passed
+  endsAt: Date
+}
+
+export function parseDaysBefore(value: string): number[] {
+  try {
+    const parsed = JSON.parse(value)
+    return Array.isArray(parsed) ? parsed.filter((day): day is number => Number.isInteger(day) && day >= 0) : []
+  } catch {
+    return []
+  }
+}
+
+export function serializeReminderRule(rule: ReminderRule, remindedGuests: number = 0) {
+  return {
+    id: rule.id,
+    eventId: rule.event_id,
+    name: rule.name,
+    anchor: rule.anchor as ReminderAnchor,
+    ceremonyId: rule.ceremony_id,
+    daysBefore: parseDaysBefore(rule.days_before),
+    sendTime: rule.send_time,
+    rsvpStatus: rule.rsvp_status,
+    templateId: rule.template_id,
+    isActive: rule.is_active,
+    lastRunAt: rule.last_run_at,
+    remindedGuests,
+    createdAt: rule.created_at,
+    updatedAt: rule.updated_at
+  }
+}
+
+// Calendar arithmetic on YYYY-MM-DD dates
+function subtractDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day - days)).toISOString().slice(0, 10)
+}
+
+/**
+ * The reminder of a rule that is due for an anchor: the one closest to the anchor whose send
+ * time has passed, provided the anchor is still ahead. Earlier reminders that were missed,
+ * for example while the scheduler was down, are not sent late.
+ */
+export function getDueOccurrence(
+  rule: Pick<ReminderRule, 'days_before' | 'send_time'>,
+  anchor: ReminderAnchorPoint,
+  timezone: string,
+  now: Date = new Date()
+): ReminderOccurrence | null {
+  if (now >= anchor.endsAt) return null
+
+  let due: ReminderOccurrence | null = null
+  for (const daysBefore of parseDaysBefore(rule.days_before)) {
+    const dueAt = zonedTimeToUtc(subtractDays(anchor.date, daysBefore), rule.send_time, timezone)
+    if (dueAt <= now && (!due || dueAt > due.dueAt)) {
+      due = { key: `${anchor.key}:${daysBefore}`, ceremonyId: anchor.ceremonyId, daysBefore, dueAt }
+    }
+  }
+  return due
+}
+
+async function getAnchors(rule: ReminderRule, timezone: string, closesAt: Date | null, deadline: string | null) {
+  if (rule.anchor === 'rsvp_deadline') {
+    return deadline && closesAt
+      ? [{ key: 'rsvp_deadline', ceremonyId: null, date: deadline, endsAt: closesAt }]
+      : []
+  }
+
+  const rows = await db.select({
+    id: ceremonies.id,
+    date: ceremonies.ceremony_date,
+    startTime: ceremonies.start_time
+  })
+    .from(ceremonies)
+    .where(and(
+      eq(ceremonies.event_id, rule.event_id),
+      rule.ceremony_id ? eq(ceremonies.id, rule.ceremony_id) : undefined
+    ))
+
+  return rows.map(ceremony => ({
+    key: `ceremony:${ceremony.id}`,
+    ceremonyId: ceremony.id,
+    date: ceremony.date,
+    endsAt: ceremony.startTime
+      ? zonedTimeToUtc(ceremony.date, ceremony.startTime, timezone)
+      : endOfDayInTimezone(ceremony.date, timezone)
+  }))
+}
+
+/**
+ * Guests the reminder applies to who have not had it yet. For ceremony reminders aimed at
+ * attending guests, only those attending that ceremony count.
+ */
+async function findRecipients(rule: ReminderRule, occurrence: ReminderOccurrence): Promise<string[]> {
+  const rows = await db.select({ id: guests.id })
+    .from(guests)
+    .where(and(
+      eq(guests.event_id, rule.event_id),
+      rule.rsvp_status ? eq(guests.rsvp_status, rule.rsvp_status) : undefined,
+      occurrence.ceremonyId && rule.rsvp_status === 'attending'
+        ? inArray(guests.id, db.select({ id: guestCeremonies.guest_id })
+          .from(guestCeremonies)
+          .where(and(
+            eq(guestCeremonies.ceremony_id, occurrence.ceremonyId),
+            eq(guestCeremonies.attendance_status, 'yes'),
+            eq(guestCeremonies.is_waitlisted, false)
+          )))
+        : undefined,
+      notExists(db.select({ id: reminderRuleSends.id })
+        .from(reminderRuleSends)
+        .where(and(
+          eq(reminderRuleSends.rule_id, rule.id),
+          eq(reminderRuleSends.guest_id, guests.id),
+          eq(reminderRuleSends.occurrence, occurrence.key)
+        )))
+    ))
+
+  return rows.map(row => row.id)
+}
+
+// Each day once, furthest from the anchor first
+function normalizeDays(days: number[]): number[] {
+  return Array.from(new Set(days)).sort((a, b) => b - a)
+}
+
+// Skipped guest ids by reason
+function groupSkipped(skipped: CampaignSkip[]): Record<string, string[]> {
+  const groups: Record<string, string[]> = {}
+  for (const skip of skipped) {
+    groups[skip.reason] = [...(groups[skip.reason] ?? []), skip.guestId]
+  }
+  return groups
+}
+
+async function logRun(rule: ReminderRule, details: Record<string, unknown>, severity: 'low' | 'medium' = 'low') {
+  await db.insert(auditLogs).values({
+    event_id: rule.event_id,
+    action: 'reminder_rule.run',
+    resource: 'reminder_rule',
+    resource_id: rule.id,
+    details: JSON.stringify(details),
+    severity
+  })
+}
+
+async function assertReferences(
+  eventId: string,
+  anchor: ReminderAnchor,
+  ceremonyId: string | null | undefined,
+  templateId: string | null | undefined
+) {
+  if (ceremonyId) {
+    if (anchor !== 'ceremony') {
+      throw new ReminderRuleError('A ceremony can only be chosen for ceremony reminders')
+    }
+    const [ceremony] = await db.select({ id: ceremonies.id })
+      .from(ceremonies)
+      .where(and(eq(ceremonies.id, ceremonyId), eq(ceremonies.event_id, eventId)))
+      .limit(1)
+    if (!ceremony) throw new ReminderRuleError('Ceremony not found')
+  }
+
+  if (templateId) {
+    await CommunicationTemplateService.getForEvent(eventId, templateId)
+  }
+}
+
+export class ReminderRuleService {
+  static async list(eventId: string) {
+    const rules = await db.select()
+      .from(reminderRules)
+      .where(eq(reminderRules.event_id, eventId))
+      .orderBy(asc(reminderRules.created_at))
+    if (rules.length === 0) return []
+
+    const reminded = await db.select({ ruleId: reminderRuleSends.rule_id, total: count() })
+      .from(reminderRuleSends)
+      .where(and(
+        inArray(reminderRuleSends.rule_id, rules.map(rule => rule.id)),
+        isNull(reminderRuleSends.skipped_reason)
+      ))
+      .groupBy(reminderRuleSends.rule_id)
+    const totals = new Map(reminded.map(row => [row.ruleId, row.total]))
+
+    return rules.map(rule => serializeReminderRule(rule, totals.get(rule.id) ?? 0))
+  }
+
+  static async get(eventId: string, ruleId: string): Promise<ReminderRule> {
+    const [rule] = await db.select()
+      .from(reminderRules)
+      .where(and(eq(reminderRules.id, ruleId), eq(reminderRules.event_id, eventId)))
+      .limit(1)
+    if (!rule) throw new ReminderRuleNotFoundError('Reminder rule not found')
+    return rule
+  }
+
+  static async create(data: CreateReminderRule, createdBy?: string): Promise<ReminderRule> {
+    await assertReferences(data.eventId, data.anchor, data.ceremonyId, data.templateId)
+
+    const [rule] = await db.insert(reminderRules)
+      .values({
+        event_id: data.eventId,
+        name: data.name,
+        anchor: data.anchor,
+        ceremony_id: data.ceremonyId ?? null,
+        days_before: JSON.stringify(normalizeDays(data.daysBefore)),
+        send_time: data.sendTime,
+        rsvp_status: data.rsvpStatus ?? null,
+        template_id: data.templateId ?? null,
+        is_active: data.isActive,
+        created_by: createdBy ?? null,
+        created_at: new Date(),
+        updated_at: new Date()
+      })
+      .returning()
+    return rule
+  }
+
+  static async update(eventId: string, ruleId: string, data: UpdateReminderRule): Promise<ReminderRule> {
+    const existing = await this.get(eventId, ruleId)
+    const anchor = data.anchor ?? existing.anchor as ReminderAnchor
+    // Switching to a deadline reminder drops the ceremony
+    const ceremonyId = anchor === 'rsvp_deadline' && data.ceremonyId === undefined
+      ? null
+      : data.ceremonyId !== undefined ? data.ceremonyId : existing.ceremony_id
+    await assertReferences(eventId, anchor, ceremonyId, data.templateId)
+
+    const updates: Partial<typeof reminderRules.$inferInsert> = { anchor, ceremony_id: ceremonyId }
+    if (data.name !== undefined) updates.name = data.name
+    if (data.daysBefore !== undefined) updates.days_before = JSON.stringify(normalizeDays(data.daysBefore))
+    if (data.sendTime !== undefined) updates.send_time = data.sendTime
+    if (data.rsvpStatus !== undefined) updates.rsvp_status = data.rsvpStatus
+    if (data.templateId !== undefined) updates.template_id = data.templateId
+    if (data.isActive !== undefined) updates.is_active = data.isActive
+
+    const [rule] = await db.update(reminderRules)
+      .set({ ...updates, updated_at: new Date() })
+      .where(eq(reminderRules.id, ruleId))
+      .returning()
+    return rule
+  }
+
+  static async remove(eventId: string, ruleId: string): Promise<void> {
+    await this.get(eventId, ruleId)
+    await db.delete(reminderRules).where(eq(reminderRules.id, ruleId))
+  }
+
+  /**
+   * Evaluate every active rule and queue the reminders that are due. Each guest is claimed
+   * before anything is sent, so overlapping runs cannot remind a guest twice; a guest whose
+   * reminder fails is not retried. Every due reminder is audit logged, including those that
+   * find nobody left to remind.
+   */
+  static async runDue(now: Date = new Date()): Promise<ReminderRunResult> {
+    const totals: ReminderRunResult = { rulesChecked: 0, remindersDue: 0, guestsReminded: 0, messages: 0, skipped: 0, failed: 0 }
+
+    const rules = await db.select()
+      .from(reminderRules)
+      .where(eq(reminderRules.is_active, true))
+      .orderBy(asc(reminderRules.event_id), asc(reminderRules.created_at))
+
+    for (const rule of rules) {
+      totals.rulesChecked++
+      try {
+        const window = await getRsvpWindow(rule.event_id)
+        if (!window || isEventClosed(window)) continue
+
+        const anchors = await getAnchors(rule, window.timezone, window.closesAt, window.rsvpDeadline)
+        for (const anchor of anchors) {
+          const occurrence = getDueOccurrence(rule, anchor, window.timezone, now)
+          if (!occurrence) continue
+          totals.remindersDue++
+
+          const result = await this.runOccurrence(rule, occurrence)
+          totals.guestsReminded += result.reminded
+          totals.messages += result.messages
+          totals.skipped += result.skipped
+          if (result.failed) totals.failed++
+        }
+
+        await db.update(reminderRules)
+          .set({ last_run_at: now })
+          .where(eq(reminderRules.id, rule.id))
+      } catch (error) {
+        totals.failed++
+        console.error(`Reminder rule ${rule.id} error:`, error)
+      }
+    }
+
+    return totals
+  }
+
+  static async runOccurrence(rule: ReminderRule, occurrence: ReminderOccurrence) {
+    const details = {
+      ruleName: rule.name,
+      occurrence: occurrence.key,
+      ceremonyId: occurrence.ceremonyId,
+      daysBefore: occurrence.daysBefore,
+      dueAt: occurrence.dueAt
+    }
+
+    const candidates = await findRecipients(rule, occurrence)
+    // Another run may have claimed the same guests in the meantime
+    const claimed = candidates.length > 0
+      ? await db.insert(reminderRuleSends)
+        .values(candidates.map(guestId => ({
+          rule_id: rule.id,
+          guest_id: guestId,
+          occurrence: occurrence.key,
+          created_at: new Date()
+        })))
+        .onConflictDoNothing({ target: [reminderRuleSends.rule_id, reminderRuleSends.guest_id, reminderRuleSends.occurrence] })
+        .returning({ guestId: reminderRuleSends.guest_id })
+      : []
+    if (claimed.length === 0) {
+      await logRun(rule, { ...details, guests: 0, messages: 0 })
+      return { reminded: 0, messages: 0, skipped: 0, failed: false }
+    }
+
+    const guestIds = claimed.map(row => row.guestId)
+
+    try {
+      const result = await CampaignService.send({
+        eventId: rule.event_id,
+        templateId: rule.template_id ?? undefined,
+        category: rule.template_id ? undefined : 'reminder',
+        recipientIds: guestIds,
+        dryRun: false
+      }, rule.created_by)
+
+      for (const [reason, ids] of Object.entries(groupSkipped(result.skipped))) {
+        await db.update(reminderRuleSends)
+          .set({ skipped_reason: reason })
+          .where(and(
+            eq(reminderRuleSends.rule_id, rule.id),
+            eq(reminderRuleSends.occurrence, occurrence.key),
+            inArray(reminderRuleSends.guest_id, ids)
+          ))
+      }
+
+      await logRun(rule, {
+        ...details,
+        guests: guestIds.length,
+        messages: result.messages,
+        skipped: Object.fromEntries(
+          Object.entries(groupSkipped(result.skipped)).map(([reason, ids]) => [reason, ids.length])
+        )
+      })
+
+      return {
+        reminded: guestIds.length - result.skipped.length,
+        messages: result.messages,
+        skipped: result.skipped.length,
+        failed: false
+      }
+    } catch (error) {
+      // The guests stay claimed: some messages may already be queued
+      await db.update(reminderRuleSends)
+        .set({ skipped_reason: 'failed' })
+        .where(and(
+          eq(reminderRuleSends.rule_id, rule.id),
+          eq(reminderRuleSends.occurrence, occurrence.key),
+          inArray(reminderRuleSends.guest_id, guestIds)
+        ))
+
+      await logRun(rule, {
+        ...details,
+        guests: guestIds.length,
+        error: error instanceof Error ? error.message : String(error)
+      }, 'medium')
+
+      console.error(`Reminder rule ${rule.id} send error:`, error)
+      return { reminded: 0, messages: 0, skipped: guestIds.length, failed: true }
+    }
+  }
+}
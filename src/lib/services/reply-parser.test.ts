@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { parseReply, stripQuotedText } from '@/lib/services/reply-parser'
+
+describe('parseReply', () => {
+  it('reads a yes with a party size', () => {
+    expect(parseReply('Yes, 2 of us!')).toMatchObject({ attending: true, partySize: 2, plural: true, confidence: 0.9 })
+  })
+
+  it('reads a decline', () => {
+    expect(parseReply("Sorry, we can't make it")).toMatchObject({ attending: false, partySize: null, plural: true })
+  })
+
+  it('does not read positive idioms as a decline', () => {
+    expect(parseReply("Can't wait to celebrate with you!")).toMatchObject({ attending: true })
+  })
+
+  it('takes a party size on its own as a yes with less confidence', () => {
+    const parsed = parseReply('Party of three')
+
+    expect(parsed).toMatchObject({ attending: true, partySize: 3 })
+    expect(parsed.confidence).toBeLessThan(0.8)
+  })
+
+  it('leaves mixed answers undecided', () => {
+    expect(parseReply('Yes to the wedding but no to the welcome dinner')).toMatchObject({ attending: null, confidence: 0 })
+  })
+
+  it('gives conditional answers and questions a low confidence', () => {
+    expect(parseReply('Yes if we can find a sitter').confidence).toBeLessThan(0.8)
+    expect(parseReply('Yes! Is there parking?').confidence).toBeLessThan(0.8)
+  })
+
+  it('ignores the quoted invitation', () => {
+    const parsed = parseReply('Yes please\n\nOn Sat, 1 Jun 2030, Alex wrote:\n> No need to bring anything\n> Let us know')
+
+    expect(parsed).toMatchObject({ attending: true, text: 'Yes please' })
+  })
+})
+
+describe('stripQuotedText', () => {
+  it('drops quoted lines and signatures', () => {
+    expect(stripQuotedText('We will be there\r\n> earlier message\r\n-- \r\nSam')).toBe('We will be there')
+  })
+})
@@ -0,0 +1,188 @@
+export interface ParsedReply {
+  // null when the reply says neither, or says both
+  attending: boolean | null
+  // Number of people coming, counting the sender; null when the reply does not say
+  partySize: number | null
+  // The reply speaks for more than the sender ("we", "us", "both")
+  plural: boolean
+  // 0 to 1: how sure the parser is that it read the reply correctly
+  confidence: number
+  // The phrases the answer was read from, shown to the planner reviewing it
+  signals: string[]
+  // The reply without quoted history or signature
+  text: string
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10
+}
+
+// Phrases that contain a negative word but are positive, checked before the negative ones
+const POSITIVE_IDIOMS = [
+  /\bcan'?t wait\b/,
+  /\bcannot wait\b/,
+  /\bwouldn'?t miss (it|this)\b/,
+  /\bwould not miss (it|this)\b/,
+  /\bno doubt\b/
+]
+
+const POSITIVE_PATTERNS = [
+  /^(yes|yeah|yep|yup|yes please|absolutely|definitely|of course|sure)\b/,
+  /\b(yes|yeah|yep|yup)\b/,
+  /\b(we|i)('ll| will) (be there|come|attend|make it)\b/,
+  /\b(we|i) (are|am|'re|'m) (coming|attending|in)\b/,
+  /\bcount (me|us) in\b/,
+  /\b(happy|delighted|thrilled|pleased) to (come|attend|accept|join)\b/,
+  /\b(gladly|joyfully) accept\b/,
+  /\baccept(s|ing)?\b/,
+  /👍|✅|🎉|🥂/
+]
+
+const NEGATIVE_PATTERNS = [
+  /^(no|nope|sorry|unfortunately|sadly|regretfully)\b/,
+  /\bno\b(?! (doubt|problem|worries))/,
+  /\b(can'?t|cannot|won'?t|will not|unable to|not able to) (come|attend|make it|be there|join)\b/,
+  /\bnot (coming|attending|going to make it)\b/,
+  /\b(must|have to|regretfully) decline\b/,
+  /\bdeclin(e|es|ing)\b/,
+  /\bregrets?\b/,
+  /👎|❌/
+]
+
+// Each entry returns the party size for a match
+const PARTY_SIZE_PATTERNS: Array<[RegExp, (match: RegExpMatchArray) => number | null]> = [
+  [/\b(just|only) (me|myself|i)\b/, () => 1],
+  [/\b(both of us|the two of us|me and my (wife|husband|partner|fianc[eé]e?|girlfriend|boyfriend|plus one|\+1))\b/, () => 2],
+  [/\b(me|myself) (plus|\+) ?(one|1)\b|\bplus one\b|\+1\b/, () => 2],
+  [/\b(\d{1,2}|one|two|three|four|five|six|seven|eight|nine|ten) of us\b/, match => toNumber(match[1])],
+  [/\bparty of (\d{1,2}|one|two|three|four|five|six|seven|eight|nine|ten)\b/, match => toNumber(match[1])],
+  [/\b(we are|we're|there are|there will be|there'll be) (\d{1,2}|one|two|three|four|five|six|seven|eight|nine|ten)\b/, match => toNumber(match[2])],
+  [/\b(\d{1,2}|one|two|three|four|five|six|seven|eight|nine|ten) (people|persons|guests|adults|attending|coming)\b/, match => toNumber(match[1])]
+]
+
+// Lines where quoted history starts in common mail clients
+const QUOTE_MARKERS = [
+  /^on .+ wrote:$/i,
+  /^-{2,} ?original message ?-{2,}$/i,
+  /^from: /i,
+  /^sent from my /i,
+  /^-- ?$/
+]
+
+function toNumber(value: string): number | null {
+  const number = NUMBER_WORDS[value] ?? Number(value)
+  return Number.isInteger(number) && number > 0 ? number : null
+}
+
+/**
+ * Drop quoted history, signatures and "Sent from my phone" lines from a reply
+ */
+export function stripQuotedText(text: string): string {
+  const kept: string[] = []
+  for (const line of text.replace(/\r\n/g, '\n').split('\n')) {
+    const trimmed = line.trim()
+    if (QUOTE_MARKERS.some(marker => marker.test(trimmed))) break
+    if (trimmed.startsWith('>')) continue
+    kept.push(line)
+  }
+  return kept.join('\n').trim()
+}
+
+/**
+ * Read attendance and party size from a free-text reply such as "Yes, 2 of us!" or
+ * "Sorry, we can't make it". Rule based: replies that say both yes and no, ask a question
+ * or run long get a low confidence so a planner looks at them.
+ */
+export function parseReply(body: string): ParsedReply {
+  const text = stripQuotedText(body)
+  let normalized = text.toLowerCase().replace(/[’‘]/g, "'").replace(/\s+/g, ' ').trim()
+  const signals: string[] = []
+
+  let positive = 0
+  for (const idiom of POSITIVE_IDIOMS) {
+    const match = normalized.match(idiom)
+    if (match) {
+      signals.push(match[0])
+      positive++
+      normalized = normalized.replace(idiom, ' ')
+    }
+  }
+  // The same phrase matched by two patterns counts once
+  const countMatches = (patterns: RegExp[]) => patterns.reduce((total, pattern) => {
+    const match = normalized.match(pattern)
+    if (!match || signals.includes(match[0])) return total
+    signals.push(match[0])
+    return total + 1
+  }, 0)
+  positive += countMatches(POSITIVE_PATTERNS)
+  const negative = countMatches(NEGATIVE_PATTERNS)
+
+  let partySize: number | null = null
+  for (const [pattern, read] of PARTY_SIZE_PATTERNS) {
+    const match = normalized.match(pattern)
+    if (match) {
+      partySize = read(match)
+      if (partySize !== null) {
+        signals.push(match[0])
+        break
+      }
+    }
+  }
+
+  let attending: boolean | null = null
+  if (positive > 0 && negative === 0) attending = true
+  if (negative > 0 && positive === 0) attending = false
+  // "2 of us" on its own still means yes
+  if (positive === 0 && negative === 0 && partySize !== null) attending = true
+
+  let confidence = 0
+  if (attending !== null) {
+    const words = normalized.split(' ').filter(Boolean).length
+    confidence = 0.6
+    if (/^(yes|yeah|yep|yup|no|nope|absolutely|definitely)\b/.test(normalized)) confidence += 0.2
+    if (Math.max(positive, negative) > 1) confidence += 0.1
+    if (words <= 15) confidence += 0.1
+    if (words > 60) confidence -= 0.3
+    if (normalized.includes('?')) confidence -= 0.3
+    // Conditional answers ("yes if we can find a sitter") need a person to read them
+    if (/\b(if|maybe|might|possibly|probably|not sure|unsure|depends)\b/.test(normalized)) confidence -= 0.4
+    if (positive === 0 && negative === 0) confidence -= 0.2
+  }
+
+  return {
+    attending,
+    partySize: attending === false ? null : partySize,
+    plural: /\b(we|we're|we'll|us|our|both|all)\b/.test(normalized) || (partySize ?? 1) > 1,
+    confidence: Math.max(0, Math.min(1, Math.round(confidence * 100) / 100)),
+    signals,
+    text
+  }
+}
+
+/**
+ * Reply address that identifies the message being answered, e.g.
+ * rsvp+<communication id>@replies.example.com for INBOUND_REPLY_ADDRESS=rsvp@replies.example.com
+ */
+export function getReplyAddress(communicationId: string): string | null {
+  const address = process.env.INBOUND_REPLY_ADDRESS
+  const at = address?.lastIndexOf('@') ?? -1
+  if (!address || at <= 0) return null
+  return `${address.slice(0, at)}+${communicationId}${address.slice(at)}`
+}
+
+/**
+ * The communication id carried by a reply address from getReplyAddress
+ */
+export function parseReplyAddress(address: string): string | null {
+  const match = address.match(/\+([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})@/i)
+  return match ? match[1].toLowerCase() : null
+}
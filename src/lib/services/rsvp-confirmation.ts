@@ -0,0 +1,76 @@
+import { db } from '@/lib/db'
+import { guests } from '@/lib/db/schema'
+import { CalendarService } from '@/lib/services/calendar'
+import { EmailOutbox } from '@/lib/services/email-outbox'
+import { getPartyGuestIds } from '@/lib/services/rsvp'
+import { type TokenValidationResult } from '@/lib/services/rsvp-tokens'
+import { CommunicationTemplateService } from '@/lib/services/templates'
+import { inArray } from 'drizzle-orm'
+
+type ValidToken = Required<Pick<TokenValidationResult, 'guest'>> & Pick<TokenValidationResult, 'household'>
+
+export class RsvpConfirmationService {
+  /**
+   * Queue a confirmation for a party that finished answering, with an .ics invite for the
+   * ceremonies they accepted. It goes to the guest holding the RSVP link, or else the first
+   * member with a working address. Nothing is sent when nobody in the party is attending.
+   * The token the party answered with is used for the email's links.
+   * Returns the queued communication's id.
+   */
+  static async queue(tokenResult: ValidToken, token: string): Promise<string | null> {
+    const eventId = tokenResult.guest.eventId
+    const partyIds = getPartyGuestIds(tokenResult)
+
+    const party = await db.select({
+      id: guests.id,
+      email: guests.email,
+      emailInvalid: guests.email_invalid,
+      language: guests.language_preference,
+      rsvpStatus: guests.rsvp_status
+    })
+      .from(guests)
+      .where(inArray(guests.id, partyIds))
+    if (!party.some(member => member.rsvpStatus === 'attending')) return null
+
+    const reachable = party.filter(member => member.email && !member.emailInvalid)
+    const addressee = reachable.find(member => member.id === tokenResult.guest.id) ?? reachable[0]
+    if (!addressee) return null
+
+    const template = await CommunicationTemplateService.resolve(eventId, 'confirmation', {
+      language: addressee.language
+    })
+    if (!template) return null
+
+    const itinerary = await CalendarService.getItinerary(eventId, partyIds)
+    const context = await CommunicationTemplateService.getGuestContext(addressee.id, eventId, token)
+    const rendered = CommunicationTemplateService.render(template.source, {
+      ...context,
+      variables: {
+        ...context.variables,
+        ceremonies: itinerary.ceremonies.map(ceremony => ({
+          name: ceremony.name,
+          date: ceremony.ceremony_date,
+          time: ceremony.start_time,
+          venue: ceremony.venue_name
+        }))
+      }
+    })
+
+    return EmailOutbox.enqueue({
+      eventId,
+      to: addressee.email!,
+      subject: rendered.subject,
+      html: rendered.html!,
+      text: rendered.text,
+      recipientId: addressee.id,
+      templateId: template.templateId,
+      attachments: itinerary.ceremonies.length > 0
+        ? [{
+          filename: 'invite.ics',
+          content: itinerary.calendar,
+          contentType: 'text/calendar; charset=utf-8; method=PUBLISH'
+        }]
+        : undefined
+    })
+  }
+}
@@ -0,0 +1,157 @@
+import { randomUUID } from 'crypto'
+import { describe, it, expect } from 'vitest'
+import { db } from '@/lib/db'
+import { rsvpTokens } from '@/lib/db/schema'
+import { RSVPTokenService, normalizeRsvpCode } from '@/lib/services/rsvp-tokens'
+import { createEvent, createGuest } from '@/test/fixtures'
+import { and, eq } from 'drizzle-orm'
+
+async function isValid(token: string) {
+  return (await RSVPTokenService.validateToken(token)).isValid
+}
+
+async function activeRows(guestId: string) {
+  return db.select().from(rsvpTokens).where(and(eq(rsvpTokens.guest_id, guestId), eq(rsvpTokens.is_active, true)))
+}
+
+describe('RSVPTokenService', () => {
+  it('stores only hashes of tokens and codes', async () => {
+    const event = await createEvent()
+    const guest = await createGuest(event.id)
+    const { token, code } = await RSVPTokenService.issueToken(guest.id, { withCode: true })
+
+    const [row] = await activeRows(guest.id)
+    expect(row.token_hash).not.toContain(token)
+    expect(row.code_hash).not.toBe(code)
+    expect(await isValid(token)).toBe(true)
+  })
+
+  it('revokes earlier links when a guest is re-invited', async () => {
+    const event = await createEvent()
+    const guest = await createGuest(event.id)
+    const first = await RSVPTokenService.generateToken(guest.id)
+    const extra = await RSVPTokenService.issueLink(guest.id, null)
+    const second = await RSVPTokenService.generateToken(guest.id)
+
+    expect(await isValid(first)).toBe(false)
+    expect(await isValid(extra!)).toBe(false)
+    expect(await isValid(second)).toBe(true)
+  })
+
+  it('keeps the invitation working alongside links issued for later messages', async () => {
+    const event = await createEvent()
+    const guest = await createGuest(event.id)
+    const invitation = await RSVPTokenService.generateToken(guest.id)
+    const link = await RSVPTokenService.issueLink(guest.id, null)
+
+    expect(await isValid(invitation)).toBe(true)
+    expect(await isValid(link!)).toBe(true)
+  })
+
+  it('keeps only the latest links issued for later messages', async () => {
+    const event = await createEvent()
+    const guest = await createGuest(event.id)
+    const invitation = await RSVPTokenService.generateToken(guest.id)
+
+    const links: string[] = []
+    for (let i = 0; i < 12; i++) {
+      links.push((await RSVPTokenService.issueLink(guest.id, null))!)
+    }
+
+    expect(await activeRows(guest.id)).toHaveLength(11)
+    expect(await isValid(invitation)).toBe(true)
+    expect(await isValid(links[0])).toBe(false)
+    expect(await isValid(links[11])).toBe(true)
+  })
+
+  it('returns no link for a guest without an active invitation', async () => {
+    const event = await createEvent()
+    const guest = await createGuest(event.id)
+
+    expect(await RSVPTokenService.issueLink(guest.id, null)).toBeNull()
+  })
+
+  it('replaces an earlier printed code and its link when a new code is issued', async () => {
+    const event = await createEvent()
+    const guest = await createGuest(event.id)
+    const invitation = await RSVPTokenService.issueToken(guest.id, { withCode: true })
+    const reprint = await RSVPTokenService.issueCode(guest.id)
+    const latest = await RSVPTokenService.issueCode(guest.id)
+
+    expect(latest.isNewLink).toBe(false)
+    expect(await RSVPTokenService.exchangeCode(invitation.code!)).toBeNull()
+    expect(await RSVPTokenService.exchangeCode(reprint.code!)).toBeNull()
+    expect(await isValid(reprint.token)).toBe(false)
+    expect(await RSVPTokenService.exchangeCode(latest.code!)).not.toBeNull()
+    expect(await isValid(latest.token)).toBe(true)
+    expect(await isValid(invitation.token)).toBe(true)
+  })
+
+  it('issues an invitation with the code when the guest has none', async () => {
+    const event = await createEvent()
+    const guest = await createGuest(event.id)
+    const issued = await RSVPTokenService.issueCode(guest.id)
+
+    expect(issued.isNewLink).toBe(true)
+    expect(await isValid(issued.token)).toBe(true)
+  })
+
+  it('issues printed links without revoking the links already sent', async () => {
+    const event = await createEvent()
+    const guest = await createGuest(event.id)
+    const emailed = await RSVPTokenService.generateToken(guest.id)
+    const [first] = await RSVPTokenService.generateBatchTokens([guest.id])
+    const [second] = await RSVPTokenService.generateBatchTokens([guest.id])
+
+    expect(await isValid(emailed)).toBe(true)
+    expect(await isValid(first.token)).toBe(false)
+    expect(await isValid(second.token)).toBe(true)
+  })
+
+  it('issues none of a batch when one guest fails', async () => {
+    const event = await createEvent()
+    const guest = await createGuest(event.id)
+    await RSVPTokenService.generateToken(guest.id)
+    const [printed] = await RSVPTokenService.generateBatchTokens([guest.id])
+
+    await expect(RSVPTokenService.generateBatchTokens([guest.id, randomUUID()])).rejects.toThrow()
+
+    expect(await isValid(printed.token)).toBe(true)
+    expect(await activeRows(guest.id)).toHaveLength(2)
+  })
+
+  it('revokes the link a code was last traded for', async () => {
+    const event = await createEvent()
+    const guest = await createGuest(event.id)
+    const { code } = await RSVPTokenService.issueToken(guest.id, { withCode: true })
+    const first = await RSVPTokenService.exchangeCode(code!)
+    const second = await RSVPTokenService.exchangeCode(code!.toLowerCase())
+
+    expect(await isValid(first!)).toBe(false)
+    expect(await isValid(second!)).toBe(true)
+    expect(await activeRows(guest.id)).toHaveLength(2)
+  })
+
+  it('finds the holder of a link after it is replaced', async () => {
+    const event = await createEvent()
+    const guest = await createGuest(event.id)
+    const token = await RSVPTokenService.generateToken(guest.id)
+    await RSVPTokenService.generateToken(guest.id)
+
+    expect(await RSVPTokenService.findTokenHolder(token)).toEqual({ guestId: guest.id, householdId: null })
+    expect(await RSVPTokenService.findTokenHolder('unknown')).toBeNull()
+  })
+})
+
+describe('normalizeRsvpCode', () => {
+  it('accepts codes typed with spaces, dashes and lower case', () => {
+    expect(normalizeRsvpCode('abcd-efgh')).toBe('ABCDEFGH')
+    expect(normalizeRsvpCode(' ab cd ef ')).toBe('ABCDEF')
+  })
+
+  it('rejects characters left out of the alphabet and wrong lengths', () => {
+    expect(normalizeRsvpCode('ABCDEF0O')).toBeNull()
+    expect(normalizeRsvpCode('ABCDE')).toBeNull()
+    expect(normalizeRsvpCode('ABCDEFGHJ')).toBeNull()
+  })
+})
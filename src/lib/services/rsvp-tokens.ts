@@ -1,12 +1,13 @@
-import { randomBytes } from 'crypto'
-import { db } from '@/lib/db'
-import { guests, rsvpTokens } from '@/lib/db/schema'
-import { eq, and, lt } from 'drizzle-orm'
+import { createHmac, randomBytes, randomInt } from 'crypto'
+import { db, type DbExecutor } from '@/lib/db'
+import { guests, households, rsvpTokens, type RsvpToken } from '@/lib/db/schema'
+import { getRsvpWindow, isEventClosed, canGuestRespond, EVENT_CLOSED_MESSAGE } from '@/lib/services/rsvp'
+import { eq, and, gt, lt, or, inArray, asc, desc, isNull } from 'drizzle-orm'
 
 export interface RSVPToken {
   id: string
   guestId: string
-  token: string
+  tokenHash: string
   expiresAt: Date
   usedAt?: Date
   isActive: boolean
@@ -25,50 +26,287 @@ export interface TokenValidationResult {
     relationship: string | null
     plusOnesAllowed: boolean | null
   }
+  household?: {
+    id: string
+    name: string
+    members: Array<{
+      id: string
+      firstName: string
+      lastName: string
+      ageGroup: string | null
+      plusOneAllowed: boolean | null
+    }>
+  }
+  // Past the RSVP deadline: the guest may view their answers but not change them
+  isReadOnly?: boolean
+  rsvpDeadline?: Date | null
   error?: string
 }
 
+export interface IssuedToken {
+  token: string
+  // Short code for printed invitations, when one was asked for
+  code: string | null
+  expiresAt: Date
+}
+
+export interface TokenOptions {
+  expirationDays?: number
+  withCode?: boolean
+}
+
+// No 0/O, 1/I/L: codes are read off paper and typed by hand
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789'
+
+// Links sent in later messages that stay valid per party; older ones are revoked as new
+// ones go out, so repeated reminders do not pile up rows
+const MAX_MESSAGE_LINKS = 10
+
+function getTokenSecret(): string {
+  const secret = process.env.RSVP_TOKEN_SECRET || process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error('RSVP_TOKEN_SECRET or NEXTAUTH_SECRET must be set to issue RSVP links')
+  }
+  return secret
+}
+
+/**
+ * Tokens and codes are stored as a keyed hash. A plain hash of a short code could be
+ * reversed by trying every code, so the key stays out of the database.
+ */
+function hashToken(value: string): string {
+  return createHmac('sha256', getTokenSecret()).update(value).digest('hex')
+}
+
+// RSVP_CODE_LENGTH picks 6 to 8 characters; 8 unless set
+function getCodeLength(): number {
+  const length = Number(process.env.RSVP_CODE_LENGTH)
+  return Number.isInteger(length) ? Math.min(8, Math.max(6, length)) : 8
+}
+
+function generateCode(): string {
+  return Array.from({ length: getCodeLength() }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join('')
+}
+
+/**
+ * A typed code in canonical form (upper case, spaces and dashes dropped), or null when it
+ * cannot be a code
+ */
+export function normalizeRsvpCode(input: string): string | null {
+  const code = input.toUpperCase().replace(/[\s-]/g, '')
+  if (code.length < 6 || code.length > 8) return null
+  return Array.from(code).every(char => CODE_ALPHABET.includes(char)) ? code : null
+}
+
+function getExpiry(expirationDays: number): Date {
+  const expiresAt = new Date()
+  expiresAt.setDate(expiresAt.getDate() + expirationDays)
+  return expiresAt
+}
+
+// A code no active invitation is using
+async function generateUniqueCode(executor: DbExecutor): Promise<string> {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const code = generateCode()
+    const [taken] = await executor.select({ id: rsvpTokens.id })
+      .from(rsvpTokens)
+      .where(eq(rsvpTokens.code_hash, hashToken(code)))
+      .limit(1)
+    if (!taken) return code
+  }
+  throw new Error('Could not find a free RSVP code')
+}
+
+async function insertToken(
+  executor: DbExecutor,
+  values: {
+    guestId: string
+    householdId?: string | null
+    expiresAt: Date
+    withCode?: boolean
+    purpose?: RsvpToken['purpose']
+  }
+): Promise<IssuedToken> {
+  const token = randomBytes(32).toString('base64url')
+  const code = values.withCode ? await generateUniqueCode(executor) : null
+
+  await executor.insert(rsvpTokens).values({
+    guest_id: values.guestId,
+    household_id: values.householdId ?? null,
+    token_hash: hashToken(token),
+    code_hash: code ? hashToken(code) : null,
+    expires_at: values.expiresAt,
+    is_active: true,
+    purpose: values.purpose ?? 'invitation',
+    created_at: new Date()
+  })
+
+  return { token, code, expiresAt: values.expiresAt }
+}
+
+/**
+ * The newest active, unexpired token that answers for a guest: their own, or their
+ * household's (which is held by the primary contact)
+ */
+async function findActiveRow(
+  executor: DbExecutor,
+  guestId: string,
+  householdId: string | null
+): Promise<RsvpToken | null> {
+  const [row] = await executor.select()
+    .from(rsvpTokens)
+    .where(and(
+      eq(rsvpTokens.is_active, true),
+      gt(rsvpTokens.expires_at, new Date()),
+      householdId
+        ? or(eq(rsvpTokens.guest_id, guestId), eq(rsvpTokens.household_id, householdId))
+        : eq(rsvpTokens.guest_id, guestId)
+    ))
+    .orderBy(desc(rsvpTokens.created_at))
+    .limit(1)
+
+  return row ?? null
+}
+
+// Every row that answers for the same party as `row`
+function partyRows(row: RsvpToken) {
+  return row.household_id
+    ? eq(rsvpTokens.household_id, row.household_id)
+    : and(eq(rsvpTokens.guest_id, row.guest_id), isNull(rsvpTokens.household_id))
+}
+
+/**
+ * Revoke a party's active links of one purpose, all but the newest `keep`
+ */
+async function revokeLinks(
+  executor: DbExecutor,
+  row: RsvpToken,
+  purpose: RsvpToken['purpose'],
+  keep: number = 0
+): Promise<void> {
+  const stale = await executor.select({ id: rsvpTokens.id })
+    .from(rsvpTokens)
+    .where(and(partyRows(row), eq(rsvpTokens.purpose, purpose), eq(rsvpTokens.is_active, true)))
+    .orderBy(desc(rsvpTokens.created_at))
+    .offset(keep)
+  if (stale.length === 0) return
+
+  await executor.update(rsvpTokens)
+    .set({ is_active: false })
+    .where(inArray(rsvpTokens.id, stale.map(r => r.id)))
+}
+
 export class RSVPTokenService {
   /**
-   * Generate a secure RSVP token for a guest
+   * Generate a secure RSVP token for a guest.
+   * Guests who belong to a household share the household's token instead.
+   * Pass a transaction as `executor` to create the token as part of a larger write.
    */
-  static async generateToken(guestId: string, expirationDays: number = 30): Promise<string> {
-    try {
-      // Generate a cryptographically secure random token
-      const tokenBytes = randomBytes(32)
-      const token = tokenBytes.toString('base64url')
-
-      // Calculate expiration date
-      const expiresAt = new Date()
-      expiresAt.setDate(expiresAt.getDate() + expirationDays)
+  static async generateToken(
+    guestId: string,
+    expirationDays: number = 30,
+    executor: DbExecutor = db
+  ): Promise<string> {
+    return (await this.issueToken(guestId, { expirationDays }, executor)).token
+  }
 
+  /**
+   * Issue a new invitation for a guest, optionally with a short code, replacing the
+   * guest's (or their household's) earlier links and codes. Only hashes are stored, so
+   * the token and code can be read only from the return value.
+   */
+  static async issueToken(
+    guestId: string,
+    options: TokenOptions = {},
+    executor: DbExecutor = db
+  ): Promise<IssuedToken> {
+    const { expirationDays = 30, withCode = false } = options
+    try {
       // Check if guest exists
-      const guest = await db.select().from(guests).where(eq(guests.id, guestId)).limit(1)
+      const guest = await executor.select().from(guests).where(eq(guests.id, guestId)).limit(1)
       if (guest.length === 0) {
         throw new Error('Guest not found')
       }
 
+      if (guest[0].household_id) {
+        return await this.issueHouseholdToken(guest[0].household_id, options, executor)
+      }
+
       // Deactivate any existing tokens for this guest
-      await db.update(rsvpTokens)
+      await executor.update(rsvpTokens)
         .set({ is_active: false })
         .where(eq(rsvpTokens.guest_id, guestId))
 
-      // Create new token record
-      await db.insert(rsvpTokens).values({
-        guest_id: guestId,
-        token,
-        expires_at: expiresAt,
-        is_active: true,
-        created_at: new Date()
-      })
-
-      return token
+      return await insertToken(executor, { guestId, expiresAt: getExpiry(expirationDays), withCode })
     } catch (error) {
       console.error('Error generating RSVP token:', error)
       throw new Error('Failed to generate RSVP token')
     }
   }
 
+  /**
+   * Generate one RSVP token that answers for every member of a household.
+   * The token is issued to the household's primary contact and replaces any
+   * earlier tokens held by the household or its members.
+   */
+  static async generateHouseholdToken(
+    householdId: string,
+    expirationDays: number = 30,
+    executor: DbExecutor = db
+  ): Promise<string> {
+    return (await this.issueHouseholdToken(householdId, { expirationDays }, executor)).token
+  }
+
+  /**
+   * issueToken for a whole household
+   */
+  static async issueHouseholdToken(
+    householdId: string,
+    options: TokenOptions = {},
+    executor: DbExecutor = db
+  ): Promise<IssuedToken> {
+    const { expirationDays = 30, withCode = false } = options
+    try {
+      const household = await executor.select()
+        .from(households)
+        .where(eq(households.id, householdId))
+        .limit(1)
+      if (household.length === 0) {
+        throw new Error('Household not found')
+      }
+
+      const members = await executor.select({ id: guests.id })
+        .from(guests)
+        .where(eq(guests.household_id, householdId))
+        .orderBy(asc(guests.created_at))
+      if (members.length === 0) {
+        throw new Error('Household has no members')
+      }
+
+      const memberIds = members.map(m => m.id)
+      const holderId = household[0].primary_guest_id && memberIds.includes(household[0].primary_guest_id)
+        ? household[0].primary_guest_id
+        : memberIds[0]
+
+      await executor.update(rsvpTokens)
+        .set({ is_active: false })
+        .where(or(
+          eq(rsvpTokens.household_id, householdId),
+          inArray(rsvpTokens.guest_id, memberIds)
+        ))
+
+      return await insertToken(executor, {
+        guestId: holderId,
+        householdId,
+        expiresAt: getExpiry(expirationDays),
+        withCode
+      })
+    } catch (error) {
+      console.error('Error generating household RSVP token:', error)
+      throw new Error('Failed to generate RSVP token')
+    }
+  }
+
   /**
    * Validate and retrieve guest information by token
    */
@@ -79,7 +317,7 @@ export class RSVPTokenService {
         .select({
           tokenId: rsvpTokens.id,
           guestId: rsvpTokens.guest_id,
-          token: rsvpTokens.token,
+          householdId: rsvpTokens.household_id,
           expiresAt: rsvpTokens.expires_at,
           usedAt: rsvpTokens.used_at,
           isActive: rsvpTokens.is_active,
@@ -96,7 +334,7 @@ export class RSVPTokenService {
         })
         .from(rsvpTokens)
         .innerJoin(guests, eq(rsvpTokens.guest_id, guests.id))
-        .where(eq(rsvpTokens.token, token))
+        .where(eq(rsvpTokens.token_hash, hashToken(token)))
         .limit(1)
 
       if (result.length === 0) {
@@ -121,7 +359,7 @@ export class RSVPTokenService {
         // Automatically deactivate expired token
         await db.update(rsvpTokens)
           .set({ is_active: false })
-          .where(eq(rsvpTokens.token, token))
+          .where(eq(rsvpTokens.id, tokenRecord.tokenId))
 
         return {
           isValid: false,
@@ -129,9 +367,53 @@ export class RSVPTokenService {
         }
       }
 
+      // Cancelled or completed events no longer accept answers, even read-only
+      const window = await getRsvpWindow(tokenRecord.guest.eventId)
+      if (!window || isEventClosed(window)) {
+        return {
+          isValid: false,
+          error: EVENT_CLOSED_MESSAGE
+        }
+      }
+
+      let household: TokenValidationResult['household']
+      if (tokenRecord.householdId) {
+        const record = await db.query.households.findFirst({
+          where: eq(households.id, tokenRecord.householdId),
+          with: {
+            members: {
+              orderBy: [asc(guests.created_at)]
+            }
+          }
+        })
+
+        if (record) {
+          household = {
+            id: record.id,
+            name: record.name,
+            members: record.members.map(member => ({
+              id: member.id,
+              firstName: member.first_name,
+              lastName: member.last_name,
+              ageGroup: member.age_group,
+              plusOneAllowed: member.plus_one_allowed
+            }))
+          }
+        }
+      }
+
+      // The link stays editable while anyone in the party can still answer
+      const partyIds = household ? household.members.map(m => m.id) : [tokenRecord.guest.id]
+      const overrides = await db.select({ override: guests.rsvp_deadline_override })
+        .from(guests)
+        .where(inArray(guests.id, partyIds))
+
       return {
         isValid: true,
-        guest: tokenRecord.guest
+        guest: tokenRecord.guest,
+        household,
+        isReadOnly: !overrides.some(guest => canGuestRespond(window, guest.override)),
+        rsvpDeadline: window.closesAt
       }
     } catch (error) {
       console.error('Error validating RSVP token:', error)
@@ -143,15 +425,17 @@ export class RSVPTokenService {
   }
 
   /**
-   * Mark token as used after successful RSVP submission
+   * Mark token as used after successful RSVP submission.
+   * Later revisions keep the time of the first completed RSVP.
    */
   static async markTokenAsUsed(token: string): Promise<boolean> {
     try {
       await db.update(rsvpTokens)
         .set({ used_at: new Date() })
         .where(and(
-          eq(rsvpTokens.token, token),
-          eq(rsvpTokens.is_active, true)
+          eq(rsvpTokens.token_hash, hashToken(token)),
+          eq(rsvpTokens.is_active, true),
+          isNull(rsvpTokens.used_at)
         ))
 
       return true
@@ -161,6 +445,127 @@ export class RSVPTokenService {
     }
   }
 
+  /**
+   * Another link to a guest's current invitation, for messages sent after it was issued.
+   * Tokens are stored hashed, so the link already sent cannot be read back; the new one
+   * expires with it, keeps it working, and is revoked with it when the party is re-invited.
+   * Only the party's latest MAX_MESSAGE_LINKS of these stay valid.
+   * Null when the guest has no active invitation.
+   */
+  static async issueLink(
+    guestId: string,
+    householdId: string | null,
+    executor: DbExecutor = db
+  ): Promise<string | null> {
+    const row = await findActiveRow(executor, guestId, householdId)
+    if (!row) return null
+
+    await revokeLinks(executor, row, 'message', MAX_MESSAGE_LINKS - 1)
+    const { token } = await insertToken(executor, {
+      guestId: row.guest_id,
+      householdId: row.household_id,
+      expiresAt: row.expires_at,
+      purpose: 'message'
+    })
+    return token
+  }
+
+  /**
+   * A link for a guest's printed invitation (its QR code), with a short code when asked.
+   * Links already sent keep working; the link and code of the party's earlier printed
+   * invitation stop working. The link expires with the party's current invitation unless
+   * `expirationDays` is given. A guest without an active invitation is issued one.
+   */
+  static async issuePrinted(
+    guestId: string,
+    options: TokenOptions = {},
+    executor: DbExecutor = db
+  ): Promise<IssuedToken & { isNewLink: boolean }> {
+    const { expirationDays, withCode = false } = options
+    const [guest] = await executor.select({ householdId: guests.household_id })
+      .from(guests)
+      .where(eq(guests.id, guestId))
+      .limit(1)
+    if (!guest) throw new Error('Guest not found')
+
+    const row = await findActiveRow(executor, guestId, guest.householdId)
+    if (!row) {
+      return { ...await this.issueToken(guestId, { expirationDays, withCode }, executor), isNewLink: true }
+    }
+
+    if (withCode) {
+      await executor.update(rsvpTokens)
+        .set({ code_hash: null })
+        .where(partyRows(row))
+    }
+    await revokeLinks(executor, row, 'printed')
+
+    // The invitation's own link cannot be read back, so the printed card gets a fresh one
+    const issued = await insertToken(executor, {
+      guestId: row.guest_id,
+      householdId: row.household_id,
+      expiresAt: expirationDays ? getExpiry(expirationDays) : row.expires_at,
+      withCode,
+      purpose: 'printed'
+    })
+    return { ...issued, isNewLink: false }
+  }
+
+  /**
+   * A short code for a guest's printed invitation, with a link to the party's current
+   * invitation for its QR code; see issuePrinted
+   */
+  static async issueCode(guestId: string, executor: DbExecutor = db): Promise<IssuedToken & { isNewLink: boolean }> {
+    return this.issuePrinted(guestId, { withCode: true }, executor)
+  }
+
+  /**
+   * Trade a typed code for a link token to the same invitation, revoking the link the
+   * code was last traded for. Returns null when the code matches no active invitation;
+   * callers throttle attempts, since codes are short.
+   */
+  static async exchangeCode(input: string): Promise<string | null> {
+    const code = normalizeRsvpCode(input)
+    if (!code) return null
+
+    const [row] = await db.select()
+      .from(rsvpTokens)
+      .where(and(
+        eq(rsvpTokens.code_hash, hashToken(code)),
+        eq(rsvpTokens.is_active, true),
+        gt(rsvpTokens.expires_at, new Date())
+      ))
+      .limit(1)
+    if (!row) return null
+
+    return db.transaction(async (tx) => {
+      await revokeLinks(tx, row, 'code')
+      const { token } = await insertToken(tx, {
+        guestId: row.guest_id,
+        householdId: row.household_id,
+        expiresAt: row.expires_at,
+        purpose: 'code'
+      })
+      return token
+    })
+  }
+
+  /**
+   * The guest and household a link was issued to, even after it was replaced or expired:
+   * check-in scans printed invitations that may have been re-issued since. Null when the
+   * token was never issued.
+   */
+  static async findTokenHolder(
+    token: string,
+    executor: DbExecutor = db
+  ): Promise<{ guestId: string; householdId: string | null } | null> {
+    const [row] = await executor.select({ guestId: rsvpTokens.guest_id, householdId: rsvpTokens.household_id })
+      .from(rsvpTokens)
+      .where(eq(rsvpTokens.token_hash, hashToken(token)))
+      .limit(1)
+    return row ?? null
+  }
+
   /**
    * Generate RSVP URL for a guest
    */
@@ -170,30 +575,30 @@ export class RSVPTokenService {
   }
 
   /**
-   * Generate tokens for multiple guests in batch
+   * The page where guests type the code from a printed invitation
+   */
+  static getCodeEntryUrl(baseUrl?: string): string {
+    const domain = baseUrl || process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+    return `${domain}/rsvp`
+  }
+
+  /**
+   * Issue printed invitation links, and codes when asked, for multiple guests in one
+   * transaction: if any guest fails, none of the links are issued
    */
   static async generateBatchTokens(
-    guestIds: string[], 
-    expirationDays: number = 30
-  ): Promise<{ guestId: string; token: string; rsvpUrl: string }[]> {
-    const results = []
-
-    for (const guestId of guestIds) {
-      try {
-        const token = await this.generateToken(guestId, expirationDays)
-        const rsvpUrl = this.generateRSVPUrl(token)
-        
-        results.push({
-          guestId,
-          token,
-          rsvpUrl
-        })
-      } catch (error) {
-        console.error(`Failed to generate token for guest ${guestId}:`, error)
+    guestIds: string[],
+    expirationDays?: number,
+    withCode: boolean = false
+  ): Promise<{ guestId: string; token: string; code: string | null; rsvpUrl: string }[]> {
+    return db.transaction(async (tx) => {
+      const results = []
+      for (const guestId of guestIds) {
+        const { token, code } = await this.issuePrinted(guestId, { expirationDays, withCode }, tx)
+        results.push({ guestId, token, code, rsvpUrl: this.generateRSVPUrl(token) })
       }
-    }
-
-    return results
+      return results
+    })
   }
 
   /**
@@ -275,7 +680,7 @@ export class RSVPTokenService {
     try {
       await db.update(rsvpTokens)
         .set({ is_active: false })
-        .where(eq(rsvpTokens.token, token))
+        .where(eq(rsvpTokens.token_hash, hashToken(token)))
 
       return true
     } catch (error) {
@@ -285,14 +690,15 @@ export class RSVPTokenService {
   }
 
   /**
-   * Get all active tokens for an event
+   * Get all active tokens for an event. Links cannot be rebuilt from the stored hashes.
    */
   static async getEventTokens(eventId: string) {
     try {
       const result = await db
         .select({
-          token: rsvpTokens.token,
+          id: rsvpTokens.id,
           guestId: rsvpTokens.guest_id,
+          codeHash: rsvpTokens.code_hash,
           expiresAt: rsvpTokens.expires_at,
           usedAt: rsvpTokens.used_at,
           createdAt: rsvpTokens.created_at,
@@ -310,9 +716,9 @@ export class RSVPTokenService {
           eq(rsvpTokens.is_active, true)
         ))
 
-      return result.map(r => ({
+      return result.map(({ codeHash, ...r }) => ({
         ...r,
-        rsvpUrl: this.generateRSVPUrl(r.token),
+        hasCode: codeHash !== null,
         isExpired: new Date() > r.expiresAt,
         isUsed: r.usedAt !== null
       }))
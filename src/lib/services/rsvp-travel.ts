@@ -0,0 +1,175 @@
+import { db, type DbExecutor } from '@/lib/db'
+import { eventSettings, guestAccommodations, guestTransportation } from '@/lib/db/schema'
+import { type RsvpTravel } from '@/lib/validations/schemas'
+import { zonedTimeToUtc } from '@/lib/timezone'
+import { eq, and } from 'drizzle-orm'
+
+// Which travel questions the RSVP asks, from the event's settings
+export interface TravelRequirements {
+  accommodation: boolean
+  transportation: boolean
+}
+
+// Marks guest_accommodations / guest_transportation rows created from a guest's own answers
+const RSVP_SOURCE = 'rsvp'
+
+export async function getTravelRequirements(eventId: string, executor: DbExecutor = db): Promise<TravelRequirements> {
+  const [settings] = await executor.select({
+    accommodation: eventSettings.require_accommodation,
+    transportation: eventSettings.require_transportation
+  })
+    .from(eventSettings)
+    .where(eq(eventSettings.event_id, eventId))
+    .limit(1)
+
+  return {
+    accommodation: !!settings?.accommodation,
+    transportation: !!settings?.transportation
+  }
+}
+
+function toInstant(date: string | undefined, time: string | undefined, timezone: string): Date | null {
+  return date ? zonedTimeToUtc(date, time ?? '00:00', timezone) : null
+}
+
+async function upsertAccommodation(
+  executor: DbExecutor,
+  guestId: string,
+  values: Partial<typeof guestAccommodations.$inferInsert>
+) {
+  const [existing] = await executor.select({ id: guestAccommodations.id })
+    .from(guestAccommodations)
+    .where(and(eq(guestAccommodations.guest_id, guestId), eq(guestAccommodations.source, RSVP_SOURCE)))
+    .limit(1)
+
+  if (existing) {
+    await executor.update(guestAccommodations)
+      .set(values)
+      .where(eq(guestAccommodations.id, existing.id))
+  } else {
+    await executor.insert(guestAccommodations).values({
+      ...values,
+      guest_id: guestId,
+      source: RSVP_SOURCE,
+      booking_status: 'requested',
+      created_at: new Date()
+    })
+  }
+}
+
+async function upsertTransportation(
+  executor: DbExecutor,
+  guestId: string,
+  values: Partial<typeof guestTransportation.$inferInsert>
+) {
+  const [existing] = await executor.select({ id: guestTransportation.id })
+    .from(guestTransportation)
+    .where(and(eq(guestTransportation.guest_id, guestId), eq(guestTransportation.source, RSVP_SOURCE)))
+    .limit(1)
+
+  if (existing) {
+    await executor.update(guestTransportation)
+      .set(values)
+      .where(eq(guestTransportation.id, existing.id))
+  } else {
+    await executor.insert(guestTransportation).values({
+      ...values,
+      guest_id: guestId,
+      source: RSVP_SOURCE,
+      booking_status: 'requested',
+      created_at: new Date()
+    })
+  }
+}
+
+async function withdrawAccommodation(executor: DbExecutor, guestId: string) {
+  const [existing] = await executor.select()
+    .from(guestAccommodations)
+    .where(and(eq(guestAccommodations.guest_id, guestId), eq(guestAccommodations.source, RSVP_SOURCE)))
+    .limit(1)
+  if (!existing) return
+
+  if (existing.accommodation_id === null) {
+    await executor.delete(guestAccommodations).where(eq(guestAccommodations.id, existing.id))
+  } else {
+    // A planner already arranged a room, so leave the booking visible for them to release
+    await executor.update(guestAccommodations)
+      .set({ booking_status: 'cancelled', updated_at: new Date() })
+      .where(eq(guestAccommodations.id, existing.id))
+  }
+}
+
+async function withdrawTransportation(executor: DbExecutor, guestId: string) {
+  const [existing] = await executor.select()
+    .from(guestTransportation)
+    .where(and(eq(guestTransportation.guest_id, guestId), eq(guestTransportation.source, RSVP_SOURCE)))
+    .limit(1)
+  if (!existing) return
+
+  if (existing.transportation_id === null) {
+    await executor.delete(guestTransportation).where(eq(guestTransportation.id, existing.id))
+  } else {
+    await executor.update(guestTransportation)
+      .set({ booking_status: 'cancelled', updated_at: new Date() })
+      .where(eq(guestTransportation.id, existing.id))
+  }
+}
+
+export class RsvpTravelService {
+  /**
+   * Keep the guest's RSVP-sourced accommodation and transportation requests in step with
+   * their answers. Only the parts the event asks about are touched; a "no" withdraws a
+   * request that has not been assigned yet and cancels one that has.
+   */
+  static async saveTravel(
+    executor: DbExecutor,
+    guestId: string,
+    travel: RsvpTravel,
+    options: { requirements: TravelRequirements; timezone: string; partySize: number }
+  ): Promise<void> {
+    const { requirements, timezone, partySize } = options
+
+    if (requirements.accommodation && travel.needsAccommodation !== undefined) {
+      if (travel.needsAccommodation) {
+        await upsertAccommodation(executor, guestId, {
+          preference: travel.accommodationPreference ?? null,
+          check_in_date: travel.arrivalDate ?? null,
+          check_out_date: travel.departureDate ?? null,
+          number_of_guests: partySize,
+          special_requests: travel.accommodationNotes || null,
+          updated_at: new Date()
+        })
+      } else {
+        await withdrawAccommodation(executor, guestId)
+      }
+    }
+
+    if (requirements.transportation && travel.needsTransportation !== undefined) {
+      if (travel.needsTransportation) {
+        await upsertTransportation(executor, guestId, {
+          preference: travel.transportationType ?? null,
+          travel_mode: travel.travelMode ?? null,
+          flight_number: travel.flightDetails?.flightNumber || null,
+          airline: travel.flightDetails?.airline || null,
+          arrival_airport: travel.flightDetails?.arrivalAirport || null,
+          departure_airport: travel.flightDetails?.departureAirport || null,
+          arrival_at: toInstant(travel.arrivalDate, travel.arrivalTime, timezone),
+          departure_at: toInstant(travel.departureDate, travel.departureTime, timezone),
+          number_of_passengers: partySize,
+          special_requests: travel.transportationNotes || null,
+          updated_at: new Date()
+        })
+      } else {
+        await withdrawTransportation(executor, guestId)
+      }
+    }
+  }
+
+  /**
+   * Withdraw both requests, e.g. when the guest declines the invitation
+   */
+  static async clearTravel(executor: DbExecutor, guestId: string): Promise<void> {
+    await withdrawAccommodation(executor, guestId)
+    await withdrawTransportation(executor, guestId)
+  }
+}
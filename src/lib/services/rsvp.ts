@@ -0,0 +1,663 @@
+import { db, type DbExecutor } from '@/lib/db'
+import {
+  events,
+  eventSettings,
+  ceremonies,
+  guests,
+  guestCeremonies,
+  rsvpResponses,
+  type NewGuest
+} from '@/lib/db/schema'
+import {
+  type PartyRsvpStage1,
+  type PartyRsvpStage2,
+  type RsvpStage1,
+  type RsvpStage2,
+  type CustomFieldDefinition
+} from '@/lib/validations/schemas'
+import { type TokenValidationResult } from '@/lib/services/rsvp-tokens'
+import { CustomFieldService } from '@/lib/services/custom-fields'
+import { RsvpTravelService, getTravelRequirements, type TravelRequirements } from '@/lib/services/rsvp-travel'
+import { CeremonyCapacityService, type WaitlistEntry } from '@/lib/services/ceremony-capacity'
+import { endOfDayInTimezone, resolveTimezone } from '@/lib/timezone'
+import { eq, and, asc, inArray, max, count, sql, isNotNull } from 'drizzle-orm'
+
+// Ceremonies have no menu of their own yet, so every ceremony offers the same choices
+export const DEFAULT_MEAL_OPTIONS = ['Chicken', 'Beef', 'Fish', 'Vegetarian', 'Vegan', 'Kids Menu']
+
+export interface RsvpMember {
+  id: string
+  firstName: string
+  lastName: string
+  ageGroup: string | null
+  plusOneAllowed: boolean
+  plusOneName: string | null
+  rsvpStatus: string
+  // False once the deadline has passed, unless a planner granted this guest a late response
+  canRespond: boolean
+  stage1: RsvpStage1 | null
+  stage2: RsvpStage2 | null
+  // Ceremonies this member said yes to while they were full
+  waitlist: Array<{ ceremonyId: string; position: number }>
+}
+
+export interface RsvpInvitation {
+  event: {
+    id: string
+    name: string
+    coupleNames: string
+    weddingDate: string
+    contactEmail: string | null
+  }
+  rsvpDeadline: string | null
+  // Nobody in the party can answer any more; the page only shows what was submitted
+  isReadOnly: boolean
+  household: { id: string; name: string } | null
+  // The guest the invitation was addressed to; answers for everyone in `members`
+  respondent: { id: string; firstName: string; lastName: string }
+  members: RsvpMember[]
+  ceremonies: Array<{
+    id: string
+    name: string
+    date: string
+    startTime: string | null
+    venueName: string | null
+    venueAddress: string | null
+    description: string | null
+    isMainCeremony: boolean
+    mealOptions: string[]
+  }>
+  // The planner's extra questions, asked of every attending member in stage 1
+  customFields: CustomFieldDefinition[]
+  // Travel questions the event asks in stage 2
+  travel: TravelRequirements
+}
+
+// Where an answer came from: the RSVP page, or a reply on one of the messaging channels
+export type RsvpSource = 'web' | 'email' | 'whatsapp' | 'sms'
+
+export interface SubmissionMeta {
+  ipAddress: string | null
+  userAgent: string | null
+  source?: RsvpSource
+}
+
+export interface RsvpChange {
+  field: string
+  from: unknown
+  to: unknown
+}
+
+export interface RsvpHistoryEntry {
+  id: string
+  stage: number
+  version: number
+  submittedAt: Date
+  ipAddress: string | null
+  source: string
+  data: Record<string, unknown>
+  // Differences from the previous version of the same stage; empty for the first answer
+  changes: RsvpChange[]
+}
+
+export interface RsvpWindow {
+  eventStatus: string
+  timezone: string
+  rsvpDeadline: string | null
+  // End of the deadline day in the event's time zone
+  closesAt: Date | null
+}
+
+export interface CeremonyHeadcount {
+  ceremonyId: string
+  name: string
+  date: string
+  maxGuests: number | null
+  // Confirmed guests plus their plus-ones; waitlisted answers are not counted
+  attending: number
+  guests: number
+  plusOnes: number
+  waitlisted: number
+  maybe: number
+  declined: number
+  // Guests and plus-ones checked in on the day
+  arrived: number
+  meals: Record<string, number>
+}
+
+export class RsvpSubmissionError extends Error {}
+
+// Events in these states no longer take RSVPs at all
+const CLOSED_EVENT_STATUSES = ['cancelled', 'completed']
+
+export const EVENT_CLOSED_MESSAGE = 'This event is no longer accepting RSVPs'
+export const DEADLINE_PASSED_MESSAGE = 'The RSVP deadline has passed, so answers can no longer be changed'
+
+type ValidToken = Required<Pick<TokenValidationResult, 'guest'>> & Pick<TokenValidationResult, 'household'>
+
+/**
+ * Guests a token may answer for: every household member, or just the invited guest
+ */
+export function getPartyGuestIds(tokenResult: ValidToken): string[] {
+  return tokenResult.household
+    ? tokenResult.household.members.map(m => m.id)
+    : [tokenResult.guest.id]
+}
+
+/**
+ * Load the event status and the instant its RSVP deadline passes
+ */
+export async function getRsvpWindow(eventId: string, executor: DbExecutor = db): Promise<RsvpWindow | null> {
+  const [row] = await executor.select({
+    eventStatus: events.status,
+    eventTimezone: events.timezone,
+    settingsTimezone: eventSettings.timezone,
+    rsvpDeadline: eventSettings.rsvp_deadline
+  })
+    .from(events)
+    .leftJoin(eventSettings, eq(eventSettings.event_id, events.id))
+    .where(eq(events.id, eventId))
+    .limit(1)
+  if (!row) return null
+
+  const timezone = resolveTimezone(row.eventTimezone ?? row.settingsTimezone)
+  return {
+    eventStatus: row.eventStatus,
+    timezone,
+    rsvpDeadline: row.rsvpDeadline,
+    closesAt: row.rsvpDeadline ? endOfDayInTimezone(row.rsvpDeadline, timezone) : null
+  }
+}
+
+export function isEventClosed(window: RsvpWindow): boolean {
+  return CLOSED_EVENT_STATUSES.includes(window.eventStatus)
+}
+
+/**
+ * A guest can answer while the event is open and either the deadline has not passed
+ * or they hold a late-response override that has not run out
+ */
+export function canGuestRespond(window: RsvpWindow, override: Date | null, now: Date = new Date()): boolean {
+  if (isEventClosed(window)) return false
+  if (override && now <= override) return true
+  return !window.closesAt || now <= window.closesAt
+}
+
+/**
+ * Flatten a stored response into `path -> value` pairs. Ceremony answers are keyed by
+ * ceremony so reordering them is not reported as a change.
+ */
+function flattenResponse(value: unknown, path: string, out: Record<string, unknown>) {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => {
+      const key = item && typeof item === 'object' && 'ceremonyId' in item ? item.ceremonyId : index
+      flattenResponse(item, `${path}[${key}]`, out)
+    })
+  } else if (value && typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      if (key === 'guestId' || key === 'ceremonyId') continue
+      flattenResponse(child, path ? `${path}.${key}` : key, out)
+    }
+  } else {
+    out[path] = value ?? null
+  }
+}
+
+/**
+ * List the fields that differ between two versions of a response
+ */
+export function diffResponses(previous: unknown, current: unknown): RsvpChange[] {
+  const before: Record<string, unknown> = {}
+  const after: Record<string, unknown> = {}
+  flattenResponse(previous, '', before)
+  flattenResponse(current, '', after)
+
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort()
+  return fields
+    .filter(field => (before[field] ?? null) !== (after[field] ?? null))
+    .map(field => ({ field, from: before[field] ?? null, to: after[field] ?? null }))
+}
+
+/**
+ * Store a response as the next version for this guest and stage. Replies waiting for a
+ * planner are stored as 'pending' and take a version like any other answer.
+ */
+export async function recordResponse(
+  executor: DbExecutor,
+  guestId: string,
+  eventId: string,
+  stage: 1 | 2,
+  data: object,
+  meta: SubmissionMeta,
+  status: 'applied' | 'pending' = 'applied'
+): Promise<string> {
+  const [latest] = await executor.select({ version: max(rsvpResponses.version) })
+    .from(rsvpResponses)
+    .where(and(eq(rsvpResponses.guest_id, guestId), eq(rsvpResponses.stage, stage)))
+
+  const [response] = await executor.insert(rsvpResponses).values({
+    guest_id: guestId,
+    event_id: eventId,
+    stage,
+    version: (latest?.version ?? 0) + 1,
+    response_data: JSON.stringify(data),
+    status,
+    source: meta.source ?? 'web',
+    ip_address: meta.ipAddress,
+    user_agent: meta.userAgent,
+    submitted_at: new Date()
+  }).returning({ id: rsvpResponses.id })
+
+  return response.id
+}
+
+/**
+ * Set a guest's attendance. A guest who declines is no longer expected at any ceremony
+ * they had accepted, and their travel requests are withdrawn; call
+ * CeremonyCapacityService.promoteAll afterwards to fill the seats they free.
+ */
+export async function setAttendance(tx: DbExecutor, guestId: string, attending: boolean) {
+  await tx.update(guests)
+    .set({
+      rsvp_status: attending ? 'attending' : 'not_attending',
+      rsvp_submitted_at: new Date(),
+      updated_at: new Date()
+    })
+    .where(eq(guests.id, guestId))
+
+  if (!attending) {
+    await tx.update(guestCeremonies)
+      .set({
+        attendance_status: 'no',
+        plus_one_attendance: 'no',
+        is_waitlisted: false,
+        waitlist_position: null,
+        updated_at: new Date()
+      })
+      .where(eq(guestCeremonies.guest_id, guestId))
+    await RsvpTravelService.clearTravel(tx, guestId)
+  }
+}
+
+/**
+ * Reject the submission if the event is closed or any of the guests is past their deadline
+ */
+async function assertCanRespond(eventId: string, guestIds: string[]): Promise<RsvpWindow> {
+  const window = await getRsvpWindow(eventId)
+  if (!window || isEventClosed(window)) {
+    throw new RsvpSubmissionError(EVENT_CLOSED_MESSAGE)
+  }
+
+  const overrides = await db.select({ id: guests.id, override: guests.rsvp_deadline_override })
+    .from(guests)
+    .where(inArray(guests.id, guestIds))
+  if (overrides.some(guest => !canGuestRespond(window, guest.override))) {
+    throw new RsvpSubmissionError(DEADLINE_PASSED_MESSAGE)
+  }
+
+  return window
+}
+
+function assertMembersInParty(memberIds: string[], tokenResult: ValidToken) {
+  const allowed = new Set(getPartyGuestIds(tokenResult))
+  if (memberIds.some(id => !allowed.has(id))) {
+    throw new RsvpSubmissionError('This invitation cannot answer for one or more of the guests')
+  }
+  if (new Set(memberIds).size !== memberIds.length) {
+    throw new RsvpSubmissionError('Each guest can only be answered for once')
+  }
+}
+
+export class RSVPService {
+  /**
+   * Load everything the RSVP page needs for a validated token: event details,
+   * the ceremonies to answer for, and each party member's latest answers
+   */
+  static async getInvitation(tokenResult: ValidToken): Promise<RsvpInvitation | null> {
+    const { guest, household } = tokenResult
+    const memberIds = getPartyGuestIds(tokenResult)
+
+    const event = await db.query.events.findFirst({
+      where: eq(events.id, guest.eventId)
+    })
+    if (!event) return null
+
+    const window = await getRsvpWindow(event.id)
+
+    const eventCeremonies = await db.select()
+      .from(ceremonies)
+      .where(and(eq(ceremonies.event_id, event.id), eq(ceremonies.requires_rsvp, true)))
+      .orderBy(asc(ceremonies.display_order), asc(ceremonies.ceremony_date))
+
+    const memberRows = await db.select()
+      .from(guests)
+      .where(inArray(guests.id, memberIds))
+
+    const responses = await db.select()
+      .from(rsvpResponses)
+      .where(and(inArray(rsvpResponses.guest_id, memberIds), eq(rsvpResponses.status, 'applied')))
+      .orderBy(asc(rsvpResponses.version))
+
+    const waitlist = await CeremonyCapacityService.getWaitlist(memberIds)
+    const customFields = await CustomFieldService.getDefinitions(event.id)
+    const travel = await getTravelRequirements(event.id)
+
+    // Later versions overwrite earlier ones so each member ends up with their latest answer
+    const latest = new Map<string, { stage1: RsvpStage1 | null; stage2: RsvpStage2 | null }>()
+    for (const response of responses) {
+      const entry = latest.get(response.guest_id) ?? { stage1: null, stage2: null }
+      const data = JSON.parse(response.response_data)
+      if (response.stage === 1) entry.stage1 = data
+      if (response.stage === 2) entry.stage2 = data
+      latest.set(response.guest_id, entry)
+    }
+
+    // Keep the household's member order so the form lists people consistently
+    const members = memberIds
+      .map(id => memberRows.find(m => m.id === id))
+      .filter((m): m is NonNullable<typeof m> => !!m)
+      .map(member => ({
+        id: member.id,
+        firstName: member.first_name,
+        lastName: member.last_name,
+        ageGroup: member.age_group,
+        plusOneAllowed: !!member.plus_one_allowed,
+        plusOneName: member.plus_one_name,
+        rsvpStatus: member.rsvp_status,
+        canRespond: !!window && canGuestRespond(window, member.rsvp_deadline_override),
+        stage1: latest.get(member.id)?.stage1 ?? null,
+        stage2: latest.get(member.id)?.stage2 ?? null,
+        waitlist: waitlist
+          .filter(entry => entry.guestId === member.id)
+          .map(({ ceremonyId, position }) => ({ ceremonyId, position }))
+      }))
+
+    return {
+      event: {
+        id: event.id,
+        name: event.name,
+        coupleNames: event.couple_names,
+        weddingDate: event.wedding_date,
+        contactEmail: event.contact_email
+      },
+      rsvpDeadline: window?.rsvpDeadline ?? null,
+      isReadOnly: !members.some(member => member.canRespond),
+      household: household ? { id: household.id, name: household.name } : null,
+      respondent: {
+        id: guest.id,
+        firstName: guest.firstName,
+        lastName: guest.lastName
+      },
+      members,
+      ceremonies: eventCeremonies.map(ceremony => ({
+        id: ceremony.id,
+        name: ceremony.name,
+        date: ceremony.ceremony_date,
+        startTime: ceremony.start_time,
+        venueName: ceremony.venue_name,
+        venueAddress: ceremony.venue_address,
+        description: ceremony.description,
+        isMainCeremony: !!ceremony.is_main_ceremony,
+        mealOptions: DEFAULT_MEAL_OPTIONS
+      })),
+      customFields,
+      travel
+    }
+  }
+
+  /**
+   * Record whether each party member is attending, along with their answers to the event's
+   * custom questions (required ones only for members who attend). Seats given up by members
+   * who decline go to the next guests on each ceremony's waitlist, who are emailed.
+   */
+  static async submitStage1(
+    tokenResult: ValidToken,
+    data: PartyRsvpStage1,
+    meta: SubmissionMeta
+  ): Promise<void> {
+    const memberIds = data.members.map(m => m.guestId)
+    assertMembersInParty(memberIds, tokenResult)
+    await assertCanRespond(tokenResult.guest.eventId, memberIds)
+
+    const definitions = await CustomFieldService.getDefinitions(tokenResult.guest.eventId)
+    const members = data.members.map((member, index) => ({
+      ...member,
+      customFields: CustomFieldService.validateAnswers(definitions, member.customFields, {
+        requireAnswers: member.attending,
+        pathPrefix: ['members', index, 'customFields']
+      })
+    }))
+
+    await db.transaction(async (tx) => {
+      const capacities = await CeremonyCapacityService.lockCeremonies(tx, tokenResult.guest.eventId)
+
+      for (const member of members) {
+        await setAttendance(tx, member.guestId, member.attending)
+
+        await CustomFieldService.saveAnswers(
+          tx,
+          member.guestId,
+          tokenResult.guest.eventId,
+          definitions,
+          member.customFields
+        )
+        await recordResponse(tx, member.guestId, tokenResult.guest.eventId, 1, member, meta)
+      }
+
+      const promotions = await CeremonyCapacityService.promoteAll(tx, capacities)
+      await CeremonyCapacityService.queuePromotionEmails(tx, promotions)
+    })
+  }
+
+  /**
+   * Record each attending member's per-ceremony answers as their own guest_ceremonies rows,
+   * copy their dietary and accessibility answers onto the guest record, and turn their travel
+   * answers into accommodation and transportation requests when the event asks for them.
+   * A yes to a full ceremony is waitlisted; returns the party's waitlist places.
+   */
+  static async submitStage2(
+    tokenResult: ValidToken,
+    data: PartyRsvpStage2,
+    meta: SubmissionMeta
+  ): Promise<WaitlistEntry[]> {
+    const memberIds = data.members.map(m => m.guestId)
+    assertMembersInParty(memberIds, tokenResult)
+    const window = await assertCanRespond(tokenResult.guest.eventId, memberIds)
+
+    const requirements = await getTravelRequirements(tokenResult.guest.eventId)
+    if (requirements.accommodation && data.members.some(m => typeof m.travel?.needsAccommodation !== 'boolean')) {
+      throw new RsvpSubmissionError('Please let us know whether each guest needs accommodation')
+    }
+    if (requirements.transportation && data.members.some(m => typeof m.travel?.needsTransportation !== 'boolean')) {
+      throw new RsvpSubmissionError('Please let us know whether each guest needs transportation')
+    }
+
+    const eventCeremonies = await db.select({ id: ceremonies.id })
+      .from(ceremonies)
+      .where(eq(ceremonies.event_id, tokenResult.guest.eventId))
+    const ceremonyIds = new Set(eventCeremonies.map(c => c.id))
+    if (data.members.some(member => member.ceremonies.some(c => !ceremonyIds.has(c.ceremonyId)))) {
+      throw new RsvpSubmissionError('One or more ceremonies do not belong to this event')
+    }
+
+    await db.transaction(async (tx) => {
+      const capacities = await CeremonyCapacityService.lockCeremonies(tx, tokenResult.guest.eventId)
+
+      for (const member of data.members) {
+        await recordResponse(tx, member.guestId, tokenResult.guest.eventId, 2, member, meta)
+
+        // Only overwrite what the guest actually answered; a cleared box clears the column
+        const guestUpdates: Partial<NewGuest> = { updated_at: new Date() }
+        if (member.dietaryRequirements !== undefined) {
+          guestUpdates.dietary_requirements = member.dietaryRequirements || null
+        }
+        if (member.specialRequests !== undefined) {
+          guestUpdates.special_requests = member.specialRequests || null
+        }
+        if (member.accessibilityNeeds !== undefined) {
+          guestUpdates.accessibility_needs = member.accessibilityNeeds || null
+        }
+        await tx.update(guests)
+          .set(guestUpdates)
+          .where(eq(guests.id, member.guestId))
+
+        if (member.travel) {
+          const bringingPlusOne = member.ceremonies.some(c => c.attending === 'yes' && c.plusOneAttending === 'yes')
+          await RsvpTravelService.saveTravel(tx, member.guestId, member.travel, {
+            requirements,
+            timezone: window.timezone,
+            partySize: bringingPlusOne ? 2 : 1
+          })
+        }
+
+        for (const ceremony of member.ceremonies) {
+          const placement = await CeremonyCapacityService.place(tx, {
+            guestId: member.guestId,
+            ceremonyId: ceremony.ceremonyId,
+            attending: ceremony.attending,
+            plusOneAttending: ceremony.plusOneAttending
+          }, capacities)
+
+          const values = {
+            attendance_status: ceremony.attending,
+            is_waitlisted: placement.isWaitlisted,
+            waitlist_position: placement.waitlistPosition,
+            meal_preference: ceremony.mealPreference ?? null,
+            plus_one_attendance: ceremony.plusOneAttending ?? null,
+            plus_one_meal_preference: ceremony.plusOneMealPreference ?? null,
+            special_requirements: ceremony.specialRequirements ?? null,
+            updated_at: new Date()
+          }
+
+          await tx.insert(guestCeremonies)
+            .values({
+              guest_id: member.guestId,
+              ceremony_id: ceremony.ceremonyId,
+              ...values,
+              created_at: new Date()
+            })
+            .onConflictDoUpdate({
+              target: [guestCeremonies.guest_id, guestCeremonies.ceremony_id],
+              set: values
+            })
+        }
+      }
+
+      // Members who changed to no or maybe may have freed seats for others
+      const promotions = await CeremonyCapacityService.promoteAll(tx, capacities)
+      await CeremonyCapacityService.queuePromotionEmails(tx, promotions)
+    })
+
+    return CeremonyCapacityService.getWaitlist(memberIds)
+  }
+
+  /**
+   * Every version of a guest's answers, newest first, each with what changed from the one
+   * before. Replies still waiting for review, or rejected, are left out.
+   */
+  static async getHistory(guestId: string): Promise<RsvpHistoryEntry[]> {
+    const responses = await db.select()
+      .from(rsvpResponses)
+      .where(and(eq(rsvpResponses.guest_id, guestId), eq(rsvpResponses.status, 'applied')))
+      .orderBy(asc(rsvpResponses.stage), asc(rsvpResponses.version))
+    if (responses.length === 0) return []
+
+    // Show ceremony names instead of ids in the changed field paths
+    const eventCeremonies = await db.select({ id: ceremonies.id, name: ceremonies.name })
+      .from(ceremonies)
+      .where(eq(ceremonies.event_id, responses[0].event_id))
+    const labelField = (change: RsvpChange): RsvpChange => ({
+      ...change,
+      field: eventCeremonies.reduce((field, c) => field.replace(`[${c.id}]`, `[${c.name}]`), change.field)
+    })
+
+    const previousByStage = new Map<number, Record<string, unknown>>()
+    const history: RsvpHistoryEntry[] = responses.map(response => {
+      const data = JSON.parse(response.response_data)
+      const previous = previousByStage.get(response.stage)
+      previousByStage.set(response.stage, data)
+
+      return {
+        id: response.id,
+        stage: response.stage,
+        version: response.version,
+        submittedAt: response.submitted_at,
+        ipAddress: response.ip_address,
+        source: response.source,
+        data,
+        changes: previous ? diffResponses(previous, data).map(labelField) : []
+      }
+    })
+
+    return history.sort((a, b) => b.submittedAt.getTime() - a.submittedAt.getTime())
+  }
+
+  /**
+   * Headcount and meal totals per ceremony, counted from guest_ceremonies.
+   * Waitlisted guests are reported separately and left out of the meal totals.
+   */
+  static async getCeremonyReport(eventId: string): Promise<CeremonyHeadcount[]> {
+    const counts = await db.select({
+      ceremonyId: ceremonies.id,
+      name: ceremonies.name,
+      date: ceremonies.ceremony_date,
+      maxGuests: ceremonies.max_guests,
+      guests: sql<number>`count(*) filter (where ${guestCeremonies.attendance_status} = 'yes' and not ${guestCeremonies.is_waitlisted})`.mapWith(Number),
+      plusOnes: sql<number>`count(*) filter (where ${guestCeremonies.attendance_status} = 'yes' and not ${guestCeremonies.is_waitlisted} and ${guestCeremonies.plus_one_attendance} = 'yes')`.mapWith(Number),
+      waitlisted: sql<number>`count(*) filter (where ${guestCeremonies.attendance_status} = 'yes' and ${guestCeremonies.is_waitlisted})`.mapWith(Number),
+      maybe: sql<number>`count(*) filter (where ${guestCeremonies.attendance_status} = 'maybe')`.mapWith(Number),
+      declined: sql<number>`count(*) filter (where ${guestCeremonies.attendance_status} = 'no')`.mapWith(Number),
+      arrived: sql<number>`count(${guestCeremonies.checked_in_at}) + count(${guestCeremonies.plus_one_checked_in_at})`.mapWith(Number)
+    })
+      .from(ceremonies)
+      .leftJoin(guestCeremonies, eq(guestCeremonies.ceremony_id, ceremonies.id))
+      .where(eq(ceremonies.event_id, eventId))
+      .groupBy(ceremonies.id)
+      .orderBy(asc(ceremonies.display_order), asc(ceremonies.ceremony_date))
+
+    const guestMeals = await db.select({
+      ceremonyId: guestCeremonies.ceremony_id,
+      meal: guestCeremonies.meal_preference,
+      total: count()
+    })
+      .from(guestCeremonies)
+      .innerJoin(ceremonies, eq(guestCeremonies.ceremony_id, ceremonies.id))
+      .where(and(
+        eq(ceremonies.event_id, eventId),
+        eq(guestCeremonies.attendance_status, 'yes'),
+        eq(guestCeremonies.is_waitlisted, false),
+        isNotNull(guestCeremonies.meal_preference)
+      ))
+      .groupBy(guestCeremonies.ceremony_id, guestCeremonies.meal_preference)
+
+    const plusOneMeals = await db.select({
+      ceremonyId: guestCeremonies.ceremony_id,
+      meal: guestCeremonies.plus_one_meal_preference,
+      total: count()
+    })
+      .from(guestCeremonies)
+      .innerJoin(ceremonies, eq(guestCeremonies.ceremony_id, ceremonies.id))
+      .where(and(
+        eq(ceremonies.event_id, eventId),
+        eq(guestCeremonies.attendance_status, 'yes'),
+        eq(guestCeremonies.is_waitlisted, false),
+        eq(guestCeremonies.plus_one_attendance, 'yes'),
+        isNotNull(guestCeremonies.plus_one_meal_preference)
+      ))
+      .groupBy(guestCeremonies.ceremony_id, guestCeremonies.plus_one_meal_preference)
+
+    return counts.map(row => {
+      const meals: Record<string, number> = {}
+      for (const entry of [...guestMeals, ...plusOneMeals]) {
+        if (entry.ceremonyId !== row.ceremonyId || !entry.meal) continue
+        meals[entry.meal] = (meals[entry.meal] ?? 0) + entry.total
+      }
+
+      return {
+        ...row,
+        attending: row.guests + row.plusOnes,
+        meals
+      }
+    })
+  }
+}
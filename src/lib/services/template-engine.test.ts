@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { renderTemplate, TemplateError } from '@/lib/services/template-engine'
+import { processTemplate } from '@/lib/services/email'
+
+const data = { guestName: '<b>Tom & "Jo"</b>', ceremonies: [{ name: 'Mehndi <Night>' }] }
+const variables = ['guestName', 'ceremonies']
+
+describe('renderTemplate', () => {
+  it('escapes values by default', () => {
+    expect(renderTemplate('Dear {{guestName}}', data, { variables }))
+      .toBe('Dear &lt;b&gt;Tom &amp; &quot;Jo&quot;&lt;/b&gt;')
+  })
+
+  it('escapes item fields inside loops', () => {
+    expect(renderTemplate('{{#each ceremonies}}<li>{{name}}</li>{{/each}}', data, { variables }))
+      .toBe('<li>Mehndi &lt;Night&gt;</li>')
+  })
+
+  it('leaves triple-brace values unescaped', () => {
+    expect(renderTemplate('{{{guestName}}}', data, { variables })).toBe('<b>Tom & "Jo"</b>')
+  })
+
+  it('does not escape plain text', () => {
+    expect(renderTemplate('Dear {{guestName}}', data, { variables, plainText: true }))
+      .toBe('Dear <b>Tom & "Jo"</b>')
+  })
+
+  it('rejects variables the template does not declare', () => {
+    expect(() => renderTemplate('{{secret}}', data, { variables })).toThrow(TemplateError)
+  })
+})
+
+describe('processTemplate', () => {
+  it('escapes the HTML part only', () => {
+    const rendered = processTemplate(
+      { subject: 'For {{guestName}}', html: '<p>{{guestName}}</p>', text: 'Hi {{guestName}}', variables },
+      data
+    )
+
+    expect(rendered.subject).toBe('For <b>Tom & "Jo"</b>')
+    expect(rendered.html).toBe('<p>&lt;b&gt;Tom &amp; &quot;Jo&quot;&lt;/b&gt;</p>')
+    expect(rendered.text).toBe('Hi <b>Tom & "Jo"</b>')
+  })
+})
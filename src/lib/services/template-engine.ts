@@ -0,0 +1,476 @@
+import { resolveTimezone } from '@/lib/timezone'
+
+/**
+ * A small Handlebars-style template language for emails and messages:
+ *
+ *   {{guestName}}                      value, HTML-escaped unless rendering plain text
+ *   {{{customHtml}}}                   value, never escaped
+ *   {{#if plusOneAllowed}}..{{else}}..{{/if}}   also {{#unless}}
+ *   {{#each ceremonies}}{{name}}{{/each}}       item fields, `this`, @index, @first, @last
+ *   {{> header}}                       shared partial
+ *   {{formatDate weddingDate "short"}} helpers; dates and times use the event timezone
+ *   {{! comment }}
+ *
+ * Only variables named in the template's `variables` list may be referenced (inside a loop
+ * the current item's fields are allowed too); anything else is a TemplateError.
+ */
+
+export type TemplateValue =
+  | string
+  | number
+  | boolean
+  | Date
+  | null
+  | undefined
+  | TemplateValue[]
+  | { [key: string]: TemplateValue }
+
+export type TemplateData = Record<string, TemplateValue>
+
+export interface RenderOptions {
+  // Variables the template may reference
+  variables: string[]
+  // Output is plain text (a subject, SMS or WhatsApp message): values are never HTML-escaped.
+  // Otherwise values from double-brace tags are escaped.
+  plainText?: boolean
+  // IANA zone used by the date and time helpers
+  timezone?: string | null
+  locale?: string
+  // Extra or overriding partials, by name
+  partials?: Record<string, string>
+}
+
+export class TemplateError extends Error {}
+
+type Argument =
+  | { type: 'path'; path: string }
+  | { type: 'literal'; value: string }
+
+interface Expression {
+  helper?: string
+  args: Argument[]
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'output'; expression: Expression; raw: boolean }
+  | { type: 'if'; negate: boolean; condition: Argument; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; list: Argument; body: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'partial'; name: string }
+
+// Partials every template can include
+export const defaultPartials: Record<string, string> = {
+  header: `
+    <div style="text-align: center; padding: 40px 20px; background: linear-gradient(135deg, #D4AF37, #FFB6C1);">
+      <h1 style="color: white; margin: 0; font-size: 32px;">{{coupleNames}}</h1>
+      <p style="color: white; margin: 10px 0 0 0; font-size: 18px;">{{formatDate weddingDate}}</p>
+    </div>`,
+  footer: `
+    <p style="color: #666; line-height: 1.6; margin: 20px 0 0 0;">
+      With love,<br>
+      {{coupleNames}}
+    </p>`,
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+}
+
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => HTML_ESCAPES[char])
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/
+const TIME_ONLY = /^(\d{1,2}):(\d{2})(?::\d{2})?$/
+
+const DATE_STYLES: Record<string, Intl.DateTimeFormatOptions> = {
+  long: { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' },
+  medium: { year: 'numeric', month: 'long', day: 'numeric' },
+  short: { year: 'numeric', month: 'short', day: 'numeric' },
+}
+
+/**
+ * Calendar dates (YYYY-MM-DD) are shown as written; instants are shown in the event timezone.
+ * Values that are not dates are returned unchanged.
+ */
+function formatDate(value: TemplateValue, style: string, timezone: string, locale: string): string {
+  const options = DATE_STYLES[style] ?? DATE_STYLES.long
+  if (typeof value === 'string' && DATE_ONLY.test(value)) {
+    const [year, month, day] = value.split('-').map(Number)
+    return new Intl.DateTimeFormat(locale, { ...options, timeZone: 'UTC' }).format(new Date(Date.UTC(year, month - 1, day)))
+  }
+
+  const instant = toInstant(value)
+  return instant ? new Intl.DateTimeFormat(locale, { ...options, timeZone: timezone }).format(instant) : stringify(value)
+}
+
+/**
+ * Wall-clock times (HH:MM) are shown as written; instants are shown in the event timezone
+ */
+function formatTime(value: TemplateValue, timezone: string, locale: string): string {
+  const options: Intl.DateTimeFormatOptions = { hour: 'numeric', minute: '2-digit' }
+  const match = typeof value === 'string' ? value.match(TIME_ONLY) : null
+  if (match) {
+    const wallClock = new Date(Date.UTC(1970, 0, 1, Number(match[1]), Number(match[2])))
+    return new Intl.DateTimeFormat(locale, { ...options, timeZone: 'UTC' }).format(wallClock)
+  }
+
+  const instant = toInstant(value)
+  return instant ? new Intl.DateTimeFormat(locale, { ...options, timeZone: timezone }).format(instant) : stringify(value)
+}
+
+function toInstant(value: TemplateValue): Date | null {
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    const date = new Date(value)
+    return Number.isNaN(date.getTime()) ? null : date
+  }
+  return null
+}
+
+type Helper = (args: TemplateValue[], context: { timezone: string; locale: string }) => string
+
+const HELPERS: Record<string, Helper> = {
+  formatDate: ([value, style], { timezone, locale }) =>
+    formatDate(value, typeof style === 'string' ? style : 'long', timezone, locale),
+  formatTime: ([value], { timezone, locale }) => formatTime(value, timezone, locale),
+  formatDateTime: ([value, style], { timezone, locale }) => {
+    const date = formatDate(value, typeof style === 'string' ? style : 'long', timezone, locale)
+    return toInstant(value) ? `${date}, ${formatTime(value, timezone, locale)}` : date
+  },
+  uppercase: ([value]) => stringify(value).toUpperCase(),
+  lowercase: ([value]) => stringify(value).toLowerCase(),
+}
+
+function stringify(value: TemplateValue): string {
+  if (value === null || value === undefined) return ''
+  if (value instanceof Date) return value.toISOString()
+  if (Array.isArray(value)) return value.map(stringify).join(', ')
+  if (typeof value === 'object') return ''
+  return String(value)
+}
+
+function isTruthy(value: TemplateValue): boolean {
+  if (Array.isArray(value)) return value.length > 0
+  return !!value
+}
+
+// Parsing
+
+const TAG = /\{\{\{\s*([\s\S]+?)\s*\}\}\}|\{\{\s*([\s\S]+?)\s*\}\}/
+
+function parseArgument(token: string): Argument {
+  const quoted = token.match(/^"([^"]*)"$|^'([^']*)'$/)
+  if (quoted) return { type: 'literal', value: quoted[1] ?? quoted[2] }
+  if (/^-?\d+(\.\d+)?$/.test(token)) return { type: 'literal', value: token }
+  if (!/^(@?[A-Za-z_][\w-]*)(\.[A-Za-z_][\w-]*)*$/.test(token)) {
+    throw new TemplateError(`Invalid expression "${token}"`)
+  }
+  return { type: 'path', path: token }
+}
+
+function parseExpression(source: string): Expression {
+  const tokens: string[] = Array.from(source.match(/"[^"]*"|'[^']*'|\S+/g) ?? [])
+  if (tokens.length === 0) throw new TemplateError('Empty tag')
+
+  if (tokens.length === 1) return { args: [parseArgument(tokens[0])] }
+  if (!HELPERS[tokens[0]]) throw new TemplateError(`Unknown helper "${tokens[0]}"`)
+  return { helper: tokens[0], args: tokens.slice(1).map(parseArgument) }
+}
+
+interface OpenBlock {
+  kind: 'if' | 'unless' | 'each'
+  node: Extract<TemplateNode, { type: 'if' | 'each' }>
+  inElse: boolean
+}
+
+function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = []
+  const stack: OpenBlock[] = []
+  const current = () => {
+    const open = stack[stack.length - 1]
+    if (!open) return root
+    if (open.node.type === 'if') return open.inElse ? open.node.otherwise : open.node.then
+    return open.inElse ? open.node.otherwise : open.node.body
+  }
+
+  const tags = new RegExp(TAG.source, 'g')
+  let lastIndex = 0
+  let match: RegExpExecArray | null
+  while ((match = tags.exec(source)) !== null) {
+    if (match.index > lastIndex) {
+      current().push({ type: 'text', value: source.slice(lastIndex, match.index) })
+    }
+    lastIndex = match.index + match[0].length
+
+    if (match[1] !== undefined) {
+      current().push({ type: 'output', expression: parseExpression(match[1]), raw: true })
+      continue
+    }
+
+    const tag = match[2]
+    if (tag.startsWith('!')) continue
+
+    if (tag.startsWith('#')) {
+      const [keyword, ...rest] = tag.slice(1).trim().split(/\s+/)
+      if (rest.length !== 1) throw new TemplateError(`{{#${keyword}}} takes exactly one variable`)
+      const argument = parseArgument(rest[0])
+
+      if (keyword === 'if' || keyword === 'unless') {
+        const node: TemplateNode = { type: 'if', negate: keyword === 'unless', condition: argument, then: [], otherwise: [] }
+        current().push(node)
+        stack.push({ kind: keyword, node, inElse: false })
+      } else if (keyword === 'each') {
+        const node: TemplateNode = { type: 'each', list: argument, body: [], otherwise: [] }
+        current().push(node)
+        stack.push({ kind: 'each', node, inElse: false })
+      } else {
+        throw new TemplateError(`Unknown block "{{#${keyword}}}"`)
+      }
+      continue
+    }
+
+    if (tag === 'else') {
+      const open = stack[stack.length - 1]
+      if (!open || open.inElse) throw new TemplateError('{{else}} outside of a block')
+      open.inElse = true
+      continue
+    }
+
+    if (tag.startsWith('/')) {
+      const keyword = tag.slice(1).trim()
+      const open = stack.pop()
+      if (!open) throw new TemplateError(`{{/${keyword}}} without a matching opening block`)
+      if (open.kind !== keyword) throw new TemplateError(`{{/${keyword}}} closes {{#${open.kind}}}`)
+      continue
+    }
+
+    if (tag.startsWith('>')) {
+      const name = tag.slice(1).trim()
+      if (!/^[\w-]+$/.test(name)) throw new TemplateError(`Invalid partial name "${name}"`)
+      current().push({ type: 'partial', name })
+      continue
+    }
+
+    current().push({ type: 'output', expression: parseExpression(tag), raw: false })
+  }
+
+  if (lastIndex < source.length) {
+    current().push({ type: 'text', value: source.slice(lastIndex) })
+  }
+  if (stack.length > 0) {
+    throw new TemplateError(`{{#${stack[stack.length - 1].kind}}} is never closed`)
+  }
+
+  return root
+}
+
+// Rendering
+
+interface LoopFrame {
+  item: TemplateValue
+  index: number
+  length: number
+}
+
+// Guards against partials that include each other
+const MAX_PARTIAL_DEPTH = 10
+
+class Renderer {
+  private allowed: Set<string>
+  private partials: Record<string, string>
+  private timezone: string
+  private locale: string
+
+  constructor(private data: TemplateData, private options: RenderOptions) {
+    this.allowed = new Set(options.variables)
+    this.partials = { ...defaultPartials, ...options.partials }
+    this.timezone = resolveTimezone(options.timezone)
+    this.locale = options.locale ?? 'en-US'
+  }
+
+  render(nodes: TemplateNode[], loops: LoopFrame[], depth: number): string {
+    let output = ''
+
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'text':
+          output += node.value
+          break
+        case 'output': {
+          const text = this.evaluate(node.expression, loops)
+          output += node.raw || this.options.plainText ? text : escapeHtml(text)
+          break
+        }
+        case 'if': {
+          const truthy = isTruthy(this.resolve(node.condition, loops))
+          output += this.render(truthy !== node.negate ? node.then : node.otherwise, loops, depth)
+          break
+        }
+        case 'each': {
+          const list = this.resolve(node.list, loops)
+          const items = Array.isArray(list) ? list : []
+          if (items.length === 0) {
+            output += this.render(node.otherwise, loops, depth)
+          }
+          items.forEach((item, index) => {
+            output += this.render(node.body, [...loops, { item, index, length: items.length }], depth)
+          })
+          break
+        }
+        case 'partial': {
+          const source = this.partials[node.name]
+          if (source === undefined) throw new TemplateError(`Unknown partial "${node.name}"`)
+          if (depth >= MAX_PARTIAL_DEPTH) throw new TemplateError(`Partials nested too deeply at "${node.name}"`)
+          output += this.render(parseTemplate(source), loops, depth + 1)
+          break
+        }
+      }
+    }
+
+    return output
+  }
+
+  private evaluate(expression: Expression, loops: LoopFrame[]): string {
+    const values = expression.args.map(arg => this.resolve(arg, loops))
+    if (!expression.helper) return stringify(values[0])
+    return HELPERS[expression.helper](values, { timezone: this.timezone, locale: this.locale })
+  }
+
+  private resolve(argument: Argument, loops: LoopFrame[]): TemplateValue {
+    if (argument.type === 'literal') return argument.value
+
+    const [root, ...rest] = argument.path.split('.')
+    const loop = loops[loops.length - 1]
+    let value: TemplateValue
+
+    if (root.startsWith('@')) {
+      if (!loop) throw new TemplateError(`"${root}" used outside of {{#each}}`)
+      if (root === '@index') value = loop.index
+      else if (root === '@first') value = loop.index === 0
+      else if (root === '@last') value = loop.index === loop.length - 1
+      else throw new TemplateError(`Unknown loop variable "${root}"`)
+    } else if (root === 'this') {
+      if (!loop) throw new TemplateError('"this" used outside of {{#each}}')
+      value = loop.item
+    } else {
+      const frame = [...loops].reverse().find(frame => isRecord(frame.item) && Object.prototype.hasOwnProperty.call(frame.item, root))
+      if (frame) {
+        value = (frame.item as Record<string, TemplateValue>)[root]
+      } else if (this.allowed.has(root)) {
+        value = this.data[root]
+      } else {
+        throw new TemplateError(`Unknown variable "${root}"`)
+      }
+    }
+
+    for (const key of rest) {
+      value = isRecord(value) ? value[key] : undefined
+    }
+    return value
+  }
+}
+
+function isRecord(value: TemplateValue): value is { [key: string]: TemplateValue } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date)
+}
+
+/**
+ * Plain-text alternative for rendered HTML: block elements become line breaks and links
+ * keep their destination, e.g. "RSVP Now (https://...)"
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(style|script)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<a\b[^>]*?\bhref\s*=\s*(["'])(.*?)\1[^>]*>([\s\S]*?)<\/a>/gi, (_, __, href: string, label: string) => {
+      const text = label.replace(/<[^>]+>/g, '').trim()
+      return text && text !== href ? `${text} (${href})` : href
+    })
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|li|tr|table)>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+/**
+ * Render a template. Throws TemplateError for syntax errors and unknown variables,
+ * helpers or partials.
+ */
+export function renderTemplate(source: string, data: TemplateData, options: RenderOptions): string {
+  return new Renderer(data, options).render(parseTemplate(source), [], 0)
+}
+
+/**
+ * Problems found without rendering: syntax errors, unknown helpers and partials, and
+ * variables missing from `variables`. Names used inside {{#each}} may be item fields,
+ * so they are only checked when the template is rendered.
+ */
+export function validateTemplate(
+  source: string,
+  variables: string[],
+  partials: Record<string, string> = {}
+): string[] {
+  const allowed = new Set(variables)
+  const available = { ...defaultPartials, ...partials }
+  const problems = new Set<string>()
+
+  const checkArgument = (argument: Argument, inLoop: boolean) => {
+    if (argument.type !== 'path' || inLoop) return
+    const root = argument.path.split('.')[0]
+    if (root.startsWith('@') || root === 'this') {
+      problems.add(`"${root}" used outside of {{#each}}`)
+    } else if (!allowed.has(root)) {
+      problems.add(`Unknown variable "${root}"`)
+    }
+  }
+
+  const walk = (nodes: TemplateNode[], inLoop: boolean, depth: number) => {
+    for (const node of nodes) {
+      if (node.type === 'output') {
+        node.expression.args.forEach(arg => checkArgument(arg, inLoop))
+      } else if (node.type === 'if') {
+        checkArgument(node.condition, inLoop)
+        walk(node.then, inLoop, depth)
+        walk(node.otherwise, inLoop, depth)
+      } else if (node.type === 'each') {
+        checkArgument(node.list, inLoop)
+        walk(node.body, true, depth)
+        walk(node.otherwise, inLoop, depth)
+      } else if (node.type === 'partial') {
+        const partial = available[node.name]
+        if (partial === undefined) {
+          problems.add(`Unknown partial "${node.name}"`)
+        } else if (depth < MAX_PARTIAL_DEPTH) {
+          try {
+            walk(parseTemplate(partial), inLoop, depth + 1)
+          } catch (error) {
+            problems.add(`Partial "${node.name}": ${(error as Error).message}`)
+          }
+        }
+      }
+    }
+  }
+
+  try {
+    walk(parseTemplate(source), false, 0)
+  } catch (error) {
+    if (!(error instanceof TemplateError)) throw error
+    problems.add(error.message)
+  }
+
+  return Array.from(problems)
+}
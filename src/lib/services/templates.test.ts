@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest'
+import { CommunicationTemplateService, SharedTemplateError } from '@/lib/services/templates'
+import { createEvent } from '@/test/fixtures'
+
+async function createSharedTemplate() {
+  return CommunicationTemplateService.create({
+    name: 'Reminder',
+    type: 'email',
+    category: 'reminder',
+    subject: 'Please reply, {{firstName}}',
+    content: '<p>Hi {{firstName}}</p>',
+    isDefault: true,
+    isActive: true,
+    language: 'en'
+  })
+}
+
+describe('CommunicationTemplateService', () => {
+  it('lets an event use, but not change, a template shared by every event', async () => {
+    const event = await createEvent()
+    const shared = await createSharedTemplate()
+
+    expect((await CommunicationTemplateService.getForEvent(event.id, shared.id)).id).toBe(shared.id)
+    await expect(CommunicationTemplateService.getEditableForEvent(event.id, shared.id))
+      .rejects.toBeInstanceOf(SharedTemplateError)
+  })
+
+  it('copies a shared template into the event, where it is sent instead', async () => {
+    const event = await createEvent()
+    const shared = await createSharedTemplate()
+
+    const copy = await CommunicationTemplateService.copyToEvent(event.id, shared.id)
+    expect(copy).toMatchObject({ event_id: event.id, name: 'Reminder', content: shared.content, is_default: true })
+    expect((await CommunicationTemplateService.getEditableForEvent(event.id, copy.id)).id).toBe(copy.id)
+
+    const resolved = await CommunicationTemplateService.resolve(event.id, 'reminder')
+    expect(resolved?.templateId).toBe(copy.id)
+    expect((await CommunicationTemplateService.get(shared.id)).is_default).toBe(true)
+  })
+})
@@ -0,0 +1,570 @@
+import { db, type DbExecutor } from '@/lib/db'
+import {
+  communications,
+  communicationTemplates,
+  ceremonies,
+  events,
+  guests,
+  households,
+  type CommunicationTemplate
+} from '@/lib/db/schema'
+import {
+  defaultTemplates,
+  emailService,
+  parseTemplateVariables,
+  processTemplate,
+  validateEmailTemplate,
+  type EmailTemplate,
+  type SendResult
+} from '@/lib/services/email'
+import { htmlToText, renderTemplate, type TemplateData } from '@/lib/services/template-engine'
+import type { WhatsAppTemplate } from '@/lib/services/messaging'
+import { RSVPTokenService } from '@/lib/services/rsvp-tokens'
+import { CalendarService } from '@/lib/services/calendar'
+import { getRsvpWindow } from '@/lib/services/rsvp'
+import { type CreateTemplate, type TemplatePreview, type UpdateTemplate } from '@/lib/validations/schemas'
+import { eq, and, ne, or, isNull, asc, desc, count, sql } from 'drizzle-orm'
+
+type TemplateCategory = CommunicationTemplate['category']
+type CommunicationType = CommunicationTemplate['type']
+
+// Variables available when a template is rendered for a guest; new templates may use all of them
+export const TEMPLATE_VARIABLES = [
+  'guestName',
+  'firstName',
+  'lastName',
+  'eventName',
+  'coupleNames',
+  'weddingDate',
+  'venueName',
+  'venueAddress',
+  'rsvpLink',
+  'rsvpDeadline',
+  // Subscribable calendar of the ceremonies the guest's party accepted
+  'calendarLink',
+  'plusOneAllowed',
+  'plusOneName',
+  'householdName',
+  // { name, date, time, venue } for each of the event's ceremonies
+  'ceremonies',
+]
+
+export class TemplateNotFoundError extends Error {}
+
+// Templates shared by every event are read-only from an event; it edits a copy instead
+export class SharedTemplateError extends Error {
+  constructor() {
+    super('This template is shared by every event. Copy it to the event to change it.')
+  }
+}
+
+export class InvalidTemplateError extends Error {
+  constructor(public problems: string[]) {
+    super('Invalid template')
+  }
+}
+
+// A template that is not stored: one of the built-in defaults, or unsaved edits being previewed
+export interface TemplateSource {
+  type: CommunicationType
+  subject?: string | null
+  content: string
+  variables: string[]
+  // WhatsApp only: the approved template sent outside the session window, with the
+  // variables that fill its parameters
+  whatsappTemplate?: WhatsAppTemplate | null
+}
+
+export interface RenderedMessage {
+  subject: string
+  // Null for WhatsApp and SMS, which are plain text
+  html: string | null
+  text: string
+  // The approved WhatsApp template with its parameters filled in, when there is one
+  whatsappTemplate: WhatsAppTemplate | null
+}
+
+export interface GuestTemplateContext {
+  eventId: string
+  email: string | null
+  phone: string | null
+  timezone: string
+  variables: TemplateData
+}
+
+export interface BuiltInTemplate {
+  category: TemplateCategory
+  name: string
+  type: 'email'
+  subject: string
+  content: string
+  variables: string[]
+  language: string
+}
+
+const BUILT_IN_TEMPLATES: Partial<Record<TemplateCategory, { name: string; template: EmailTemplate }>> = {
+  invitation: { name: 'Invitation', template: defaultTemplates.invitation },
+  reminder: { name: 'RSVP Reminder', template: defaultTemplates.reminder },
+  confirmation: { name: 'RSVP Confirmation', template: defaultTemplates.confirmation },
+}
+
+// The approved template a WhatsApp template row is sent as outside the session window
+function getWhatsAppTemplate(template: CommunicationTemplate): WhatsAppTemplate | null {
+  if (!template.whatsapp_template_name || !template.whatsapp_template_language) return null
+  return {
+    name: template.whatsapp_template_name,
+    language: template.whatsapp_template_language,
+    parameters: parseTemplateVariables(template.whatsapp_template_parameters)
+  }
+}
+
+function whatsAppTemplateColumns(whatsappTemplate: WhatsAppTemplate | null) {
+  return {
+    whatsapp_template_name: whatsappTemplate?.name ?? null,
+    whatsapp_template_language: whatsappTemplate?.language ?? null,
+    whatsapp_template_parameters: whatsappTemplate ? JSON.stringify(whatsappTemplate.parameters) : null
+  }
+}
+
+export function serializeTemplate(template: CommunicationTemplate) {
+  return {
+    id: template.id,
+    eventId: template.event_id,
+    name: template.name,
+    type: template.type,
+    category: template.category,
+    subject: template.subject,
+    content: template.content,
+    variables: parseTemplateVariables(template.variables),
+    isDefault: template.is_default,
+    isActive: template.is_active,
+    language: template.language,
+    whatsappTemplate: getWhatsAppTemplate(template),
+    createdAt: template.created_at,
+    updatedAt: template.updated_at
+  }
+}
+
+export function toTemplateSource(template: CommunicationTemplate): TemplateSource {
+  return {
+    type: template.type,
+    subject: template.subject,
+    content: template.content,
+    variables: parseTemplateVariables(template.variables),
+    whatsappTemplate: getWhatsAppTemplate(template)
+  }
+}
+
+function assertValid(source: TemplateSource) {
+  const problems = validateEmailTemplate({
+    subject: source.subject ?? '',
+    html: source.content,
+    variables: source.variables
+  })
+  if (source.whatsappTemplate) {
+    if (source.type !== 'whatsapp') {
+      problems.push('Only WhatsApp templates can name an approved WhatsApp template')
+    }
+    for (const parameter of source.whatsappTemplate.parameters) {
+      if (!source.variables.includes(parameter)) {
+        problems.push(`Unknown variable for the WhatsApp template: ${parameter}`)
+      }
+    }
+  }
+  if (problems.length > 0) throw new InvalidTemplateError(problems)
+}
+
+// Templates saved without an event apply to every event
+function eventOrGlobal(eventId: string) {
+  return or(eq(communicationTemplates.event_id, eventId), isNull(communicationTemplates.event_id))
+}
+
+/**
+ * Only one default per event, category, channel and language
+ */
+async function clearOtherDefaults(executor: DbExecutor, template: CommunicationTemplate) {
+  await executor.update(communicationTemplates)
+    .set({ is_default: false, updated_at: new Date() })
+    .where(and(
+      template.event_id ? eq(communicationTemplates.event_id, template.event_id) : isNull(communicationTemplates.event_id),
+      eq(communicationTemplates.category, template.category),
+      eq(communicationTemplates.type, template.type),
+      eq(communicationTemplates.language, template.language ?? 'en'),
+      ne(communicationTemplates.id, template.id)
+    ))
+}
+
+export class CommunicationTemplateService {
+  /**
+   * The built-in templates, which apply to every event until it saves its own
+   */
+  static getBuiltInTemplates(): BuiltInTemplate[] {
+    return Object.entries(BUILT_IN_TEMPLATES).map(([category, builtIn]) => ({
+      category: category as TemplateCategory,
+      name: builtIn!.name,
+      type: 'email' as const,
+      subject: builtIn!.template.subject,
+      content: builtIn!.template.html,
+      variables: builtIn!.template.variables,
+      language: 'en'
+    }))
+  }
+
+  /**
+   * The event's templates, together with those shared by every event
+   */
+  static async list(
+    eventId: string,
+    filters: { language?: string; category?: TemplateCategory; type?: CommunicationType } = {}
+  ): Promise<CommunicationTemplate[]> {
+    return db.select()
+      .from(communicationTemplates)
+      .where(and(
+        eventOrGlobal(eventId),
+        filters.language ? eq(communicationTemplates.language, filters.language) : undefined,
+        filters.category ? eq(communicationTemplates.category, filters.category) : undefined,
+        filters.type ? eq(communicationTemplates.type, filters.type) : undefined
+      ))
+      .orderBy(asc(communicationTemplates.category), asc(communicationTemplates.language), asc(communicationTemplates.name))
+  }
+
+  static async get(id: string): Promise<CommunicationTemplate> {
+    const [template] = await db.select()
+      .from(communicationTemplates)
+      .where(eq(communicationTemplates.id, id))
+      .limit(1)
+    if (!template) throw new TemplateNotFoundError('Template not found')
+    return template
+  }
+
+  /**
+   * A template the event can use: its own, or one shared by every event
+   */
+  static async getForEvent(eventId: string, id: string): Promise<CommunicationTemplate> {
+    const template = await this.get(id)
+    if (template.event_id && template.event_id !== eventId) {
+      throw new TemplateNotFoundError('Template not found')
+    }
+    return template
+  }
+
+  /**
+   * A template the event may change or delete: one of its own
+   */
+  static async getEditableForEvent(eventId: string, id: string): Promise<CommunicationTemplate> {
+    const template = await this.getForEvent(eventId, id)
+    if (!template.event_id) throw new SharedTemplateError()
+    return template
+  }
+
+  /**
+   * Copy a template the event can use into the event's own templates, to edit without
+   * touching the original. A copy of a default takes over as the event's default.
+   */
+  static async copyToEvent(eventId: string, id: string, createdBy?: string): Promise<CommunicationTemplate> {
+    const original = await this.getForEvent(eventId, id)
+
+    return db.transaction(async (tx) => {
+      const [template] = await tx.insert(communicationTemplates)
+        .values({
+          event_id: eventId,
+          name: original.event_id ? `${original.name} (copy)` : original.name,
+          type: original.type,
+          category: original.category,
+          subject: original.subject,
+          content: original.content,
+          variables: original.variables,
+          is_default: original.is_default,
+          is_active: original.is_active,
+          language: original.language,
+          whatsapp_template_name: original.whatsapp_template_name,
+          whatsapp_template_language: original.whatsapp_template_language,
+          whatsapp_template_parameters: original.whatsapp_template_parameters,
+          created_by: createdBy ?? null,
+          created_at: new Date(),
+          updated_at: new Date()
+        })
+        .returning()
+
+      if (template.is_default) {
+        await clearOtherDefaults(tx, template)
+      }
+      return template
+    })
+  }
+
+  /**
+   * Save a new template. Variables default to everything available for a guest, and
+   * the template must render with them.
+   */
+  static async create(data: CreateTemplate, createdBy?: string): Promise<CommunicationTemplate> {
+    const variables = data.variables ?? TEMPLATE_VARIABLES
+    assertValid({
+      type: data.type,
+      subject: data.subject,
+      content: data.content,
+      variables,
+      whatsappTemplate: data.whatsappTemplate
+    })
+
+    return db.transaction(async (tx) => {
+      const [template] = await tx.insert(communicationTemplates)
+        .values({
+          event_id: data.eventId ?? null,
+          name: data.name,
+          type: data.type,
+          category: data.category,
+          subject: data.subject ?? null,
+          content: data.content,
+          variables: JSON.stringify(variables),
+          is_default: data.isDefault,
+          is_active: data.isActive,
+          language: data.language,
+          ...whatsAppTemplateColumns(data.whatsappTemplate ?? null),
+          created_by: createdBy ?? null,
+          created_at: new Date(),
+          updated_at: new Date()
+        })
+        .returning()
+
+      if (template.is_default) {
+        await clearOtherDefaults(tx, template)
+      }
+      return template
+    })
+  }
+
+  static async update(id: string, data: UpdateTemplate): Promise<CommunicationTemplate> {
+    const existing = await this.get(id)
+    const source = toTemplateSource(existing)
+    assertValid({
+      type: data.type ?? source.type,
+      subject: data.subject !== undefined ? data.subject : source.subject,
+      content: data.content ?? source.content,
+      variables: data.variables ?? source.variables,
+      whatsappTemplate: data.whatsappTemplate !== undefined ? data.whatsappTemplate : source.whatsappTemplate
+    })
+
+    const updates: Partial<typeof communicationTemplates.$inferInsert> = {}
+    if (data.name !== undefined) updates.name = data.name
+    if (data.type !== undefined) updates.type = data.type
+    if (data.category !== undefined) updates.category = data.category
+    if (data.subject !== undefined) updates.subject = data.subject
+    if (data.content !== undefined) updates.content = data.content
+    if (data.variables !== undefined) updates.variables = JSON.stringify(data.variables)
+    if (data.isDefault !== undefined) updates.is_default = data.isDefault
+    if (data.isActive !== undefined) updates.is_active = data.isActive
+    if (data.language !== undefined) updates.language = data.language
+    if (data.whatsappTemplate !== undefined) Object.assign(updates, whatsAppTemplateColumns(data.whatsappTemplate))
+
+    return db.transaction(async (tx) => {
+      const [template] = await tx.update(communicationTemplates)
+        .set({ ...updates, updated_at: new Date() })
+        .where(eq(communicationTemplates.id, id))
+        .returning()
+
+      if (template.is_default) {
+        await clearOtherDefaults(tx, template)
+      }
+      return template
+    })
+  }
+
+  /**
+   * Delete a template. One that messages were already sent from is deactivated instead,
+   * so the message history keeps pointing at it.
+   */
+  static async remove(id: string): Promise<{ deleted: boolean; deactivated: boolean }> {
+    await this.get(id)
+
+    const [usage] = await db.select({ total: count() })
+      .from(communications)
+      .where(eq(communications.template_id, id))
+
+    if (usage.total > 0) {
+      await db.update(communicationTemplates)
+        .set({ is_active: false, is_default: false, updated_at: new Date() })
+        .where(eq(communicationTemplates.id, id))
+      return { deleted: false, deactivated: true }
+    }
+
+    await db.delete(communicationTemplates).where(eq(communicationTemplates.id, id))
+    return { deleted: true, deactivated: false }
+  }
+
+  /**
+   * The template to send for a category: an active template in the guest's language,
+   * then in English, then the built-in one. The event's own templates come before shared
+   * ones, and defaults before the rest.
+   */
+  static async resolve(
+    eventId: string,
+    category: TemplateCategory,
+    options: { language?: string | null; type?: CommunicationType } = {}
+  ): Promise<{ templateId: string | null; source: TemplateSource } | null> {
+    const type = options.type ?? 'email'
+    const languages = Array.from(new Set([options.language || 'en', 'en']))
+
+    const candidates = await db.select()
+      .from(communicationTemplates)
+      .where(and(
+        eventOrGlobal(eventId),
+        eq(communicationTemplates.category, category),
+        eq(communicationTemplates.type, type),
+        eq(communicationTemplates.is_active, true)
+      ))
+      .orderBy(
+        sql`${communicationTemplates.event_id} is null`,
+        desc(communicationTemplates.is_default),
+        desc(communicationTemplates.updated_at)
+      )
+
+    for (const language of languages) {
+      const match = candidates.find(template => (template.language ?? 'en') === language)
+      if (match) return { templateId: match.id, source: toTemplateSource(match) }
+    }
+
+    const builtIn = BUILT_IN_TEMPLATES[category]
+    if (type !== 'email' || !builtIn) return null
+    return {
+      templateId: null,
+      source: {
+        type: 'email',
+        subject: builtIn.template.subject,
+        content: builtIn.template.html,
+        variables: builtIn.template.variables
+      }
+    }
+  }
+
+  /**
+   * Everything a template can say about a guest. Links use the RSVP token passed in; tokens
+   * are stored hashed, so without one the RSVP link points to the code entry page and
+   * there is no calendar link. No new token is issued.
+   */
+  static async getGuestContext(
+    guestId: string,
+    eventId?: string,
+    token: string | null = null
+  ): Promise<GuestTemplateContext> {
+    const [row] = await db.select({
+      guest: guests,
+      householdName: households.name,
+      event: events
+    })
+      .from(guests)
+      .innerJoin(events, eq(events.id, guests.event_id))
+      .leftJoin(households, eq(households.id, guests.household_id))
+      .where(and(
+        eq(guests.id, guestId),
+        eventId ? eq(guests.event_id, eventId) : undefined
+      ))
+      .limit(1)
+    if (!row) throw new TemplateNotFoundError('Guest not found')
+
+    const { guest, event } = row
+    const window = await getRsvpWindow(event.id)
+
+    const eventCeremonies = await db.select()
+      .from(ceremonies)
+      .where(eq(ceremonies.event_id, event.id))
+      .orderBy(asc(ceremonies.display_order), asc(ceremonies.ceremony_date))
+
+    return {
+      eventId: event.id,
+      email: guest.email,
+      phone: guest.phone,
+      timezone: window?.timezone ?? 'UTC',
+      variables: {
+        guestName: `${guest.first_name} ${guest.last_name}`,
+        firstName: guest.first_name,
+        lastName: guest.last_name,
+        eventName: event.name,
+        coupleNames: event.couple_names,
+        weddingDate: event.wedding_date,
+        venueName: event.venue_name,
+        venueAddress: event.venue_address,
+        rsvpLink: token
+          ? RSVPTokenService.generateRSVPUrl(token)
+          : RSVPTokenService.getCodeEntryUrl(),
+        rsvpDeadline: window?.rsvpDeadline ?? null,
+        calendarLink: token ? CalendarService.getFeedUrl(token) : null,
+        plusOneAllowed: !!guest.plus_one_allowed,
+        plusOneName: guest.plus_one_name,
+        householdName: row.householdName,
+        ceremonies: eventCeremonies.map(ceremony => ({
+          name: ceremony.name,
+          date: ceremony.ceremony_date,
+          time: ceremony.start_time,
+          venue: ceremony.venue_name
+        }))
+      }
+    }
+  }
+
+  /**
+   * Render a template for one guest. Email gets a subject, HTML and a plain-text
+   * alternative; WhatsApp and SMS are rendered as plain text.
+   */
+  static render(source: TemplateSource, context: GuestTemplateContext): RenderedMessage {
+    if (source.type !== 'email') {
+      const options = { variables: source.variables, timezone: context.timezone, plainText: true }
+      const text = renderTemplate(source.content, context.variables, options)
+      const whatsappTemplate = source.type === 'whatsapp' && source.whatsappTemplate
+        ? {
+          ...source.whatsappTemplate,
+          parameters: source.whatsappTemplate.parameters.map(name => renderTemplate(`{{${name}}}`, context.variables, options))
+        }
+        : null
+      return { subject: '', html: null, text, whatsappTemplate }
+    }
+
+    const rendered = processTemplate(
+      { subject: source.subject ?? '', html: source.content, variables: source.variables },
+      context.variables,
+      { timezone: context.timezone }
+    )
+    return {
+      subject: rendered.subject,
+      html: rendered.html,
+      text: rendered.text ?? htmlToText(rendered.html),
+      whatsappTemplate: null
+    }
+  }
+
+  /**
+   * Render a stored template, or unsaved content, for a guest of the event. Unsaved content
+   * may use every guest variable unless it names its own.
+   */
+  static async preview(eventId: string, input: TemplatePreview): Promise<RenderedMessage & { context: GuestTemplateContext }> {
+    let source: TemplateSource
+    if (input.templateId) {
+      source = toTemplateSource(await this.getForEvent(eventId, input.templateId))
+    } else if (input.template) {
+      source = { ...input.template, variables: input.template.variables ?? TEMPLATE_VARIABLES }
+    } else {
+      throw new TemplateNotFoundError('Template not found')
+    }
+
+    const context = await this.getGuestContext(input.guestId, eventId)
+    return { ...this.render(source, context), context }
+  }
+
+  /**
+   * Send a preview to a planner's own address. It goes out straight away rather than
+   * through the outbox, is not recorded as a communication, and skips the suppression list.
+   * WhatsApp and SMS templates arrive as plain text.
+   */
+  static async sendTest(eventId: string, input: TemplatePreview, recipient: string): Promise<SendResult & { subject: string }> {
+    const rendered = await this.preview(eventId, input)
+    const subject = `[Test] ${rendered.subject || 'Template preview'}`
+
+    const result = await emailService.send({
+      to: recipient,
+      subject,
+      html: rendered.html ?? undefined,
+      text: rendered.text
+    })
+    return { ...result, subject }
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Time zone helpers built on Intl, so event-local dates and times can be turned into
+ * absolute instants without pulling in a date library
+ */
+
+export const DEFAULT_TIMEZONE = 'UTC'
+
+export function isValidTimezone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) return false
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Fall back to UTC for missing or unrecognised zone names
+ */
+export function resolveTimezone(timeZone: string | null | undefined): string {
+  return isValidTimezone(timeZone) ? timeZone : DEFAULT_TIMEZONE
+}
+
+/**
+ * Minutes the zone is ahead of UTC at the given instant (negative west of Greenwich)
+ */
+export function getTimezoneOffset(timeZone: string, at: Date): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(at)
+
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value)
+  const localAsUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'))
+
+  return Math.round((localAsUtc - Math.floor(at.getTime() / 1000) * 1000) / 60000)
+}
+
+/**
+ * Convert a wall-clock date and time in `timeZone` to the instant it represents.
+ * `date` is YYYY-MM-DD and `time` is HH:MM or HH:MM:SS(.mmm).
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number)
+  const [hours, minutes, seconds = '0'] = time.split(':')
+  const [wholeSeconds, millis = '0'] = seconds.split('.')
+
+  const wallClock = Date.UTC(
+    year,
+    month - 1,
+    day,
+    Number(hours),
+    Number(minutes),
+    Number(wholeSeconds),
+    Number(millis.padEnd(3, '0').slice(0, 3))
+  )
+
+  // The offset depends on the instant itself, so correct once more around DST changes
+  const zone = resolveTimezone(timeZone)
+  let instant = wallClock - getTimezoneOffset(zone, new Date(wallClock)) * 60000
+  instant = wallClock - getTimezoneOffset(zone, new Date(instant)) * 60000
+
+  return new Date(instant)
+}
+
+/**
+ * The last moment of a calendar date in the given zone
+ */
+export function endOfDayInTimezone(date: string, timeZone: string): Date {
+  return zonedTimeToUtc(date, '23:59:59.999', timeZone)
+}
@@ -0,0 +1,93 @@
+import { z } from 'zod'
+import { CustomFieldDefinitionSchema, type CustomFieldDefinition } from '@/lib/validations/schemas'
+
+// Digits with optional spaces, dashes, dots, brackets and a leading +
+const PHONE_PATTERN = /^\+?[0-9\s\-().]{7,20}$/
+
+export type CustomFieldAnswers = Record<string, string | boolean>
+
+/**
+ * Read the definitions stored in event_settings.custom_fields, dropping any that no longer parse
+ */
+export function parseCustomFieldDefinitions(json: string | null | undefined): CustomFieldDefinition[] {
+  if (!json) return []
+
+  let raw: unknown
+  try {
+    raw = JSON.parse(json)
+  } catch {
+    return []
+  }
+  if (!Array.isArray(raw)) return []
+
+  return raw.flatMap(item => {
+    const parsed = CustomFieldDefinitionSchema.safeParse(item)
+    return parsed.success ? [parsed.data] : []
+  })
+}
+
+function fieldValidator(field: CustomFieldDefinition, required: boolean): z.ZodTypeAny {
+  if (field.type === 'checkbox') {
+    // A required checkbox is a consent-style question that has to be ticked
+    return required
+      ? z.literal(true, { errorMap: () => ({ message: `${field.name} must be checked` }) })
+      : z.boolean().optional()
+  }
+
+  const requiredError = { required_error: `${field.name} is required` }
+  let validator: z.ZodTypeAny
+  switch (field.type) {
+    case 'email':
+      validator = z.string(requiredError).trim().email(`${field.name} must be a valid email address`)
+      break
+    case 'phone':
+      validator = z.string(requiredError).trim().regex(PHONE_PATTERN, `${field.name} must be a valid phone number`)
+      break
+    case 'select':
+      validator = z.enum(field.options as [string, ...string[]], {
+        errorMap: (issue, ctx) => ({
+          message: issue.code === 'invalid_type' && ctx.data === undefined
+            ? `${field.name} is required`
+            : `Choose one of the options for ${field.name}`
+        })
+      })
+      break
+    case 'textarea':
+      validator = z.string(requiredError).trim().max(5000)
+      break
+    case 'text':
+    default:
+      validator = z.string(requiredError).trim().max(1000)
+  }
+
+  // Blank inputs count as unanswered
+  return z.preprocess(
+    value => typeof value === 'string' && value.trim() === '' ? undefined : value,
+    required ? validator : validator.optional()
+  )
+}
+
+/**
+ * Build a validator for the answers to an event's custom questions. Unknown keys are rejected.
+ * With `requireAnswers` off, required questions may be left blank (e.g. for guests who decline).
+ */
+export function buildCustomFieldsSchema(
+  definitions: CustomFieldDefinition[],
+  options: { requireAnswers?: boolean } = {}
+) {
+  const { requireAnswers = true } = options
+  const shape: Record<string, z.ZodTypeAny> = {}
+
+  for (const field of definitions) {
+    shape[field.name] = fieldValidator(field, requireAnswers && field.required)
+  }
+
+  return z.object(shape).strict()
+}
+
+/**
+ * Stored form of an answer; checkboxes become 'true' / 'false'
+ */
+export function serializeCustomFieldValue(value: string | boolean): string {
+  return typeof value === 'boolean' ? String(value) : value
+}
@@ -1,4 +1,10 @@
 import { z } from 'zod'
+import {
+  accommodationPreferenceSchema,
+  flightDetailsSchema,
+  transportationTypeSchema,
+  travelModeSchema
+} from '@/lib/validations/validation-schemas'
 
 // Enums for validation
 export const UserRoleSchema = z.enum(['super_admin', 'admin', 'planner', 'couple', 'guest'])
@@ -7,7 +13,7 @@ export const GuestSideSchema = z.enum(['bride', 'groom', 'mutual'])
 export const RsvpStatusSchema = z.enum(['pending', 'attending', 'not_attending', 'maybe'])
 export const AttendanceStatusSchema = z.enum(['yes', 'no', 'maybe'])
 export const CommunicationTypeSchema = z.enum(['email', 'whatsapp', 'sms'])
-export const CommunicationStatusSchema = z.enum(['pending', 'sent', 'delivered', 'failed', 'bounced'])
+export const CommunicationStatusSchema = z.enum(['pending', 'sending', 'sent', 'delivered', 'failed', 'bounced'])
 export const TemplateCategorySchema = z.enum(['invitation', 'reminder', 'confirmation', 'update', 'thank_you'])
 
 // User Schemas
@@ -82,6 +88,7 @@ export const CreateGuestSchema = z.object({
   specialRequests: z.string().optional(),
   accessibilityNeeds: z.string().optional(),
   languagePreference: z.string().length(2).default('en'),
+  preferredChannel: CommunicationTypeSchema.default('email'),
   notes: z.string().optional(),
   tags: z.array(z.string()).optional(),
 })
@@ -98,6 +105,35 @@ export const BulkGuestImportSchema = z.object({
   eventId: z.string().uuid(),
 })
 
+export const MergeGuestsSchema = z.object({
+  keepGuestId: z.string().uuid(),
+  mergeGuestId: z.string().uuid(),
+}).refine((data) => data.keepGuestId !== data.mergeGuestId, {
+  message: 'Cannot merge a guest into itself',
+  path: ['mergeGuestId'],
+})
+
+// Household Schemas
+export const CreateHouseholdSchema = z.object({
+  eventId: z.string().uuid(),
+  name: z.string().min(1, 'Household name is required').max(255),
+  guestIds: z.array(z.string().uuid()).min(1, 'A household needs at least one guest'),
+  primaryGuestId: z.string().uuid().optional(),
+  address: z.string().optional(),
+  notes: z.string().optional(),
+}).refine((data) => !data.primaryGuestId || data.guestIds.includes(data.primaryGuestId), {
+  message: 'Primary contact must be a member of the household',
+  path: ['primaryGuestId'],
+})
+
+export const UpdateHouseholdSchema = z.object({
+  name: z.string().min(1).max(255).optional(),
+  guestIds: z.array(z.string().uuid()).min(1, 'A household needs at least one guest').optional(),
+  primaryGuestId: z.string().uuid().optional(),
+  address: z.string().optional(),
+  notes: z.string().optional(),
+})
+
 // Ceremony Schemas
 export const CreateCeremonySchema = z.object({
   eventId: z.string().uuid(),
@@ -124,8 +160,35 @@ export const RsvpStage1Schema = z.object({
   guestId: z.string().uuid(),
   attending: z.boolean(),
   plusOneAttending: z.boolean().optional(),
+  // Answers to the event's custom questions, keyed by field name; checked against the definitions on the server
+  customFields: z.record(z.union([z.string(), z.boolean()])).optional(),
 })
 
+const DateStringSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD')
+const TimeStringSchema = z.string().regex(/^\d{2}:\d{2}$/, 'Use HH:MM')
+
+// Travel and accommodation needs, collected in stage 2 when the event asks for them
+export const RsvpTravelSchema = z.object({
+  needsAccommodation: z.boolean().optional(),
+  accommodationPreference: accommodationPreferenceSchema.optional(),
+  accommodationNotes: z.string().max(500, 'Notes is too long').optional(),
+  needsTransportation: z.boolean().optional(),
+  transportationType: transportationTypeSchema.optional(),
+  transportationNotes: z.string().max(500, 'Notes is too long').optional(),
+  travelMode: travelModeSchema.optional(),
+  flightDetails: flightDetailsSchema.optional(),
+  arrivalDate: DateStringSchema.optional(),
+  arrivalTime: TimeStringSchema.optional(),
+  departureDate: DateStringSchema.optional(),
+  departureTime: TimeStringSchema.optional(),
+}).refine(
+  (travel) => !travel.arrivalDate || !travel.departureDate || travel.departureDate >= travel.arrivalDate,
+  { message: 'Departure must be on or after arrival', path: ['departureDate'] }
+).refine(
+  (travel) => !travel.needsAccommodation || (!!travel.arrivalDate && !!travel.departureDate),
+  { message: 'Arrival and departure dates are needed to arrange accommodation', path: ['arrivalDate'] }
+)
+
 export const RsvpStage2Schema = z.object({
   guestId: z.string().uuid(),
   ceremonies: z.array(z.object({
@@ -139,10 +202,109 @@ export const RsvpStage2Schema = z.object({
   dietaryRequirements: z.string().optional(),
   specialRequests: z.string().optional(),
   accessibilityNeeds: z.string().optional(),
+  travel: RsvpTravelSchema.optional(),
 })
 
 export const CombinedRsvpSchema = RsvpStage1Schema.merge(RsvpStage2Schema)
 
+// Lets a single guest answer after the event's RSVP deadline
+export const RsvpDeadlineOverrideSchema = z.object({
+  until: z.coerce.date().refine((date) => date > new Date(), 'Override must end in the future'),
+  reason: z.string().max(500).optional(),
+})
+
+// One submission answering for every member of an invitation (a single guest is a party of one)
+export const PartyRsvpStage1Schema = z.object({
+  members: z.array(RsvpStage1Schema).min(1, 'At least one guest must respond'),
+})
+
+export const PartyRsvpStage2Schema = z.object({
+  members: z.array(RsvpStage2Schema).min(1, 'At least one guest must respond'),
+})
+
+// A reply received by email, WhatsApp or SMS, as listed in the planner's inbox
+export const ReplyStatusSchema = z.enum(['pending', 'applied', 'rejected'])
+
+// Approve a reply, correcting what was read from it if needed, or reject it
+export const ReviewReplySchema = z.object({
+  action: z.enum(['approve', 'reject']),
+  attending: z.boolean().optional(),
+  partySize: z.number().int().min(1).max(20).nullable().optional(),
+})
+
+// Inbound email as posted by a mail provider's inbound parsing webhook
+export const InboundEmailSchema = z.object({
+  from: z.string().min(1),
+  to: z.union([z.string(), z.array(z.string())]).optional(),
+  subject: z.string().optional(),
+  text: z.string().optional(),
+  html: z.string().optional(),
+  messageId: z.string().optional(),
+  inReplyTo: z.string().optional(),
+  references: z.union([z.string(), z.array(z.string())]).optional(),
+}).refine((email) => !!email.text || !!email.html, { message: 'The email has no body', path: ['text'] })
+
+// Guest Communication Preferences. Confirmations answer the guest's own RSVP, so they
+// cannot be turned off.
+export const PreferenceCategorySchema = TemplateCategorySchema.exclude(['confirmation'])
+
+export const UpdatePreferencesSchema = z.object({
+  channel: CommunicationTypeSchema.optional(),
+  language: z.string().length(2).optional(),
+  // The categories the guest wants to receive; the rest are muted
+  categories: z.array(PreferenceCategorySchema).optional(),
+  // false resubscribes a guest who unsubscribed
+  unsubscribed: z.boolean().optional(),
+})
+
+// Printed invitation QR codes
+export const QrImageFormatSchema = z.enum(['svg', 'png'])
+
+export const InvitationQrExportSchema = z.object({
+  eventId: z.string().uuid(),
+  // Leave out to print every guest in the event
+  guestIds: z.array(z.string().uuid()).max(2000).optional(),
+  format: z.enum(['pdf', 'zip']),
+  // The image type inside a ZIP; label sheets always use PNG
+  imageFormat: QrImageFormatSchema.default('png'),
+  paperSize: z.enum(['letter', 'a4']).default('letter'),
+  // Print a short code under each QR for guests who can't scan
+  includeCode: z.boolean().default(false),
+  expirationDays: z.number().int().min(1).max(365).default(90),
+})
+
+// Day-of check-in
+export const CheckInArrivalSchema = z.object({
+  // Chosen by the device, so results can be matched to its queued arrivals
+  id: z.string().min(1).max(100),
+  ceremonyId: z.string().uuid(),
+  guestId: z.string().uuid().optional(),
+  // The link token from an invitation scanned while offline; checks in the card's party
+  token: z.string().min(1).max(200).optional(),
+  plusOne: z.boolean().default(false),
+  // false undoes an arrival marked by mistake
+  arrived: z.boolean().default(true),
+  at: z.coerce.date(),
+}).refine((arrival) => !!arrival.guestId !== !!arrival.token, {
+  message: 'Give either a guest or a scanned token',
+  path: ['guestId']
+})
+
+export const CheckInSyncSchema = z.object({
+  eventId: z.string().uuid(),
+  arrivals: z.array(CheckInArrivalSchema).min(1).max(500),
+})
+
+export const CheckInLookupSchema = z.object({
+  eventId: z.string().uuid(),
+  token: z.string().min(1).max(200),
+})
+
+export const UpdateSeatingSchema = z.object({
+  ceremonyId: z.string().uuid(),
+  tableName: z.string().trim().max(50).nullable(),
+})
+
 // Accommodation Schemas
 export const CreateAccommodationSchema = z.object({
   eventId: z.string().uuid(),
@@ -209,6 +371,18 @@ export const CreateTransportationSchema = z.object({
 export const UpdateTransportationSchema = CreateTransportationSchema.partial().omit({ eventId: true })
 
 // Communication Schemas
+// An approved WhatsApp template, sent instead of a WhatsApp template's content outside the
+// 24 hour session window. Parameters name the variables that fill its {{1}}, {{2}}... in order.
+export const WhatsAppTemplateSchema = z.object({
+  // The name approved in WhatsApp Business Manager, or the Content SID when sending through Twilio
+  name: z.string().min(1).max(512).regex(
+    /^([a-z0-9_]+|HX[0-9a-f]{32})$/,
+    'Use the template name as approved (lower case letters, digits and underscores) or its Twilio Content SID'
+  ),
+  language: z.string().min(2).max(15),
+  parameters: z.array(z.string()).default([]),
+})
+
 export const CreateTemplateSchema = z.object({
   eventId: z.string().uuid().optional(),
   name: z.string().min(1, 'Template name is required').max(255),
@@ -220,21 +394,68 @@ export const CreateTemplateSchema = z.object({
   isDefault: z.boolean().default(false),
   isActive: z.boolean().default(true),
   language: z.string().length(2).default('en'),
+  whatsappTemplate: WhatsAppTemplateSchema.nullable().optional(),
 })
 
 export const UpdateTemplateSchema = CreateTemplateSchema.partial().omit({ eventId: true })
 
-export const SendCommunicationSchema = z.object({
+export const TemplateFilterSchema = z.object({
+  language: z.string().length(2).optional(),
+  category: TemplateCategorySchema.optional(),
+  type: CommunicationTypeSchema.optional(),
+})
+
+// Render a saved template, or unsaved edits, for one of the event's guests
+export const TemplatePreviewSchema = z.object({
+  guestId: z.string().uuid(),
+  templateId: z.string().uuid().optional(),
+  template: z.object({
+    type: CommunicationTypeSchema.default('email'),
+    subject: z.string().max(500).optional(),
+    content: z.string().min(1, 'Content is required'),
+    variables: z.array(z.string()).optional(),
+  }).optional(),
+}).refine(
+  (preview) => !!preview.templateId !== !!preview.template,
+  { message: 'Provide either templateId or template', path: ['templateId'] }
+)
+
+
+// Reminder Rule Schemas
+export const ReminderAnchorSchema = z.enum(['rsvp_deadline', 'ceremony'])
+
+const ReminderRuleFieldsSchema = z.object({
   eventId: z.string().uuid(),
+  name: z.string().min(1, 'Rule name is required').max(255),
+  anchor: ReminderAnchorSchema,
+  // Only with a ceremony anchor; leave out to remind before every ceremony
+  ceremonyId: z.string().uuid().optional(),
+  daysBefore: z.array(z.number().int().min(0).max(365)).min(1, 'At least one day is required').max(10),
+  sendTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Use HH:MM').default('09:00'),
+  rsvpStatus: RsvpStatusSchema.optional(),
   templateId: z.string().uuid().optional(),
-  recipientIds: z.array(z.string().uuid()).min(1, 'At least one recipient is required'),
-  type: CommunicationTypeSchema,
-  subject: z.string().max(500).optional(),
-  content: z.string().min(1, 'Content is required'),
-  scheduledFor: z.string().optional(),
+  isActive: z.boolean().default(true),
 })
 
+export const CreateReminderRuleSchema = ReminderRuleFieldsSchema.refine(
+  (rule) => rule.anchor === 'ceremony' || !rule.ceremonyId,
+  { message: 'A ceremony can only be chosen for ceremony reminders', path: ['ceremonyId'] }
+)
+
+export const UpdateReminderRuleSchema = ReminderRuleFieldsSchema.partial().omit({ eventId: true })
+
 // Event Settings Schema
+// A planner-defined RSVP question; `name` is shown as the label and keys the stored answer
+export const CustomFieldDefinitionSchema = z.object({
+  name: z.string().min(1).max(255),
+  type: z.enum(['text', 'email', 'phone', 'select', 'checkbox', 'textarea']),
+  required: z.boolean().default(false),
+  options: z.array(z.string()).optional(),
+}).refine(
+  (field) => field.type !== 'select' || (field.options?.length ?? 0) > 0,
+  { message: 'Select fields need at least one option', path: ['options'] }
+)
+
 export const UpdateEventSettingsSchema = z.object({
   rsvpDeadline: z.string().optional(),
   allowPlusOnes: z.boolean().default(true),
@@ -242,12 +463,7 @@ export const UpdateEventSettingsSchema = z.object({
   requireAccommodation: z.boolean().default(false),
   requireTransportation: z.boolean().default(false),
   enableTwoStageRsvp: z.boolean().default(true),
-  customFields: z.array(z.object({
-    name: z.string(),
-    type: z.enum(['text', 'email', 'phone', 'select', 'checkbox', 'textarea']),
-    required: z.boolean().default(false),
-    options: z.array(z.string()).optional(),
-  })).optional(),
+  customFields: z.array(CustomFieldDefinitionSchema).optional(),
   emailSettings: z.object({
     provider: z.enum(['resend', 'gmail', 'outlook', 'smtp']),
     fromName: z.string(),
@@ -335,6 +551,29 @@ export const EventFilterSchema = z.object({
   search: z.string().optional(),
 }).merge(PaginationSchema)
 
+// Send to the listed guests or to every guest matching a filter. The message is a saved
+// template, the event's template for a category in each guest's language, or one-off content.
+// Without a type, each guest is messaged on their preferred channel.
+export const SendCommunicationSchema = z.object({
+  eventId: z.string().uuid(),
+  templateId: z.string().uuid().optional(),
+  category: TemplateCategorySchema.optional(),
+  recipientIds: z.array(z.string().uuid()).min(1, 'At least one recipient is required').optional(),
+  filter: GuestFilterSchema.omit({ page: true, limit: true, sortBy: true, sortOrder: true }).optional(),
+  type: CommunicationTypeSchema.optional(),
+  subject: z.string().max(500).optional(),
+  content: z.string().min(1, 'Content is required').optional(),
+  scheduledFor: z.string().datetime().optional(),
+  // Report who would be messaged and who would be skipped, without sending
+  dryRun: z.boolean().default(false),
+}).refine(
+  (send) => !!send.recipientIds !== !!send.filter,
+  { message: 'Provide either recipientIds or filter', path: ['recipientIds'] }
+).refine(
+  (send) => [send.templateId, send.category, send.content].filter(Boolean).length === 1,
+  { message: 'Provide one of templateId, category or content', path: ['templateId'] }
+)
+
 // Export type inferences
 export type CreateUser = z.infer<typeof CreateUserSchema>
 export type UpdateUser = z.infer<typeof UpdateUserSchema>
@@ -347,6 +586,10 @@ export type UpdateEvent = z.infer<typeof UpdateEventSchema>
 export type CreateGuest = z.infer<typeof CreateGuestSchema>
 export type UpdateGuest = z.infer<typeof UpdateGuestSchema>
 export type BulkGuestImport = z.infer<typeof BulkGuestImportSchema>
+export type MergeGuests = z.infer<typeof MergeGuestsSchema>
+
+export type CreateHousehold = z.infer<typeof CreateHouseholdSchema>
+export type UpdateHousehold = z.infer<typeof UpdateHouseholdSchema>
 
 export type CreateCeremony = z.infer<typeof CreateCeremonySchema>
 export type UpdateCeremony = z.infer<typeof UpdateCeremonySchema>
@@ -354,6 +597,18 @@ export type UpdateCeremony = z.infer<typeof UpdateCeremonySchema>
 export type RsvpStage1 = z.infer<typeof RsvpStage1Schema>
 export type RsvpStage2 = z.infer<typeof RsvpStage2Schema>
 export type CombinedRsvp = z.infer<typeof CombinedRsvpSchema>
+export type PartyRsvpStage1 = z.infer<typeof PartyRsvpStage1Schema>
+export type PartyRsvpStage2 = z.infer<typeof PartyRsvpStage2Schema>
+export type RsvpTravel = z.infer<typeof RsvpTravelSchema>
+export type RsvpDeadlineOverride = z.infer<typeof RsvpDeadlineOverrideSchema>
+export type ReviewReply = z.infer<typeof ReviewReplySchema>
+export type InboundEmail = z.infer<typeof InboundEmailSchema>
+export type PreferenceCategory = z.infer<typeof PreferenceCategorySchema>
+export type UpdatePreferences = z.infer<typeof UpdatePreferencesSchema>
+export type QrImageFormat = z.infer<typeof QrImageFormatSchema>
+export type InvitationQrExport = z.infer<typeof InvitationQrExportSchema>
+export type CheckInArrival = z.infer<typeof CheckInArrivalSchema>
+export type UpdateSeating = z.infer<typeof UpdateSeatingSchema>
 
 export type CreateAccommodation = z.infer<typeof CreateAccommodationSchema>
 export type UpdateAccommodation = z.infer<typeof UpdateAccommodationSchema>
@@ -365,9 +620,14 @@ export type UpdateTransportation = z.infer<typeof UpdateTransportationSchema>
 
 export type CreateTemplate = z.infer<typeof CreateTemplateSchema>
 export type UpdateTemplate = z.infer<typeof UpdateTemplateSchema>
+export type TemplateFilter = z.infer<typeof TemplateFilterSchema>
+export type TemplatePreview = z.infer<typeof TemplatePreviewSchema>
 export type SendCommunication = z.infer<typeof SendCommunicationSchema>
+export type CreateReminderRule = z.infer<typeof CreateReminderRuleSchema>
+export type UpdateReminderRule = z.infer<typeof UpdateReminderRuleSchema>
 
 export type UpdateEventSettings = z.infer<typeof UpdateEventSettingsSchema>
+export type CustomFieldDefinition = z.infer<typeof CustomFieldDefinitionSchema>
 
 export type GuestFilter = z.infer<typeof GuestFilterSchema>
 export type EventFilter = z.infer<typeof EventFilterSchema>
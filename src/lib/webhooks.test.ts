@@ -0,0 +1,70 @@
+import { createHmac } from 'crypto'
+import { describe, it, expect } from 'vitest'
+import { hasSharedSecret, verifyHubSignature, verifySvixSignature } from '@/lib/webhooks'
+
+const payload = '{"type":"email.delivered"}'
+
+describe('verifySvixSignature', () => {
+  const key = Buffer.from('test-signing-key')
+  const secret = `whsec_${key.toString('base64')}`
+
+  function signedHeaders(timestamp: number, body = payload) {
+    const signature = createHmac('sha256', key).update(`msg_1.${timestamp}.${body}`).digest('base64')
+    return new Headers({
+      'svix-id': 'msg_1',
+      'svix-timestamp': String(timestamp),
+      'svix-signature': `v1,bm90LXRoaXMtb25l v1,${signature}`
+    })
+  }
+
+  const now = () => Math.floor(Date.now() / 1000)
+
+  it('accepts a signed delivery', () => {
+    expect(verifySvixSignature(payload, signedHeaders(now()), secret)).toBe(true)
+  })
+
+  it('rejects a changed body', () => {
+    expect(verifySvixSignature(payload.replace('delivered', 'bounced'), signedHeaders(now()), secret)).toBe(false)
+  })
+
+  it('rejects another secret', () => {
+    expect(verifySvixSignature(payload, signedHeaders(now()), `whsec_${Buffer.from('other').toString('base64')}`)).toBe(false)
+  })
+
+  it('rejects an old delivery', () => {
+    expect(verifySvixSignature(payload, signedHeaders(now() - 10 * 60), secret)).toBe(false)
+  })
+
+  it('rejects a delivery without signature headers', () => {
+    expect(verifySvixSignature(payload, new Headers(), secret)).toBe(false)
+  })
+})
+
+describe('verifyHubSignature', () => {
+  const signature = `sha256=${createHmac('sha256', 'app-secret').update(payload).digest('hex')}`
+
+  it('accepts a signed delivery', () => {
+    expect(verifyHubSignature(payload, signature, 'app-secret')).toBe(true)
+  })
+
+  it('rejects a changed body, another secret or a missing header', () => {
+    expect(verifyHubSignature(`${payload} `, signature, 'app-secret')).toBe(false)
+    expect(verifyHubSignature(payload, signature, 'other-secret')).toBe(false)
+    expect(verifyHubSignature(payload, null, 'app-secret')).toBe(false)
+    expect(verifyHubSignature(payload, signature.replace('sha256=', ''), 'app-secret')).toBe(false)
+  })
+})
+
+describe('hasSharedSecret', () => {
+  it('accepts the secret as a bearer token or a query parameter', () => {
+    expect(hasSharedSecret(new Request('https://example.com/hook', {
+      headers: { authorization: 'Bearer s3cret' }
+    }), 's3cret')).toBe(true)
+    expect(hasSharedSecret(new Request('https://example.com/hook?token=s3cret'), 's3cret')).toBe(true)
+  })
+
+  it('rejects a wrong or missing secret', () => {
+    expect(hasSharedSecret(new Request('https://example.com/hook?token=s3cre'), 's3cret')).toBe(false)
+    expect(hasSharedSecret(new Request('https://example.com/hook'), 's3cret')).toBe(false)
+  })
+})
@@ -0,0 +1,54 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+
+// Reject deliveries whose timestamp is further than this from our clock, to stop replays
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60
+
+/**
+ * Verify a webhook signed the Svix way (used by Resend). The signature is an HMAC-SHA256
+ * of `<svix-id>.<svix-timestamp>.<raw body>` keyed with the base64 part of the `whsec_`
+ * secret; `svix-signature` holds one or more space separated `v1,<base64>` entries.
+ * `payload` must be the raw request body, not re-serialised JSON.
+ */
+export function verifySvixSignature(payload: string, headers: Headers, secret: string): boolean {
+  const id = headers.get('svix-id')
+  const timestamp = headers.get('svix-timestamp')
+  const signatures = headers.get('svix-signature')
+  if (!id || !timestamp || !signatures) return false
+
+  const sentAt = Number(timestamp)
+  if (!Number.isFinite(sentAt) || Math.abs(Date.now() / 1000 - sentAt) > SIGNATURE_TOLERANCE_SECONDS) {
+    return false
+  }
+
+  const key = Buffer.from(secret.replace(/^whsec_/, ''), 'base64')
+  const expected = createHmac('sha256', key).update(`${id}.${timestamp}.${payload}`).digest()
+
+  return signatures.split(' ').some(entry => {
+    const [version, signature] = entry.split(',')
+    if (version !== 'v1' || !signature) return false
+    const received = Buffer.from(signature, 'base64')
+    return received.length === expected.length && timingSafeEqual(received, expected)
+  })
+}
+
+/**
+ * Verify a Meta (WhatsApp Cloud API) webhook: `x-hub-signature-256` is `sha256=` followed by
+ * the hex HMAC-SHA256 of the raw body, keyed with the app secret
+ */
+export function verifyHubSignature(payload: string, header: string | null, secret: string): boolean {
+  if (!header?.startsWith('sha256=')) return false
+  const received = Buffer.from(header.slice('sha256='.length), 'hex')
+  const expected = createHmac('sha256', secret).update(payload).digest()
+  return received.length === expected.length && timingSafeEqual(received, expected)
+}
+
+/**
+ * Check a shared secret sent as `Authorization: Bearer <secret>` or, for providers that
+ * can only be given a URL, as `?token=<secret>`
+ */
+export function hasSharedSecret(request: Request, secret: string): boolean {
+  const bearer = request.headers.get('authorization')?.replace(/^Bearer /, '')
+  const received = Buffer.from(bearer || new URL(request.url).searchParams.get('token') || '')
+  const expected = Buffer.from(secret)
+  return received.length === expected.length && timingSafeEqual(received, expected)
+}
@@ -15,6 +15,11 @@ export default withAuth(
       '/api/auth',
       '/api/rsvp',
       '/api/system/health',
+      '/api/system/cron', // authenticated with CRON_SECRET by the route itself
+      '/api/track', // signed open/click tracking links from emails
+      '/api/webhooks', // provider callbacks, verified by signature
+      '/preferences', // signed links from guest emails
+      '/api/preferences',
       '/',
     ]
 
@@ -78,6 +83,11 @@ export default withAuth(
           '/api/auth',
           '/api/rsvp',
           '/api/system/health',
+          '/api/system/cron',
+          '/api/track',
+          '/api/webhooks',
+          '/preferences',
+          '/api/preferences',
           '/',
         ]
 
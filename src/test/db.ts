@@ -0,0 +1,19 @@
+import { PGlite } from '@electric-sql/pglite'
+import { drizzle } from 'drizzle-orm/pglite'
+import { createRequire } from 'module'
+import * as schema from '@/lib/db/schema'
+
+// The ESM build of drizzle-kit's API can't load its own dependencies under vitest
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)('drizzle-kit/api') as typeof import('drizzle-kit/api')
+
+/**
+ * An in-memory Postgres with the app's schema, standing in for DATABASE_URL in tests
+ */
+export async function createTestDatabase() {
+  const client = new PGlite()
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema))
+  for (const statement of statements) {
+    await client.exec(statement)
+  }
+  return drizzle(client, { schema })
+}
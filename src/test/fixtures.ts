@@ -0,0 +1,36 @@
+import { randomUUID } from 'crypto'
+import { db } from '@/lib/db'
+import { events, guests, users, type NewEvent, type NewGuest } from '@/lib/db/schema'
+
+/**
+ * An event owned by a new user. Every test makes its own, so tests sharing the
+ * in-memory database never see each other's guests.
+ */
+export async function createEvent(values: Partial<NewEvent> = {}) {
+  const [user] = await db.insert(users).values({
+    email: `${randomUUID()}@example.com`,
+    first_name: 'Test',
+    last_name: 'Planner'
+  }).returning()
+
+  const [event] = await db.insert(events).values({
+    name: 'Test Wedding',
+    couple_names: 'Alex & Sam',
+    wedding_date: '2030-06-01',
+    status: 'active',
+    created_by: user.id,
+    ...values
+  }).returning()
+  return event
+}
+
+export async function createGuest(eventId: string, values: Partial<NewGuest> = {}) {
+  const [guest] = await db.insert(guests).values({
+    event_id: eventId,
+    first_name: 'Guest',
+    last_name: randomUUID().slice(0, 8),
+    side: 'mutual',
+    ...values
+  }).returning()
+  return guest
+}
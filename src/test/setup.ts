@@ -0,0 +1,10 @@
+import { vi } from 'vitest'
+
+process.env.NEXTAUTH_SECRET ??= 'test-secret'
+process.env.NEXT_PUBLIC_APP_URL ??= 'https://wedding.test'
+
+vi.mock('@/lib/db', async () => {
+  const schema = await import('@/lib/db/schema')
+  const { createTestDatabase } = await import('./db')
+  return { ...schema, db: await createTestDatabase() }
+})
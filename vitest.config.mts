@@ -0,0 +1,19 @@
+import { defineConfig } from 'vitest/config'
+import { fileURLToPath } from 'url'
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('./src', import.meta.url))
+    }
+  },
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+    setupFiles: ['src/test/setup.ts'],
+    // Each test file boots its own in-memory Postgres; one at a time keeps memory flat
+    fileParallelism: false,
+    testTimeout: 30000,
+    hookTimeout: 60000
+  }
+})